@@ -28,6 +28,8 @@ module.exports = {
     '@rschedule/json-tools': '<rootDir>/../json-tools/src',
     '@rschedule/rule-tools/(.*)': '<rootDir>/../rule-tools/src/$1',
     '@rschedule/rule-tools': '<rootDir>/../rule-tools/src',
+    '@rschedule/text-tools/(.*)': '<rootDir>/../text-tools/src/$1',
+    '@rschedule/text-tools': '<rootDir>/../text-tools/src',
     '@rschedule/recurrence-rules-resolver/(.*)': '<rootDir>/../recurrence-rules-resolver/src/$1',
     '@rschedule/recurrence-rules-resolver': '<rootDir>/../recurrence-rules-resolver/src',
     '@rschedule/joda-date-adapter/(.*)': '<rootDir>/../joda-date-adapter/src/$1',
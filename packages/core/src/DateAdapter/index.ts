@@ -795,6 +795,24 @@ export function getDaysInYear(year: number) {
   return isLeapYear(year) ? 366 : 365;
 }
 
+/**
+ * Returns the start of the quarter which contains the date. Quarters are
+ * three month periods and the first quarter of the (fiscal) year begins
+ * in the `fiscalYearStart` month.
+ */
+export function getStartOfQuarter(date: DateTime, fiscalYearStart: DateAdapter.Month = 1) {
+  const offset = (date.get('month') - fiscalYearStart + 12) % 3;
+
+  return date.granularity('month').subtract(offset, 'month');
+}
+
+/**
+ * Returns the quarter (1 - 4) of the (fiscal) year which contains the date.
+ */
+export function getQuarterOfYear(date: DateTime, fiscalYearStart: DateAdapter.Month = 1) {
+  return Math.floor(((date.get('month') - fiscalYearStart + 12) % 12) / 3) + 1;
+}
+
 function getUTCYearDay(now: Date) {
   const start = new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
 
@@ -0,0 +1,101 @@
+import {
+  getFiscalPeriod,
+  getFiscalPeriods,
+  getFiscalYearEnd,
+  IFiscalCalendar,
+} from '@rschedule/core';
+import { dateTime } from './rules/test-utilities';
+
+const NRF_CALENDAR: IFiscalCalendar = {
+  pattern: '4-5-4',
+  yearEnd: 'NEAREST',
+  yearEndMonth: 1,
+  yearEndWeekday: 'SA',
+};
+
+describe('getFiscalYearEnd', () => {
+  it('NEAREST', () => {
+    expect(getFiscalYearEnd(dateTime(2019), 2023, NRF_CALENDAR)).toEqual(dateTime(2023, 1, 28));
+    expect(getFiscalYearEnd(dateTime(2019), 2024, NRF_CALENDAR)).toEqual(dateTime(2024, 2, 3));
+    expect(getFiscalYearEnd(dateTime(2019), 2025, NRF_CALENDAR)).toEqual(dateTime(2025, 2, 1));
+  });
+
+  it('LAST', () => {
+    const calendar: IFiscalCalendar = { ...NRF_CALENDAR, yearEnd: 'LAST' };
+
+    expect(getFiscalYearEnd(dateTime(2019), 2023, calendar)).toEqual(dateTime(2023, 1, 28));
+    expect(getFiscalYearEnd(dateTime(2019), 2024, calendar)).toEqual(dateTime(2024, 1, 27));
+    expect(getFiscalYearEnd(dateTime(2019), 2025, calendar)).toEqual(dateTime(2025, 1, 25));
+  });
+});
+
+describe('getFiscalPeriods', () => {
+  it('52 week year', () => {
+    const periods = getFiscalPeriods(dateTime(2024, 6, 10, 12), NRF_CALENDAR);
+
+    expect(periods.length).toBe(12);
+    expect(periods[0]).toEqual({
+      year: 2025,
+      period: 1,
+      start: dateTime(2024, 2, 4),
+      end: dateTime(2024, 3, 3),
+    });
+    expect(periods[1]).toEqual({
+      year: 2025,
+      period: 2,
+      start: dateTime(2024, 3, 3),
+      end: dateTime(2024, 4, 7),
+    });
+    expect(periods[11]).toEqual({
+      year: 2025,
+      period: 12,
+      start: dateTime(2025, 1, 5),
+      end: dateTime(2025, 2, 2),
+    });
+  });
+
+  it('53 week year', () => {
+    const periods = getFiscalPeriods(dateTime(2024, 2, 3), NRF_CALENDAR);
+
+    expect(periods[0].start).toEqual(dateTime(2023, 1, 29));
+    expect(periods[11]).toEqual({
+      year: 2024,
+      period: 12,
+      start: dateTime(2023, 12, 31),
+      end: dateTime(2024, 2, 4),
+    });
+  });
+
+  it('fiscal year ending at the start of the following year', () => {
+    const calendar: IFiscalCalendar = {
+      pattern: '4-4-5',
+      yearEnd: 'NEAREST',
+      yearEndMonth: 12,
+      yearEndWeekday: 'FR',
+    };
+
+    // 2021/12/31 is a friday
+    expect(getFiscalPeriods(dateTime(2022, 1, 1), calendar)[0].start).toEqual(dateTime(2022, 1, 1));
+    // 2025/12/31 is a wednesday
+    expect(getFiscalPeriods(dateTime(2026, 1, 2), calendar)[0]).toEqual({
+      year: 2025,
+      period: 1,
+      start: dateTime(2025, 1, 4),
+      end: dateTime(2025, 2, 1),
+    });
+  });
+});
+
+describe('getFiscalPeriod', () => {
+  it('5-4-4', () => {
+    const calendar: IFiscalCalendar = { ...NRF_CALENDAR, pattern: '5-4-4' };
+
+    expect(getFiscalPeriod(dateTime(2024, 3, 9, 23, 59), calendar)).toEqual({
+      year: 2025,
+      period: 1,
+      start: dateTime(2024, 2, 4),
+      end: dateTime(2024, 3, 10),
+    });
+    expect(getFiscalPeriod(dateTime(2024, 3, 10), calendar).period).toBe(2);
+  });
+});
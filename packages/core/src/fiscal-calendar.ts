@@ -0,0 +1,93 @@
+import { DateAdapter, DateTime, getDifferenceBetweenWeekdays } from './DateAdapter';
+
+/**
+ * A retail fiscal calendar (e.g. the "4-4-5" calendar). Each fiscal year
+ * contains 52 or 53 whole weeks and ends on a `yearEndWeekday`. This is
+ * either the last `yearEndWeekday` in the `yearEndMonth` (`"LAST"`) or the
+ * `yearEndWeekday` nearest to the end of the `yearEndMonth` (`"NEAREST"`).
+ *
+ * Each quarter of a fiscal year contains three fiscal periods and the
+ * `pattern` describes the number of weeks in each of those periods. In
+ * fiscal years with 53 weeks, the extra week is added to the last period.
+ */
+export interface IFiscalCalendar {
+  pattern: '4-4-5' | '4-5-4' | '5-4-4';
+  yearEnd: 'LAST' | 'NEAREST';
+  yearEndMonth: DateAdapter.Month;
+  yearEndWeekday: DateAdapter.Weekday;
+}
+
+export interface IFiscalPeriod {
+  /** The fiscal year, numbered using the year of the `yearEndMonth` in which it ends */
+  year: number;
+  /** The fiscal period within the fiscal year (1 - 12) */
+  period: number;
+  /** The start of the first day of the fiscal period */
+  start: DateTime;
+  /** The start of the first day of the following fiscal period */
+  end: DateTime;
+}
+
+export const FISCAL_CALENDAR_PATTERNS = ['4-4-5', '4-5-4', '5-4-4'];
+
+export const FISCAL_CALENDAR_YEAR_ENDS = ['LAST', 'NEAREST'];
+
+/**
+ * Returns the start of the last day of the fiscal year which ends
+ * in (or, for `"NEAREST"`, near) the `yearEndMonth` of the provided year.
+ * The `date` argument is only used to construct the returned `DateTime`.
+ */
+export function getFiscalYearEnd(date: DateTime, year: number, calendar: IFiscalCalendar) {
+  const monthEnd = date
+    .granularity('year')
+    .set('year', year)
+    .set('month', calendar.yearEndMonth)
+    .endGranularity('month')
+    .granularity('day');
+
+  const difference = getDifferenceBetweenWeekdays(calendar.yearEndWeekday, monthEnd.get('weekday'));
+
+  const yearEnd = monthEnd.subtract(difference, 'day');
+
+  // the nearest `yearEndWeekday` might be at the start of the following month
+  return calendar.yearEnd === 'NEAREST' && difference > 3 ? yearEnd.add(1, 'week') : yearEnd;
+}
+
+/**
+ * Returns the 12 fiscal periods of the fiscal year which contains the date.
+ */
+export function getFiscalPeriods(date: DateTime, calendar: IFiscalCalendar): IFiscalPeriod[] {
+  const day = date.granularity('day');
+
+  let year = day.get('year');
+
+  if (getFiscalYearEnd(day, year, calendar).isBefore(day)) {
+    year++;
+  } else if (getFiscalYearEnd(day, year - 1, calendar).isAfterOrEqual(day)) {
+    year--;
+  }
+
+  const end = getFiscalYearEnd(day, year, calendar).add(1, 'day');
+  const weeks = calendar.pattern.split('-').map(length => parseInt(length, 10));
+  const periods: IFiscalPeriod[] = [];
+
+  let start = getFiscalYearEnd(day, year - 1, calendar).add(1, 'day');
+
+  for (let period = 1; period <= 12; period++) {
+    // the last period also contains the 53rd week, if there is one
+    const periodEnd = period === 12 ? end : start.add(weeks[(period - 1) % 3], 'week');
+
+    periods.push({ year, period, start, end: periodEnd });
+
+    start = periodEnd;
+  }
+
+  return periods;
+}
+
+/**
+ * Returns the fiscal period which contains the date.
+ */
+export function getFiscalPeriod(date: DateTime, calendar: IFiscalCalendar): IFiscalPeriod {
+  return getFiscalPeriods(date, calendar).find(period => period.end.isAfter(date))!;
+}
@@ -0,0 +1,254 @@
+import { context, dateAdapterFn, TIMEZONES } from '../../../../tests/utilities';
+
+import { DateAdapter, DateAdapterBase } from '@rschedule/core';
+
+import { AsyncDates, Dates, IAsyncDatesWindow } from '@rschedule/core/generators';
+
+export default function asyncDatesTests() {
+  describe('AsyncDates', () => {
+    context(DateAdapterBase.adapter.name, () => {
+      const zones = !DateAdapterBase.adapter.hasTimezoneSupport ? [null, 'UTC'] : TIMEZONES;
+
+      zones.forEach(zone => {
+        // function to create new dateAdapter instances
+        const dateAdapter = dateAdapterFn(zone);
+
+        context(zone, timezone => {
+          const expectation = [
+            dateAdapter(1998, 1, 1, 9, 0),
+            dateAdapter(1998, 1, 1, 9, 0),
+            dateAdapter(1998, 3, 4, 9, 0),
+            dateAdapter(2000, 1, 1, 9, 0),
+            dateAdapter(2017, 1, 1, 9, 0),
+          ];
+
+          let windows: IAsyncDatesWindow[];
+          let dates: AsyncDates;
+
+          function asyncDates(args: { window?: DateAdapter.TimeUnit; duration?: number } = {}) {
+            return new AsyncDates({
+              source: async window => {
+                windows.push(window);
+
+                return expectation.filter(
+                  date =>
+                    date.valueOf() >= window.start.valueOf() &&
+                    date.valueOf() <= window.end.valueOf(),
+                );
+              },
+              start: dateAdapter(1997, 6, 1),
+              end: dateAdapter(2018, 6, 1),
+              timezone,
+              ...args,
+            });
+          }
+
+          async function toISOStrings(
+            generator: AsyncDates,
+            args: { start?: DateAdapter; end?: DateAdapter; reverse?: boolean; take?: number } = {},
+          ) {
+            return (await generator.occurrencesAsync(args).toArray()).map(date =>
+              date.toISOString(),
+            );
+          }
+
+          function windowStarts() {
+            return windows.map(window => window.start.toISOString());
+          }
+
+          beforeEach(() => {
+            windows = [];
+            dates = asyncDates();
+          });
+
+          it('is instantiable', () => {
+            expect(dates).toBeInstanceOf(AsyncDates);
+            expect(dates.isInfinite).toBe(false);
+            expect(dates.hasDuration).toBe(false);
+            expect(windows).toEqual([]);
+          });
+
+          it('set timezone', () => {
+            const utc = dates.set('timezone', 'UTC');
+
+            expect(utc.timezone).toBe('UTC');
+            expect(dates.set('timezone', timezone)).toBe(dates);
+          });
+
+          describe('occurrencesAsync()', () => {
+            it('no args', async () => {
+              expect(await toISOStrings(dates)).toEqual(expectation.map(d => d.toISOString()));
+            });
+
+            it('start', async () => {
+              expect(await toISOStrings(dates, { start: expectation[2] })).toEqual(
+                expectation.slice(2).map(d => d.toISOString()),
+              );
+            });
+
+            it('end', async () => {
+              expect(await toISOStrings(dates, { end: expectation[2] })).toEqual(
+                expectation.slice(0, 3).map(d => d.toISOString()),
+              );
+            });
+
+            it('reverse', async () => {
+              expect(await toISOStrings(dates, { reverse: true })).toEqual(
+                expectation.map(d => d.toISOString()).reverse(),
+              );
+            });
+
+            it('reverse end', async () => {
+              expect(await toISOStrings(dates, { reverse: true, end: expectation[2] })).toEqual(
+                expectation
+                  .slice(0, 3)
+                  .map(d => d.toISOString())
+                  .reverse(),
+              );
+            });
+
+            it('take', async () => {
+              expect(await toISOStrings(dates, { take: 3 })).toEqual(
+                expectation.slice(0, 3).map(d => d.toISOString()),
+              );
+            });
+
+            it('ignores dates outside of `start` and `end`', async () => {
+              dates = new AsyncDates({
+                source: async () => expectation,
+                start: dateAdapter(1998, 2, 1),
+                end: dateAdapter(2010, 1, 1),
+                timezone,
+              });
+
+              expect(await toISOStrings(dates)).toEqual(
+                expectation.slice(2, 4).map(d => d.toISOString()),
+              );
+            });
+
+            it('applies duration', async () => {
+              dates = asyncDates({ duration: 30 });
+
+              expect(dates.hasDuration).toBe(true);
+              expect(
+                (await dates.occurrencesAsync().toArray()).every(date => date.duration === 30),
+              ).toBe(true);
+            });
+
+            it('sets generators', async () => {
+              const [date] = await dates.occurrencesAsync({ take: 1 }).toArray();
+
+              expect(date.generators).toEqual([dates]);
+            });
+
+            it('for await', async () => {
+              const results: string[] = [];
+
+              for await (const date of dates.occurrencesAsync({ end: expectation[2] })) {
+                results.push(date.toISOString());
+              }
+
+              expect(results).toEqual(expectation.slice(0, 3).map(d => d.toISOString()));
+            });
+
+            it('next() skipToDate', async () => {
+              const iterator = dates.occurrencesAsync();
+
+              expect((await iterator.next()).value!.toISOString()).toBe(
+                expectation[0].toISOString(),
+              );
+
+              expect(
+                (await iterator.next({ skipToDate: dateAdapter(2016, 1, 1) })).value!.toISOString(),
+              ).toBe(expectation[4].toISOString());
+
+              expect((await iterator.next()).done).toBe(true);
+
+              // the windows between 1998 and 2016 are never loaded
+              expect(windowStarts()).toEqual([
+                dateAdapter(1997, 1, 1).toISOString(),
+                dateAdapter(1998, 1, 1).toISOString(),
+                dateAdapter(2016, 1, 1).toISOString(),
+                dateAdapter(2017, 1, 1).toISOString(),
+                dateAdapter(2018, 1, 1).toISOString(),
+              ]);
+            });
+
+            it('throws when iterated synchronously', () => {
+              expect(() => dates.occurrences().toArray()).toThrowError();
+            });
+          });
+
+          describe('windows', () => {
+            it('are loaded once and only when needed', async () => {
+              await dates.occurrencesAsync({ take: 2 }).toArray();
+
+              expect(windowStarts()).toEqual([
+                dateAdapter(1997, 1, 1).toISOString(),
+                dateAdapter(1998, 1, 1).toISOString(),
+              ]);
+
+              await dates.occurrencesAsync().toArray();
+
+              expect(windows.length).toBe(22);
+              expect(new Set(windowStarts()).size).toBe(22);
+            });
+
+            it('month', async () => {
+              dates = asyncDates({ window: 'month' });
+
+              expect(await toISOStrings(dates, { end: dateAdapter(1998, 3, 31) })).toEqual(
+                expectation.slice(0, 3).map(d => d.toISOString()),
+              );
+
+              expect(windows.length).toBe(10);
+              expect(windows[9].start.toISOString()).toBe(dateAdapter(1998, 3, 1).toISOString());
+              expect(windows[9].end.toISOString()).toBe(
+                dateAdapter(1998, 3, 31, 23, 59, 59, 999).toISOString(),
+              );
+            });
+
+            it('which fail to load are retried', async () => {
+              let fail = true;
+
+              dates = new AsyncDates({
+                source: async window => {
+                  if (fail) {
+                    fail = false;
+                    throw new Error('failed to load');
+                  }
+
+                  return expectation.filter(
+                    date =>
+                      date.valueOf() >= window.start.valueOf() &&
+                      date.valueOf() <= window.end.valueOf(),
+                  );
+                },
+                start: dateAdapter(1997, 6, 1),
+                end: dateAdapter(2018, 6, 1),
+                timezone,
+              });
+
+              await expect(dates.occurrencesAsync().toArray()).rejects.toThrowError(
+                'failed to load',
+              );
+
+              expect(await toISOStrings(dates)).toEqual(expectation.map(d => d.toISOString()));
+            });
+          });
+
+          it('matches `Dates`', async () => {
+            const sync = new Dates({ dates: expectation, timezone });
+
+            expect(await toISOStrings(dates, { reverse: true, take: 4 })).toEqual(
+              sync
+                .occurrences({ reverse: true, take: 4 })
+                .toArray()
+                .map(d => d.toISOString()),
+            );
+          });
+        });
+      });
+    });
+  });
+}
@@ -0,0 +1,196 @@
+import { DateAdapter, DateInput, DateTime, dateTimeSortComparer } from '@rschedule/core';
+
+import {
+  AsyncOccurrenceGeneratorRunResult,
+  AsyncOccurrenceIterator,
+  IOccurrencesAsyncArgs,
+  IRunArgs,
+  OccurrenceGenerator,
+  OccurrenceGeneratorRunResult,
+} from './occurrence-generator';
+
+export interface IAsyncDatesWindow {
+  start: DateAdapter;
+  end: DateAdapter;
+}
+
+export interface IAsyncDatesArgs<D = any> {
+  /**
+   * Returns the dates which occur within the provided window of time
+   * (inclusive). Dates outside of the window are ignored.
+   */
+  source: (window: IAsyncDatesWindow) => Promise<ReadonlyArray<DateInput>>;
+  /** The first window of time is the window containing `start` */
+  start: DateInput;
+  /** The last window of time is the window containing `end` */
+  end: DateInput;
+  /** The length of each window of time passed to `source`. Default is `"year"`. */
+  window?: DateAdapter.TimeUnit;
+  timezone?: string | null;
+  duration?: number;
+  maxDuration?: number;
+  data?: D;
+}
+
+/**
+ * Like `Dates` except that the dates are loaded lazily (e.g. from a database) by
+ * calling the async `source` function with each window of time (e.g. each year)
+ * iterated over. Each window's dates are only loaded once per `AsyncDates` object.
+ *
+ * Because its dates are loaded asynchronously, an `AsyncDates` object can only be
+ * iterated via `occurrencesAsync()` (either directly or as part of a `Calendar` or of
+ * the `add()`, `subtract()`, `intersection()` and `unique()` operators).
+ */
+export class AsyncDates<Data = any> extends OccurrenceGenerator {
+  readonly isInfinite = false;
+  readonly hasDuration: boolean;
+  readonly timezone!: string | null; // set by `OccurrenceGenerator`
+
+  readonly start: DateAdapter;
+  readonly end: DateAdapter;
+  readonly window: DateAdapter.TimeUnit;
+  readonly duration?: number;
+
+  /**
+   * Convenience property for holding arbitrary data. Accessible on individual DateAdapters
+   * generated by this `AsyncDates` object via the `DateAdapter#generators` property. Unlike
+   * the rest of the `AsyncDates` object, the data property is mutable.
+   */
+  data: Data;
+
+  private readonly source: IAsyncDatesArgs['source'];
+  private readonly loadedWindows = new Map<number, Promise<DateTime[]>>();
+
+  constructor(args: IAsyncDatesArgs<Data>) {
+    super({ timezone: args.timezone, maxDuration: args.maxDuration || args.duration });
+
+    this.source = args.source;
+    this.start = this.normalizeDateInputToAdapter(args.start).set('timezone', this.timezone);
+    this.end = this.normalizeDateInputToAdapter(args.end).set('timezone', this.timezone);
+    this.window = args.window || 'year';
+    this.duration = args.duration;
+    this.hasDuration = !!args.duration;
+    this.data = args.data as Data;
+  }
+
+  occurrencesAsync(args: IOccurrencesAsyncArgs = {}): AsyncOccurrenceIterator<[this]> {
+    return new AsyncOccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
+  }
+
+  set(_: 'timezone', value: string | null): AsyncDates<Data> {
+    if (value === this.timezone) return this;
+
+    return new AsyncDates({
+      source: this.source,
+      start: this.start,
+      end: this.end,
+      window: this.window,
+      timezone: value,
+      duration: this.duration,
+      maxDuration: this.maxDuration,
+      data: this.data,
+    });
+  }
+
+  _run(): OccurrenceGeneratorRunResult {
+    throw new Error(
+      '`AsyncDates` objects can only be iterated asynchronously (e.g. via `occurrencesAsync()`).',
+    );
+  }
+
+  async *_runAsync(args: IRunArgs = {}): AsyncOccurrenceGeneratorRunResult {
+    const first = this.start.toDateTime();
+    const last = this.end.toDateTime();
+    const start = args.start && args.start.isAfter(first) ? args.start : first;
+    const end = args.end && args.end.isBefore(last) ? args.end : last;
+
+    let window = this.getWindow(args.reverse ? end : start);
+    let skipToDate: DateTime | undefined;
+    let index = 0;
+
+    while (args.reverse ? window.end.isAfterOrEqual(start) : window.start.isBeforeOrEqual(end)) {
+      const dates = (await this.loadWindow(window)).filter(
+        date => date.isAfterOrEqual(start) && date.isBeforeOrEqual(end),
+      );
+
+      if (args.reverse) dates.reverse();
+
+      let yieldArgs: { skipToDate?: DateTime } | undefined;
+
+      for (let date of dates) {
+        if (skipToDate && (args.reverse ? date.isAfter(skipToDate) : date.isBefore(skipToDate))) {
+          continue;
+        }
+
+        if (args.take && index >= args.take) return;
+
+        date = date.add(this, 'generator');
+
+        yieldArgs = yield this.normalizeRunOutput(date);
+
+        index++;
+
+        // Like `Dates`, when given a `skipToDate` we start over from the window
+        // containing it so that the same date can be picked again.
+        if (yieldArgs && yieldArgs.skipToDate) break;
+      }
+
+      if (yieldArgs && yieldArgs.skipToDate) {
+        skipToDate = yieldArgs.skipToDate;
+        window = this.getWindow(
+          args.reverse
+            ? skipToDate.isAfter(end)
+              ? end
+              : skipToDate
+            : skipToDate.isBefore(start)
+            ? start
+            : skipToDate,
+        );
+        continue;
+      }
+
+      window = this.getWindow(
+        args.reverse ? window.start.subtract(1, 'millisecond') : window.end.add(1, 'millisecond'),
+      );
+    }
+  }
+
+  private getWindow(date: DateTime) {
+    return {
+      start: date.granularity(this.window),
+      end: date.endGranularity(this.window),
+    };
+  }
+
+  /** Returns the sorted dates within the window, calling `source` if necessary */
+  private async loadWindow(window: { start: DateTime; end: DateTime }) {
+    const key = window.start.valueOf();
+
+    if (!this.loadedWindows.has(key)) {
+      const promise = this.source({
+        start: this.dateAdapter.fromDateTime(window.start),
+        end: this.dateAdapter.fromDateTime(window.end),
+      }).then(dates =>
+        dates
+          .map(date => {
+            let adapter = this.normalizeDateInputToAdapter(date);
+
+            if (this.duration && !adapter.duration) {
+              adapter = adapter.set('duration', this.duration);
+            }
+
+            return adapter.set('timezone', this.timezone).toDateTime();
+          })
+          .filter(date => date.isAfterOrEqual(window.start) && date.isBeforeOrEqual(window.end))
+          .sort(dateTimeSortComparer),
+      );
+
+      // a window which failed to load is loaded again the next time it's iterated over
+      promise.catch(() => this.loadedWindows.delete(key));
+
+      this.loadedWindows.set(key, promise);
+    }
+
+    return this.loadedWindows.get(key)!;
+  }
+}
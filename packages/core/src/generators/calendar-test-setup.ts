@@ -1,11 +1,12 @@
 import { context, dateAdapterFn, TIMEZONES, toISOStrings } from '../../../../tests/utilities';
 
-import { DateAdapter, DateAdapterBase } from '@rschedule/core';
+import { ArgumentError, DateAdapter, DateAdapterBase } from '@rschedule/core';
 import {
   Calendar,
   CollectionsGranularity,
   Dates,
   ICollectionsArgs,
+  IOccurrencesArgs,
   Rule,
   Schedule,
 } from '@rschedule/core/generators';
@@ -22,6 +23,10 @@ export default function calendarTests() {
       .map(({ dates }) => dates.map(date => date.toISOString()));
   }
 
+  function reverseCollections(collections: DateAdapter[][]) {
+    return collections.map(dates => dates.slice().reverse()).reverse();
+  }
+
   function testOccurrences(
     name: string,
     calendar: Calendar,
@@ -54,6 +59,15 @@ export default function calendarTests() {
           });
         }
 
+        it('count', () => {
+          expect(calendar.count()).toBe(expectation.length);
+
+          if (expectation.length > 1) {
+            expect(calendar.count({ start: expectation[index] })).toBe(expectation.length - index);
+            expect(calendar.count({ end: expectation[index] })).toBe(index + 1);
+          }
+        });
+
         it('reverse', () => {
           expect(toISOStrings(calendar, { reverse: true })).toEqual(
             toISOStrings(expectation.reverse()),
@@ -103,6 +117,12 @@ export default function calendarTests() {
               );
             });
 
+            it('reverse', () => {
+              expect(toISOStringsCol(calendar, { granularity, reverse: true })).toEqual(
+                toISOStringsCol(reverseCollections(expectations)),
+              );
+            });
+
             if (expectations.length > 1) {
               it('start', () => {
                 expect(
@@ -121,6 +141,28 @@ export default function calendarTests() {
                   }),
                 ).toEqual(toISOStringsCol(expectations.slice(0, collectionIndex + 1)));
               });
+
+              it('reverse start', () => {
+                expect(
+                  toISOStringsCol(calendar, {
+                    granularity,
+                    reverse: true,
+                    start: expectations[collectionIndex][0],
+                  }),
+                ).toEqual(toISOStringsCol(reverseCollections(expectations.slice(collectionIndex))));
+              });
+
+              it('reverse end', () => {
+                expect(
+                  toISOStringsCol(calendar, {
+                    granularity,
+                    reverse: true,
+                    end: expectations[collectionIndex][0],
+                  }),
+                ).toEqual(
+                  toISOStringsCol(reverseCollections(expectations.slice(0, collectionIndex + 1))),
+                );
+              });
             }
           });
         });
@@ -147,6 +189,21 @@ export default function calendarTests() {
               ).toEqual(toISOStringsCol(expectations));
             });
 
+            it('reverse', () => {
+              expect(
+                toISOStringsCol(calendar, {
+                  granularity: 'month',
+                  weekStart: 'MO',
+                  reverse: true,
+                  start: expectations[0][0],
+                  end:
+                    expectations[expectations.length - 1][
+                      expectations[expectations.length - 1].length - 1
+                    ],
+                }),
+              ).toEqual(toISOStringsCol(reverseCollections(expectations)));
+            });
+
             if (expectations.length > 1) {
               it('start', () => {
                 expect(
@@ -233,6 +290,400 @@ export default function calendarTests() {
             ]);
           });
 
+          it('skipEmptyPeriods: false, reverse', () => {
+            const calendar = new Calendar({
+              schedules: new Schedule({
+                rrules: [
+                  // YearlyByMonthAndMonthDay
+                  {
+                    frequency: 'YEARLY',
+                    count: 3,
+                    byMonthOfYear: [1, 3],
+                    byDayOfMonth: [5, 7],
+                    start: dateAdapter(1997, 9, 2, 9),
+                  },
+                ],
+              }),
+              timezone,
+            });
+
+            let result = calendar
+              .collections({ granularity: 'month', reverse: true })
+              .toArray()
+              .map(({ dates }) => dates.map(date => date.toISOString()));
+
+            expect(result).toEqual([
+              [dateAdapter(1998, 3, 5, 9, 0).toISOString()],
+              [],
+              [
+                dateAdapter(1998, 1, 7, 9, 0).toISOString(),
+                dateAdapter(1998, 1, 5, 9, 0).toISOString(),
+              ],
+            ]);
+
+            result = calendar
+              .collections({
+                granularity: 'month',
+                reverse: true,
+                start: dateAdapter(1998, 2, 1),
+                end: dateAdapter(1998, 5, 1),
+              })
+              .toArray()
+              .map(({ dates }) => dates.map(date => date.toISOString()));
+
+            expect(result).toEqual([[], [], [dateAdapter(1998, 3, 5, 9, 0).toISOString()]]);
+
+            const collections = calendar
+              .collections({ granularity: 'month', reverse: true, take: 2 })
+              .toArray();
+
+            expect(collections.map(({ periodStart }) => periodStart.toISOString())).toEqual([
+              dateAdapter(1998, 3, 1).toISOString(),
+              dateAdapter(1998, 2, 1).toISOString(),
+            ]);
+          });
+
+          it('reverse matches forward for every granularity', () => {
+            const calendar = new Calendar({
+              schedules: new Schedule({
+                rrules: [
+                  {
+                    frequency: 'WEEKLY',
+                    count: 12,
+                    byDayOfWeek: ['MO', 'FR', 'SA'],
+                    start: dateAdapter(1997, 12, 20, 9),
+                  },
+                ],
+              }),
+              timezone,
+            });
+
+            const granularities: CollectionsGranularity[] = [
+              'millisecond',
+              'second',
+              'minute',
+              'hour',
+              'day',
+              'week',
+              'isoWeek',
+              'month',
+              'quarter',
+              'fiscalPeriod',
+              'year',
+            ];
+
+            granularities.forEach(granularity => {
+              [true, false].forEach(skipEmptyPeriods => {
+                if (
+                  !skipEmptyPeriods &&
+                  ['millisecond', 'second', 'minute'].includes(granularity)
+                ) {
+                  return;
+                }
+
+                const args: ICollectionsArgs = {
+                  granularity,
+                  skipEmptyPeriods,
+                  weekStart: 'SU',
+                  fiscalYearStart: 2,
+                  fiscalCalendar: {
+                    pattern: '4-4-5',
+                    yearEnd: 'LAST',
+                    yearEndMonth: 12,
+                    yearEndWeekday: 'SA',
+                  },
+                };
+
+                const forward = calendar
+                  .collections(args)
+                  .toArray()
+                  .reverse()
+                  .map(({ dates, periodStart }) => [
+                    periodStart.toISOString(),
+                    ...dates.map(date => date.toISOString()).reverse(),
+                  ]);
+
+                const reverse = calendar
+                  .collections({ ...args, reverse: true })
+                  .toArray()
+                  .map(({ dates, periodStart }) => [
+                    periodStart.toISOString(),
+                    ...dates.map(date => date.toISOString()),
+                  ]);
+
+                expect(reverse).toEqual(forward);
+              });
+            });
+          });
+
+          it('reverse throws error for infinite calendars without an end', () => {
+            const calendar = new Calendar({
+              schedules: new Schedule({
+                rrules: [{ frequency: 'DAILY', start: dateAdapter(1997, 9, 2, 9) }],
+              }),
+              timezone,
+            });
+
+            expect(() => calendar.collections({ reverse: true })).toThrowError();
+
+            expect(
+              calendar
+                .collections({
+                  granularity: 'week',
+                  weekStart: 'MO',
+                  reverse: true,
+                  end: dateAdapter(1997, 9, 10, 9),
+                })
+                .toArray()
+                .map(({ dates }) => dates.length),
+            ).toEqual([7, 6]);
+          });
+
+          it('quarter granularity', () => {
+            const calendar = new Calendar({
+              schedules: new Schedule({
+                rrules: [
+                  // YearlyByMonthAndMonthDay
+                  {
+                    frequency: 'YEARLY',
+                    count: 3,
+                    byMonthOfYear: [1, 3],
+                    byDayOfMonth: [5, 7],
+                    start: dateAdapter(1997, 9, 2, 9),
+                  },
+                ],
+              }),
+              timezone,
+            });
+
+            let collections = calendar
+              .collections({ granularity: 'quarter', start: dateAdapter(1997, 9, 2, 9) })
+              .toArray();
+
+            expect(collections.map(({ periodStart }) => periodStart.toISOString())).toEqual([
+              dateAdapter(1997, 7, 1).toISOString(),
+              dateAdapter(1997, 10, 1).toISOString(),
+              dateAdapter(1998, 1, 1).toISOString(),
+            ]);
+
+            expect(collections.map(({ dates }) => dates.map(date => date.toISOString()))).toEqual([
+              [],
+              [],
+              [
+                dateAdapter(1998, 1, 5, 9, 0).toISOString(),
+                dateAdapter(1998, 1, 7, 9, 0).toISOString(),
+                dateAdapter(1998, 3, 5, 9, 0).toISOString(),
+              ],
+            ]);
+
+            collections = calendar
+              .collections({
+                granularity: 'quarter',
+                fiscalYearStart: 2,
+                start: dateAdapter(1997, 9, 2, 9),
+              })
+              .toArray();
+
+            expect(collections.map(({ periodEnd }) => periodEnd.toISOString())).toEqual([
+              dateAdapter(1997, 10, 31, 23, 59, 59, 999).toISOString(),
+              dateAdapter(1998, 1, 31, 23, 59, 59, 999).toISOString(),
+              dateAdapter(1998, 4, 30, 23, 59, 59, 999).toISOString(),
+            ]);
+
+            expect(collections.map(({ dates }) => dates.map(date => date.toISOString()))).toEqual([
+              [],
+              [
+                dateAdapter(1998, 1, 5, 9, 0).toISOString(),
+                dateAdapter(1998, 1, 7, 9, 0).toISOString(),
+              ],
+              [dateAdapter(1998, 3, 5, 9, 0).toISOString()],
+            ]);
+          });
+
+          it('fiscalPeriod granularity', () => {
+            const calendar = new Calendar({
+              schedules: new Schedule({
+                rrules: [
+                  // YearlyByMonthAndMonthDay
+                  {
+                    frequency: 'YEARLY',
+                    count: 3,
+                    byMonthOfYear: [1, 3],
+                    byDayOfMonth: [5, 7],
+                    start: dateAdapter(1997, 9, 2, 9),
+                  },
+                ],
+              }),
+              timezone,
+            });
+
+            expect(() =>
+              calendar.collections({ granularity: 'fiscalPeriod' }).toArray(),
+            ).toThrowError();
+
+            const collections = calendar
+              .collections({
+                granularity: 'fiscalPeriod',
+                fiscalCalendar: {
+                  pattern: '4-4-5',
+                  yearEnd: 'LAST',
+                  yearEndMonth: 12,
+                  yearEndWeekday: 'SA',
+                },
+                start: dateAdapter(1997, 9, 2, 9),
+              })
+              .toArray();
+
+            expect(collections.map(({ periodStart }) => periodStart.toISOString())).toEqual([
+              dateAdapter(1997, 8, 24).toISOString(),
+              dateAdapter(1997, 9, 28).toISOString(),
+              dateAdapter(1997, 10, 26).toISOString(),
+              dateAdapter(1997, 11, 23).toISOString(),
+              dateAdapter(1997, 12, 28).toISOString(),
+              dateAdapter(1998, 1, 25).toISOString(),
+              dateAdapter(1998, 2, 22).toISOString(),
+            ]);
+
+            expect(collections[6].periodEnd.toISOString()).toEqual(
+              dateAdapter(1998, 3, 28, 23, 59, 59, 999).toISOString(),
+            );
+
+            expect(collections.map(({ dates }) => dates.map(date => date.toISOString()))).toEqual([
+              [],
+              [],
+              [],
+              [],
+              [
+                dateAdapter(1998, 1, 5, 9, 0).toISOString(),
+                dateAdapter(1998, 1, 7, 9, 0).toISOString(),
+              ],
+              [],
+              [dateAdapter(1998, 3, 5, 9, 0).toISOString()],
+            ]);
+          });
+
+          describe('custom granularities', () => {
+            const calendar = new Calendar({
+              schedules: new Schedule({
+                rrules: [
+                  // YearlyByMonthAndMonthDay
+                  {
+                    frequency: 'YEARLY',
+                    count: 3,
+                    byMonthOfYear: [1, 3],
+                    byDayOfMonth: [5, 7],
+                    start: dateAdapter(1997, 9, 2, 9),
+                  },
+                ],
+              }),
+              timezone,
+            });
+
+            it('isoWeek', () => {
+              const collections = calendar
+                .collections({ granularity: 'isoWeek', skipEmptyPeriods: true })
+                .toArray();
+
+              expect(collections.map(({ periodStart }) => periodStart.toISOString())).toEqual([
+                dateAdapter(1998, 1, 5).toISOString(),
+                dateAdapter(1998, 3, 2).toISOString(),
+              ]);
+
+              expect(collections[0].periodEnd.toISOString()).toEqual(
+                dateAdapter(1998, 1, 11, 23, 59, 59, 999).toISOString(),
+              );
+
+              expect(collections.map(({ dates }) => dates.map(date => date.toISOString()))).toEqual(
+                [
+                  [
+                    dateAdapter(1998, 1, 5, 9, 0).toISOString(),
+                    dateAdapter(1998, 1, 7, 9, 0).toISOString(),
+                  ],
+                  [dateAdapter(1998, 3, 5, 9, 0).toISOString()],
+                ],
+              );
+            });
+
+            it('occurrence generator', () => {
+              // every other friday
+              const granularity = new Rule({
+                frequency: 'WEEKLY',
+                interval: 2,
+                start: dateAdapter(1997, 12, 26),
+              });
+
+              let collections = calendar
+                .collections({ granularity, skipEmptyPeriods: true })
+                .toArray();
+
+              expect(collections.map(({ periodStart }) => periodStart.toISOString())).toEqual([
+                dateAdapter(1997, 12, 26).toISOString(),
+                dateAdapter(1998, 2, 20).toISOString(),
+              ]);
+
+              expect(collections[0].periodEnd.toISOString()).toEqual(
+                dateAdapter(1998, 1, 8, 23, 59, 59, 999).toISOString(),
+              );
+
+              expect(collections.map(({ dates }) => dates.map(date => date.toISOString()))).toEqual(
+                [
+                  [
+                    dateAdapter(1998, 1, 5, 9, 0).toISOString(),
+                    dateAdapter(1998, 1, 7, 9, 0).toISOString(),
+                  ],
+                  [dateAdapter(1998, 3, 5, 9, 0).toISOString()],
+                ],
+              );
+
+              collections = calendar
+                .collections({ granularity, start: dateAdapter(1998, 1, 1) })
+                .toArray();
+
+              expect(collections.map(({ periodStart }) => periodStart.toISOString())).toEqual([
+                dateAdapter(1997, 12, 26).toISOString(),
+                dateAdapter(1998, 1, 9).toISOString(),
+                dateAdapter(1998, 1, 23).toISOString(),
+                dateAdapter(1998, 2, 6).toISOString(),
+                dateAdapter(1998, 2, 20).toISOString(),
+              ]);
+
+              expect(
+                calendar
+                  .collections({ granularity, reverse: true })
+                  .toArray()
+                  .map(({ dates }) => dates.length),
+              ).toEqual([1, 0, 0, 0, 2]);
+            });
+
+            it('finite occurrence generator', () => {
+              const granularity = new Dates({
+                dates: [dateAdapter(1998, 1, 6), dateAdapter(1998, 3, 1), dateAdapter(1998, 4, 1)],
+              });
+
+              const collections = calendar.collections({ granularity }).toArray();
+
+              expect(collections.map(({ periodStart }) => periodStart.toISOString())).toEqual([
+                dateAdapter(1998, 1, 6).toISOString(),
+                dateAdapter(1998, 3, 1).toISOString(),
+              ]);
+
+              expect(collections.map(({ dates }) => dates.map(date => date.toISOString()))).toEqual(
+                [
+                  [dateAdapter(1998, 1, 7, 9, 0).toISOString()],
+                  [dateAdapter(1998, 3, 5, 9, 0).toISOString()],
+                ],
+              );
+
+              expect(
+                calendar
+                  .collections({
+                    granularity: new Dates({ dates: [dateAdapter(1998, 1, 6)] }),
+                  })
+                  .toArray(),
+              ).toEqual([]);
+            });
+          });
+
           testOccurrences(
             '1 schedule & 1 rule',
             new Calendar({
@@ -548,6 +999,155 @@ export default function calendarTests() {
             },
           );
 
+          describe('cursors', () => {
+            const calendar = new Calendar({
+              schedules: [
+                new Schedule({
+                  rrules: [{ frequency: 'DAILY', count: 3, start: dateAdapter(1998, 1, 1, 9) }],
+                  data: 'schedule 1',
+                }),
+                new Schedule({
+                  rrules: [{ frequency: 'DAILY', count: 3, start: dateAdapter(1998, 1, 2, 9) }],
+                  data: 'schedule 2',
+                }),
+                new Dates({
+                  dates: [
+                    dateAdapter(1998, 1, 2, 9),
+                    dateAdapter(1998, 1, 2, 9),
+                    dateAdapter(1998, 2, 3, 9),
+                  ],
+                  data: 'dates',
+                }),
+              ],
+              timezone,
+            });
+
+            function toStrings(dates: Array<DateAdapter & { generators: any[] }>) {
+              return dates.map(date => `${date.toISOString()} ${date.generators[1].data}`);
+            }
+
+            function pageOccurrences(args: IOccurrencesArgs) {
+              const pages: string[][] = [];
+              let cursor: string | undefined;
+
+              do {
+                const iterator = calendar.occurrences({ ...args, cursor });
+
+                pages.push(toStrings(iterator.toArray()));
+
+                cursor = iterator.cursor();
+              } while (pages[pages.length - 1].length > 0);
+
+              return pages;
+            }
+
+            function pageCollections(args: ICollectionsArgs) {
+              const pages: string[] = [];
+              let cursor: string | undefined;
+
+              while (true) {
+                const iterator = calendar.collections({ ...args, take: 1, cursor });
+                const collections = iterator.toArray();
+
+                if (collections.length === 0) return pages;
+
+                pages.push(
+                  ...collections.map(
+                    ({ periodStart, dates }) =>
+                      `${periodStart.toISOString()}: ${toISOStrings(dates).join()}`,
+                  ),
+                );
+
+                cursor = iterator.cursor();
+              }
+            }
+
+            it('occurrences', () => {
+              const pages = pageOccurrences({ take: 2 });
+
+              expect(pages.map(page => page.length)).toEqual([2, 2, 2, 2, 1, 0]);
+              expect(([] as string[]).concat(...pages)).toEqual(
+                toStrings(calendar.occurrences().toArray()),
+              );
+            });
+
+            it('occurrences reverse', () => {
+              const pages = pageOccurrences({ take: 3, reverse: true });
+
+              expect(([] as string[]).concat(...pages)).toEqual(
+                toStrings(calendar.occurrences({ reverse: true }).toArray()),
+              );
+            });
+
+            it('occurrences with a start and end', () => {
+              const args = { start: dateAdapter(1998, 1, 2, 9), end: dateAdapter(1998, 1, 3, 9) };
+
+              expect(([] as string[]).concat(...pageOccurrences({ ...args, take: 1 }))).toEqual(
+                toStrings(calendar.occurrences(args).toArray()),
+              );
+            });
+
+            it('are serializable', () => {
+              const iterator = calendar.occurrences({ take: 3 });
+
+              iterator.toArray();
+
+              const cursor = JSON.parse(JSON.stringify({ cursor: iterator.cursor() })).cursor;
+
+              expect(toStrings(calendar.occurrences({ cursor, take: 1 }).toArray())).toEqual(
+                toStrings(calendar.occurrences().toArray()).slice(3, 4),
+              );
+            });
+
+            it('throws for invalid cursors', () => {
+              const iterator = calendar.occurrences({ take: 1 });
+
+              iterator.toArray();
+
+              const cursor = iterator.cursor();
+
+              expect(() => calendar.occurrences({ cursor: 'invalid' })).toThrowError(ArgumentError);
+              expect(() => calendar.occurrences({ cursor, reverse: true })).toThrowError(
+                ArgumentError,
+              );
+              expect(() => calendar.collections({ cursor })).toThrowError(ArgumentError);
+
+              const json = JSON.parse(cursor!);
+
+              [
+                { ...json, date: { foo: 1 } },
+                { ...json, path: 'foo' },
+                { ...json, path: [0.5] },
+                { ...json, index: -1 },
+              ].forEach(invalid => {
+                expect(() =>
+                  calendar.occurrences({ cursor: JSON.stringify(invalid) }),
+                ).toThrowError(ArgumentError);
+              });
+            });
+
+            it('collections', () => {
+              [
+                { granularity: 'day' as const },
+                { granularity: 'day' as const, skipEmptyPeriods: true },
+                { granularity: 'day' as const, reverse: true },
+                { granularity: 'day' as const, skipEmptyPeriods: true, reverse: true },
+                { granularity: 'month' as const, weekStart: 'MO' as const },
+                { granularity: 'month' as const, weekStart: 'MO' as const, reverse: true },
+              ].forEach(args => {
+                expect(pageCollections(args)).toEqual(
+                  calendar
+                    .collections(args)
+                    .toArray()
+                    .map(
+                      ({ periodStart, dates }) =>
+                        `${periodStart.toISOString()}: ${toISOStrings(dates).join()}`,
+                    ),
+                );
+              });
+            });
+          });
+
           it('retains generators', () => {
             // YearlyByMonthAndMonthDay
             const rule1 = new Rule(
@@ -1,9 +1,13 @@
 import { ArgumentError, DateTime } from '@rschedule/core';
 
 import {
+  AsyncOccurrenceGeneratorRunResult,
+  AsyncOccurrenceIterator,
   CollectionIterator,
   ICollectionsArgs,
+  ICountRunArgs,
   IOccurrencesArgs,
+  IOccurrencesAsyncArgs,
   IRunArgs,
   OccurrenceGenerator,
   OccurrenceGeneratorRunResult,
@@ -50,6 +54,12 @@ export class Calendar<Data = any> extends OccurrenceGenerator {
     return new OccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
   }
 
+  occurrencesAsync(
+    args: IOccurrencesAsyncArgs = {},
+  ): AsyncOccurrenceIterator<[this, ...OccurrenceGenerator[]]> {
+    return new AsyncOccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
+  }
+
   collections(args: ICollectionsArgs = {}): CollectionIterator<[this, ...OccurrenceGenerator[]]> {
     return new CollectionIterator(this, this.normalizeCollectionsArgs(args));
   }
@@ -95,6 +105,15 @@ export class Calendar<Data = any> extends OccurrenceGenerator {
     throw new ArgumentError('Unknown value for `prop`: ' + `"${prop}"`);
   }
 
+  _children(): ReadonlyArray<OccurrenceGenerator> {
+    return this.schedules;
+  }
+
+  /** The calendar's occurrences are the occurrences of each of its schedules */
+  _count(args: ICountRunArgs = {}): number {
+    return this.schedules.reduce((prev, schedule) => prev + schedule._count(args), 0);
+  }
+
   *_run(args: IRunArgs = {}): OccurrenceGeneratorRunResult {
     if (this.schedules.length === 0) return;
 
@@ -127,4 +146,35 @@ export class Calendar<Data = any> extends OccurrenceGenerator {
 
     return undefined;
   }
+
+  async *_runAsync(args: IRunArgs = {}): AsyncOccurrenceGeneratorRunResult {
+    if (this.schedules.length === 0) return;
+
+    const count = args.take;
+
+    delete args.take;
+
+    let iterator: AsyncOccurrenceGeneratorRunResult;
+
+    if (this.schedules.length === 1) {
+      iterator = this.schedules[0]._runAsync(args);
+    } else {
+      iterator = new AddOperator(this.schedules, {
+        timezone: this.timezone,
+      })._runAsync(args);
+    }
+
+    let date = (await iterator.next()).value;
+    let index = 0;
+
+    while (date && (count === undefined || count > index)) {
+      date = date.add(this, 'generator');
+
+      const yieldArgs = yield this.normalizeRunOutput(date);
+
+      date = (await iterator.next(yieldArgs)).value;
+
+      index++;
+    }
+  }
 }
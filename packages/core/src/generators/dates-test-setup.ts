@@ -109,6 +109,15 @@ export default function datesTests() {
         expect(toISOStrings(dates, { take: 3 })).toEqual(toISOStrings(expectation.slice(0, 3)));
       });
 
+      it('count', () => {
+        expect(dates.count()).toBe(expectation.length);
+
+        if (expectation.length > 1) {
+          expect(dates.count({ start: expectation[index] })).toBe(expectation.length - index);
+          expect(dates.count({ end: expectation[index] })).toBe(index + 1);
+        }
+      });
+
       it('reverse', () => {
         expect(toISOStrings(dates, { reverse: true })).toEqual(toISOStrings(expectation.reverse()));
       });
@@ -7,9 +7,12 @@ import {
 } from '@rschedule/core';
 
 import {
+  AsyncOccurrenceIterator,
   CollectionIterator,
   ICollectionsArgs,
+  ICountRunArgs,
   IOccurrencesArgs,
+  IOccurrencesAsyncArgs,
   IRunArgs,
   OccurrenceGenerator,
   OccurrenceGeneratorRunResult,
@@ -87,6 +90,10 @@ export class Dates<Data = any> extends OccurrenceGenerator {
     return new OccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
   }
 
+  occurrencesAsync(args: IOccurrencesAsyncArgs = {}): AsyncOccurrenceIterator<[this]> {
+    return new AsyncOccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
+  }
+
   collections(args: ICollectionsArgs = {}): CollectionIterator<[this]> {
     return new CollectionIterator(this, this.normalizeCollectionsArgs(args));
   }
@@ -190,6 +197,14 @@ export class Dates<Data = any> extends OccurrenceGenerator {
     });
   }
 
+  _count(args: ICountRunArgs = {}): number {
+    return this.datetimes.filter(
+      date =>
+        (!args.start || date.isAfterOrEqual(args.start)) &&
+        (!args.end || date.isBeforeOrEqual(args.end)),
+    ).length;
+  }
+
   *_run(args: IRunArgs = {}): OccurrenceGeneratorRunResult {
     let dates = this.datetimes.sort(dateTimeSortComparer);
 
@@ -0,0 +1,169 @@
+import { context, dateAdapterFn, TIMEZONES, toISOStrings } from '../../../../tests/utilities';
+
+import { DateAdapterBase, InfiniteLoopError } from '@rschedule/core';
+
+import { Calendar, Dates, diffOccurrences, Schedule } from '@rschedule/core/generators';
+
+export default function diffOccurrencesTests() {
+  describe('diffOccurrences()', () => {
+    context(DateAdapterBase.adapter.name, () => {
+      const zones = !DateAdapterBase.adapter.hasTimezoneSupport ? [null, 'UTC'] : TIMEZONES;
+
+      zones.forEach(zone => {
+        // function to create new dateAdapter instances
+        const dateAdapter = dateAdapterFn(zone);
+
+        context(zone, timezone => {
+          const schedule = (duration: number) =>
+            new Schedule({
+              timezone,
+              rrules: [
+                {
+                  frequency: 'WEEKLY',
+                  byDayOfWeek: ['TU', 'TH'],
+                  start: dateAdapter(2019, 1, 1, 9),
+                  duration,
+                },
+              ],
+            });
+
+          const before = schedule(1000 * 60 * 60);
+
+          it('returns nothing when the occurrences are the same', () => {
+            const diff = diffOccurrences(before, schedule(1000 * 60 * 60), {
+              end: dateAdapter(2019, 3, 1),
+            });
+
+            expect(diff.added).toEqual([]);
+            expect(diff.removed).toEqual([]);
+            expect(diff.modified).toEqual([]);
+          });
+
+          it('added & removed', () => {
+            const after = before
+              .add('exdate', dateAdapter(2019, 1, 3, 9))
+              .add('rdate', dateAdapter(2019, 1, 5, 9));
+
+            const diff = diffOccurrences(before, after, {
+              start: dateAdapter(2019, 1, 2),
+              end: dateAdapter(2019, 1, 9),
+            });
+
+            expect(toISOStrings(diff.added)).toEqual(toISOStrings([dateAdapter(2019, 1, 5, 9)]));
+            expect(toISOStrings(diff.removed)).toEqual(toISOStrings([dateAdapter(2019, 1, 3, 9)]));
+            expect(diff.modified).toEqual([]);
+
+            expect(diff.added[0].generators).toEqual([after, after.rdates]);
+            expect(diff.removed[0].generators).toEqual([before, before.rrules[0]]);
+          });
+
+          it('modified', () => {
+            const after = schedule(1000 * 60 * 90);
+
+            const diff = diffOccurrences(before, after, { end: dateAdapter(2019, 1, 8, 9) });
+
+            expect(diff.added).toEqual([]);
+            expect(diff.removed).toEqual([]);
+            expect(diff.modified.map(({ before: b }) => b.toISOString())).toEqual(
+              toISOStrings([
+                dateAdapter(2019, 1, 1, 9),
+                dateAdapter(2019, 1, 3, 9),
+                dateAdapter(2019, 1, 8, 9),
+              ]),
+            );
+            expect(
+              diff.modified.map(({ before: b, after: a }) => [b.duration, a.duration]),
+            ).toEqual([
+              [1000 * 60 * 60, 1000 * 60 * 90],
+              [1000 * 60 * 60, 1000 * 60 * 90],
+              [1000 * 60 * 60, 1000 * 60 * 90],
+            ]);
+            expect(diff.modified[0].after.generators).toEqual([after, after.rrules[0]]);
+          });
+
+          it('occurrences which start at the same time', () => {
+            const datesA = new Dates({
+              timezone,
+              dates: [
+                dateAdapter(2019, 1, 1, 9, 0, 0, 0, { duration: 10 }),
+                dateAdapter(2019, 1, 1, 9, 0, 0, 0, { duration: 20 }),
+                dateAdapter(2019, 1, 1, 9, 0, 0, 0, { duration: 30 }),
+              ],
+            });
+
+            const datesB = new Dates({
+              timezone,
+              dates: [
+                dateAdapter(2019, 1, 1, 9, 0, 0, 0, { duration: 30 }),
+                dateAdapter(2019, 1, 1, 9, 0, 0, 0, { duration: 40 }),
+                dateAdapter(2019, 1, 1, 9, 0, 0, 0, { duration: 50 }),
+                dateAdapter(2019, 1, 1, 9, 0, 0, 0, { duration: 60 }),
+              ],
+            });
+
+            const diff = diffOccurrences(datesA, datesB);
+
+            expect(
+              diff.modified.map(({ before: b, after: a }) => [b.duration, a.duration]),
+            ).toEqual([[10, 40], [20, 50]]);
+            expect(diff.added.map(date => date.duration)).toEqual([60]);
+            expect(diff.removed).toEqual([]);
+
+            const reversed = diffOccurrences(datesB, datesA);
+
+            expect(reversed.modified.length).toBe(2);
+            expect(reversed.added).toEqual([]);
+            expect(reversed.removed.map(date => date.duration)).toEqual([60]);
+          });
+
+          it('calendars', () => {
+            const other = new Dates({
+              timezone,
+              dates: [dateAdapter(2019, 1, 2, 9), dateAdapter(2019, 1, 3, 9)],
+            });
+
+            const calendarBefore = new Calendar({ timezone, schedules: [before] });
+            const calendarAfter = new Calendar({ timezone, schedules: [before, other] });
+
+            const diff = diffOccurrences(calendarBefore, calendarAfter, {
+              end: dateAdapter(2019, 1, 4),
+            });
+
+            // the 2019/1/3 occurrence of `before` is matched, the one of `other` is added
+            expect(toISOStrings(diff.added)).toEqual(
+              toISOStrings([dateAdapter(2019, 1, 2, 9), dateAdapter(2019, 1, 3, 9)]),
+            );
+            expect(diff.added.map(date => date.generators)).toEqual([
+              [calendarAfter, other],
+              [calendarAfter, other],
+            ]);
+            expect(diff.removed).toEqual([]);
+            expect(diff.modified).toEqual([]);
+          });
+
+          it('occurrence generators with different timezones', () => {
+            const other = before.set('timezone', timezone === 'UTC' ? null : 'UTC');
+
+            const diff = diffOccurrences(before, other, { end: dateAdapter(2019, 3, 1) });
+
+            expect(diff.added).toEqual([]);
+            expect(diff.removed).toEqual([]);
+            expect(diff.modified).toEqual([]);
+
+            const added = diffOccurrences(before, other.add('rdate', dateAdapter(2019, 1, 5, 9)), {
+              end: dateAdapter(2019, 1, 9),
+            });
+
+            expect(toISOStrings(added.added)).toEqual(toISOStrings([dateAdapter(2019, 1, 5, 9)]));
+            expect(added.removed).toEqual([]);
+            expect(added.modified).toEqual([]);
+          });
+
+          it('throws without an `end` when an occurrence generator is infinite', () => {
+            expect(() => diffOccurrences(before, before)).toThrowError(InfiniteLoopError);
+          });
+        });
+      });
+    });
+  });
+}
@@ -0,0 +1,151 @@
+import {
+  DateAdapter,
+  DateAdapterBase,
+  DateInput,
+  dateInputToDateTime,
+  DateTime,
+  InfiniteLoopError,
+} from '@rschedule/core';
+
+import { OccurrenceGenerator, OccurrenceGeneratorRunResult } from './occurrence-generator';
+
+export interface IDiffOccurrencesArgs {
+  start?: DateInput;
+  end?: DateInput;
+}
+
+export type OccurrenceDiffDate = DateAdapter & { generators: ReadonlyArray<OccurrenceGenerator> };
+
+export interface IOccurrencesDiff {
+  /** Occurrences of `after` which have no matching occurrence in `before` */
+  added: OccurrenceDiffDate[];
+  /** Occurrences of `before` which have no matching occurrence in `after` */
+  removed: OccurrenceDiffDate[];
+  /** Occurrences which start at the same time but which have a different duration */
+  modified: Array<{ before: OccurrenceDiffDate; after: OccurrenceDiffDate }>;
+}
+
+/**
+ * Compares the occurrences of two occurrence generators (e.g. two versions of the
+ * same `Schedule`) and returns the occurrences which were added, removed, or
+ * modified (i.e. whose duration changed) between the optional `start` and `end` dates.
+ * If either occurrence generator has infinite occurrences, an `end` argument is required.
+ *
+ * Occurrences are matched on their start time, with `after` compared in the timezone of
+ * `before`. Each returned date retains the `generators` property of the occurrence it
+ * represents, so you can see which generator (e.g. which of a `Calendar` object's
+ * schedules) produced it.
+ *
+ * Both occurrence generators are iterated in lockstep so only the differences between
+ * them are held in memory.
+ *
+ * ```
+ * const { added, removed, modified } = diffOccurrences(oldSchedule, newSchedule, {
+ *   start: new Date(),
+ *   end: new Date(2030, 0, 1),
+ * });
+ * ```
+ */
+export function diffOccurrences(
+  before: OccurrenceGenerator,
+  after: OccurrenceGenerator,
+  args: IDiffOccurrencesArgs = {},
+): IOccurrencesDiff {
+  if (!args.end && (before.isInfinite || after.isInfinite)) {
+    throw new InfiniteLoopError(
+      'diffOccurrences() can only be called with occurrence generators of infinite ' +
+        'length if you provide an `end` argument.',
+    );
+  }
+
+  const diff: IOccurrencesDiff = { added: [], removed: [], modified: [] };
+
+  const beforeStream = new DiffStream(before, args);
+  const afterStream = new DiffStream(after.set('timezone', before.timezone), args);
+
+  while (beforeStream.value || afterStream.value) {
+    if (
+      !afterStream.value ||
+      (beforeStream.value && beforeStream.value.isBefore(afterStream.value))
+    ) {
+      diff.removed.push(toOutput(beforeStream.value!));
+      beforeStream.next();
+      continue;
+    }
+
+    if (!beforeStream.value || afterStream.value.isBefore(beforeStream.value)) {
+      diff.added.push(toOutput(afterStream.value));
+      afterStream.next();
+      continue;
+    }
+
+    diffTies(beforeStream.takeTies(), afterStream.takeTies(), diff);
+  }
+
+  return diff;
+}
+
+class DiffStream {
+  value: DateTime | undefined;
+
+  private readonly iterator: OccurrenceGeneratorRunResult;
+
+  constructor(generator: OccurrenceGenerator, args: IDiffOccurrencesArgs) {
+    this.iterator = generator._run({
+      start: args.start && dateInputToDateTime(args.start, generator.timezone),
+      end: args.end && dateInputToDateTime(args.end, generator.timezone),
+    });
+
+    this.next();
+  }
+
+  next() {
+    this.value = this.iterator.next().value;
+  }
+
+  /** Returns every upcoming date which shares the current date's start time */
+  takeTies() {
+    const ties: DateTime[] = [];
+    const time = this.value!.valueOf();
+
+    while (this.value && this.value.valueOf() === time) {
+      ties.push(this.value);
+      this.next();
+    }
+
+    return ties;
+  }
+}
+
+/**
+ * Diffs occurrences which start at the same time. Occurrences with an equal
+ * duration are unchanged, the remainder are paired up in order as modified and
+ * any left over are added or removed.
+ */
+function diffTies(before: DateTime[], after: DateTime[], diff: IOccurrencesDiff) {
+  const unmatched = after.slice();
+
+  const unmatchedBefore = before.filter(date => {
+    const index = unmatched.findIndex(other => other.duration === date.duration);
+
+    if (index === -1) return true;
+
+    unmatched.splice(index, 1);
+
+    return false;
+  });
+
+  unmatchedBefore.forEach((date, index) => {
+    if (index < unmatched.length) {
+      diff.modified.push({ before: toOutput(date), after: toOutput(unmatched[index]) });
+    } else {
+      diff.removed.push(toOutput(date));
+    }
+  });
+
+  unmatched.slice(unmatchedBefore.length).forEach(date => diff.added.push(toOutput(date)));
+}
+
+function toOutput(date: DateTime) {
+  return DateAdapterBase.adapter.fromDateTime(date) as OccurrenceDiffDate;
+}
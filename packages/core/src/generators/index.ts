@@ -2,7 +2,13 @@ export {
   IRunArgs,
   OccurrenceGenerator,
   OccurrenceIterator,
+  AsyncOccurrenceIterator,
+  AsyncOccurrenceGeneratorRunResult,
   IOccurrencesArgs,
+  IOccurrencesAsyncArgs,
+  IOccurrencesRunArgs,
+  ICountArgs,
+  ICountRunArgs,
   CollectionIterator,
   Collection,
   CollectionsGranularity,
@@ -18,6 +24,15 @@ export { Calendar, ICalendarArgs } from './calendar';
 
 export { Dates, IDatesArgs } from './dates';
 
+export { AsyncDates, IAsyncDatesArgs, IAsyncDatesWindow } from './async-dates';
+
+export {
+  diffOccurrences,
+  IDiffOccurrencesArgs,
+  IOccurrencesDiff,
+  OccurrenceDiffDate,
+} from './diff-occurrences';
+
 export { RuleBase, IRuleArgs } from './rule-base';
 
 export { Rule } from './rule';
@@ -28,6 +43,8 @@ export { Schedule, IScheduleArgs } from './schedule';
 
 export { add, AddOperator } from './operators/AddOperator';
 
+export { freeTime, FreeTimeOperator } from './operators/FreeTimeOperator';
+
 export { intersection, IntersectionOperator } from './operators/IntersectionOperator';
 
 export {
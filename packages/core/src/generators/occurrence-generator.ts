@@ -7,6 +7,9 @@ import {
   dateInputToDateTime,
   DateTime,
   getDifferenceBetweenWeekdays,
+  getFiscalPeriod,
+  getStartOfQuarter,
+  IFiscalCalendar,
   InfiniteLoopError,
   normalizeDateTimeTimezone,
 } from '@rschedule/core';
@@ -20,6 +23,8 @@ export interface IRunArgs {
 
 export type OccurrenceGeneratorRunResult = IterableIterator<DateTime>;
 
+export type AsyncOccurrenceGeneratorRunResult = AsyncIterableIterator<DateTime>;
+
 export abstract class OccurrenceGenerator {
   abstract readonly isInfinite: boolean;
   abstract readonly hasDuration: boolean;
@@ -92,6 +97,37 @@ export abstract class OccurrenceGenerator {
    */
   abstract _run(args?: IRunArgs): OccurrenceGeneratorRunResult;
 
+  /**
+   * **!!Advanced Use Only!!**
+   *
+   * use `occurrencesAsync()` instead
+   *
+   * By default, iterates over `_run()`. Occurrence generators which may be made
+   * up of asynchronous occurrence generators (e.g. `AsyncDates`) override this method.
+   */
+  async *_runAsync(args: IRunArgs = {}): AsyncOccurrenceGeneratorRunResult {
+    const iterator = this._run(args);
+
+    let date = iterator.next().value;
+
+    while (date) {
+      const yieldArgs = yield date;
+
+      date = iterator.next(yieldArgs).value;
+    }
+  }
+
+  /**
+   * **!!Advanced Use Only!!**
+   *
+   * Returns the occurrence generators which this occurrence generator is made
+   * up of (e.g. a `Calendar` object's schedules). Used to identify which generator
+   * produced an occurrence (see `OccurrenceIterator#cursor()`). Default is `[]`.
+   */
+  _children(): ReadonlyArray<OccurrenceGenerator> {
+    return [];
+  }
+
   /**
    * Processes the object's rules/dates and returns an iterable for the occurrences.
    *
@@ -100,6 +136,7 @@ export abstract class OccurrenceGenerator {
    * - `end` the date to end iteration on
    * - `take` the max number of dates to take before ending iteration
    * - `reverse` whether to iterate in reverse or not
+   * - `cursor` a cursor, returned by `OccurrenceIterator#cursor()`, to resume iteration from
    *
    * Examples:
    * 
@@ -113,12 +150,50 @@ export abstract class OccurrenceGenerator {
    * iterator.toArray() // returns Date array
    * iterator.next().value // returns next Date
    * ```
+   *
+   * #### Cursors
+   *
+   * `OccurrenceIterator#cursor()` returns a serializable string identifying the last
+   * occurrence returned by the iterator. Passing it to `occurrences({ cursor })` resumes
+   * iteration with the following occurrence (the cursor takes the place of the `start`
+   * argument or, when iterating in reverse, the `end` argument). Because the cursor also
+   * identifies the generator which produced the occurrence (e.g. one of a `Calendar`
+   * object's schedules), occurrences which share a start time are never skipped or
+   * repeated. The cursor's format is an implementation detail.
    * 
    */
   occurrences(args: IOccurrencesArgs = {}): OccurrenceIterator {
     return new OccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
   }
 
+  /**
+   * Like `occurrences()` except that the returned iterator is an async iterator.
+   * Use this method if the object is made up of asynchronous occurrence generators
+   * (e.g. `AsyncDates`), which can't be iterated synchronously.
+   *
+   * Options object:
+   * - `start` the date to begin iteration on
+   * - `end` the date to end iteration on
+   * - `take` the max number of dates to take before ending iteration
+   * - `reverse` whether to iterate in reverse or not
+   *
+   * Examples:
+   *
+   * ```
+   * const iterator = schedule.occurrencesAsync({ start: new Date(), take: 5 });
+   *
+   * for await (const date of iterator) {
+   *   // do stuff
+   * }
+   *
+   * await iterator.toArray() // returns Date array
+   * (await iterator.next()).value // returns next Date
+   * ```
+   */
+  occurrencesAsync(args: IOccurrencesAsyncArgs = {}): AsyncOccurrenceIterator {
+    return new AsyncOccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
+  }
+
   /**
    * Iterates over the object's occurrences and bundles them into collections
    * with a specified granularity (default is `"YEARLY"`). Make sure to
@@ -128,10 +203,13 @@ export abstract class OccurrenceGenerator {
    *   - start?: DateAdapter
    *   - end?: DateAdapter
    *   - take?: number
-   *   - reverse?: NOT SUPPORTED
-   *   - granularity?: CollectionsGranularity
+   *   - reverse?: boolean
+   *   - granularity?: CollectionsGranularity | OccurrenceGenerator
    *   - weekStart?: DateAdapter.Weekday
+   *   - fiscalYearStart?: DateAdapter.Month
+   *   - fiscalCalendar?: IFiscalCalendar
    *   - skipEmptyPeriods?: boolean
+   *   - cursor?: string
    *
    * Returned `Collection` object:
    *
@@ -174,8 +252,37 @@ export abstract class OccurrenceGenerator {
    * When giving a `take` argument to `collections()`, you are specifying
    * the number of `Collection` objects to return (rather than occurrences).
    *
+   * When giving a `reverse: true` argument to `collections()`, collections are
+   * returned starting with the period containing the `end` argument (or, if
+   * there isn't one, the last occurrence) and each collection's `dates` are
+   * in reverse order. Apart from the direction, the `start`, `end`, `take` and
+   * `skipEmptyPeriods` options behave the same way as they do in forward mode.
+   * If the object has infinite occurrences, an `end` argument is required.
+   *
+   * When giving a `cursor` argument (returned by `CollectionIterator#cursor()`) to
+   * `collections()`, collections are resumed with the period following the last
+   * collection returned by the iterator which created the cursor. The cursor takes
+   * the place of the `start` argument (or, when iterating in reverse, the `end` argument).
+   *
    * When choosing a granularity of `"WEEKLY"`, the `weekStart` option is required.
    *
+   * When choosing a granularity of `"isoWeek"`, each period is an ISO 8601 week
+   * (i.e. a week beginning on Monday) and the `weekStart` option isn't required.
+   *
+   * The granularity can also be another `OccurrenceGenerator` (e.g. a `Rule`
+   * occurring every other Friday), in which case each of its occurrences starts a
+   * period which lasts until its next occurrence. Occurrences which fall before
+   * the generator's first occurrence (or, if it is finite, on or after its last
+   * occurrence) aren't part of any period and are ignored.
+   *
+   * When choosing a granularity of `"quarter"`, each period is three months long and
+   * the first quarter of the year begins in the `fiscalYearStart` month (default is `1`,
+   * i.e. January).
+   *
+   * When choosing a granularity of `"fiscalPeriod"`, the `fiscalCalendar` option is
+   * required and each period is one of the 4 or 5 (or, in a 53 week fiscal year, 6)
+   * week periods of that retail fiscal calendar (see `IFiscalCalendar`).
+   *
    * When choosing a granularity of `"MONTHLY"`:
    *
    * - If the `weekStart` option *is not* present, will generate collections with
@@ -193,6 +300,49 @@ export abstract class OccurrenceGenerator {
     return new CollectionIterator(this, this.normalizeCollectionsArgs(args));
   }
 
+  /**
+   * Returns the number of occurrences which start on or between the
+   * provided `start` and `end` dates. Unlike
+   * `occurrences().toArray().length`, a `DateAdapter` is never created
+   * for the counted occurrences and, for simple rules (e.g.
+   * `{ frequency: 'DAILY', interval: 2 }`), the count is calculated
+   * without iterating over the occurrences at all.
+   *
+   * Options object:
+   * - `start` the date to begin counting on
+   * - `end` the date to end counting on
+   *
+   * If this occurrence generator is infinite, an `end` argument is required.
+   */
+  count(args: ICountArgs = {}): number {
+    const start = this.normalizeDateInput(args.start);
+    const end = this.normalizeDateInput(args.end);
+
+    if (this.isInfinite && !end) {
+      throw new InfiniteLoopError(
+        'OccurrenceGenerator#count() can only be called if the occurrence generator ' +
+          'is not infinite or you provide an `end` argument.',
+      );
+    }
+
+    return this._count({ start, end });
+  }
+
+  /**
+   * **!!Advanced Use Only!!**
+   *
+   * use `count()` instead
+   */
+  _count(args: ICountRunArgs = {}): number {
+    let count = 0;
+
+    for (const _ of this._run(args)) {
+      count++;
+    }
+
+    return count;
+  }
+
   /**
    * Returns true if an occurrence starts on or between the provided start/end
    * datetimes. If the `excludeEnds` option is provided, then occurrences
@@ -430,12 +580,6 @@ export abstract class OccurrenceGenerator {
   }
 
   protected normalizeCollectionsArgs(rawArgs: ICollectionsArgs) {
-    if (rawArgs.reverse !== undefined) {
-      throw new ArgumentError(
-        '`collections()` does not support the `reverse` option at this time.',
-      );
-    }
-
     return {
       ...rawArgs,
       start: this.normalizeDateInput(rawArgs.start),
@@ -511,6 +655,28 @@ export interface IOccurrencesArgs {
   end?: DateInput;
   take?: number;
   reverse?: boolean;
+  cursor?: string;
+}
+
+export interface IOccurrencesAsyncArgs {
+  start?: DateInput;
+  end?: DateInput;
+  take?: number;
+  reverse?: boolean;
+}
+
+export interface IOccurrencesRunArgs extends IRunArgs {
+  cursor?: string;
+}
+
+export interface ICountArgs {
+  start?: DateInput;
+  end?: DateInput;
+}
+
+export interface ICountRunArgs {
+  start?: DateTime;
+  end?: DateTime;
 }
 
 export class OccurrenceIterator<
@@ -519,8 +685,50 @@ export class OccurrenceIterator<
   private readonly iterator: OccurrenceGeneratorRunResult;
   private readonly isInfinite: boolean;
 
-  constructor(private iterable: OccurrenceGenerator, private args: IRunArgs) {
-    this.iterator = iterable._run(args);
+  /** The cursor to resume iteration from, until iteration has been resumed */
+  private resumeCursor?: ICursor;
+  /**
+   * When resuming from a cursor, occurrences which share the cursor's start time
+   * are skipped by this iterator so it enforces the `take` arg itself
+   */
+  private remaining?: number;
+  /** Occurrences which have been taken from `iterator` but not yet returned */
+  private pending: DateTime[] = [];
+  /**
+   * The occurrences which share the start time of the last occurrence (including it),
+   * from which the last occurrence's key is computed when a cursor is requested
+   */
+  private ties: DateTime[] = [];
+  private last?: DateTime;
+
+  constructor(private iterable: OccurrenceGenerator, private args: IOccurrencesRunArgs) {
+    const runArgs: IRunArgs = {
+      start: args.start,
+      end: args.end,
+      take: args.take,
+      reverse: args.reverse,
+    };
+
+    if (args.cursor) {
+      this.resumeCursor = decodeCursor(args.cursor, 'occurrences', iterable.timezone);
+
+      if (this.resumeCursor.reverse !== !!args.reverse) {
+        throw new ArgumentError(
+          'The provided cursor was created by an iterator with a different `reverse` argument.',
+        );
+      }
+
+      if (args.reverse) {
+        runArgs.end = this.resumeCursor.date;
+      } else {
+        runArgs.start = this.resumeCursor.date;
+      }
+
+      this.remaining = runArgs.take;
+      delete runArgs.take;
+    }
+
+    this.iterator = iterable._run(runArgs);
     this.isInfinite = iterable.isInfinite;
   }
 
@@ -545,20 +753,115 @@ export class OccurrenceIterator<
     );
   }
 
+  /**
+   * Returns a serializable cursor identifying the last occurrence returned by this
+   * iterator (or, if no occurrences have been returned yet, the `cursor` argument
+   * this iterator was created with). Pass it to `occurrences({ cursor })` to resume
+   * iteration with the following occurrence.
+   */
+  cursor(): string | undefined {
+    if (!this.last) return this.args.cursor;
+
+    return encodeCursor(
+      'occurrences',
+      this.last,
+      !!this.args.reverse,
+      this.occurrenceKey(this.last, this.ties.slice(0, -1)),
+    );
+  }
+
   private *occurrenceIterator(rawArgs?: { skipToDate?: DateInput }) {
     let args = this.normalizeRunArgs(rawArgs);
 
-    let date = this.iterator.next(args).value;
+    let date = this.nextDate(args);
 
     while (date) {
       const yieldArgs = yield this.normalizeDateOutput(date);
 
       args = this.normalizeRunArgs(yieldArgs);
 
-      date = this.iterator.next(args).value;
+      date = this.nextDate(args);
     }
   }
 
+  private nextDate(args: { skipToDate?: DateTime }) {
+    if (this.resumeCursor) {
+      this.resume(this.resumeCursor);
+      this.resumeCursor = undefined;
+    }
+
+    if (this.remaining === 0) return;
+
+    let next = this.pending.shift();
+
+    while (next && args.skipToDate && this.isBeforeSkipToDate(next, args.skipToDate)) {
+      next = this.pending.shift();
+    }
+
+    const date = next || this.iterator.next(args).value;
+
+    if (!date) return;
+
+    if (this.remaining !== undefined) this.remaining--;
+
+    const tie = this.ties[this.ties.length - 1];
+
+    if (tie && tie.valueOf() !== date.valueOf()) this.ties = [];
+
+    this.ties.push(date);
+    this.last = date;
+
+    return date;
+  }
+
+  /**
+   * Skips past the occurrences which share the cursor's start time up to, and
+   * including, the occurrence the cursor identifies. If that occurrence no longer
+   * exists (e.g. because a schedule was removed from a calendar), none of them are
+   * skipped.
+   */
+  private resume(cursor: ICursor) {
+    const ties: DateTime[] = [];
+
+    let date = this.iterator.next().value;
+
+    while (date && date.valueOf() === cursor.date.valueOf()) {
+      ties.push(date);
+
+      date = this.iterator.next().value;
+    }
+
+    const index = ties.findIndex((tie, i) =>
+      isEqualOccurrenceKey(this.occurrenceKey(tie, ties.slice(0, i)), cursor),
+    );
+
+    // the skipped occurrences precede the pending ones which share their start time
+    this.ties = ties.slice(0, index + 1);
+    this.pending = ties.slice(index + 1);
+
+    if (date) this.pending.push(date);
+  }
+
+  /**
+   * Identifies an occurrence by the path to the generator which produced it and
+   * by the number of `preceding` occurrences which share its start time and
+   * generator path
+   */
+  private occurrenceKey(date: DateTime, preceding: DateTime[]): IOccurrenceKey {
+    const path = generatorPath(this.iterable, date.generators);
+
+    return {
+      path,
+      index: preceding.filter(tie =>
+        isEqualPath(generatorPath(this.iterable, tie.generators), path),
+      ).length,
+    };
+  }
+
+  private isBeforeSkipToDate(date: DateTime, skipToDate: DateTime) {
+    return this.args.reverse ? date.isAfter(skipToDate) : date.isBefore(skipToDate);
+  }
+
   private normalizeRunArgs(args?: { skipToDate?: DateInput }) {
     return {
       skipToDate: this.normalizeDateInput(args && args.skipToDate),
@@ -578,6 +881,74 @@ export class OccurrenceIterator<
   }
 }
 
+export class AsyncOccurrenceIterator<
+  G extends ReadonlyArray<OccurrenceGenerator> = ReadonlyArray<OccurrenceGenerator>
+> {
+  private readonly iterator: AsyncOccurrenceGeneratorRunResult;
+  private readonly isInfinite: boolean;
+
+  constructor(private iterable: OccurrenceGenerator, private args: IRunArgs) {
+    this.iterator = iterable._runAsync(args);
+    this.isInfinite = iterable.isInfinite;
+  }
+
+  // See `OccurrenceIterator`
+  [Symbol.asyncIterator]: () => AsyncIterableIterator<DateAdapter & { generators: G }> = () =>
+    this.occurrenceIterator();
+
+  next(args?: {
+    skipToDate?: DateInput;
+  }): Promise<IteratorResult<DateAdapter & { generators: G }>> {
+    return this.occurrenceIterator(args).next();
+  }
+
+  async toArray(): Promise<Array<DateAdapter & { generators: G }>> {
+    if (this.args.end || this.args.take || !this.isInfinite) {
+      const dates: Array<DateAdapter & { generators: G }> = [];
+
+      for await (const date of this.occurrenceIterator()) {
+        dates.push(date);
+      }
+
+      return dates;
+    }
+
+    throw new InfiniteLoopError(
+      'AsyncOccurrenceIterator#toArray() can only be called if the iterator ' +
+        'is not infinite, or you provide and `end` argument, or you provide ' +
+        'a `take` argument.',
+    );
+  }
+
+  private async *occurrenceIterator(rawArgs?: { skipToDate?: DateInput }) {
+    let args = this.normalizeRunArgs(rawArgs);
+
+    let date = (await this.iterator.next(args)).value;
+
+    while (date) {
+      const yieldArgs = yield this.normalizeDateOutput(date);
+
+      args = this.normalizeRunArgs(yieldArgs);
+
+      date = (await this.iterator.next(args)).value;
+    }
+  }
+
+  private normalizeRunArgs(args?: { skipToDate?: DateInput }) {
+    return {
+      skipToDate: this.normalizeDateInput(args && args.skipToDate),
+    };
+  }
+
+  private normalizeDateInput(date?: DateInput) {
+    return date ? dateInputToDateTime(date, this.iterable.timezone) : undefined;
+  }
+
+  private normalizeDateOutput(date: DateTime): DateAdapter & { generators: G } {
+    return DateAdapterBase.adapter.fromDateTime(date) as DateAdapter & { generators: G };
+  }
+}
+
 export type CollectionsGranularity =
   | 'millisecond'
   | 'second'
@@ -585,7 +956,10 @@ export type CollectionsGranularity =
   | 'hour'
   | 'day'
   | 'week'
+  | 'isoWeek'
   | 'month'
+  | 'quarter'
+  | 'fiscalPeriod'
   | 'year';
 
 export class Collection<
@@ -593,64 +967,145 @@ export class Collection<
 > {
   constructor(
     readonly dates: (DateAdapter & { generators: G })[] = [],
-    readonly granularity: CollectionsGranularity,
+    readonly granularity: CollectionsGranularity | OccurrenceGenerator,
     readonly periodStart: DateAdapter & { generators: G },
     readonly periodEnd: DateAdapter & { generators: G },
   ) {}
 }
 
 export interface ICollectionsArgs extends IOccurrencesArgs {
-  granularity?: CollectionsGranularity;
+  granularity?: CollectionsGranularity | OccurrenceGenerator;
   weekStart?: DateAdapter.Weekday;
+  fiscalYearStart?: DateAdapter.Month;
+  fiscalCalendar?: IFiscalCalendar;
   skipEmptyPeriods?: boolean;
 }
 
-export interface ICollectionsRunArgs extends IRunArgs {
-  granularity?: CollectionsGranularity;
+export interface ICollectionsRunArgs extends IOccurrencesRunArgs {
+  granularity?: CollectionsGranularity | OccurrenceGenerator;
   weekStart?: DateAdapter.Weekday;
+  fiscalYearStart?: DateAdapter.Month;
+  fiscalCalendar?: IFiscalCalendar;
   skipEmptyPeriods?: boolean;
 }
 
 export class CollectionIterator<
   G extends ReadonlyArray<OccurrenceGenerator> = ReadonlyArray<OccurrenceGenerator>
 > {
-  readonly granularity: CollectionsGranularity = 'year';
+  readonly granularity: CollectionsGranularity | OccurrenceGenerator = 'year';
   readonly weekStart?: DateAdapter.Weekday;
+  readonly fiscalYearStart?: DateAdapter.Month;
+  readonly fiscalCalendar?: IFiscalCalendar;
   readonly startDate: DateAdapter | null;
 
   private iterator: IterableIterator<Collection<G>>;
+  /** The period of the last collection returned by this iterator */
+  private lastPeriod?: DateTime;
 
   constructor(private iterable: OccurrenceGenerator, private args: ICollectionsRunArgs) {
     if (args.granularity) {
-      this.granularity = args.granularity;
+      this.granularity =
+        args.granularity instanceof OccurrenceGenerator
+          ? args.granularity.set('timezone', iterable.timezone)
+          : args.granularity;
 
       if (this.granularity === 'week' && !args.weekStart) {
         throw new Error('"week" granularity requires `weekStart` arg');
       }
+
+      if (this.granularity === 'fiscalPeriod' && !args.fiscalCalendar) {
+        throw new Error('"fiscalPeriod" granularity requires `fiscalCalendar` arg');
+      }
     }
 
     if (args.weekStart) {
       this.weekStart = args.weekStart;
     }
 
-    if (args.reverse) {
+    if (args.fiscalYearStart) {
+      this.fiscalYearStart = args.fiscalYearStart;
+    }
+
+    if (args.fiscalCalendar) {
+      this.fiscalCalendar = args.fiscalCalendar;
+    }
+
+    let hasPeriods = true;
+
+    if (args.cursor) {
+      const cursor = decodeCursor(args.cursor, 'collections', iterable.timezone);
+
+      if (cursor.reverse !== !!args.reverse) {
+        throw new ArgumentError(
+          'The provided cursor was created by an iterator with a different `reverse` argument.',
+        );
+      }
+
+      const date = this.resumeDate(cursor.date);
+
+      args = args.reverse ? { ...args, end: date } : { ...args, start: date };
+
+      // there are no collections following the cursor
+      if (!date) hasPeriods = false;
+    }
+
+    if (args.reverse && !args.end && iterable.isInfinite && hasPeriods) {
       throw new Error(
-        '`OccurrenceGenerator#collections()` does not support iterating in reverse. ' +
-          'Though `OccurrenceGenerator#occurrences()` does support iterating in reverse.',
+        'When iterating over collections in reverse, the occurrence generator ' +
+          'must not be infinite or you must provide an `end` argument.',
       );
     }
 
-    // Set the end arg, if present, to the end of the period.
-    this.args = {
-      ...args,
-      start: args.start || iterable._run().next().value,
-      end: args.end && this.getPeriod(args.end).end,
-    };
+    let start =
+      args.reverse || !hasPeriods ? args.start : args.start || iterable._run().next().value;
+    let end =
+      args.reverse && hasPeriods
+        ? args.end || iterable._run({ reverse: true }).next().value
+        : args.end;
+
+    if (this.granularity instanceof OccurrenceGenerator && hasPeriods) {
+      // Occurrences before the first period or after the last period are ignored
+      const first = this.granularity._run().next().value;
+      const last = !this.granularity.isInfinite
+        ? this.granularity
+            ._run({ reverse: true })
+            .next()
+            .value!.subtract(1, 'millisecond')
+        : undefined;
+
+      if (first) {
+        start = start && start.isAfter(first) ? start : first;
+        end = last && (!end || end.isAfter(last)) ? last : end;
+      }
 
-    this.startDate =
-      (this.args.start && this.normalizeDateOutput(this.getPeriod(this.args.start).start)) || null;
+      hasPeriods = !!first && !(end && start!.isAfter(end));
+    }
 
-    this.iterator = this.collectionIterator();
+    if (args.reverse) {
+      // Set the start arg, if present, to the start of the period.
+      this.args = {
+        ...args,
+        start: start && hasPeriods ? this.getPeriod(start).start : start,
+        end,
+      };
+
+      this.startDate =
+        (end && hasPeriods && this.normalizeDateOutput(this.getPeriod(end).start)) || null;
+    } else {
+      // Set the end arg, if present, to the end of the period.
+      this.args = {
+        ...args,
+        start,
+        end: end && hasPeriods ? this.getPeriod(end).end : end,
+      };
+
+      this.startDate =
+        (start && hasPeriods && this.normalizeDateOutput(this.getPeriod(start).start)) || null;
+    }
+
+    this.iterator = this.args.reverse
+      ? this.reverseCollectionIterator()
+      : this.collectionIterator();
   }
 
   [Symbol.iterator] = () => this.iterator;
@@ -659,6 +1114,18 @@ export class CollectionIterator<
     return this.iterator.next();
   }
 
+  /**
+   * Returns a serializable cursor identifying the period of the last collection
+   * returned by this iterator (or, if no collections have been returned yet, the
+   * `cursor` argument this iterator was created with). Pass it to
+   * `collections({ cursor })` to resume with the following period.
+   */
+  cursor(): string | undefined {
+    if (!this.lastPeriod) return this.args.cursor;
+
+    return encodeCursor('collections', this.lastPeriod, !!this.args.reverse);
+  }
+
   /**
    * While `next()` and `[Symbol.iterator]` both share state,
    * `toArray()` does not share state and always returns the whole
@@ -668,7 +1135,11 @@ export class CollectionIterator<
     if (this.args.end || this.args.take || !this.iterable.isInfinite) {
       const collections: Collection<G>[] = [];
 
-      for (const collection of this.collectionIterator()) {
+      const iterator = this.args.reverse
+        ? this.reverseCollectionIterator()
+        : this.collectionIterator();
+
+      for (const collection of iterator) {
         collections.push(collection);
       }
 
@@ -717,6 +1188,8 @@ export class CollectionIterator<
         date = iterator.next().value;
       }
 
+      this.lastPeriod = period.period;
+
       yield new Collection<G>(
         dates.map(date => this.normalizeDateOutput(date)),
         this.granularity,
@@ -748,6 +1221,67 @@ export class CollectionIterator<
     }
   }
 
+  /**
+   * Like `collectionIterator()` except that the periods (and the dates within them)
+   * are in reverse order, beginning with the period containing the `end` arg.
+   */
+  private *reverseCollectionIterator() {
+    if (!this.startDate) return;
+
+    let period = this.getPeriod(this.args.end!);
+
+    let iterator = this.iterable._run({
+      start: this.args.start,
+      end: period.end,
+      reverse: true,
+    });
+
+    let date = iterator.next().value;
+
+    if (!date) return;
+
+    let dates: DateTime[] = [];
+    let index = 0;
+
+    while (date && (this.args.take === undefined || this.args.take > index)) {
+      while (date && date.isAfterOrEqual(period.start)) {
+        dates.push(date);
+
+        date = iterator.next().value;
+      }
+
+      this.lastPeriod = period.period;
+
+      yield new Collection<G>(
+        dates.map(value => this.normalizeDateOutput(value)),
+        this.granularity,
+        this.normalizeDateOutput(period.start),
+        this.normalizeDateOutput(period.end),
+      );
+
+      if (!date) return;
+
+      dates = [];
+
+      period = !this.args.skipEmptyPeriods
+        ? this.getPeriod(this.decrementPeriod(period.period))
+        : this.getPeriod(date);
+
+      // See `collectionIterator()`
+      if (this.granularity === 'month' && this.weekStart) {
+        iterator = this.iterable._run({
+          start: this.args.start,
+          end: period.end,
+          reverse: true,
+        });
+
+        date = iterator.next().value;
+      }
+
+      index++;
+    }
+  }
+
   private getPeriod(date: DateTime) {
     let start: DateTime;
     let end: DateTime;
@@ -757,6 +1291,26 @@ export class CollectionIterator<
       start = date.granularity('month').granularity('week', { weekStart: this.weekStart });
       end = date.endGranularity('month').endGranularity('week', { weekStart: this.weekStart });
       period = date.granularity('month');
+    } else if (this.granularity === 'quarter') {
+      start = getStartOfQuarter(date, this.fiscalYearStart);
+      end = start.add(3, 'month').subtract(1, 'millisecond');
+      period = start;
+    } else if (this.granularity === 'fiscalPeriod') {
+      const fiscalPeriod = getFiscalPeriod(date, this.fiscalCalendar!);
+
+      start = fiscalPeriod.start;
+      end = fiscalPeriod.end.subtract(1, 'millisecond');
+      period = start;
+    } else if (this.granularity === 'isoWeek') {
+      start = date.granularity('week', { weekStart: 'MO' });
+      end = date.endGranularity('week', { weekStart: 'MO' });
+      period = start;
+    } else if (this.granularity instanceof OccurrenceGenerator) {
+      // each occurrence of the granularity generator starts a period which
+      // lasts until the next occurrence
+      start = this.granularity._run({ end: date, reverse: true }).next().value!;
+      end = this.incrementPeriod(start).subtract(1, 'millisecond');
+      period = start;
     } else {
       start = date.granularity(this.granularity, { weekStart: this.weekStart });
       end = date.endGranularity(this.granularity, { weekStart: this.weekStart });
@@ -767,9 +1321,57 @@ export class CollectionIterator<
   }
 
   private incrementPeriod(date: DateTime) {
+    if (this.granularity === 'quarter') return date.add(3, 'month');
+    if (this.granularity === 'fiscalPeriod') return getFiscalPeriod(date, this.fiscalCalendar!).end;
+    if (this.granularity === 'isoWeek') return date.add(1, 'week');
+
+    if (this.granularity instanceof OccurrenceGenerator) {
+      return this.granularity._run({ start: date.add(1, 'millisecond') }).next().value!;
+    }
+
     return date.add(1, this.granularity);
   }
 
+  /** Returns a date within the period preceding the period beginning with `date` */
+  private decrementPeriod(date: DateTime) {
+    if (this.granularity === 'quarter') return date.subtract(3, 'month');
+    if (this.granularity === 'isoWeek') return date.subtract(1, 'week');
+
+    if (this.granularity === 'fiscalPeriod' || this.granularity instanceof OccurrenceGenerator) {
+      return date.subtract(1, 'millisecond');
+    }
+
+    return date.subtract(1, this.granularity);
+  }
+
+  /**
+   * Returns a date within the period following (or, in reverse, preceding) the
+   * period beginning with `date`. If empty periods are skipped, this is the next
+   * occurrence outside of the period. Returns `undefined` if there are no more
+   * occurrences outside of the period (in which case `collectionIterator()` and
+   * `reverseCollectionIterator()` would have stopped iterating).
+   */
+  private resumeDate(date: DateTime) {
+    const period = this.getPeriod(date);
+
+    const next = this.args.reverse
+      ? this.iterable
+          ._run({
+            start: this.args.start,
+            end: period.start.subtract(1, 'millisecond'),
+            reverse: true,
+          })
+          .next().value
+      : this.iterable._run({ start: period.end.add(1, 'millisecond'), end: this.args.end }).next()
+          .value;
+
+    if (!next || this.args.skipEmptyPeriods) return next;
+
+    return this.args.reverse
+      ? this.decrementPeriod(period.period)
+      : this.incrementPeriod(period.period);
+  }
+
   private occurrenceIterator(): IterableIterator<DateTime> {
     let start = this.args.start || this.iterable._run().next().value;
 
@@ -814,6 +1416,10 @@ export abstract class Operator extends OccurrenceGenerator {
     this.hasDuration = this.calculateHasDuration();
   }
 
+  _children(): ReadonlyArray<OccurrenceGenerator> {
+    return this.config.base ? this.streams.concat(this.config.base) : this.streams;
+  }
+
   protected abstract calculateIsInfinite(): boolean;
   protected abstract calculateHasDuration(): boolean;
 
@@ -829,3 +1435,119 @@ export abstract class Operator extends OccurrenceGenerator {
     return normalizeDateTimeTimezone(date, this.timezone);
   }
 }
+
+interface IOccurrenceKey {
+  /**
+   * The index of each generator which produced the occurrence within its
+   * parent's `_children()` (`-1` if it couldn't be found)
+   */
+  path: number[];
+  /** The number of preceding occurrences sharing the occurrence's start time and path */
+  index: number;
+}
+
+interface ICursor extends IOccurrenceKey {
+  date: DateTime;
+  reverse: boolean;
+}
+
+function encodeCursor(
+  type: 'occurrences' | 'collections',
+  date: DateTime,
+  reverse: boolean,
+  key?: IOccurrenceKey,
+) {
+  const json = date.toJSON();
+
+  delete json.duration;
+
+  return JSON.stringify({ type, date: json, reverse, ...key });
+}
+
+function decodeCursor(
+  cursor: string,
+  type: 'occurrences' | 'collections',
+  timezone: string | null,
+): ICursor {
+  const error = new ArgumentError(`Invalid ${type} cursor: "${cursor}"`);
+
+  let json: any;
+
+  try {
+    json = JSON.parse(cursor);
+  } catch (e) {
+    json = undefined;
+  }
+
+  if (!json || json.type !== type || !json.date) throw error;
+
+  const path = json.path === undefined ? [] : json.path;
+  const index = json.index === undefined ? 0 : json.index;
+
+  if (
+    !Array.isArray(path) ||
+    !path.every(i => Number.isInteger(i) && i >= -1) ||
+    !Number.isInteger(index) ||
+    index < 0
+  ) {
+    throw error;
+  }
+
+  let date: DateTime;
+
+  try {
+    date = dateInputToDateTime(DateTime.fromJSON(json.date), timezone);
+  } catch (e) {
+    throw error;
+  }
+
+  return {
+    date,
+    reverse: !!json.reverse,
+    path,
+    index,
+  };
+}
+
+/**
+ * Returns the path from `root` to the last of the `generators` which produced
+ * an occurrence. Operators aren't included in an occurrence's `generators` so
+ * their children are treated as the children of the operator's parent.
+ */
+function generatorPath(root: OccurrenceGenerator, generators: ReadonlyArray<unknown>) {
+  const path: number[] = [];
+
+  let parent = root;
+
+  for (const generator of generators) {
+    if (generator === parent) continue;
+
+    const index = flattenOperators(parent._children()).indexOf(generator as OccurrenceGenerator);
+
+    path.push(index);
+
+    if (index === -1) break;
+
+    parent = generator as OccurrenceGenerator;
+  }
+
+  return path;
+}
+
+function flattenOperators(generators: ReadonlyArray<OccurrenceGenerator>): OccurrenceGenerator[] {
+  return generators.reduce(
+    (prev, generator) =>
+      prev.concat(
+        generator instanceof Operator ? flattenOperators(generator._children()) : generator,
+      ),
+    [] as OccurrenceGenerator[],
+  );
+}
+
+function isEqualPath(a: number[], b: number[]) {
+  return a.length === b.length && a.every((index, i) => index === b[i]);
+}
+
+function isEqualOccurrenceKey(a: IOccurrenceKey, b: IOccurrenceKey) {
+  return isEqualPath(a.path, b.path) && a.index === b.index;
+}
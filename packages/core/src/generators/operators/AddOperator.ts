@@ -1,6 +1,8 @@
 import { DateTime } from '@rschedule/core';
 
 import {
+  AsyncOccurrenceGeneratorRunResult,
+  ICountRunArgs,
   IOperatorConfig,
   IRunArgs,
   OccurrenceGenerator,
@@ -9,7 +11,13 @@ import {
   OperatorFnOutput,
 } from '../occurrence-generator';
 
-import { IterableWrapper, selectNextIterable, streamPastEnd, streamPastSkipToDate } from './_util';
+import {
+  AsyncIterableWrapper,
+  IterableWrapper,
+  selectNextIterable,
+  streamPastEnd,
+  streamPastSkipToDate,
+} from './_util';
 
 /**
  * An operator function which accepts a spread of occurrence generators
@@ -30,6 +38,13 @@ export class AddOperator extends Operator {
     });
   }
 
+  /** Added occurrences aren't deduplicated, so the counts of the streams can be summed */
+  _count(args: ICountRunArgs = {}): number {
+    return this.streams
+      .concat(this.config.base ? [this.config.base] : [])
+      .reduce((prev, stream) => prev + stream._count(args), 0);
+  }
+
   *_run(args: IRunArgs = {}): OccurrenceGeneratorRunResult {
     const streams = this.streams.map(input => new IterableWrapper(input._run(args)));
 
@@ -64,6 +79,42 @@ export class AddOperator extends Operator {
     }
   }
 
+  async *_runAsync(args: IRunArgs = {}): AsyncOccurrenceGeneratorRunResult {
+    const streams = await Promise.all(
+      this.streams.map(input => AsyncIterableWrapper.create(input._runAsync(args))),
+    );
+
+    if (this.config.base) {
+      streams.push(await AsyncIterableWrapper.create(this.config.base._runAsync(args)));
+    }
+
+    if (streams.length === 0) return;
+
+    let stream = selectNextIterable(streams, args);
+
+    if (streamPastEnd(stream, args)) return;
+
+    while (!stream.done) {
+      const yieldArgs = yield this.normalizeRunOutput(stream.value!);
+
+      await stream.picked();
+
+      stream = selectNextIterable(streams, args);
+
+      if (yieldArgs && yieldArgs.skipToDate) {
+        while (
+          !streamPastEnd(stream, args) &&
+          !streamPastSkipToDate(stream, yieldArgs.skipToDate, args)
+        ) {
+          await stream.picked();
+          stream = selectNextIterable(streams, args);
+        }
+      }
+
+      if (streamPastEnd(stream, args)) return;
+    }
+  }
+
   protected calculateIsInfinite() {
     return (
       (this.config.base && this.config.base.isInfinite) ||
@@ -0,0 +1,195 @@
+import { ArgumentError, DateTime } from '@rschedule/core';
+import {
+  IOperatorConfig,
+  IRunArgs,
+  OccurrenceGenerator,
+  OccurrenceGeneratorRunResult,
+  Operator,
+  OperatorFnOutput,
+} from '../occurrence-generator';
+import { MergeDurationOperator } from './MergeDurationOperator';
+
+/**
+ * An operator function which takes an occurrence stream with
+ * `hasDuration === true` (e.g. a `Calendar` of people's schedules) and
+ * returns the free time between its occurrences. Free time is only
+ * found within the occurrences of the `within` occurrence generator
+ * (e.g. working hours), which must also have a duration.
+ *
+ * Overlapping occurrences (of both the base stream and of `within`) are merged
+ * in the same way as the `MergeDurationOperator` merges them. Because of this,
+ * you must provide a `maxDuration` argument that represents the maximum possible
+ * duration for a single (merged) occurrence. If this duration is exceeded, a
+ * `MergeDurationOperatorError` will be thrown.
+ *
+ * Optionally, you can provide a `minDuration` argument in which case free
+ * time which is shorter than `minDuration` is ignored.
+ *
+ * Like the `MergeDurationOperator`, free time which ends after the provided
+ * `start` time is returned even if it begins before the provided `start` time.
+ *
+ * Usage example:
+ *
+ * ```typescript
+ * const MILLISECONDS_IN_HOUR = 1000 * 60 * 60;
+ *
+ * const workingHours = new Rule({
+ *   frequency: 'DAILY',
+ *   byDayOfWeek: ['MO', 'TU', 'WE', 'TH', 'FR'],
+ *   start: new Date(2010, 10, 10, 9),
+ *   duration: MILLISECONDS_IN_HOUR * 8,
+ * });
+ *
+ * const availability = calendar.pipe(
+ *   freeTime({
+ *     within: workingHours,
+ *     maxDuration: MILLISECONDS_IN_HOUR * 24,
+ *     minDuration: MILLISECONDS_IN_HOUR * 0.5,
+ *   })
+ * )
+ *
+ * availability.occurrences({ start: new Date(), end: twoWeeksFromNow }).toArray();
+ * ```
+ */
+
+export function freeTime(args: {
+  within: OccurrenceGenerator;
+  maxDuration: number;
+  minDuration?: number;
+}): OperatorFnOutput {
+  return (options: IOperatorConfig) => new FreeTimeOperator(args, options);
+}
+
+export class FreeTimeOperator extends Operator {
+  readonly within: OccurrenceGenerator;
+  readonly maxDuration: number;
+  readonly minDuration?: number;
+
+  constructor(
+    args: {
+      within: OccurrenceGenerator;
+      maxDuration: number;
+      minDuration?: number;
+    },
+    config: IOperatorConfig,
+  ) {
+    super([args.within], config);
+
+    this.within = this.streams[0];
+    this.maxDuration = args.maxDuration;
+    this.minDuration = args.minDuration;
+
+    if (config.base && !config.base.hasDuration) {
+      throw new ArgumentError(
+        'Base stream provided to FreeTimeOperator does not have an associated duration. ' +
+          'The FreeTimeOperator can only be used with streams which have a duration.',
+      );
+    }
+
+    if (!this.within.hasDuration) {
+      throw new ArgumentError(
+        'The `within` occurrence generator provided to FreeTimeOperator does not have an ' +
+          'associated duration.',
+      );
+    }
+  }
+
+  set(_: 'timezone', value: string | null) {
+    return new FreeTimeOperator(
+      {
+        within: this.within.set('timezone', value),
+        maxDuration: this.maxDuration,
+        minDuration: this.minDuration,
+      },
+      {
+        ...this.config,
+        base: this.config.base && this.config.base.set('timezone', value),
+        timezone: value,
+      },
+    );
+  }
+
+  *_run(args: IRunArgs = {}): OccurrenceGeneratorRunResult {
+    const within = new MergeDurationOperator(
+      { maxDuration: this.maxDuration },
+      { base: this.within, timezone: this.timezone },
+    );
+
+    const busy =
+      this.config.base &&
+      new MergeDurationOperator(
+        { maxDuration: this.maxDuration },
+        { base: this.config.base, timezone: this.timezone },
+      );
+
+    let yieldArgs: { skipToDate?: DateTime } | undefined;
+
+    for (const interval of within._run({
+      start: args.start,
+      end: args.end,
+      reverse: args.reverse,
+    })) {
+      let gaps = this.findGaps(interval, busy);
+
+      if (args.reverse) gaps = gaps.reverse();
+
+      for (const gap of gaps) {
+        if (args.start && gap.end!.isBefore(args.start)) continue;
+        if (args.end && gap.isAfter(args.end)) continue;
+
+        if (yieldArgs && yieldArgs.skipToDate) {
+          if (
+            args.reverse
+              ? gap.isAfter(yieldArgs.skipToDate)
+              : gap.end!.isBefore(yieldArgs.skipToDate)
+          ) {
+            continue;
+          }
+        }
+
+        yieldArgs = yield this.normalizeRunOutput(gap);
+      }
+    }
+  }
+
+  protected calculateIsInfinite() {
+    return this.streams[0].isInfinite;
+  }
+
+  protected calculateHasDuration() {
+    return true;
+  }
+
+  /** Returns the free time within `interval` (in chronological order) */
+  private findGaps(interval: DateTime, busy?: MergeDurationOperator) {
+    const gaps: DateTime[] = [];
+    const minDuration = this.minDuration || 1;
+
+    const addGap = (start: DateTime, end: DateTime) => {
+      const duration = end.valueOf() - start.valueOf();
+
+      if (duration < minDuration) return;
+
+      gaps.push(DateTime.fromJSON({ ...start.toJSON(), duration }));
+    };
+
+    let freeFrom = interval;
+
+    if (busy) {
+      for (const date of busy._run({ start: interval, end: interval.end })) {
+        if (date.isAfterOrEqual(interval.end!)) break;
+        if (date.end!.isBeforeOrEqual(freeFrom)) continue;
+
+        if (date.isAfter(freeFrom)) addGap(freeFrom, date);
+
+        freeFrom = date.end!;
+
+        if (freeFrom.isAfterOrEqual(interval.end!)) return gaps;
+      }
+    }
+
+    addGap(freeFrom, interval.end!);
+
+    return gaps;
+  }
+}
@@ -1,6 +1,7 @@
 import { ArgumentError, DateAdapter, DateTime } from '@rschedule/core';
 
 import {
+  AsyncOccurrenceGeneratorRunResult,
   IOperatorConfig,
   IRunArgs,
   OccurrenceGenerator,
@@ -10,6 +11,7 @@ import {
 } from '../occurrence-generator';
 
 import {
+  AsyncIterableWrapper,
   IterableWrapper,
   selectLastIterable,
   selectNextIterable,
@@ -159,6 +161,73 @@ export class IntersectionOperator extends Operator {
     }
   }
 
+  async *_runAsync(args: IRunArgs = {}): AsyncOccurrenceGeneratorRunResult {
+    const streams = await Promise.all(
+      this.streams.map(input => AsyncIterableWrapper.create(input._runAsync(args))),
+    );
+
+    if (this.config.base) {
+      streams.push(await AsyncIterableWrapper.create(this.config.base._runAsync(args)));
+    }
+
+    if (streams.length === 0) return;
+
+    const hasEndDate = !!(!this.isInfinite || args.reverse || args.end);
+
+    if (
+      !(await cycleStreamsAsync(streams, undefined, {
+        ...args,
+        hasEndDate,
+        iteration: 0,
+        maxIterations: this.maxFailedIterations,
+      }))
+    ) {
+      return;
+    }
+
+    let stream = selectNextIterable(streams, args);
+
+    while (!streams.some(wrapper => wrapper.done)) {
+      const yieldArgs = yield this.normalizeRunOutput(stream.value!);
+
+      const lastValidDate = stream.value;
+
+      await stream.picked();
+
+      if (
+        !(await cycleStreamsAsync(streams, lastValidDate, {
+          ...args,
+          hasEndDate,
+          iteration: 0,
+          maxIterations: this.maxFailedIterations,
+        }))
+      ) {
+        return;
+      }
+
+      stream = selectNextIterable(streams, args);
+
+      if (yieldArgs && yieldArgs.skipToDate) {
+        while (!streamPastSkipToDate(stream, yieldArgs.skipToDate, args)) {
+          await stream.picked();
+
+          if (
+            !(await cycleStreamsAsync(streams, lastValidDate, {
+              ...args,
+              hasEndDate,
+              iteration: 0,
+              maxIterations: this.maxFailedIterations,
+            }))
+          ) {
+            return;
+          }
+
+          stream = selectNextIterable(streams, args);
+        }
+      }
+    }
+  }
+
   protected calculateIsInfinite() {
     // Note: Array#every() === true when length === 0
     if (!this.config.base) {
@@ -212,3 +281,36 @@ function cycleStreams(
 
   return cycleStreams(streams, lastValidDate, options);
 }
+
+/** Like `cycleStreams()` except that the streams are async */
+async function cycleStreamsAsync(
+  streams: AsyncIterableWrapper[],
+  lastValidDate: DateTime | undefined,
+  options: {
+    maxIterations?: number;
+    hasEndDate: boolean;
+    iteration: number;
+    end?: DateTime;
+    reverse?: boolean;
+  },
+): Promise<boolean> {
+  const next = selectNextIterable(streams, options);
+
+  if (streams.some(stream => stream.done) || streamPastEnd(next, options)) return false;
+
+  if (streams.every(stream => stream.value!.isEqual(next.value))) return true;
+
+  if (lastValidDate && next.value!.isEqual(lastValidDate)) return true;
+
+  options.iteration++;
+
+  if (options.maxIterations && !options.hasEndDate && options.iteration > options.maxIterations) {
+    return false;
+  }
+
+  const last = selectLastIterable(streams, options);
+
+  await Promise.all(streams.map(stream => stream.skipToDate(last.value!, options)));
+
+  return cycleStreamsAsync(streams, lastValidDate, options);
+}
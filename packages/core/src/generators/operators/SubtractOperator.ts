@@ -1,5 +1,7 @@
 import { DateTime } from '@rschedule/core';
 import {
+  AsyncOccurrenceGeneratorRunResult,
+  ICountRunArgs,
   IOperatorConfig,
   IRunArgs,
   OccurrenceGenerator,
@@ -7,7 +9,12 @@ import {
   Operator,
   OperatorFnOutput,
 } from '../occurrence-generator';
-import { IterableWrapper, streamPastEnd, streamPastSkipToDate } from './_util';
+import {
+  AsyncIterableWrapper,
+  IterableWrapper,
+  streamPastEnd,
+  streamPastSkipToDate,
+} from './_util';
 import { AddOperator } from './AddOperator';
 
 /**
@@ -30,6 +37,13 @@ export class SubtractOperator extends Operator {
     });
   }
 
+  _count(args: ICountRunArgs = {}): number {
+    if (!this.config.base) return 0;
+    if (this.streams.length === 0) return this.config.base._count(args);
+
+    return super._count(args);
+  }
+
   *_run(args: IRunArgs = {}): OccurrenceGeneratorRunResult {
     if (!this.config.base) return;
 
@@ -65,6 +79,43 @@ export class SubtractOperator extends Operator {
     }
   }
 
+  async *_runAsync(args: IRunArgs = {}): AsyncOccurrenceGeneratorRunResult {
+    if (!this.config.base) return;
+
+    const [inclusion, exclusion] = await Promise.all([
+      AsyncIterableWrapper.create(this.config.base._runAsync(args)),
+      AsyncIterableWrapper.create(
+        new AddOperator(this.streams, {
+          timezone: this.config.timezone,
+        })._runAsync(args),
+      ),
+    ]);
+
+    await cycleStreamsAsync(inclusion, exclusion, args);
+
+    if (streamPastEnd(inclusion, args)) return;
+
+    while (!inclusion.done) {
+      const yieldArgs = yield this.normalizeRunOutput(inclusion.value!);
+
+      await inclusion.picked();
+
+      await cycleStreamsAsync(inclusion, exclusion, args);
+
+      if (yieldArgs && yieldArgs.skipToDate) {
+        while (
+          !streamPastEnd(inclusion, args) &&
+          !streamPastSkipToDate(inclusion, yieldArgs.skipToDate, args)
+        ) {
+          await inclusion.picked();
+          await cycleStreamsAsync(inclusion, exclusion, args);
+        }
+      }
+
+      if (streamPastEnd(inclusion, args)) return;
+    }
+  }
+
   protected calculateIsInfinite() {
     return !!(this.config.base && this.config.base.isInfinite);
   }
@@ -104,3 +155,35 @@ function iterateExclusion(
     exclusion.picked();
   }
 }
+
+/** Like `cycleStreams()` except that the streams are async */
+async function cycleStreamsAsync(
+  inclusion: AsyncIterableWrapper,
+  exclusion: AsyncIterableWrapper,
+  options: { reverse?: boolean } = {},
+) {
+  await iterateExclusionAsync(inclusion, exclusion, options);
+
+  while (!inclusion.done && !exclusion.done && inclusion.value!.isEqual(exclusion.value)) {
+    await inclusion.picked();
+    await iterateExclusionAsync(inclusion, exclusion, options);
+  }
+}
+
+async function iterateExclusionAsync(
+  inclusion: AsyncIterableWrapper,
+  exclusion: AsyncIterableWrapper,
+  options: { reverse?: boolean } = {},
+) {
+  if (options.reverse) {
+    while (!exclusion.done && !inclusion.done && exclusion.value!.isAfter(inclusion.value!)) {
+      await exclusion.picked();
+    }
+
+    return;
+  }
+
+  while (!exclusion.done && !inclusion.done && exclusion.value!.isBefore(inclusion.value!)) {
+    await exclusion.picked();
+  }
+}
@@ -1,12 +1,18 @@
 import { DateTime } from '@rschedule/core';
 import {
+  AsyncOccurrenceGeneratorRunResult,
   IOperatorConfig,
   IRunArgs,
   OccurrenceGeneratorRunResult,
   Operator,
   OperatorFnOutput,
 } from '../occurrence-generator';
-import { IterableWrapper, streamPastEnd, streamPastSkipToDate } from './_util';
+import {
+  AsyncIterableWrapper,
+  IterableWrapper,
+  streamPastEnd,
+  streamPastSkipToDate,
+} from './_util';
 
 /**
  * An operator function which deduplicates an occurrence stream. Occurrence
@@ -53,6 +59,33 @@ export class UniqueOperator extends Operator {
     }
   }
 
+  async *_runAsync(args: IRunArgs = {}): AsyncOccurrenceGeneratorRunResult {
+    if (!this.config.base) return;
+
+    const stream = await AsyncIterableWrapper.create(this.config.base._runAsync(args));
+
+    while (!stream.done) {
+      const yieldArgs = yield this.normalizeRunOutput(stream.value!);
+
+      const lastValue = stream.value;
+
+      await stream.picked();
+
+      if (yieldArgs && yieldArgs.skipToDate) {
+        while (
+          !streamPastEnd(stream, args) &&
+          !streamPastSkipToDate(stream, yieldArgs.skipToDate, args)
+        ) {
+          await stream.picked();
+        }
+      }
+
+      while (!streamPastEnd(stream, args) && stream.value!.isEqual(lastValue)) {
+        await stream.picked();
+      }
+    }
+  }
+
   protected calculateIsInfinite() {
     return !!(this.config.base && this.config.base.isInfinite);
   }
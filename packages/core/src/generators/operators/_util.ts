@@ -1,5 +1,8 @@
 import { DateTime } from '@rschedule/core';
-import { OccurrenceGeneratorRunResult } from '../occurrence-generator';
+import {
+  AsyncOccurrenceGeneratorRunResult,
+  OccurrenceGeneratorRunResult,
+} from '../occurrence-generator';
 
 export class IterableWrapper {
   done!: boolean;
@@ -27,10 +30,46 @@ export class IterableWrapper {
   }
 }
 
-export function selectNextIterable(
-  streams: IterableWrapper[],
+/**
+ * Like `IterableWrapper` except that it wraps an async iterator.
+ * Create one with `AsyncIterableWrapper.create()`.
+ */
+export class AsyncIterableWrapper {
+  static async create(stream: AsyncOccurrenceGeneratorRunResult) {
+    const wrapper = new AsyncIterableWrapper(stream);
+
+    await wrapper.picked();
+
+    return wrapper;
+  }
+
+  done!: boolean;
+  value!: DateTime | undefined;
+
+  private constructor(readonly stream: AsyncOccurrenceGeneratorRunResult) {}
+
+  async picked() {
+    const { done, value } = await this.stream.next();
+
+    this.done = done;
+    this.value = value;
+  }
+
+  async skipToDate(date: DateTime, options: { reverse?: boolean }) {
+    if (this.done) return;
+    if (options.reverse ? date.isAfter(this.value!) : date.isBefore(this.value!)) return;
+
+    const { done, value } = await this.stream.next({ skipToDate: date });
+
+    this.done = done;
+    this.value = value;
+  }
+}
+
+export function selectNextIterable<T extends IterableWrapper | AsyncIterableWrapper>(
+  streams: T[],
   options: { reverse?: boolean } = {},
-) {
+): T {
   if (options.reverse) {
     return streams.reduce((prev, curr) => {
       if (prev.done) return curr;
@@ -48,10 +87,10 @@ export function selectNextIterable(
   });
 }
 
-export function selectLastIterable(
-  streams: IterableWrapper[],
+export function selectLastIterable<T extends IterableWrapper | AsyncIterableWrapper>(
+  streams: T[],
   options: { reverse?: boolean } = {},
-) {
+): T {
   if (options.reverse) {
     return streams.reduce((prev, curr) => {
       if (prev.done) return curr;
@@ -70,7 +109,7 @@ export function selectLastIterable(
 }
 
 export function streamPastEnd(
-  stream: IterableWrapper,
+  stream: IterableWrapper | AsyncIterableWrapper,
   options: { reverse?: boolean; start?: DateTime; end?: DateTime },
 ) {
   return (
@@ -82,7 +121,7 @@ export function streamPastEnd(
 }
 
 export function streamPastSkipToDate(
-  stream: IterableWrapper,
+  stream: IterableWrapper | AsyncIterableWrapper,
   skipToDate: DateTime,
   options: { reverse?: boolean },
 ) {
@@ -1,13 +1,18 @@
-import { DateAdapterBase, DateTime } from '@rschedule/core';
+import { ArgumentError, DateAdapterBase, DateTime } from '@rschedule/core';
 
 import {
   add,
+  AsyncDates,
+  Calendar,
+  freeTime,
   intersection,
   mergeDuration,
+  MergeDurationOperatorError,
   splitDuration,
   subtract,
   unique,
   Dates,
+  OccurrenceGenerator,
 } from '@rschedule/core/generators';
 
 import {
@@ -937,6 +942,16 @@ export default function operatorsTests() {
                 expect(results).toEqual(occurrencesToIsoStrings(datesA, datesB));
               });
 
+              it('count()', () => {
+                const operator = add(datesA, datesB)({
+                  timezone,
+                });
+
+                expect(operator.count()).toBe(11);
+                expect(operator.count({ start: dateAdapter(2019, 1, 1, 1, 1, 1, 1) })).toBe(7);
+                expect(operator.count({ end: dateAdapter(2019, 1, 1, 1, 1, 1, 1) })).toBe(7);
+              });
+
               describe('runArgs', () => {
                 it('start', () => {
                   const iterable = add(datesA, datesB)({
@@ -1020,6 +1035,15 @@ export default function operatorsTests() {
                   ]);
                 });
 
+                it('count()', () => {
+                  expect(
+                    subtract(datesA)({
+                      base: datesB,
+                      timezone,
+                    }).count(),
+                  ).toBe(4);
+                });
+
                 describe('runArgs', () => {
                   it('start', () => {
                     const iterable = subtract(datesA)({
@@ -1315,6 +1339,17 @@ export default function operatorsTests() {
                   ]);
                 });
 
+                it('count()', () => {
+                  expect(
+                    unique()({
+                      base: add(datesA, datesB)({
+                        timezone,
+                      }),
+                      timezone,
+                    }).count(),
+                  ).toBe(8);
+                });
+
                 describe('runArgs', () => {
                   it('start', () => {
                     const iterable = unique()({
@@ -1780,6 +1815,243 @@ export default function operatorsTests() {
               });
             });
           });
+
+          describe('async streams', () => {
+            const asyncDates = (dates: Dates) =>
+              new AsyncDates({
+                source: async () => dates.adapters,
+                start: dateAdapter(2017, 1, 1),
+                end: dateAdapter(2020, 12, 31),
+                timezone,
+              });
+
+            async function toAsyncISOStrings(
+              generator: OccurrenceGenerator,
+              args: { reverse?: boolean; take?: number } = {},
+            ) {
+              return (await generator.occurrencesAsync(args).toArray()).map(date =>
+                date.toISOString(),
+              );
+            }
+
+            it('add()', async () => {
+              const operator = add(asyncDates(datesA), datesB)({ timezone });
+              const expected = add(datesA, datesB)({ timezone });
+
+              expect(await toAsyncISOStrings(operator)).toEqual(toISOStrings(expected));
+              expect(await toAsyncISOStrings(operator, { reverse: true })).toEqual(
+                toISOStrings(expected, { reverse: true }),
+              );
+            });
+
+            it('subtract()', async () => {
+              const operator = subtract(asyncDates(datesA))({ base: datesB, timezone });
+              const expected = subtract(datesA)({ base: datesB, timezone });
+
+              expect(await toAsyncISOStrings(operator)).toEqual(toISOStrings(expected));
+              expect(await toAsyncISOStrings(operator, { reverse: true })).toEqual(
+                toISOStrings(expected, { reverse: true }),
+              );
+            });
+
+            it('intersection()', async () => {
+              const operator = intersection({ streams: [asyncDates(datesA), datesB] })({
+                timezone,
+              });
+              const expected = intersection({ streams: [datesA, datesB] })({ timezone });
+
+              expect(await toAsyncISOStrings(operator)).toEqual(toISOStrings(expected));
+              expect(await toAsyncISOStrings(operator, { reverse: true })).toEqual(
+                toISOStrings(expected, { reverse: true }),
+              );
+            });
+
+            it('unique()', async () => {
+              const operator = unique()({
+                base: add(asyncDates(datesA), datesB)({ timezone }),
+                timezone,
+              });
+              const expected = unique()({ base: add(datesA, datesB)({ timezone }), timezone });
+
+              expect(await toAsyncISOStrings(operator)).toEqual(toISOStrings(expected));
+              expect(await toAsyncISOStrings(operator, { reverse: true, take: 3 })).toEqual(
+                toISOStrings(expected, { reverse: true, take: 3 }),
+              );
+            });
+
+            it('Calendar', async () => {
+              const calendar = new Calendar({ schedules: [asyncDates(datesA), datesB], timezone });
+              const expected = new Calendar({ schedules: [datesA, datesB], timezone });
+
+              expect(await toAsyncISOStrings(calendar)).toEqual(toISOStrings(expected));
+            });
+
+            it('synchronous iteration throws', () => {
+              expect(() =>
+                add(asyncDates(datesA), datesB)({ timezone })
+                  ._run()
+                  .next(),
+              ).toThrowError();
+            });
+          });
+
+          describe('FreeTimeOperator', () => {
+            const MILLISECONDS_IN_MINUTE = 1000 * 60;
+
+            const workingHours = new Dates({
+              dates: [
+                dateAdapter(2010, 10, 11, 9, 0, 0, 0, { duration: MILLISECONDS_IN_HOUR * 8 }),
+                dateAdapter(2010, 10, 12, 9, 0, 0, 0, { duration: MILLISECONDS_IN_HOUR * 8 }),
+              ],
+              timezone,
+            });
+
+            const personA = new Dates({
+              dates: [
+                dateAdapter(2010, 10, 11, 10, 0, 0, 0, { duration: MILLISECONDS_IN_HOUR * 1 }),
+                dateAdapter(2010, 10, 12, 8, 0, 0, 0, { duration: MILLISECONDS_IN_MINUTE * 75 }),
+              ],
+              timezone,
+            });
+
+            const personB = new Dates({
+              dates: [
+                dateAdapter(2010, 10, 11, 10, 30, 0, 0, { duration: MILLISECONDS_IN_MINUTE * 90 }),
+                dateAdapter(2010, 10, 11, 12, 20, 0, 0, { duration: MILLISECONDS_IN_MINUTE * 250 }),
+                dateAdapter(2010, 10, 12, 16, 0, 0, 0, { duration: MILLISECONDS_IN_HOUR * 2 }),
+              ],
+              timezone,
+            });
+
+            const calendar = new Calendar({ schedules: [personA, personB], timezone });
+
+            const expected: [string, number][] = [
+              [isoString(2010, 10, 11, 9, 0, 0, 0), MILLISECONDS_IN_HOUR * 1],
+              [isoString(2010, 10, 11, 12, 0, 0, 0), MILLISECONDS_IN_MINUTE * 20],
+              [isoString(2010, 10, 11, 16, 30, 0, 0), MILLISECONDS_IN_MINUTE * 30],
+              [isoString(2010, 10, 12, 9, 15, 0, 0), MILLISECONDS_IN_MINUTE * 405],
+            ];
+
+            function toResults(iterable: Iterable<DateTime>) {
+              const results: [string, number][] = [];
+
+              for (const date of iterable) {
+                results.push([toAdapter(date).toISOString(), date.duration]);
+              }
+
+              return results;
+            }
+
+            it('freeTime()', () => {
+              const iterable = freeTime({
+                within: workingHours,
+                maxDuration: MILLISECONDS_IN_HOUR * 24,
+              })({
+                base: calendar,
+                timezone,
+              })._run();
+
+              expect(toResults(iterable)).toEqual(expected);
+            });
+
+            it('pipe()', () => {
+              const operator = calendar.pipe(
+                freeTime({
+                  within: workingHours,
+                  maxDuration: MILLISECONDS_IN_HOUR * 24,
+                  minDuration: MILLISECONDS_IN_MINUTE * 30,
+                }),
+              );
+
+              expect(operator.hasDuration).toBe(true);
+              expect(operator.isInfinite).toBe(false);
+              expect(toResults(operator._run())).toEqual([expected[0], expected[2], expected[3]]);
+            });
+
+            it('without a base stream', () => {
+              const iterable = freeTime({
+                within: workingHours,
+                maxDuration: MILLISECONDS_IN_HOUR * 24,
+              })({
+                timezone,
+              })._run();
+
+              expect(toResults(iterable)).toEqual([
+                [isoString(2010, 10, 11, 9, 0, 0, 0), MILLISECONDS_IN_HOUR * 8],
+                [isoString(2010, 10, 12, 9, 0, 0, 0), MILLISECONDS_IN_HOUR * 8],
+              ]);
+            });
+
+            describe('runArgs', () => {
+              const operator = freeTime({
+                within: workingHours,
+                maxDuration: MILLISECONDS_IN_HOUR * 24,
+              })({
+                base: calendar,
+                timezone,
+              });
+
+              it('start', () => {
+                expect(
+                  toResults(operator._run({ start: dateTime(2010, 10, 11, 12, 10, 0, 0) })),
+                ).toEqual(expected.slice(1));
+              });
+
+              it('end', () => {
+                expect(
+                  toResults(operator._run({ end: dateTime(2010, 10, 11, 16, 30, 0, 0) })),
+                ).toEqual(expected.slice(0, 3));
+              });
+
+              it('reverse', () => {
+                expect(toResults(operator._run({ reverse: true }))).toEqual(
+                  expected.slice().reverse(),
+                );
+              });
+
+              it('reverse start', () => {
+                expect(
+                  toResults(
+                    operator._run({ reverse: true, start: dateTime(2010, 10, 11, 12, 10, 0, 0) }),
+                  ),
+                ).toEqual(expected.slice(1).reverse());
+              });
+            });
+
+            it('throws when the maxDuration is exceeded', () => {
+              const iterable = freeTime({
+                within: workingHours,
+                maxDuration: MILLISECONDS_IN_HOUR * 7,
+              })({
+                base: calendar,
+                timezone,
+              })._run();
+
+              expect(() => toResults(iterable)).toThrowError(MergeDurationOperatorError);
+            });
+
+            it('requires streams with a duration', () => {
+              expect(() =>
+                freeTime({
+                  within: workingHours,
+                  maxDuration: MILLISECONDS_IN_HOUR * 24,
+                })({
+                  base: datesA,
+                  timezone,
+                }),
+              ).toThrowError(ArgumentError);
+
+              expect(() =>
+                freeTime({
+                  within: datesA,
+                  maxDuration: MILLISECONDS_IN_HOUR * 24,
+                })({
+                  base: calendar,
+                  timezone,
+                }),
+              ).toThrowError(ArgumentError);
+            });
+          });
         });
       });
     });
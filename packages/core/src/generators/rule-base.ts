@@ -1,7 +1,11 @@
 import {
+  canonicalJSONStringify,
   cloneRuleOptions,
+  DateAdapter,
   DateTime,
+  FIXED_FREQUENCY_LENGTHS,
   INormRuleOptionsBase,
+  INTERVAL_OPTIONS,
   IRecurrenceRuleModule,
   IRuleOptionsBase,
   normalizeRuleOptions,
@@ -10,15 +14,24 @@ import {
 } from '@rschedule/core';
 
 import {
+  AsyncOccurrenceIterator,
   CollectionIterator,
   ICollectionsArgs,
+  ICountRunArgs,
   IOccurrencesArgs,
+  IOccurrencesAsyncArgs,
   IRunArgs,
   OccurrenceGenerator,
   OccurrenceGeneratorRunResult,
   OccurrenceIterator,
 } from './occurrence-generator';
 
+/** `FIXED_FREQUENCY_LENGTHS` along with `WEEKLY`, whose intervals are counted the same way */
+const FIXED_INTERVAL_LENGTHS: { [frequency: string]: number | undefined } = {
+  ...FIXED_FREQUENCY_LENGTHS,
+  WEEKLY: DateAdapter.MILLISECONDS_IN_WEEK,
+};
+
 export interface IRuleArgs<D = any> {
   data?: D;
   timezone?: string | null;
@@ -76,6 +89,10 @@ export abstract class RuleBase<
     return new OccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
   }
 
+  occurrencesAsync(args: IOccurrencesAsyncArgs = {}): AsyncOccurrenceIterator<[this]> {
+    return new AsyncOccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
+  }
+
   collections(args: ICollectionsArgs = {}): CollectionIterator<[this]> {
     return new CollectionIterator(this, this.normalizeCollectionsArgs(args));
   }
@@ -104,6 +121,55 @@ export abstract class RuleBase<
     value: Options[Prop],
   ): RuleBase<Options, NOptions, Data>;
 
+  /**
+   * Returns a copy of this rule's options in a canonical form. `by*` arrays are
+   * sorted and deduped and options which don't change the rule are dropped.
+   * This includes options set to their default value (e.g. `interval: 1`) as
+   * well as options implied by `start` (e.g. a `WEEKLY` rule's `byDayOfWeek`
+   * containing only the weekday of `start`).
+   */
+  canonicalOptions(): Options {
+    const options = sortRuleOptions(this.options);
+
+    const canonicalNorm = canonicalJSONStringify(
+      normalizeRuleOptions(this.recurrenceRules, options),
+    );
+
+    Object.keys(options)
+      .sort()
+      .filter(key => key !== 'start' && key !== 'frequency')
+      .forEach(key => {
+        const withoutKey: any = { ...options };
+
+        delete withoutKey[key];
+
+        let norm: string;
+
+        try {
+          norm = canonicalJSONStringify(normalizeRuleOptions(this.recurrenceRules, withoutKey));
+        } catch (e) {
+          return;
+        }
+
+        if (norm === canonicalNorm) delete (options as any)[key];
+      });
+
+    return options;
+  }
+
+  /**
+   * Returns `true` if this rule and the provided rule have equivalent options
+   * (see `canonicalOptions()`). The `data` and `timezone` of the rules are ignored.
+   */
+  isEquivalent(other: RuleBase<any, any>): boolean {
+    return (
+      canonicalJSONStringify(
+        normalizeRuleOptions(this.recurrenceRules, this.canonicalOptions()),
+      ) ===
+      canonicalJSONStringify(normalizeRuleOptions(other.recurrenceRules, other.canonicalOptions()))
+    );
+  }
+
   *_run(rawArgs: IRunArgs = {}): OccurrenceGeneratorRunResult {
     const args = this.normalizeRunArgs(rawArgs);
 
@@ -129,4 +195,71 @@ export abstract class RuleBase<
 
     return undefined;
   }
+
+  /**
+   * If the rule's frequency has a fixed length and it has no other rule options
+   * (e.g. `{ frequency: 'DAILY', interval: 2 }`), there is exactly one occurrence
+   * per interval and the occurrences can be counted without iterating over them.
+   */
+  _count(rawArgs: ICountRunArgs = {}): number {
+    const args = this.normalizeRunArgs(rawArgs);
+    const length = this.getFixedIntervalLength();
+
+    if (length === undefined) return super._count(args);
+
+    const { start, end, count } = this.normOptions;
+
+    const from = args.start && args.start.isAfter(start) ? args.start : start;
+    const to = args.end && end ? (args.end.isBefore(end) ? args.end : end) : args.end || end;
+
+    const first = Math.ceil((from.valueOf() - start.valueOf()) / length);
+    let last = to ? Math.floor((to.valueOf() - start.valueOf()) / length) : Infinity;
+
+    if (count !== undefined) last = Math.min(last, count - 1);
+
+    return Math.max(last - first + 1, 0);
+  }
+
+  private getFixedIntervalLength() {
+    const options: { [option: string]: any } = this.options;
+    const length = options.frequency && FIXED_INTERVAL_LENGTHS[options.frequency];
+
+    if (
+      !length ||
+      // the rule is processed in the timezone of `start`
+      this.timezone !== this.normOptions.start.timezone ||
+      Object.keys(options).some(
+        option => options[option] !== undefined && !INTERVAL_OPTIONS.includes(option),
+      )
+    ) {
+      return;
+    }
+
+    return length * (options.interval || 1);
+  }
+}
+
+/** Returns a copy of the rule options with all of the `by*` arrays sorted and deduped */
+function sortRuleOptions<T extends IRuleOptionsBase>(options: T): T {
+  const sorted: any = cloneRuleOptions(options);
+
+  Object.keys(sorted).forEach(key => {
+    if (!key.startsWith('by') || !Array.isArray(sorted[key])) return;
+
+    sorted[key] = (sorted[key] as unknown[])
+      .map(entry => ({ entry, json: canonicalJSONStringify(entry) }))
+      .sort((a, b) =>
+        typeof a.entry === 'number' && typeof b.entry === 'number'
+          ? a.entry - b.entry
+          : a.json < b.json
+          ? -1
+          : a.json > b.json
+          ? 1
+          : 0,
+      )
+      .filter((item, index, items) => index === 0 || item.json !== items[index - 1].json)
+      .map(item => item.entry);
+  });
+
+  return sorted;
 }
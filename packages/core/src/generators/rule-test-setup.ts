@@ -747,6 +747,453 @@ export default function ruleTests() {
               ],
             );
   
+            testRecurring(
+              'testYearlyBySetPos',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byDayOfMonth: [15],
+                byHourOfDay: [6, 18],
+                bySetPosition: [3, -3],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 11, 15, 18, 0),
+                dateAdapter(1998, 2, 15, 6, 0),
+                dateAdapter(1998, 11, 15, 18, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByMonthAndMonthDaySkipBackward',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byMonthOfYear: [2],
+                byDayOfMonth: [29],
+                skip: 'BACKWARD',
+                start: parse('20160229T090000'),
+              }),
+              [
+                dateAdapter(2016, 2, 29, 9, 0),
+                dateAdapter(2017, 2, 28, 9, 0),
+                dateAdapter(2018, 2, 28, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByMonthAndMonthDaySkipForward',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byMonthOfYear: [2],
+                byDayOfMonth: [29],
+                skip: 'FORWARD',
+                start: parse('20160229T090000'),
+              }),
+              [
+                dateAdapter(2016, 2, 29, 9, 0),
+                dateAdapter(2017, 3, 1, 9, 0),
+                dateAdapter(2018, 3, 1, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByMonthAndMonthDaySkipOmit',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 2,
+                byMonthOfYear: [2],
+                byDayOfMonth: [29],
+                skip: 'OMIT',
+                start: parse('20160229T090000'),
+              }),
+              [
+                dateAdapter(2016, 2, 29, 9, 0),
+                dateAdapter(2020, 2, 29, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyRScaleHebrewLeapMonthSkipForward',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 4,
+                byMonthOfYear: ['5L'],
+                byDayOfMonth: [8],
+                skip: 'FORWARD',
+                rscale: 'HEBREW',
+                start: parse('20140208T090000'),
+              }),
+              [
+                dateAdapter(2014, 2, 8, 9, 0),
+                dateAdapter(2015, 2, 27, 9, 0),
+                dateAdapter(2016, 2, 17, 9, 0),
+                dateAdapter(2017, 3, 6, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyRScaleHebrewLeapMonthSkipBackward',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byMonthOfYear: ['5L'],
+                byDayOfMonth: [8],
+                skip: 'BACKWARD',
+                rscale: 'HEBREW',
+                start: parse('20140208T090000'),
+              }),
+              [
+                dateAdapter(2014, 2, 8, 9, 0),
+                dateAdapter(2015, 1, 28, 9, 0),
+                dateAdapter(2016, 2, 17, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyRScaleHebrewLeapMonthSkipOmit',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 2,
+                byMonthOfYear: ['5L'],
+                byDayOfMonth: [8],
+                rscale: 'HEBREW',
+                start: parse('20140208T090000'),
+              }),
+              [
+                dateAdapter(2014, 2, 8, 9, 0),
+                dateAdapter(2016, 2, 17, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyRScaleChinese',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                rscale: 'CHINESE',
+                start: parse('20130210T090000'),
+              }),
+              [
+                dateAdapter(2013, 2, 10, 9, 0),
+                dateAdapter(2014, 1, 31, 9, 0),
+                dateAdapter(2015, 2, 19, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyRScaleChineseLeapMonth',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 2,
+                byMonthOfYear: ['6L'],
+                byDayOfMonth: [1],
+                rscale: 'CHINESE',
+                start: parse('20170101T090000'),
+              }),
+              [
+                dateAdapter(2017, 7, 23, 9, 0),
+                dateAdapter(2025, 7, 25, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyRScaleIslamicCivil',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                rscale: 'ISLAMIC-CIVIL',
+                start: parse('20240311T090000'),
+              }),
+              [
+                dateAdapter(2024, 3, 11, 9, 0),
+                dateAdapter(2025, 3, 1, 9, 0),
+                dateAdapter(2026, 2, 18, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByEaster',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byEaster: [0],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 4, 12, 9, 0),
+                dateAdapter(1999, 4, 4, 9, 0),
+                dateAdapter(2000, 4, 23, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByEasterPos',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byEaster: [1],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 4, 13, 9, 0),
+                dateAdapter(1999, 4, 5, 9, 0),
+                dateAdapter(2000, 4, 24, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByEasterNeg',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byEaster: [-1],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 4, 11, 9, 0),
+                dateAdapter(1999, 4, 3, 9, 0),
+                dateAdapter(2000, 4, 22, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByEasterOrthodox',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byEaster: [0],
+                easterCalendar: 'ORTHODOX',
+                start: parse('20240101T090000'),
+              }),
+              [
+                dateAdapter(2024, 5, 5, 9, 0),
+                dateAdapter(2025, 4, 20, 9, 0),
+                dateAdapter(2026, 4, 12, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByQuarter',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byQuarterOfYear: [2],
+                byDayOfMonth: [1],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 4, 1, 9, 0),
+                dateAdapter(1998, 5, 1, 9, 0),
+                dateAdapter(1998, 6, 1, 9, 0),
+              ],
+            );
+
+            testRecurring(
+              'testYearlyByQuarterAndNthWeekday',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byQuarterOfYear: [2],
+                byDayOfWeek: [['MO', 1]],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 4, 6, 9, 0),
+                dateAdapter(1999, 4, 5, 9, 0),
+                dateAdapter(2000, 4, 3, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByFiscalPeriodAndDayOfFiscalPeriod',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byFiscalPeriod: [7],
+                byDayOfFiscalPeriod: [-1],
+                fiscalCalendar: {
+                  pattern: '4-5-4',
+                  yearEnd: 'NEAREST',
+                  yearEndMonth: 1,
+                  yearEndWeekday: 'SA',
+                },
+                start: parse('20230101T090000'),
+              }),
+              [
+                dateAdapter(2023, 8, 26, 9, 0),
+                dateAdapter(2024, 8, 31, 9, 0),
+                dateAdapter(2025, 8, 30, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByDayOfFiscalPeriod',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byDayOfFiscalPeriod: [-1],
+                fiscalCalendar: {
+                  pattern: '4-5-4',
+                  yearEnd: 'NEAREST',
+                  yearEndMonth: 1,
+                  yearEndWeekday: 'SA',
+                },
+                start: parse('20230101T090000'),
+              }),
+              [
+                dateAdapter(2023, 1, 28, 9, 0),
+                dateAdapter(2023, 2, 25, 9, 0),
+                dateAdapter(2023, 4, 1, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByWeekNo',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byWeekOfYear: [20],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 5, 11, 9, 0),
+                dateAdapter(1998, 5, 12, 9, 0),
+                dateAdapter(1998, 5, 13, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByWeekNoAndWeekDay',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byWeekOfYear: [1],
+                byDayOfWeek: ['MO'],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 12, 29, 9, 0),
+                dateAdapter(1999, 1, 4, 9, 0),
+                dateAdapter(2000, 1, 3, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByWeekNoAndWeekDayLarge',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byWeekOfYear: [52],
+                byDayOfWeek: ['SU'],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 12, 28, 9, 0),
+                dateAdapter(1998, 12, 27, 9, 0),
+                dateAdapter(2000, 1, 2, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByWeekNoAndWeekDayLast',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byWeekOfYear: [-1],
+                byDayOfWeek: ['SU'],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 12, 28, 9, 0),
+                dateAdapter(1999, 1, 3, 9, 0),
+                dateAdapter(2000, 1, 2, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByWeekNoAndWeekDay53',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byWeekOfYear: [53],
+                byDayOfWeek: ['MO'],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 12, 28, 9, 0),
+                dateAdapter(2004, 12, 27, 9, 0),
+                dateAdapter(2009, 12, 28, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByYearDay',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 4,
+                byDayOfYear: [1, 100, 200, 365],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 12, 31, 9, 0),
+                dateAdapter(1998, 1, 1, 9, 0),
+                dateAdapter(1998, 4, 10, 9, 0),
+                dateAdapter(1998, 7, 19, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByYearDayNeg',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 4,
+                byDayOfYear: [-365, -266, -166, -1],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 12, 31, 9, 0),
+                dateAdapter(1998, 1, 1, 9, 0),
+                dateAdapter(1998, 4, 10, 9, 0),
+                dateAdapter(1998, 7, 19, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByMonthAndYearDay',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 4,
+                byMonthOfYear: [4, 7],
+                byDayOfYear: [1, 100, 200, 365],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 4, 10, 9, 0),
+                dateAdapter(1998, 7, 19, 9, 0),
+                dateAdapter(1999, 4, 10, 9, 0),
+                dateAdapter(1999, 7, 19, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testYearlyByMonthAndYearDayNeg',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 4,
+                byMonthOfYear: [4, 7],
+                byDayOfYear: [-365, -266, -166, -1],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 4, 10, 9, 0),
+                dateAdapter(1998, 7, 19, 9, 0),
+                dateAdapter(1999, 4, 10, 9, 0),
+                dateAdapter(1999, 7, 19, 9, 0),
+              ],
+            );
+  
             // This is testing a bug I found while iterating in reverse
             testRecurring(
               'testYearlyByMonthAndByWeekWithEndDate',
@@ -795,6 +1242,118 @@ export default function ruleTests() {
               true,
               [dateAdapter(2016, 1, 1), dateAdapter(2017, 1, 1)],
             );
+  
+            testRecurring(
+              'testYearlyByMonthAndLunarPhase',
+              buildGenerator({
+                frequency: 'YEARLY',
+                count: 3,
+                byMonthOfYear: [6, 8],
+                byLunarPhase: ['NEW_MOON'],
+                byHourOfDay: [20],
+                start: parse('20240101T200000'),
+              }),
+              [
+                dateAdapter(2024, 6, 6, 20, 0),
+                dateAdapter(2024, 8, 4, 20, 0),
+                dateAdapter(2025, 6, 25, 20, 0),
+              ],
+            );
+          });
+  
+          describe('QUARTERLY', () => {
+            testRecurring(
+              'testQuarterly',
+              buildGenerator({
+                frequency: 'QUARTERLY',
+                count: 3,
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 9, 0),
+                dateAdapter(1997, 12, 2, 9, 0),
+                dateAdapter(1998, 3, 2, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testQuarterlyInterval',
+              buildGenerator({
+                frequency: 'QUARTERLY',
+                count: 3,
+                interval: 2,
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 9, 0),
+                dateAdapter(1998, 3, 2, 9, 0),
+                dateAdapter(1998, 9, 2, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testQuarterlyByNWeekDay',
+              buildGenerator({
+                frequency: 'QUARTERLY',
+                count: 3,
+                byDayOfWeek: [['MO', 1]],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 10, 6, 9, 0),
+                dateAdapter(1998, 1, 5, 9, 0),
+                dateAdapter(1998, 4, 6, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testQuarterlyByNWeekDayLast',
+              buildGenerator({
+                frequency: 'QUARTERLY',
+                count: 3,
+                byDayOfWeek: [['FR', -1]],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 26, 9, 0),
+                dateAdapter(1997, 12, 26, 9, 0),
+                dateAdapter(1998, 3, 27, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testQuarterlyByMonthDayAndSetPosFiscalYearStart',
+              buildGenerator({
+                frequency: 'QUARTERLY',
+                count: 3,
+                fiscalYearStart: 2,
+                byDayOfMonth: [-1],
+                bySetPosition: [-1],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 10, 31, 9, 0),
+                dateAdapter(1998, 1, 31, 9, 0),
+                dateAdapter(1998, 4, 30, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testQuarterlyByQuarterAndNWeekDayFiscalYearStart',
+              buildGenerator({
+                frequency: 'QUARTERLY',
+                count: 3,
+                fiscalYearStart: 4,
+                byQuarterOfYear: [1],
+                byDayOfWeek: [['MO', 1]],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 4, 6, 9, 0),
+                dateAdapter(1999, 4, 5, 9, 0),
+                dateAdapter(2000, 4, 3, 9, 0),
+              ],
+            );
           });
   
           describe('MONTHLY', () => {
@@ -850,39 +1409,190 @@ export default function ruleTests() {
                 start: parse('19970902T090000'),
               }),
               [
-                dateAdapter(1997, 9, 2, 9, 0),
-                dateAdapter(1999, 3, 2, 9, 0),
-                dateAdapter(2000, 9, 2, 9, 0),
+                dateAdapter(1997, 9, 2, 9, 0),
+                dateAdapter(1999, 3, 2, 9, 0),
+                dateAdapter(2000, 9, 2, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testMonthlyByMonth',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 3,
+                byMonthOfYear: [1, 3],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1998, 1, 2, 9, 0),
+                dateAdapter(1998, 3, 2, 9, 0),
+                dateAdapter(1999, 1, 2, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testMonthlyByMonthDay',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 3,
+                byDayOfMonth: [1, 3],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 3, 9, 0),
+                dateAdapter(1997, 10, 1, 9, 0),
+                dateAdapter(1997, 10, 3, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testMonthlyByMonthDaySkipOmit',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 4,
+                byDayOfMonth: [31],
+                skip: 'OMIT',
+                start: parse('20070131T090000'),
+              }),
+              [
+                dateAdapter(2007, 1, 31, 9, 0),
+                dateAdapter(2007, 3, 31, 9, 0),
+                dateAdapter(2007, 5, 31, 9, 0),
+                dateAdapter(2007, 7, 31, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testMonthlyByMonthDaySkipBackward',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 4,
+                byDayOfMonth: [31],
+                skip: 'BACKWARD',
+                start: parse('20070131T090000'),
+              }),
+              [
+                dateAdapter(2007, 1, 31, 9, 0),
+                dateAdapter(2007, 2, 28, 9, 0),
+                dateAdapter(2007, 3, 31, 9, 0),
+                dateAdapter(2007, 4, 30, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testMonthlyByMonthDaySkipForward',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 4,
+                byDayOfMonth: [31],
+                skip: 'FORWARD',
+                start: parse('20070131T090000'),
+              }),
+              [
+                dateAdapter(2007, 1, 31, 9, 0),
+                dateAdapter(2007, 3, 1, 9, 0),
+                dateAdapter(2007, 3, 31, 9, 0),
+                dateAdapter(2007, 5, 1, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testMonthlyByMonthDayNegSkipBackward',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 3,
+                byDayOfMonth: [-30],
+                skip: 'BACKWARD',
+                start: parse('20070101T090000'),
+              }),
+              [
+                dateAdapter(2007, 1, 2, 9, 0),
+                dateAdapter(2007, 1, 31, 9, 0),
+                dateAdapter(2007, 3, 2, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testMonthlyByMonthDayNegSkipForward',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 3,
+                byDayOfMonth: [-30],
+                skip: 'FORWARD',
+                start: parse('20070101T090000'),
+              }),
+              [
+                dateAdapter(2007, 1, 2, 9, 0),
+                dateAdapter(2007, 2, 1, 9, 0),
+                dateAdapter(2007, 3, 2, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testMonthlyIntervalByMonthDaySkipBackward',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 3,
+                interval: 2,
+                byDayOfMonth: [31],
+                skip: 'BACKWARD',
+                start: parse('20070228T090000'),
+              }),
+              [
+                dateAdapter(2007, 2, 28, 9, 0),
+                dateAdapter(2007, 4, 30, 9, 0),
+                dateAdapter(2007, 6, 30, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testMonthlyIntervalByMonthDaySkipForward',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 3,
+                interval: 2,
+                byDayOfMonth: [31],
+                skip: 'FORWARD',
+                start: parse('20061231T090000'),
+              }),
+              [
+                dateAdapter(2006, 12, 31, 9, 0),
+                dateAdapter(2007, 3, 1, 9, 0),
+                dateAdapter(2007, 5, 1, 9, 0),
               ],
             );
   
             testRecurring(
-              'testMonthlyByMonth',
+              'testMonthlyRScaleIslamicCivilByMonthDaySkipBackward',
               buildGenerator({
                 frequency: 'MONTHLY',
-                count: 3,
-                byMonthOfYear: [1, 3],
-                start: parse('19970902T090000'),
+                count: 4,
+                byDayOfMonth: [30],
+                skip: 'BACKWARD',
+                rscale: 'ISLAMIC-CIVIL',
+                start: parse('20240210T090000'),
               }),
               [
-                dateAdapter(1998, 1, 2, 9, 0),
-                dateAdapter(1998, 3, 2, 9, 0),
-                dateAdapter(1999, 1, 2, 9, 0),
+                dateAdapter(2024, 2, 10, 9, 0),
+                dateAdapter(2024, 3, 10, 9, 0),
+                dateAdapter(2024, 4, 9, 9, 0),
+                dateAdapter(2024, 5, 8, 9, 0),
               ],
             );
   
             testRecurring(
-              'testMonthlyByMonthDay',
+              'testMonthlyRScaleIslamicCivilInterval',
               buildGenerator({
                 frequency: 'MONTHLY',
                 count: 3,
-                byDayOfMonth: [1, 3],
-                start: parse('19970902T090000'),
+                interval: 2,
+                rscale: 'ISLAMIC-CIVIL',
+                start: parse('20240112T090000'),
               }),
               [
-                dateAdapter(1997, 9, 3, 9, 0),
-                dateAdapter(1997, 10, 1, 9, 0),
-                dateAdapter(1997, 10, 3, 9, 0),
+                dateAdapter(2024, 1, 12, 9, 0),
+                dateAdapter(2024, 3, 11, 9, 0),
+                dateAdapter(2024, 5, 9, 9, 0),
               ],
             );
   
@@ -1138,6 +1848,23 @@ export default function ruleTests() {
               ],
             );
   
+            testRecurring(
+              'testMonthlyBySetPos',
+              buildGenerator({
+                frequency: 'MONTHLY',
+                count: 3,
+                byDayOfMonth: [13, 17],
+                byHourOfDay: [6, 18],
+                bySetPosition: [3, -3],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 13, 18, 0),
+                dateAdapter(1997, 9, 17, 6, 0),
+                dateAdapter(1997, 10, 13, 18, 0),
+              ],
+            );
+  
             testRecurring(
               'testMonthlyNegByMonthDayJanFebForNonLeapYear',
               buildGenerator({
@@ -1389,6 +2116,23 @@ export default function ruleTests() {
               ],
             );
   
+            testRecurring(
+              'testWeeklyBySetPos',
+              buildGenerator({
+                frequency: 'WEEKLY',
+                count: 3,
+                byDayOfWeek: ['TU', 'TH'],
+                byHourOfDay: [6, 18],
+                bySetPosition: [3, -3],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 18, 0),
+                dateAdapter(1997, 9, 4, 6, 0),
+                dateAdapter(1997, 9, 9, 18, 0),
+              ],
+            );
+  
             testRecurring(
               'calculates weekly recurrences correctly across DST boundaries',
               buildGenerator({
@@ -1694,6 +2438,23 @@ export default function ruleTests() {
               ],
             );
   
+            testRecurring(
+              'testDailyBySetPos',
+              buildGenerator({
+                frequency: 'DAILY',
+                count: 3,
+                byHourOfDay: [6, 18],
+                byMinuteOfHour: [15, 45],
+                bySetPosition: [3, -3],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 18, 15),
+                dateAdapter(1997, 9, 3, 6, 45),
+                dateAdapter(1997, 9, 3, 18, 15),
+              ],
+            );
+  
             testRecurring(
               'calculates daily recurrences correctly across DST boundaries',
               buildGenerator({
@@ -1710,6 +2471,40 @@ export default function ruleTests() {
                 dateAdapter(2018, 11, 6, 11),
               ],
             );
+  
+            // lunar phases happen at fixed instants so these dates are converted from UTC
+            testRecurring(
+              'testDailyByLunarPhaseExact',
+              buildGenerator({
+                frequency: 'DAILY',
+                count: 3,
+                byLunarPhase: ['FULL_MOON'],
+                lunarPhaseTime: 'EXACT',
+                start: dateAdapter(2024, 3, 20, { timezone: 'UTC' }).set('timezone', timezone),
+              }),
+              [
+                dateAdapter(2024, 3, 25, 7, 1, { timezone: 'UTC' }).set('timezone', timezone),
+                dateAdapter(2024, 4, 23, 23, 50, { timezone: 'UTC' }).set('timezone', timezone),
+                dateAdapter(2024, 5, 23, 13, 54, { timezone: 'UTC' }).set('timezone', timezone),
+              ],
+            );
+  
+            // solar events happen at fixed instants so these dates are converted from UTC
+            testRecurring(
+              'testDailyBySolarEvent',
+              buildGenerator({
+                frequency: 'DAILY',
+                count: 3,
+                bySolarEvent: ['SUNRISE', ['SUNSET', 30]],
+                solarLocation: { latitude: 51.4769, longitude: -0.0005 },
+                start: dateAdapter(2024, 6, 21, 12, { timezone: 'UTC' }).set('timezone', timezone),
+              }),
+              [
+                dateAdapter(2024, 6, 21, 20, 51, { timezone: 'UTC' }).set('timezone', timezone),
+                dateAdapter(2024, 6, 22, 3, 43, { timezone: 'UTC' }).set('timezone', timezone),
+                dateAdapter(2024, 6, 22, 20, 51, { timezone: 'UTC' }).set('timezone', timezone),
+              ],
+            );
           });
   
           describe('HOURLY', () => {
@@ -1990,6 +2785,88 @@ export default function ruleTests() {
                 dateAdapter(1997, 9, 2, 18, 18, 6),
               ],
             );
+  
+            testRecurring(
+              'testHourlyBySetPos',
+              buildGenerator({
+                frequency: 'HOURLY',
+                count: 3,
+                byMinuteOfHour: [15, 45],
+                bySecondOfMinute: [15, 45],
+                bySetPosition: [3, -3],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 9, 15, 45),
+                dateAdapter(1997, 9, 2, 9, 45, 15),
+                dateAdapter(1997, 9, 2, 10, 15, 45),
+              ],
+            );
+  
+            testRecurring(
+              'testHourlyByYearDay',
+              buildGenerator({
+                frequency: 'HOURLY',
+                count: 4,
+                byDayOfYear: [1, 100, 200, 365],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 12, 31, 0, 0),
+                dateAdapter(1997, 12, 31, 1, 0),
+                dateAdapter(1997, 12, 31, 2, 0),
+                dateAdapter(1997, 12, 31, 3, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testHourlyByYearDayNeg',
+              buildGenerator({
+                frequency: 'HOURLY',
+                count: 4,
+                byDayOfYear: [-365, -266, -166, -1],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 12, 31, 0, 0),
+                dateAdapter(1997, 12, 31, 1, 0),
+                dateAdapter(1997, 12, 31, 2, 0),
+                dateAdapter(1997, 12, 31, 3, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testHourlyByTimeOfDay',
+              buildGenerator({
+                frequency: 'HOURLY',
+                count: 4,
+                byTimeOfDay: [['09:00', '11:00'], ['15:30', '17:00']],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 9, 0),
+                dateAdapter(1997, 9, 2, 10, 0),
+                dateAdapter(1997, 9, 2, 16, 0),
+                dateAdapter(1997, 9, 3, 9, 0),
+              ],
+            );
+  
+            testRecurring(
+              'testHourlyIntervalSparseByDayAndHour',
+              buildGenerator({
+                frequency: 'HOURLY',
+                count: 3,
+                interval: 101,
+                byDayOfWeek: ['TU', 'TH'],
+                byHourOfDay: [9],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 9, 0),
+                dateAdapter(1998, 7, 2, 9, 0),
+                dateAdapter(1999, 8, 10, 9, 0),
+              ],
+            );
           });
   
           describe('MINUTELY', () => {
@@ -2270,6 +3147,57 @@ export default function ruleTests() {
                 dateAdapter(1997, 9, 2, 18, 18, 6),
               ],
             );
+  
+            testRecurring(
+              'testMinutelyBySetPos',
+              buildGenerator({
+                frequency: 'MINUTELY',
+                count: 3,
+                bySecondOfMinute: [15, 30, 45],
+                bySetPosition: [3, -3],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 9, 0, 15),
+                dateAdapter(1997, 9, 2, 9, 0, 45),
+                dateAdapter(1997, 9, 2, 9, 1, 15),
+              ],
+            );
+  
+            testRecurring(
+              'testMinutelyByTimeOfDayAndWeekDay',
+              buildGenerator({
+                frequency: 'MINUTELY',
+                count: 4,
+                interval: 15,
+                byDayOfWeek: ['MO', 'TU', 'WE', 'TH', 'FR'],
+                byTimeOfDay: [['17:00', '17:30']],
+                start: parse('19970905T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 5, 17, 0),
+                dateAdapter(1997, 9, 5, 17, 15),
+                dateAdapter(1997, 9, 8, 17, 0),
+                dateAdapter(1997, 9, 8, 17, 15),
+              ],
+            );
+  
+            testRecurring(
+              'testMinutelyIntervalSparseByHourAndMinute',
+              buildGenerator({
+                frequency: 'MINUTELY',
+                count: 3,
+                interval: 97,
+                byHourOfDay: [9, 18],
+                byMinuteOfHour: [0],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 9, 0),
+                dateAdapter(1997, 10, 8, 18, 0),
+                dateAdapter(1997, 12, 8, 9, 0),
+              ],
+            );
           });
   
           describe('SECONDLY', () => {
@@ -2550,6 +3478,24 @@ export default function ruleTests() {
                 dateAdapter(1997, 9, 2, 18, 18, 6),
               ],
             );
+  
+            testRecurring(
+              'testSecondlyIntervalSparseByHourAndMinuteAndSecond',
+              buildGenerator({
+                frequency: 'SECONDLY',
+                count: 3,
+                interval: 61,
+                byHourOfDay: [9],
+                byMinuteOfHour: [0, 30],
+                bySecondOfMinute: [0],
+                start: parse('19970902T090000'),
+              }),
+              [
+                dateAdapter(1997, 9, 2, 9, 0),
+                dateAdapter(1997, 10, 19, 9, 30),
+                dateAdapter(1997, 11, 2, 9, 0),
+              ],
+            );
           });
   
           describe('UNTIL', () => {
@@ -2701,6 +3647,259 @@ export default function ruleTests() {
             });
           });
   
+          describe('testLeapMonthWithoutRScale', () => {
+            it('throws error', () => {
+              expect(() =>
+                buildGenerator({
+                  frequency: 'YEARLY',
+                  byMonthOfYear: ['5L'],
+                  byDayOfMonth: [8],
+                  start: parse('20140208T090000'),
+                }),
+              ).toThrowError();
+            });
+          });
+  
+          describe('testEasterCalendarWithoutByEaster', () => {
+            it('throws error', () => {
+              expect(() =>
+                buildGenerator({
+                  frequency: 'YEARLY',
+                  easterCalendar: 'ORTHODOX',
+                  start: parse('20240101T090000'),
+                }),
+              ).toThrowError();
+            });
+          });
+  
+          describe('testFiscalCalendarWithoutByFiscalPeriod', () => {
+            it('throws error', () => {
+              expect(() =>
+                buildGenerator({
+                  frequency: 'YEARLY',
+                  fiscalCalendar: {
+                    pattern: '4-4-5',
+                    yearEnd: 'LAST',
+                    yearEndMonth: 12,
+                    yearEndWeekday: 'SA',
+                  },
+                  start: parse('20240101T090000'),
+                }),
+              ).toThrowError();
+            });
+          });
+  
+          describe('testByFiscalPeriodWithoutFiscalCalendar', () => {
+            it('throws error', () => {
+              expect(() =>
+                buildGenerator({
+                  frequency: 'YEARLY',
+                  byFiscalPeriod: [7],
+                  start: parse('20240101T090000'),
+                }),
+              ).toThrowError();
+            });
+          });
+  
+          describe('testLunarPhaseTimeWithoutByLunarPhase', () => {
+            it('throws error', () => {
+              expect(() =>
+                buildGenerator({
+                  frequency: 'DAILY',
+                  lunarPhaseTime: 'EXACT',
+                  start: parse('20240101T090000'),
+                }),
+              ).toThrowError();
+            });
+          });
+  
+          describe('testBySolarEventWithoutSolarLocation', () => {
+            it('throws error', () => {
+              expect(() =>
+                buildGenerator({
+                  frequency: 'DAILY',
+                  bySolarEvent: ['SUNSET'],
+                  start: parse('20240101T090000'),
+                }),
+              ).toThrowError();
+            });
+          });
+  
+          describe('testBySolarEventWithByHourOfDay', () => {
+            it('throws error', () => {
+              expect(() =>
+                buildGenerator({
+                  frequency: 'DAILY',
+                  bySolarEvent: ['SUNSET'],
+                  solarLocation: { latitude: 51.4769, longitude: -0.0005 },
+                  byHourOfDay: [20],
+                  start: parse('20240101T090000'),
+                }),
+              ).toThrowError();
+            });
+          });
+  
+          describe('testDailyByTimeOfDay', () => {
+            it('throws error', () => {
+              expect(() =>
+                buildGenerator({
+                  frequency: 'DAILY',
+                  byTimeOfDay: [['09:00', '17:30']],
+                  start: parse('20240101T090000'),
+                }),
+              ).toThrowError();
+            });
+          });
+  
+          describe('canonicalOptions()', () => {
+            it('sorts and dedupes by* arrays', () => {
+              const start = dateAdapter(1997, 9, 2, 9);
+
+              expect(
+                buildGenerator({
+                  frequency: 'MONTHLY',
+                  byDayOfMonth: [15, 1, 15],
+                  byDayOfWeek: [['TU', 1], 'FR', 'FR', 'MO'],
+                  start,
+                }).canonicalOptions(),
+              ).toEqual({
+                frequency: 'MONTHLY',
+                byDayOfMonth: [1, 15],
+                byDayOfWeek: ['FR', 'MO', ['TU', 1]],
+                start,
+              });
+            });
+
+            it('drops defaults and options implied by start', () => {
+              const start = dateAdapter(1997, 9, 2, 9);
+
+              expect(
+                buildGenerator({
+                  frequency: 'WEEKLY',
+                  interval: 1,
+                  weekStart: 'MO',
+                  byDayOfWeek: ['TU'],
+                  byHourOfDay: [9],
+                  count: 3,
+                  start,
+                }).canonicalOptions(),
+              ).toEqual({ frequency: 'WEEKLY', count: 3, start });
+            });
+          });
+
+          describe('isEquivalent()', () => {
+            it('is true for rules with equivalent options', () => {
+              const rule = buildGenerator({
+                frequency: 'WEEKLY',
+                byDayOfWeek: ['TH', 'TU'],
+                start: dateAdapter(1997, 9, 2, 9),
+              });
+
+              expect(
+                rule.isEquivalent(
+                  new Rule(
+                    {
+                      frequency: 'WEEKLY',
+                      interval: 1,
+                      byDayOfWeek: ['TU', 'TH', 'TU'],
+                      byHourOfDay: [9],
+                      start: dateAdapter(1997, 9, 2, 9),
+                    },
+                    { timezone, data: 'other' },
+                  ),
+                ),
+              ).toBe(true);
+            });
+
+            it('is false for rules with different options', () => {
+              const rule = buildGenerator({
+                frequency: 'WEEKLY',
+                byDayOfWeek: ['TU', 'TH'],
+                start: dateAdapter(1997, 9, 2, 9),
+              });
+
+              expect(
+                rule.isEquivalent(
+                  buildGenerator({
+                    frequency: 'WEEKLY',
+                    byDayOfWeek: ['TU', 'TH'],
+                    start: dateAdapter(1997, 9, 2, 10),
+                  }),
+                ),
+              ).toBe(false);
+
+              expect(
+                rule.isEquivalent(
+                  buildGenerator({
+                    frequency: 'WEEKLY',
+                    byDayOfWeek: ['TU', 'TH'],
+                    count: 3,
+                    start: dateAdapter(1997, 9, 2, 9),
+                  }),
+                ),
+              ).toBe(false);
+            });
+          });
+
+          describe('count()', () => {
+            it('counts the occurrences of simple rules', () => {
+              const rule = buildGenerator({
+                frequency: 'DAILY',
+                interval: 2,
+                start: dateAdapter(1997, 9, 2, 9),
+              });
+
+              const end = dateAdapter(1998, 9, 2, 9);
+
+              expect(rule.count({ end })).toBe(183);
+              expect(rule.count({ end })).toBe(rule.occurrences({ end }).toArray().length);
+              expect(rule.count({ start: dateAdapter(1997, 9, 3, 9), end })).toBe(182);
+              expect(rule.count({ start: dateAdapter(1997, 9, 2, 9, 0, 0, 1), end })).toBe(182);
+              expect(rule.count({ end: dateAdapter(1997, 9, 2, 8) })).toBe(0);
+            });
+
+            it('respects the count and end rule options', () => {
+              expect(
+                buildGenerator({
+                  frequency: 'DAILY',
+                  count: 10,
+                  start: dateAdapter(1997, 9, 2, 9),
+                }).count({ start: dateAdapter(1997, 9, 5, 9) }),
+              ).toBe(7);
+
+              const rule = buildGenerator({
+                frequency: 'WEEKLY',
+                end: dateAdapter(1997, 12, 31),
+                start: dateAdapter(1997, 9, 2, 9),
+              });
+
+              expect(rule.count()).toBe(18);
+              expect(rule.count({ start: dateAdapter(1997, 9, 10) })).toBe(16);
+            });
+
+            it('counts the occurrences of other rules', () => {
+              const rule = buildGenerator({
+                frequency: 'MONTHLY',
+                byDayOfMonth: [1, 15],
+                start: dateAdapter(1997, 9, 2, 9),
+              });
+
+              const end = dateAdapter(1998, 9, 1, 9);
+
+              expect(rule.count({ end })).toBe(24);
+              expect(rule.count({ end })).toBe(rule.occurrences({ end }).toArray().length);
+            });
+
+            it('throws error for infinite rules without an end', () => {
+              expect(() =>
+                buildGenerator({
+                  frequency: 'DAILY',
+                  start: dateAdapter(1997, 9, 2, 9),
+                }).count(),
+              ).toThrowError();
+            });
+          });
+
           testRecurring(
             'testSubsecondStartYearly',
             buildGenerator({
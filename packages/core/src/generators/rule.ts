@@ -30,7 +30,7 @@ export class Rule<Data = any> extends RuleBase<IRuleOptions, INormRuleOptions, D
    *
    *   The frequency rule part identifies the type of recurrence rule. Valid values
    *   include `"SECONDLY"`, `"MINUTELY"`, `"HOURLY"`, `"DAILY"`, `"WEEKLY"`,
-   *   `"MONTHLY"`, or `"YEARLY"`.
+   *   `"MONTHLY"`, `"QUARTERLY"`, or `"YEARLY"`.
    *
    * - #### start
    *
@@ -57,7 +57,8 @@ export class Rule<Data = any> extends RuleBase<IRuleOptions, INormRuleOptions, D
    *   `1`, meaning every second for a SECONDLY rule, every minute for a
    *   MINUTELY rule, every hour for an HOURLY rule, every day for a
    *   DAILY rule, every week for a WEEKLY rule, every month for a
-   *   MONTHLY rule, and every year for a YEARLY rule. For example,
+   *   MONTHLY rule, every quarter for a QUARTERLY rule, and every year
+   *   for a YEARLY rule. For example,
    *   within a DAILY rule, a value of `8` means every eight days.
    *
    * - #### count?
@@ -74,6 +75,13 @@ export class Rule<Data = any> extends RuleBase<IRuleOptions, INormRuleOptions, D
    *   and a `byDayOfWeek` rule part is specified. The
    *   default value is `"MO"`.
    *
+   * - #### fiscalYearStart?
+   *
+   *   The fiscalYearStart rule part specifies the month (1 to 12) in which the
+   *   first quarter of the year begins. It is significant for QUARTERLY rules and
+   *   the `byQuarterOfYear` rule part. The default value is `1` (i.e. quarters
+   *   begin in January, April, July and October).
+   *
    * - #### bySecondOfMinute?
    *
    *   The bySecondOfMinute rule part expects an array of seconds
@@ -89,17 +97,49 @@ export class Rule<Data = any> extends RuleBase<IRuleOptions, INormRuleOptions, D
    *   The byHourOfDay rule part expects an array of hours of the day.
    *   Valid values are 0 to 23.
    *
+   * - #### byLunarPhase?
+   *
+   *   The byLunarPhase rule part expects an array of lunar phases (`"NEW_MOON"`,
+   *   `"FIRST_QUARTER"`, `"FULL_MOON"` or `"LAST_QUARTER"`). By default, it
+   *   selects the days (in the rule's timezone) on which the phases take place
+   *   and the time of day is determined by the other rule parts (e.g.
+   *   `byHourOfDay`). If the `lunarPhaseTime` rule option is `"EXACT"`, it
+   *   instead selects the moment of each phase (to the minute). In this case the
+   *   rule `frequency` must be `DAILY` (or longer) and `byHourOfDay`,
+   *   `byMinuteOfHour`, `bySecondOfMinute` and `byMillisecondOfSecond` cannot be
+   *   used.
+   *
+   * - #### bySolarEvent?
+   *
+   *   The bySolarEvent rule part expects an array of solar events (`"SUNRISE"`,
+   *   `"SUNSET"`, `"SOLAR_NOON"`, `"CIVIL_DAWN"` or `"CIVIL_DUSK"`) or
+   *   `[event, offset]` tuples, where the offset is a number of minutes
+   *   between -720 and 720 (e.g. `['SUNSET', 30]`). The events are computed
+   *   for the `solarLocation` (`{ latitude, longitude }`) rule option, which is
+   *   required, and occur at the top of the minute in the rule's timezone. It
+   *   can only be used with `DAILY` (or longer) rules and cannot be combined
+   *   with `byHourOfDay`, `byMinuteOfHour`, `bySecondOfMinute` or
+   *   `byMillisecondOfSecond`.
+   *
+   * - #### byTimeOfDay?
+   *
+   *   The byTimeOfDay rule part expects an array of `[start, end]` tuples of
+   *   `"HH:MM"` or `"HH:MM:SS"` times (e.g. `[['09:00', '17:30']]`). Each tuple
+   *   describes a window of time within the day which includes the `start` time
+   *   but excludes the `end` time. `"24:00"` can be used as an `end` time.
+   *   It can only be used with `HOURLY` and `MINUTELY` rules.
+   *
    * - #### byDayOfWeek?
    *
    *   *note: the byDayOfWeek rule part is kinda complex. Blame the ICAL spec.*
    *
    *   The byDayOfWeek rule part expects an array. Each array entry can
    *   be a day of the week (`"SU"`, `"MO"` , `"TU"`, `"WE"`, `"TH"`,
-   *   `"FR"`, `"SA"`). If the rule's `frequency` is either MONTHLY or YEARLY,
+   *   `"FR"`, `"SA"`). If the rule's `frequency` is MONTHLY, QUARTERLY or YEARLY,
    *   Any entry can also be a tuple where the first value of the tuple is a
    *   day of the week and the second value is an positive/negative integer
    *   (e.g. `["SU", 1]`). In this case, the number indicates the nth occurrence of
-   *   the specified day within the MONTHLY or YEARLY rule.
+   *   the specified day within the MONTHLY, QUARTERLY or YEARLY rule.
    *
    *   The behavior of byDayOfWeek changes depending on the `frequency`
    *   of the rule.
@@ -108,8 +148,12 @@ export class Rule<Data = any> extends RuleBase<IRuleOptions, INormRuleOptions, D
    *   within the month, whereas `["MO", -1]` represents the last Monday
    *   of the month.
    *
+   *   Within a QUARTERLY rule, the numeric value in a byDayOfWeek tuple entry
+   *   corresponds to an offset within the quarter (see `fiscalYearStart`).
+   *
    *   Within a YEARLY rule, the numeric value in a byDayOfWeek tuple entry
    *   corresponds to an offset within the month when the byMonthOfYear rule part is
+   *   present, an offset within the quarter when the byQuarterOfYear rule part is
    *   present, and corresponds to an offset within the year otherwise.
    *
    *   Regardless of rule `frequency`, if a byDayOfWeek entry is a string
@@ -126,10 +170,111 @@ export class Rule<Data = any> extends RuleBase<IRuleOptions, INormRuleOptions, D
    *   The byDayOfMonth rule part *must not* be specified when the rule's
    *   `frequency` is set to WEEKLY.
    *
+   * - #### byDayOfYear?
+   *
+   *   The byDayOfYear rule part expects an array of days
+   *   of the year. Valid values are 1 to 366 or -366 to -1.
+   *
+   *   For example, -1 represents the last day of the year.
+   *   The byDayOfYear rule part *must not* be specified when the rule's
+   *   `frequency` is set to DAILY, WEEKLY, or MONTHLY.
+   *
+   * - #### byEaster?
+   *
+   *   The byEaster rule part expects an array of day offsets from Easter
+   *   Sunday. Valid values are -366 to 366, where 0 is Easter Sunday itself.
+   *   Easter is calculated using the `easterCalendar` rule part, which is
+   *   either `"WESTERN"` (the default) or `"ORTHODOX"`.
+   *
+   *   For example, -2 represents Good Friday and 1 represents Easter Monday.
+   *   The byEaster rule part *must not* be specified when `rscale` is not
+   *   `"GREGORIAN"`.
+   *
+   * - #### byFiscalPeriod?
+   *
+   *   The byFiscalPeriod rule part expects an array of fiscal periods of a
+   *   retail (e.g. 4-4-5) fiscal year. Valid values are 1 to 12. It *must* be
+   *   used in conjunction with the `fiscalCalendar` rule part.
+   *
+   * - #### byDayOfFiscalPeriod?
+   *
+   *   The byDayOfFiscalPeriod rule part expects an array of days of a fiscal
+   *   period. Valid values are 1 to 42 or -42 to -1. It *must* be used in
+   *   conjunction with the `fiscalCalendar` rule part and *must not* be specified
+   *   when the rule's `frequency` is set to DAILY, WEEKLY, or MONTHLY.
+   *
+   *   For example, a YEARLY rule with `byFiscalPeriod: [7]` and
+   *   `byDayOfFiscalPeriod: [-1]` represents the last day of fiscal period 7.
+   *
+   * - #### fiscalCalendar?
+   *
+   *   The fiscalCalendar rule part describes the fiscal calendar used by the
+   *   `byFiscalPeriod` and `byDayOfFiscalPeriod` rule parts. It is an object with
+   *   a `pattern` (`"4-4-5"`, `"4-5-4"` or `"5-4-4"`), a `yearEndMonth` (1 to 12),
+   *   a `yearEndWeekday` and a `yearEnd` of either `"LAST"` (the fiscal year ends
+   *   on the last `yearEndWeekday` in the `yearEndMonth`) or `"NEAREST"` (the
+   *   fiscal year ends on the `yearEndWeekday` nearest to the end of the
+   *   `yearEndMonth`). In fiscal years with 53 weeks, the extra week is added to
+   *   fiscal period 12.
+   *
    * - #### byMonthOfYear?
    *
    *   The byMonthOfYear rule part expects an array of months
-   *   of the year. Valid values are 1 to 12.
+   *   of the year. Valid values are 1 to 12 (see `rscale` for leap months).
+   *
+   * - #### byQuarterOfYear?
+   *
+   *   The byQuarterOfYear rule part expects an array of quarters of the
+   *   (fiscal) year. Valid values are 1 to 4. Quarters begin in the month
+   *   specified by the `fiscalYearStart` rule part. The byQuarterOfYear rule
+   *   part can only be specified when the rule's `frequency` is set to
+   *   QUARTERLY or YEARLY.
+   *
+   * - #### byWeekOfYear?
+   *
+   *   The byWeekOfYear rule part expects an array of weeks
+   *   of the year. Valid values are 1 to 53 or -53 to -1. Week 1 is the
+   *   first week (beginning on `weekStart`) which contains at least 4 days
+   *   of the year. The byWeekOfYear rule part can only be specified when
+   *   the rule's `frequency` is set to YEARLY.
+   *
+   * - #### bySetPosition?
+   *
+   *   The bySetPosition rule part expects an array of values which correspond
+   *   to the nth occurrence within the set of occurrences specified by the rule,
+   *   within each `frequency` period. Valid values are 1 to 366 or -366 to -1.
+   *   It *must* be used in conjunction with another "by" rule part.
+   *
+   *   For example, a MONTHLY rule with `byDayOfWeek: ['MO', 'TU', 'WE', 'TH', 'FR']`
+   *   and `bySetPosition: [-1]` represents the last work day of the month.
+   *
+   * - #### skip?
+   *
+   *   The skip rule part specifies how a `byDayOfMonth` value which doesn't exist
+   *   in a month (e.g. the 31st of April) is handled. Valid values are `"OMIT"`
+   *   (the default), `"BACKWARD"` and `"FORWARD"`. `"OMIT"` skips the occurrence,
+   *   `"BACKWARD"` moves it to the last day of the month and `"FORWARD"` moves
+   *   it to the first day of the next month. It only applies to `"YEARLY"` and
+   *   `"MONTHLY"` rules which include the `byDayOfMonth` rule part.
+   *
+   *   For example, a MONTHLY rule with `byDayOfMonth: [31]` and `skip: 'BACKWARD'`
+   *   represents the 31st of every month or, in months with fewer than 31 days,
+   *   the last day of the month.
+   *
+   * - #### rscale?
+   *
+   *   The rscale rule part specifies the calendar system in which the `frequency`,
+   *   `byMonthOfYear` and `byDayOfMonth` rule parts are evaluated (RFC 7529). Valid
+   *   values are `"GREGORIAN"` (the default), `"HEBREW"`, `"ISLAMIC-CIVIL"` and
+   *   `"CHINESE"`. When a non-gregorian rscale is used, `byMonthOfYear` can include
+   *   leap months (e.g. `"5L"` for the Hebrew month of Adar I) and the `byWeekOfYear`,
+   *   `byDayOfYear` and `bySetPosition` rule parts are not supported. If a leap
+   *   month doesn't exist in a year, the `skip` rule part determines if the
+   *   occurrence is omitted or moved to the previous or following month.
+   *
+   *   For example, a YEARLY rule with `rscale: 'HEBREW'`, `byMonthOfYear: ['5L']`,
+   *   `byDayOfMonth: [8]` and `skip: 'FORWARD'` represents the 8th of Adar I or,
+   *   in years without Adar I, the 8th of Adar.
    *
    */
   constructor(config: IRuleOptions, options: IRuleArgs<Data> = {}) {
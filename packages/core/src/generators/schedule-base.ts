@@ -1,9 +1,18 @@
-import { DateInput, DateTime } from '@rschedule/core';
+import {
+  canonicalJSONStringify,
+  DateAdapter,
+  DateInput,
+  DateTime,
+  IRuleOptionsBase,
+} from '@rschedule/core';
 
 import {
+  AsyncOccurrenceIterator,
   CollectionIterator,
   ICollectionsArgs,
+  ICountRunArgs,
   IOccurrencesArgs,
+  IOccurrencesAsyncArgs,
   IRunArgs,
   OccurrenceGenerator,
   OccurrenceGeneratorRunResult,
@@ -21,6 +30,13 @@ export interface IScheduleBaseArgs<Data = any> {
   maxDuration?: number;
 }
 
+export interface IScheduleCanonicalOptions<Options extends IRuleOptionsBase = IRuleOptionsBase> {
+  rrules: Options[];
+  exrules: Options[];
+  rdates: DateAdapter[];
+  exdates: DateAdapter[];
+}
+
 export abstract class ScheduleBase<Data = any> extends OccurrenceGenerator {
   abstract readonly rrules: ReadonlyArray<RuleBase<any, any>>;
   abstract readonly exrules: ReadonlyArray<RuleBase<any, any>>;
@@ -59,6 +75,12 @@ export abstract class ScheduleBase<Data = any> extends OccurrenceGenerator {
     return new OccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
   }
 
+  occurrencesAsync(
+    args: IOccurrencesAsyncArgs = {},
+  ): AsyncOccurrenceIterator<[this, UnwrapArray<this['rrules']> | this['rdates']]> {
+    return new AsyncOccurrenceIterator(this, this.normalizeOccurrencesArgs(args));
+  }
+
   collections(
     args: ICollectionsArgs = {},
   ): CollectionIterator<[this, UnwrapArray<this['rrules']> | this['rdates']]> {
@@ -79,6 +101,53 @@ export abstract class ScheduleBase<Data = any> extends OccurrenceGenerator {
   abstract set(prop: 'rrules' | 'exrules', value: RuleBase<any, any>[]): ScheduleBase<Data>;
   abstract set(prop: 'rdates' | 'exdates', value: Dates): ScheduleBase<Data>;
 
+  /**
+   * Returns this schedule's rules and dates in a canonical form. Each rule's options
+   * are canonicalized (see `RuleBase#canonicalOptions()`), equivalent rules and
+   * duplicate dates are removed and the remaining rules and dates are sorted.
+   */
+  canonicalOptions(): IScheduleCanonicalOptions<UnwrapArray<this['rrules']>['options']> {
+    return {
+      rrules: canonicalRuleOptions(this.rrules),
+      exrules: canonicalRuleOptions(this.exrules),
+      rdates: canonicalDates(this.rdates),
+      exdates: canonicalDates(this.exdates),
+    };
+  }
+
+  /**
+   * Returns `true` if this schedule and the provided schedule contain the same
+   * sets of rrules, exrules, rdates and exdates. Rules are compared using
+   * `RuleBase#isEquivalent()`. The `data` and `timezone` of the schedules are ignored.
+   */
+  isEquivalent(other: ScheduleBase<any>): boolean {
+    return (
+      equivalentRules(this.rrules, other.rrules) &&
+      equivalentRules(this.exrules, other.exrules) &&
+      equivalentDates(this.rdates, other.rdates) &&
+      equivalentDates(this.exdates, other.exdates)
+    );
+  }
+
+  /** Only the schedule's rrules and rdates produce occurrences */
+  _children(): ReadonlyArray<OccurrenceGenerator> {
+    return [...this.rrules, this.rdates];
+  }
+
+  _count(args: ICountRunArgs = {}): number {
+    // a schedule made up of a single rule has the same occurrences as the rule
+    if (
+      this.rrules.length === 1 &&
+      this.exrules.length === 0 &&
+      this.rdates.length === 0 &&
+      this.exdates.length === 0
+    ) {
+      return this.rrules[0]._count(args);
+    }
+
+    return this.occurrenceStream._count(args);
+  }
+
   *_run(args: IRunArgs = {}): OccurrenceGeneratorRunResult {
     const count = args.take;
 
@@ -102,3 +171,55 @@ export abstract class ScheduleBase<Data = any> extends OccurrenceGenerator {
     return undefined;
   }
 }
+
+function uniqueRules<T extends RuleBase<any, any>>(rules: ReadonlyArray<T>) {
+  return rules.filter((rule, index) => !rules.slice(0, index).some(r => r.isEquivalent(rule)));
+}
+
+function canonicalRuleOptions<T extends RuleBase<any, any>>(
+  rules: ReadonlyArray<T>,
+): Array<T['options']> {
+  return uniqueRules(rules)
+    .map(rule => {
+      const options = rule.canonicalOptions();
+      return { options, json: canonicalJSONStringify(options) };
+    })
+    .sort((a, b) => (a.json < b.json ? -1 : a.json > b.json ? 1 : 0))
+    .map(item => item.options);
+}
+
+function equivalentRules(
+  a: ReadonlyArray<RuleBase<any, any>>,
+  b: ReadonlyArray<RuleBase<any, any>>,
+) {
+  return (
+    a.every(rule => b.some(r => r.isEquivalent(rule))) &&
+    b.every(rule => a.some(r => r.isEquivalent(rule)))
+  );
+}
+
+/** Identifies a date by its instant in time and its duration */
+function dateKey(date: DateAdapter) {
+  return `${date.valueOf()}:${date.duration}`;
+}
+
+function canonicalDates(dates: Dates) {
+  const keys = new Set<string>();
+
+  return dates.adapters
+    .slice()
+    .sort((a, b) => a.valueOf() - b.valueOf() || a.duration - b.duration)
+    .filter(date => {
+      const key = dateKey(date);
+      if (keys.has(key)) return false;
+      keys.add(key);
+      return true;
+    });
+}
+
+function equivalentDates(a: Dates, b: Dates) {
+  const aKeys = new Set(a.adapters.map(dateKey));
+  const bKeys = new Set(b.adapters.map(dateKey));
+
+  return aKeys.size === bKeys.size && Array.from(aKeys).every(key => bKeys.has(key));
+}
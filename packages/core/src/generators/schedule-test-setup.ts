@@ -27,6 +27,15 @@ export default function scheduleTests() {
         });
       }
 
+      it('count', () => {
+        expect(schedule.count()).toBe(expectation.length);
+
+        if (expectation.length > 1) {
+          expect(schedule.count({ start: expectation[index] })).toBe(expectation.length - index);
+          expect(schedule.count({ end: expectation[index] })).toBe(index + 1);
+        }
+      });
+
       it('reverse', () => {
         expect(toISOStrings(schedule, { reverse: true })).toEqual(
           toISOStrings(expectation.reverse()),
@@ -74,6 +83,115 @@ export default function scheduleTests() {
               expect(new Schedule({ timezone })).toBeInstanceOf(Schedule));
           });
 
+          describe('canonicalOptions()', () => {
+            it('dedupes and sorts rules and dates', () => {
+              const schedule = new Schedule({
+                timezone,
+                rrules: [
+                  {
+                    frequency: 'WEEKLY',
+                    byDayOfWeek: ['TU'],
+                    start: dateAdapter(1997, 9, 2, 9),
+                  },
+                  {
+                    frequency: 'DAILY',
+                    start: dateAdapter(1997, 9, 2, 9),
+                  },
+                  {
+                    frequency: 'WEEKLY',
+                    interval: 1,
+                    start: dateAdapter(1997, 9, 2, 9),
+                  },
+                ],
+                rdates: [
+                  dateAdapter(2000, 1, 1, 9),
+                  dateAdapter(1998, 1, 1, 9),
+                  dateAdapter(2000, 1, 1, 9),
+                ],
+              });
+
+              const options = schedule.canonicalOptions();
+
+              expect(options.rrules.map(rule => rule.frequency)).toEqual(['DAILY', 'WEEKLY']);
+              expect(options.rrules[1]).toEqual({
+                frequency: 'WEEKLY',
+                start: dateAdapter(1997, 9, 2, 9),
+              });
+              expect(toISOStrings(options.rdates)).toEqual(
+                toISOStrings([dateAdapter(1998, 1, 1, 9), dateAdapter(2000, 1, 1, 9)]),
+              );
+              expect(options.exrules).toEqual([]);
+              expect(options.exdates).toEqual([]);
+            });
+          });
+
+          describe('isEquivalent()', () => {
+            const schedule = new Schedule({
+              timezone,
+              rrules: [
+                {
+                  frequency: 'WEEKLY',
+                  start: dateAdapter(1997, 9, 2, 9),
+                },
+                {
+                  frequency: 'DAILY',
+                  byHourOfDay: [9, 12],
+                  start: dateAdapter(1997, 9, 2, 9),
+                },
+              ],
+              exdates: [dateAdapter(1997, 9, 9, 9)],
+            });
+
+            it('compares rules and dates as sets', () => {
+              expect(
+                schedule.isEquivalent(
+                  new Schedule({
+                    timezone,
+                    rrules: [
+                      {
+                        frequency: 'DAILY',
+                        byHourOfDay: [12, 9],
+                        start: dateAdapter(1997, 9, 2, 9),
+                      },
+                      {
+                        frequency: 'WEEKLY',
+                        byDayOfWeek: ['TU'],
+                        start: dateAdapter(1997, 9, 2, 9),
+                      },
+                      {
+                        frequency: 'WEEKLY',
+                        start: dateAdapter(1997, 9, 2, 9),
+                      },
+                    ],
+                    exdates: [dateAdapter(1997, 9, 9, 9), dateAdapter(1997, 9, 9, 9)],
+                  }),
+                ),
+              ).toBe(true);
+            });
+
+            it('is false when the schedules differ', () => {
+              expect(
+                schedule.isEquivalent(
+                  new Schedule({
+                    timezone,
+                    rrules: schedule.rrules,
+                    exdates: [dateAdapter(1997, 9, 16, 9)],
+                  }),
+                ),
+              ).toBe(false);
+
+              expect(
+                schedule.isEquivalent(
+                  new Schedule({
+                    timezone,
+                    rrules: schedule.rrules.slice(1),
+                    exdates: schedule.exdates,
+                  }),
+                ),
+              ).toBe(false);
+            });
+          });
+
           testOccurrences(
             '1 rule',
             new Schedule({
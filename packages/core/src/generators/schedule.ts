@@ -141,6 +141,7 @@ export class Schedule<Data = any> extends ScheduleBase<Data> {
    *
    *   Within a YEARLY rule, the numeric value in a byDayOfWeek tuple entry
    *   corresponds to an offset within the month when the byMonthOfYear rule part is
+   *   present, an offset within the quarter when the byQuarterOfYear rule part is
    *   present, and corresponds to an offset within the year otherwise.
    *
    *   Regardless of rule `frequency`, if a byDayOfWeek entry is a string
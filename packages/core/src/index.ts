@@ -1,4 +1,5 @@
 export * from './DateAdapter';
+export * from './fiscal-calendar';
 export * from './recurrence-rule-options';
 export * from './recurrence-rule';
 export * from './recurrence-rules-iterator';
@@ -1,5 +1,5 @@
 import { context } from '@local-tests/utilities';
-import { normalizeRuleOptions } from '@rschedule/core';
+import { normalizeRuleOptions, RuleOptionError, validateRuleOptions } from '@rschedule/core';
 import { ByDayOfMonthRuleModule } from './rules/ByDayOfMonth';
 import { ByDayOfWeekRuleModule } from './rules/ByDayOfWeek';
 import { ByHourOfDayRuleModule } from './rules/ByHourOfDay';
@@ -175,3 +175,169 @@ describe('normalizeRuleOptions', () => {
     });
   });
 });
+
+describe('validateRuleOptions', () => {
+  const recurrenceModules = [
+    FrequencyRuleModule,
+    ByMonthOfYearRuleModule,
+    ByDayOfMonthRuleModule,
+    ByDayOfWeekRuleModule,
+    ByHourOfDayRuleModule,
+    ByMinuteOfHourRuleModule,
+    BySecondOfMinuteRuleModule,
+    ByMillisecondOfSecondRuleModule,
+  ] as const;
+
+  const date = dateTime(1997, 9, 2, 9, 0, 0, 0);
+
+  it('returns no issues for valid options', () => {
+    expect(
+      validateRuleOptions(recurrenceModules, {
+        start: date,
+        frequency: 'MONTHLY',
+        byDayOfWeek: [['MO', 1]],
+        byHourOfDay: [9, 17],
+      }),
+    ).toEqual([]);
+  });
+
+  it('returns every issue', () => {
+    expect(
+      validateRuleOptions(recurrenceModules, {
+        start: date,
+        duration: 0,
+        count: 1.5,
+        frequency: 'WEEKLY',
+        interval: 0,
+        weekStart: 'XX' as any,
+        byMonthOfYear: [1, 13 as any],
+        byDayOfMonth: [],
+        byDayOfWeek: ['MO', ['TU', 2]],
+        byHourOfDay: [9, 24 as any],
+      }),
+    ).toEqual([
+      {
+        option: 'duration',
+        value: 0,
+        code: 'OUT_OF_RANGE',
+        message: '"duration" must be greater than 0',
+      },
+      {
+        option: 'count',
+        value: 1.5,
+        code: 'INVALID_TYPE',
+        message: '"count" must be a whole number',
+      },
+      {
+        option: 'interval',
+        value: 0,
+        code: 'OUT_OF_RANGE',
+        message: '"interval" cannot be less than 1',
+      },
+      {
+        option: 'weekStart',
+        value: 'XX',
+        code: 'INVALID_VALUE',
+        message: '"weekStart" must be one of ["SU","MO","TU","WE","TH","FR","SA"]',
+      },
+      {
+        option: 'byMonthOfYear[1]',
+        value: 13,
+        code: 'OUT_OF_RANGE',
+        message: '"byMonthOfYear" values must be `num >= 1 && num >= 12`',
+      },
+      {
+        option: 'byDayOfMonth',
+        value: [],
+        code: 'INCOMPATIBLE',
+        message: 'when "frequency" is "WEEKLY", "byDayOfMonth" cannot be present',
+      },
+      {
+        option: 'byDayOfWeek[1]',
+        value: ['TU', 2],
+        code: 'INCOMPATIBLE',
+        message:
+          '"byDayOfWeek" can only include a numeric value (i.e. `[string, number]`) when ' +
+          'the "frequency" is either "MONTHLY", "QUARTERLY" or "YEARLY"',
+      },
+      {
+        option: 'byHourOfDay[1]',
+        value: 24,
+        code: 'OUT_OF_RANGE',
+        message: '"byHourOfDay" values must be >= 0 && <= 23',
+      },
+    ]);
+  });
+
+  it('returns an issue for every invalid entry', () => {
+    expect(
+      validateRuleOptions(recurrenceModules, {
+        start: date,
+        frequency: 'DAILY',
+        byDayOfWeek: ['XX' as any, 'MO', 'YY' as any],
+        byHourOfDay: [25 as any, 9, 26 as any],
+      }),
+    ).toEqual([
+      {
+        option: 'byDayOfWeek[0]',
+        value: 'XX',
+        code: 'INVALID_VALUE',
+        message:
+          '"byDayOfWeek" expects weedays in the form ["SU","MO","TU","WE","TH","FR","SA"] ' +
+          'but "XX" was provided',
+      },
+      {
+        option: 'byDayOfWeek[2]',
+        value: 'YY',
+        code: 'INVALID_VALUE',
+        message:
+          '"byDayOfWeek" expects weedays in the form ["SU","MO","TU","WE","TH","FR","SA"] ' +
+          'but "YY" was provided',
+      },
+      {
+        option: 'byHourOfDay[0]',
+        value: 25,
+        code: 'OUT_OF_RANGE',
+        message: '"byHourOfDay" values must be >= 0 && <= 23',
+      },
+      {
+        option: 'byHourOfDay[2]',
+        value: 26,
+        code: 'OUT_OF_RANGE',
+        message: '"byHourOfDay" values must be >= 0 && <= 23',
+      },
+    ]);
+  });
+
+  it('does not throw', () => {
+    expect(() =>
+      validateRuleOptions(recurrenceModules, {
+        start: date,
+        frequency: 'FOO' as any,
+        byDayOfMonth: 'BAR' as any,
+      }),
+    ).not.toThrow();
+  });
+});
+
+describe('RuleOptionError', () => {
+  it('is thrown with the issue', () => {
+    let error: RuleOptionError | undefined;
+
+    try {
+      normalizeRuleOptions([FrequencyRuleModule, ByHourOfDayRuleModule], {
+        start: dateTime(1997, 9, 2, 9, 0, 0, 0),
+        frequency: 'DAILY',
+        byHourOfDay: [9, 24 as any],
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(RuleOptionError);
+    expect(error!.message).toBe('"byHourOfDay" values must be >= 0 && <= 23');
+    expect(error!.option).toBe('byHourOfDay[1]');
+    expect(error!.code).toBe('OUT_OF_RANGE');
+    expect(error!.value).toBe(24);
+  });
+});
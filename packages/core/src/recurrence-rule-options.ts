@@ -1,4 +1,4 @@
-import { DateAdapterBase, DateInput, DateTime } from './DateAdapter';
+import { DateAdapter, DateAdapterBase, DateInput, DateTime } from './DateAdapter';
 import {
   IRecurrenceRuleModule,
   NormRecurrenceRulesOptions,
@@ -6,7 +6,49 @@ import {
 } from './recurrence-rule';
 import { cloneJSON } from './utilities';
 
-export class RuleOptionError extends Error {}
+export type RuleOptionErrorCode =
+  // the value isn't of the expected type (e.g. a whole number or a date)
+  | 'INVALID_TYPE'
+  // the value is an empty array
+  | 'EMPTY'
+  // the value is a number outside of the allowed range
+  | 'OUT_OF_RANGE'
+  // the value isn't one of the allowed values
+  | 'INVALID_VALUE'
+  // the option can't be used in conjunction with another option (or its value)
+  | 'INCOMPATIBLE'
+  // the option is missing but required by another option
+  | 'REQUIRED'
+  // the option can't be present without another option
+  | 'REQUIRES_OPTION';
+
+export interface IRuleOptionIssue {
+  /**
+   * The path of the offending rule option (e.g. `"byDayOfMonth"`,
+   * `"byDayOfMonth[1]"` or `"fiscalCalendar.pattern"`), if known
+   */
+  option?: string;
+  /** The offending value */
+  value?: unknown;
+  code: RuleOptionErrorCode;
+  message: string;
+}
+
+export class RuleOptionError extends Error {
+  readonly option?: string;
+  readonly value?: unknown;
+  readonly code: RuleOptionErrorCode;
+
+  constructor(
+    message?: string,
+    issue: { option?: string; value?: unknown; code?: RuleOptionErrorCode } = {},
+  ) {
+    super(message);
+    this.option = issue.option;
+    this.value = issue.value;
+    this.code = issue.code || 'INVALID_VALUE';
+  }
+}
 
 export namespace RuleOption {
   export type Start = DateInput;
@@ -34,8 +76,34 @@ export interface IRuleOptions extends IRuleOptionsBase {}
 // tslint:disable-next-line: no-empty-interface
 export interface INormRuleOptions extends INormRuleOptionsBase {}
 
-function normalizeDefaultOptions(options: IRuleOptionsBase): INormRuleOptionsBase {
-  let start: DateTime;
+/** Frequencies whose intervals always have the same length, in milliseconds */
+export const FIXED_FREQUENCY_LENGTHS: { [frequency: string]: number | undefined } = {
+  MILLISECONDLY: 1,
+  SECONDLY: DateAdapter.MILLISECONDS_IN_SECOND,
+  MINUTELY: DateAdapter.MILLISECONDS_IN_MINUTE,
+  HOURLY: DateAdapter.MILLISECONDS_IN_HOUR,
+  DAILY: DateAdapter.MILLISECONDS_IN_DAY,
+};
+
+/** Rule options which don't affect which dates are selected within an interval */
+export const INTERVAL_OPTIONS = [
+  'start',
+  'end',
+  'count',
+  'duration',
+  'frequency',
+  'interval',
+  'weekStart',
+  'fiscalYearStart',
+  'skip',
+  'rscale',
+];
+
+function normalizeDefaultOptions(
+  options: IRuleOptionsBase,
+  report = throwRuleOptionError,
+): INormRuleOptionsBase {
+  let start: DateTime | undefined;
 
   if (options.start instanceof DateTime) {
     start = options.start;
@@ -44,9 +112,12 @@ function normalizeDefaultOptions(options: IRuleOptionsBase): INormRuleOptionsBas
   } else if (DateAdapterBase.adapter.isDate(options.start)) {
     start = DateAdapterBase.adapter.fromDate(options.start).toDateTime();
   } else {
-    throw new RuleOptionError(
-      '"start" must be either a `DateAdapter` instance or an instance of the ' +
-        'date a DateAdapter is wrapping (e.g. `StandardDateAdapter` wraps a `Date`)',
+    report(
+      new RuleOptionError(
+        '"start" must be either a `DateAdapter` instance or an instance of the ' +
+          'date a DateAdapter is wrapping (e.g. `StandardDateAdapter` wraps a `Date`)',
+        { option: 'start', code: 'INVALID_TYPE', value: options.start },
+      ),
     );
   }
 
@@ -60,39 +131,68 @@ function normalizeDefaultOptions(options: IRuleOptionsBase): INormRuleOptionsBas
     } else if (DateAdapterBase.adapter.isDate(options.end)) {
       end = DateAdapterBase.adapter.fromDate(options.end).toDateTime();
     } else {
-      throw new RuleOptionError(
-        '"end" must be either be `undefined`, a `DateAdapter` instance, or an instance of the ' +
-          'date a DateAdapter is wrapping (e.g. `StandardDateAdapter` wraps a `Date`)',
+      report(
+        new RuleOptionError(
+          '"end" must be either be `undefined`, a `DateAdapter` instance, or an instance of the ' +
+            'date a DateAdapter is wrapping (e.g. `StandardDateAdapter` wraps a `Date`)',
+          { option: 'end', code: 'INVALID_TYPE', value: options.end },
+        ),
       );
     }
   }
 
   if (options.duration !== undefined) {
     if (!Number.isInteger(options.duration)) {
-      throw new RuleOptionError('"duration" expects a whole number');
-    }
-
-    if (options.duration <= 0) {
-      throw new RuleOptionError('"duration" must be greater than 0');
+      report(
+        new RuleOptionError('"duration" expects a whole number', {
+          option: 'duration',
+          code: 'INVALID_TYPE',
+          value: options.duration,
+        }),
+      );
+    } else if (options.duration <= 0) {
+      report(
+        new RuleOptionError('"duration" must be greater than 0', {
+          option: 'duration',
+          code: 'OUT_OF_RANGE',
+          value: options.duration,
+        }),
+      );
     }
   }
 
   if (options.count !== undefined) {
     if (!Number.isInteger(options.count)) {
-      throw new RuleOptionError('"count" must be a whole number');
-    }
-
-    if (options.count < 0) {
-      throw new RuleOptionError('"count" must be greater than 0');
+      report(
+        new RuleOptionError('"count" must be a whole number', {
+          option: 'count',
+          code: 'INVALID_TYPE',
+          value: options.count,
+        }),
+      );
+    } else if (options.count < 0) {
+      report(
+        new RuleOptionError('"count" must be greater than 0', {
+          option: 'count',
+          code: 'OUT_OF_RANGE',
+          value: options.count,
+        }),
+      );
     }
   }
 
   if (options.end !== undefined && options.count !== undefined) {
-    throw new RuleOptionError('"end" and "count" cannot both be present');
+    report(
+      new RuleOptionError('"end" and "count" cannot both be present', {
+        option: 'count',
+        code: 'INCOMPATIBLE',
+        value: options.count,
+      }),
+    );
   }
 
   return {
-    start,
+    start: start!,
     end,
     count: options.count,
     duration: options.duration,
@@ -119,9 +219,107 @@ export function normalizeRuleOptions<T extends readonly IRecurrenceRuleModule<an
   return normOptions as any;
 }
 
+/**
+ * Validates the provided rule options, without throwing, and returns a list of every
+ * issue which was found. An empty list means the options are valid (i.e.
+ * `normalizeRuleOptions()` won't throw a `RuleOptionError`).
+ *
+ * Recurrence rule modules stop validating at their first issue so, after a module reports
+ * an issue, the offending option (or, for an issue with an array entry, the offending entry)
+ * is removed and the module is validated again (which allows the module's other options and
+ * entries to be validated).
+ */
+export function validateRuleOptions<T extends readonly IRecurrenceRuleModule<any, any>[]>(
+  recurrenceModules: T,
+  options: RecurrenceRulesOptions<T>,
+): IRuleOptionIssue[] {
+  const issues: IRuleOptionIssue[] = [];
+
+  const report = (error: RuleOptionError, option = error.option) => {
+    const isDuplicate = issues.some(
+      issue => issue.option === option && issue.message === error.message,
+    );
+
+    if (isDuplicate) return;
+
+    issues.push({
+      option,
+      value: error.value,
+      code: error.code,
+      message: error.message,
+    });
+  };
+
+  const normOptions = normalizeDefaultOptions(options as any, report);
+
+  recurrenceModules.forEach(mod => {
+    const startOptions = cloneJSON(options) as any;
+    const removed: string[] = [];
+    // the original index of each remaining entry of the options whose entries were removed
+    const entryIndexes: { [option: string]: number[] } = {};
+
+    while (true) {
+      const norm = { ...normOptions };
+
+      try {
+        mod.normalizeOptions(startOptions, norm);
+        Object.assign(normOptions, norm);
+        return;
+      } catch (e) {
+        // errors other than `RuleOptionError` are expected to be the
+        // consequence of an issue which has already been reported
+        if (!(e instanceof RuleOptionError)) {
+          if (issues.length > 0) return;
+          throw e;
+        }
+
+        const option = e.option && e.option.match(/^\w+/)![0];
+        const entry =
+          option && Array.isArray(startOptions[option]) && e.option!.match(/^\w+\[(\d+)\]/);
+        const index = entry ? parseInt(entry[1], 10) : -1;
+        let path = e.option;
+
+        if (entry) {
+          const indexes =
+            entryIndexes[option!] || startOptions[option!].map((_: any, i: number) => i);
+
+          entryIndexes[option!] = indexes;
+          path = e.option!.replace(/\[\d+\]/, `[${indexes[index]}]`);
+        }
+
+        // these issues are caused by our removal of an option
+        if (
+          (e.code !== 'REQUIRES_OPTION' || removed.length === 0) &&
+          !(option && removed.includes(option))
+        ) {
+          report(e, path);
+        }
+
+        if (!option || !(option in startOptions)) return;
+
+        // remove only the offending entry, unless it's the last one
+        if (entry && startOptions[option].length > 1) {
+          startOptions[option].splice(index, 1);
+          entryIndexes[option].splice(index, 1);
+          continue;
+        }
+
+        delete startOptions[option];
+        removed.push(option);
+      }
+    }
+  });
+
+  return issues;
+}
+
 export function cloneRuleOptions<T extends IRuleOptionsBase>(options: T): T {
   const obj = cloneJSON(options);
   obj.start = options.start;
   if (options.end) obj.end = options.end;
   return obj;
 }
+
+function throwRuleOptionError(error: RuleOptionError) {
+  throw error;
+}
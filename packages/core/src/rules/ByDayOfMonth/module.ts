@@ -1,9 +1,11 @@
-import { IRecurrenceRuleModule, RuleOptionError } from '@rschedule/core';
+import { IRecurrenceRuleModule, RuleOption, RuleOptionError } from '@rschedule/core';
 import { ByHourOfDayRuleModule } from '../ByHourOfDay';
 import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
 import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
 import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
 import { FrequencyRuleModule } from '../Frequency';
+import { getCalendarSystem, toFixed } from '../utilities/calendar-systems';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
 import { ruleOptionFilled } from '../utilities/rule-option-filled';
 import { RevByDayOfMonthRule } from './rev-rule';
 import { ByDayOfMonthRule, IByDayOfMonthRuleOptions, INormByDayOfMonthRuleOptions } from './rule';
@@ -21,16 +23,34 @@ export const ByDayOfMonthRuleModule: IRecurrenceRuleModule<
   normalizeOptions: (options, norm) => {
     if (options.byDayOfMonth !== undefined) {
       if (options.frequency === 'WEEKLY') {
-        throw new RuleOptionError('when "frequency" is "WEEKLY", "byDayOfMonth" cannot be present');
+        throw new RuleOptionError(
+          'when "frequency" is "WEEKLY", "byDayOfMonth" cannot be present',
+          {
+            option: 'byDayOfMonth',
+            code: 'INCOMPATIBLE',
+            value: options.byDayOfMonth,
+          },
+        );
       }
 
       if (!ruleOptionFilled(options.byDayOfMonth)) {
-        throw new RuleOptionError('"byDayOfMonth" expects a non-empty array');
+        throw new RuleOptionError('"byDayOfMonth" expects a non-empty array', {
+          option: 'byDayOfMonth',
+          code: 'EMPTY',
+          value: options.byDayOfMonth,
+        });
       }
 
-      if (options.byDayOfMonth.some((num: number) => num === 0 || num < -31 || num > 31)) {
+      const invalidEntry = findInvalidEntry(
+        'byDayOfMonth',
+        options.byDayOfMonth,
+        (num: number) => num === 0 || num < -31 || num > 31,
+      );
+
+      if (invalidEntry) {
         throw new RuleOptionError(
           '"byDayOfMonth" values must be `num !== 0 && num <= 31 && num >= -31`',
+          { ...invalidEntry, code: 'OUT_OF_RANGE' },
         );
       }
 
@@ -38,11 +58,25 @@ export const ByDayOfMonthRuleModule: IRecurrenceRuleModule<
     } else if (
       !(
         ruleOptionFilled((options as any).byDayOfWeek) ||
-        ruleOptionFilled((options as any).byDayOfYear)
+        ruleOptionFilled((options as any).byDayOfYear) ||
+        ruleOptionFilled((options as any).byWeekOfYear) ||
+        ruleOptionFilled((options as any).byEaster) ||
+        ruleOptionFilled((options as any).byLunarPhase) ||
+        ruleOptionFilled((options as any).byDayOfFiscalPeriod)
       ) &&
-      ['YEARLY', 'MONTHLY'].includes(options.frequency)
+      ['YEARLY', 'QUARTERLY', 'MONTHLY'].includes(options.frequency)
     ) {
-      norm.byDayOfMonth = [norm.start.get('day')];
+      const calendar = getCalendarSystem(options.rscale);
+
+      if (calendar) {
+        const fixed = toFixed(norm.start);
+
+        norm.byDayOfMonth = [
+          (fixed - calendar.getMonthOf(fixed).start + 1) as RuleOption.ByDayOfMonth,
+        ];
+      } else {
+        norm.byDayOfMonth = [norm.start.get('day')];
+      }
     }
   },
   deps: () => [
@@ -5,7 +5,11 @@ import { RevByDayOfMonthRule } from './rev-rule';
 
 const buildRule = buildRevRuleFn<
   typeof RevByDayOfMonthRule,
-  { byDayOfMonth: RuleOption.ByDayOfMonth[]; byDayOfWeek?: RuleOption.ByDayOfWeek[] }
+  {
+    byDayOfMonth: RuleOption.ByDayOfMonth[];
+    byDayOfWeek?: RuleOption.ByDayOfWeek[];
+    skip?: RuleOption.Skip;
+  }
 >(RevByDayOfMonthRule);
 
 describe('RevByDayOfMonthRule', () => {
@@ -116,4 +120,38 @@ describe('RevByDayOfMonthRule', () => {
       expect(result).toEqual({ date: dateTime(2018, 12, 10, 23, 59, 59, 999) });
     });
   });
+  context(dateTime(2019, 3, 10), date => {
+    it('30 and skip BACKWARD', () => {
+      byDayOfMonth = [30];
+
+      const rule = buildRule(date, { byDayOfMonth, skip: 'BACKWARD' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 2, 28, 23, 59, 59, 999) });
+    });
+
+    it('30 and skip FORWARD', () => {
+      byDayOfMonth = [30];
+
+      const rule = buildRule(date, { byDayOfMonth, skip: 'FORWARD' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 3, 1, 23, 59, 59, 999) });
+    });
+
+    it('30 and skip OMIT', () => {
+      byDayOfMonth = [30];
+
+      const rule = buildRule(date, { byDayOfMonth, skip: 'OMIT' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 1, 30, 23, 59, 59, 999) });
+    });
+  });
 });
@@ -1,14 +1,19 @@
 import { DateTime, InvalidDateTime, RecurrenceRuleError, ValidDateTime } from '@rschedule/core';
+import { fromFixed, getCalendarSystem, toFixed } from '../utilities/calendar-systems';
 import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
-import { INormByDayOfMonthRuleOptions, normalizeByDayOfMonth } from './rule';
+import {
+  INormByDayOfMonthRuleOptions,
+  normalizeByDayOfMonthWithSkip,
+  normalizeCalendarByDayOfMonth,
+} from './rule';
 
 export class RevByDayOfMonthRule extends RevRecurrenceRuleBase<INormByDayOfMonthRuleOptions> {
+  protected readonly calendar = getCalendarSystem(this.options.rscale);
+
   run(date: DateTime) {
-    const normalizedByDayOfMonth = normalizeByDayOfMonth(
-      date,
-      this.options.byDayOfMonth!,
-      this.options.byDayOfWeek,
-    ).reverse();
+    if (this.calendar) return this.runCalendar(date);
+
+    const normalizedByDayOfMonth = normalizeByDayOfMonthWithSkip(date, this.options).reverse();
 
     const currentDay = date.get('day');
 
@@ -29,11 +34,7 @@ export class RevByDayOfMonthRule extends RevRecurrenceRuleBase<INormByDayOfMonth
     while (!next && index < 30) {
       nextMonth = nextMonth.endGranularity('month').subtract(1, 'month');
 
-      next = normalizeByDayOfMonth(
-        nextMonth,
-        this.options.byDayOfMonth!,
-        this.options.byDayOfWeek,
-      ).pop();
+      next = normalizeByDayOfMonthWithSkip(nextMonth, this.options).pop();
 
       index++;
     }
@@ -44,4 +45,44 @@ export class RevByDayOfMonthRule extends RevRecurrenceRuleBase<INormByDayOfMonth
 
     return this.validateDate(new InvalidDateTime(nextMonth.set('day', next!)));
   }
+
+  protected runCalendar(date: DateTime) {
+    const calendar = this.calendar!;
+    const fixed = toFixed(date);
+
+    let month = calendar.getMonthOf(fixed);
+
+    const currentDay = fixed - month.start + 1;
+
+    for (const day of normalizeCalendarByDayOfMonth(date, month, this.options).reverse()) {
+      if (currentDay < day) continue;
+
+      if (currentDay === day) {
+        return this.validateDate(new ValidDateTime(date));
+      }
+
+      return this.validateDate(
+        new InvalidDateTime(fromFixed(date, month.start + day - 1).endGranularity('day')),
+      );
+    }
+
+    let next: number | undefined;
+    let index = 0;
+
+    while (!next && index < 30) {
+      month = calendar.getMonthOf(month.start - 1);
+
+      next = normalizeCalendarByDayOfMonth(date, month, this.options).pop();
+
+      index++;
+    }
+
+    if (index >= 13) {
+      throw new RecurrenceRuleError('byDayOfMonth Infinite while loop');
+    }
+
+    return this.validateDate(
+      new InvalidDateTime(fromFixed(date, month.start + next! - 1).endGranularity('day')),
+    );
+  }
 }
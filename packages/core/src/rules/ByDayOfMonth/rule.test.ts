@@ -5,7 +5,11 @@ import { ByDayOfMonthRule, normalizeByDayOfMonth } from './rule';
 
 const buildRule = buildRuleFn<
   typeof ByDayOfMonthRule,
-  { byDayOfMonth: RuleOption.ByDayOfMonth[]; byDayOfWeek?: RuleOption.ByDayOfWeek[] }
+  {
+    byDayOfMonth: RuleOption.ByDayOfMonth[];
+    byDayOfWeek?: RuleOption.ByDayOfWeek[];
+    skip?: RuleOption.Skip;
+  }
 >(ByDayOfMonthRule);
 
 describe('ByDayOfMonthRule', () => {
@@ -163,4 +167,38 @@ describe('ByDayOfMonthRule', () => {
       expect(result).toEqual({ date: dateTime(2020, 2, 29) });
     });
   });
+  context(dateTime(2019, 2, 20), date => {
+    it('30 and skip BACKWARD', () => {
+      byDayOfMonth = [30];
+
+      const rule = buildRule(date, { byDayOfMonth, skip: 'BACKWARD' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 2, 28) });
+    });
+
+    it('30 and skip FORWARD', () => {
+      byDayOfMonth = [30];
+
+      const rule = buildRule(date, { byDayOfMonth, skip: 'FORWARD' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 3, 1) });
+    });
+
+    it('30 and skip OMIT', () => {
+      byDayOfMonth = [30];
+
+      const rule = buildRule(date, { byDayOfMonth, skip: 'OMIT' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 3, 30) });
+    });
+  });
 });
@@ -2,13 +2,21 @@ import {
   DateAdapter,
   DateTime,
   InvalidDateTime,
+  numberSortComparer,
   RecurrenceRuleError,
   RuleOption,
   ValidDateTime,
 } from '@rschedule/core';
 import '../ByDayOfWeek/types';
 import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
+import {
+  fromFixed,
+  getCalendarSystem,
+  ICalendarMonth,
+  toFixed,
+} from '../utilities/calendar-systems';
 import getNthWeekdayOfMonth from '../utilities/get-nth-weekday-of-month';
+import getSkippedMonths from '../utilities/get-skipped-months';
 import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
 import './types';
 
@@ -28,12 +36,12 @@ export interface INormByDayOfMonthRuleOptions extends INormFrequencyRuleOptions
 }
 
 export class ByDayOfMonthRule extends RecurrenceRuleBase<INormByDayOfMonthRuleOptions> {
+  protected readonly calendar = getCalendarSystem(this.options.rscale);
+
   run(date: DateTime) {
-    const normalizedByDayOfMonth = normalizeByDayOfMonth(
-      date,
-      this.options.byDayOfMonth!,
-      this.options.byDayOfWeek,
-    );
+    if (this.calendar) return this.runCalendar(date);
+
+    const normalizedByDayOfMonth = normalizeByDayOfMonthWithSkip(date, this.options);
 
     const currentDay = date.get('day');
 
@@ -54,11 +62,7 @@ export class ByDayOfMonthRule extends RecurrenceRuleBase<INormByDayOfMonthRuleOp
     while (!next && index < 30) {
       nextMonth = nextMonth.granularity('month').add(1, 'month');
 
-      next = normalizeByDayOfMonth(
-        nextMonth,
-        this.options.byDayOfMonth!,
-        this.options.byDayOfWeek,
-      )[0];
+      next = normalizeByDayOfMonthWithSkip(nextMonth, this.options)[0];
 
       index++;
     }
@@ -69,6 +73,42 @@ export class ByDayOfMonthRule extends RecurrenceRuleBase<INormByDayOfMonthRuleOp
 
     return this.validateDate(new InvalidDateTime(nextMonth.set('day', next!)));
   }
+
+  protected runCalendar(date: DateTime) {
+    const calendar = this.calendar!;
+    const fixed = toFixed(date);
+
+    let month = calendar.getMonthOf(fixed);
+
+    const currentDay = fixed - month.start + 1;
+
+    for (const day of normalizeCalendarByDayOfMonth(date, month, this.options)) {
+      if (currentDay > day) continue;
+
+      if (currentDay === day) {
+        return this.validateDate(new ValidDateTime(date));
+      }
+
+      return this.validateDate(new InvalidDateTime(fromFixed(date, month.start + day - 1)));
+    }
+
+    let next: number | undefined;
+    let index = 0;
+
+    while (!next && index < 30) {
+      month = calendar.getMonthOf(month.start + month.length);
+
+      next = normalizeCalendarByDayOfMonth(date, month, this.options)[0];
+
+      index++;
+    }
+
+    if (index >= 13) {
+      throw new RecurrenceRuleError('byDayOfMonth Infinite while loop');
+    }
+
+    return this.validateDate(new InvalidDateTime(fromFixed(date, month.start + next! - 1)));
+  }
 }
 
 /**
@@ -122,3 +162,61 @@ export function normalizeByDayOfMonth(
     else return 0;
   });
 }
+
+/**
+ * Same as `normalizeByDayOfMonth()` except that, when the `skip` rule option
+ * is `"BACKWARD"` or `"FORWARD"`, days which non-existent entries were
+ * moved to are also included.
+ */
+export function normalizeByDayOfMonthWithSkip(
+  date: DateTime,
+  options: INormByDayOfMonthRuleOptions,
+) {
+  const normalizedByDayOfMonth = normalizeByDayOfMonth(
+    date,
+    options.byDayOfMonth!,
+    options.byDayOfWeek,
+  );
+
+  const firstDay = date.granularity('month');
+  const lastDay = date.endGranularity('month').granularity('day');
+
+  [firstDay, lastDay].forEach(day => {
+    if (getSkippedMonths(day, options).length > 0) {
+      normalizedByDayOfMonth.push(day.get('day'));
+    }
+  });
+
+  return Array.from(new Set(normalizedByDayOfMonth)).sort(numberSortComparer);
+}
+
+/**
+ * Same as `normalizeByDayOfMonthWithSkip()` except that the days are days
+ * of the provided calendar month. Numeric `byDayOfWeek` entries are not
+ * supported in conjunction with the `rscale` rule option.
+ */
+export function normalizeCalendarByDayOfMonth(
+  date: DateTime,
+  month: ICalendarMonth,
+  options: INormByDayOfMonthRuleOptions,
+) {
+  let normalizedByDayOfMonth = options
+    .byDayOfMonth!.filter(day => month.length >= Math.abs(day))
+    .map(day => (day > 0 ? day : month.length + day + 1));
+
+  if (options.byDayOfWeek) {
+    const byDayOfWeek = options.byDayOfWeek;
+
+    normalizedByDayOfMonth = normalizedByDayOfMonth.filter(day =>
+      byDayOfWeek.includes(fromFixed(date, month.start + day - 1).get('weekday')),
+    );
+  }
+
+  [1, month.length].forEach(day => {
+    if (getSkippedMonths(fromFixed(date, month.start + day - 1), options).length > 0) {
+      normalizedByDayOfMonth.push(day);
+    }
+  });
+
+  return Array.from(new Set(normalizedByDayOfMonth)).sort(numberSortComparer);
+}
@@ -4,6 +4,7 @@ import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
 import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
 import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
 import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
 import { ruleOptionFilled } from '../utilities/rule-option-filled';
 import { RevByDayOfWeekRule } from './rev-rule';
 import { ByDayOfWeekRule, IByDayOfWeekRuleOptions, INormByDayOfWeekRuleOptions } from './rule';
@@ -21,10 +22,14 @@ export const ByDayOfWeekRuleModule: IRecurrenceRuleModule<
   normalizeOptions: (options, norm) => {
     if (options.byDayOfWeek !== undefined) {
       if (!ruleOptionFilled(options.byDayOfWeek)) {
-        throw new RuleOptionError('"byDayOfWeek" expects a non-empty array');
+        throw new RuleOptionError('"byDayOfWeek" expects a non-empty array', {
+          option: 'byDayOfWeek',
+          code: 'EMPTY',
+          value: options.byDayOfWeek,
+        });
       }
 
-      const invalidWeeday = options.byDayOfWeek.find(day =>
+      const invalidWeeday = findInvalidEntry('byDayOfWeek', options.byDayOfWeek, day =>
         Array.isArray(day)
           ? !DateAdapter.WEEKDAYS.includes(day[0])
           : !DateAdapter.WEEKDAYS.includes(day),
@@ -33,48 +38,59 @@ export const ByDayOfWeekRuleModule: IRecurrenceRuleModule<
       if (invalidWeeday) {
         throw new RuleOptionError(
           `"byDayOfWeek" expects weedays in the form ` +
-            `${JSON.stringify(DateAdapter.WEEKDAYS)} but "${invalidWeeday}" was provided`,
+            `${JSON.stringify(DateAdapter.WEEKDAYS)} but "${invalidWeeday.value}" was provided`,
+          { ...invalidWeeday, code: 'INVALID_VALUE' },
         );
       }
 
-      if (
-        !['YEARLY', 'MONTHLY'].includes(options.frequency) &&
-        options.byDayOfWeek.some(weekday => Array.isArray(weekday))
-      ) {
+      const numericWeekday = findInvalidEntry('byDayOfWeek', options.byDayOfWeek, weekday =>
+        Array.isArray(weekday),
+      );
+
+      if (!['YEARLY', 'QUARTERLY', 'MONTHLY'].includes(options.frequency) && numericWeekday) {
         throw new RuleOptionError(
           '"byDayOfWeek" can only include a numeric value (i.e. `[string, number]`) when the "frequency" is ' +
-            'either "MONTHLY" or "YEARLY"',
+            'either "MONTHLY", "QUARTERLY" or "YEARLY"',
+          { ...numericWeekday, code: 'INCOMPATIBLE' },
         );
       }
 
-      if (
-        options.frequency === 'MONTHLY' &&
-        options.byDayOfWeek.some(
-          weekday =>
-            Array.isArray(weekday) && (weekday[1] < -31 || weekday[1] === 0 || weekday[1] > 31),
-        )
-      ) {
+      if (options.rscale !== undefined && options.rscale !== 'GREGORIAN' && numericWeekday) {
         throw new RuleOptionError(
-          'when "frequency" is "MONTHLY", each "byDayOfWeek" can optionally only' +
-            ' have a numeric value >= -31 and <= 31 and !== 0',
+          '"byDayOfWeek" cannot include a numeric value (i.e. `[string, number]`) when ' +
+            '"rscale" is not "GREGORIAN"',
+          { ...numericWeekday, code: 'INCOMPATIBLE' },
         );
       }
 
-      if (
-        options.frequency === 'YEARLY' &&
-        options.byDayOfWeek.some(
-          weekday =>
-            Array.isArray(weekday) && (weekday[1] < -366 || weekday[1] === 0 || weekday[1] > 366),
-        )
-      ) {
+      const maxNumber =
+        options.frequency === 'MONTHLY' ? 31 : options.frequency === 'QUARTERLY' ? 92 : 366;
+
+      const invalidNumber = findInvalidEntry(
+        'byDayOfWeek',
+        options.byDayOfWeek,
+        weekday =>
+          Array.isArray(weekday) &&
+          (weekday[1] < -maxNumber || weekday[1] === 0 || weekday[1] > maxNumber),
+      );
+
+      if (invalidNumber) {
         throw new RuleOptionError(
-          'when "frequency" is "YEARLY", each "byDayOfWeek" can optionally only' +
-            ' have a numeric value >= -366 and <= 366 and !== 0',
+          `when "frequency" is "${options.frequency}", each "byDayOfWeek" can optionally only` +
+            ` have a numeric value >= -${maxNumber} and <= ${maxNumber} and !== 0`,
+          { ...invalidNumber, code: 'OUT_OF_RANGE' },
         );
       }
 
       norm.byDayOfWeek = options.byDayOfWeek;
-    } else if (!ruleOptionFilled((options as any).byDayOfMonth) && options.frequency === 'WEEKLY') {
+    } else if (
+      !(
+        ruleOptionFilled((options as any).byDayOfMonth) ||
+        ruleOptionFilled((options as any).byEaster) ||
+        ruleOptionFilled((options as any).byLunarPhase)
+      ) &&
+      options.frequency === 'WEEKLY'
+    ) {
       norm.byDayOfWeek = [norm.start.get('weekday')] as RuleOption.ByDayOfWeek[];
     }
   },
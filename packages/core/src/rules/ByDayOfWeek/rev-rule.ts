@@ -2,6 +2,7 @@ import {
   DateAdapter,
   DateTime,
   dateTimeSortComparer,
+  getStartOfQuarter,
   InvalidDateTime,
   RecurrenceRuleError,
   RuleOption,
@@ -9,6 +10,7 @@ import {
   ValidDateTime,
 } from '@rschedule/core';
 import getNthWeekdayOfMonth from '../utilities/get-nth-weekday-of-month';
+import getNthWeekdayOfQuarter from '../utilities/get-nth-weekday-of-quarter';
 import getNthWeekdayOfYear from '../utilities/get-nth-weekday-of-year';
 import { getPreviousWeekday } from '../utilities/get-previous-weekday';
 import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
@@ -17,8 +19,13 @@ import { INormByDayOfWeekRuleOptions } from './rule';
 export class RevByDayOfWeekRule extends RevRecurrenceRuleBase<INormByDayOfWeekRuleOptions> {
   run(date: DateTime) {
     if (this.options.frequency === 'YEARLY') {
+      if (this.options.byMonthOfYear !== undefined) return this.expandMonthly(date);
+      // within a quarter of the year, a numeric weekday is an offset within the quarter
+      if (this.options.byQuarterOfYear !== undefined) return this.expandQuarterly(date);
+      return this.expandYearly(date);
+    } else if (this.options.frequency === 'QUARTERLY') {
       return this.options.byMonthOfYear === undefined
-        ? this.expandYearly(date)
+        ? this.expandQuarterly(date)
         : this.expandMonthly(date);
     } else if (this.options.frequency === 'MONTHLY') {
       return this.expandMonthly(date);
@@ -52,6 +59,35 @@ export class RevByDayOfWeekRule extends RevRecurrenceRuleBase<INormByDayOfWeekRu
     return this.result(date, next);
   }
 
+  private expandQuarterly(date: DateTime) {
+    const { byDayOfWeek, fiscalYearStart } = this.options;
+
+    let next: DateTime | undefined = getPrevWeekdaysOfQuarter(
+      date,
+      byDayOfWeek!,
+      fiscalYearStart,
+    )[0];
+
+    let index = 0;
+    let base = date;
+
+    // If we can't find a valid date this quarter,
+    // search the previous quarter. Only search the past 4 years.
+    while (!next && index < 16) {
+      index++;
+      base = getStartOfQuarter(base, fiscalYearStart).subtract(1, 'millisecond');
+      next = getPrevWeekdaysOfQuarter(base, byDayOfWeek!, fiscalYearStart)[0];
+    }
+
+    if (!next) {
+      throw new RecurrenceRuleError(
+        'The byDayOfWeek rule appears to contain an impossible combination',
+      );
+    }
+
+    return this.result(date, next);
+  }
+
   private expandMonthly(date: DateTime) {
     let next: DateTime | undefined = getPrevWeekdaysOfMonth(date, this.options.byDayOfWeek!)[0];
 
@@ -134,3 +170,32 @@ export function getPrevWeekdaysOfMonth(date: DateTime, byDayOfWeek: RuleOption.B
     .sort(dateTimeSortComparer)
     .reverse();
 }
+
+/** For each byDayOfWeek entry, find the previous DateTime */
+export function getPrevWeekdaysOfQuarter(
+  date: DateTime,
+  byDayOfWeek: RuleOption.ByDayOfWeek[],
+  fiscalYearStart?: DateAdapter.Month,
+) {
+  const quarter = getStartOfQuarter(date, fiscalYearStart);
+
+  const normalizedNthWeekdaysOfQuarter = byDayOfWeek
+    .filter(entry => Array.isArray(entry))
+    .map(entry => {
+      const [weekday, nth] = entry as [DateAdapter.Weekday, number];
+
+      return getNthWeekdayOfQuarter(date, weekday, nth, fiscalYearStart);
+    });
+
+  const normalizedNextWeekdays = byDayOfWeek
+    .filter(entry => typeof entry === 'string')
+    .map(weekday => getPreviousWeekday(date, weekday as DateAdapter.Weekday));
+
+  return uniqDateTimes([...normalizedNthWeekdaysOfQuarter, ...normalizedNextWeekdays])
+    .filter(
+      entry =>
+        entry.isBeforeOrEqual(date) && getStartOfQuarter(entry, fiscalYearStart).isEqual(quarter),
+    )
+    .sort(dateTimeSortComparer)
+    .reverse();
+}
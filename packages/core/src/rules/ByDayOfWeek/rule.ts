@@ -2,6 +2,7 @@ import {
   DateAdapter,
   DateTime,
   dateTimeSortComparer,
+  getStartOfQuarter,
   InvalidDateTime,
   RecurrenceRuleError,
   RuleOption,
@@ -9,9 +10,11 @@ import {
   ValidDateTime,
 } from '@rschedule/core';
 import '../ByMonthOfYear/types';
+import '../ByQuarterOfYear/types';
 import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
 import getNextWeekday from '../utilities/get-next-weekday';
 import getNthWeekdayOfMonth from '../utilities/get-nth-weekday-of-month';
+import getNthWeekdayOfQuarter from '../utilities/get-nth-weekday-of-quarter';
 import getNthWeekdayOfYear from '../utilities/get-nth-weekday-of-year';
 import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
 import './types';
@@ -29,13 +32,19 @@ export interface IByDayOfWeekRuleOptions extends IFrequencyRuleOptions {
 export interface INormByDayOfWeekRuleOptions extends INormFrequencyRuleOptions {
   byDayOfWeek?: RuleOption.ByDayOfWeek[];
   byMonthOfYear?: RuleOption.ByMonthOfYear[];
+  byQuarterOfYear?: RuleOption.ByQuarterOfYear[];
 }
 
 export class ByDayOfWeekRule extends RecurrenceRuleBase<INormByDayOfWeekRuleOptions> {
   run(date: DateTime) {
     if (this.options.frequency === 'YEARLY') {
+      if (this.options.byMonthOfYear !== undefined) return this.expandMonthly(date);
+      // within a quarter of the year, a numeric weekday is an offset within the quarter
+      if (this.options.byQuarterOfYear !== undefined) return this.expandQuarterly(date);
+      return this.expandYearly(date);
+    } else if (this.options.frequency === 'QUARTERLY') {
       return this.options.byMonthOfYear === undefined
-        ? this.expandYearly(date)
+        ? this.expandQuarterly(date)
         : this.expandMonthly(date);
     } else if (this.options.frequency === 'MONTHLY') {
       return this.expandMonthly(date);
@@ -69,6 +78,35 @@ export class ByDayOfWeekRule extends RecurrenceRuleBase<INormByDayOfWeekRuleOpti
     return this.result(date, next);
   }
 
+  private expandQuarterly(date: DateTime) {
+    const { byDayOfWeek, fiscalYearStart } = this.options;
+
+    let next: DateTime | undefined = getNextWeekdaysOfQuarter(
+      date,
+      byDayOfWeek!,
+      fiscalYearStart,
+    )[0];
+
+    let index = 0;
+    let base = date;
+
+    // If we can't find a valid date this quarter,
+    // search the next quarter. Only search the next 4 years.
+    while (!next && index < 16) {
+      index++;
+      base = getStartOfQuarter(base, fiscalYearStart).add(3, 'month');
+      next = getNextWeekdaysOfQuarter(base, byDayOfWeek!, fiscalYearStart)[0];
+    }
+
+    if (!next) {
+      throw new RecurrenceRuleError(
+        'The byDayOfWeek rule appears to contain an impossible combination',
+      );
+    }
+
+    return this.result(date, next);
+  }
+
   private expandMonthly(date: DateTime) {
     let next: DateTime | undefined = getNextWeekdaysOfMonth(date, this.options.byDayOfWeek!)[0];
 
@@ -148,3 +186,31 @@ export function getNextWeekdaysOfMonth(date: DateTime, byDayOfWeek: RuleOption.B
     .filter(entry => entry.isAfterOrEqual(date))
     .sort(dateTimeSortComparer);
 }
+
+/** For each byDayOfWeek entry, find the next DateTime */
+export function getNextWeekdaysOfQuarter(
+  date: DateTime,
+  byDayOfWeek: RuleOption.ByDayOfWeek[],
+  fiscalYearStart?: DateAdapter.Month,
+) {
+  const quarter = getStartOfQuarter(date, fiscalYearStart);
+
+  const normalizedNthWeekdaysOfQuarter = byDayOfWeek
+    .filter(entry => Array.isArray(entry))
+    .map(entry => {
+      const [weekday, nth] = entry as [DateAdapter.Weekday, number];
+
+      return getNthWeekdayOfQuarter(date, weekday, nth, fiscalYearStart);
+    });
+
+  const normalizedNextWeekdays = byDayOfWeek
+    .filter(entry => typeof entry === 'string')
+    .map(weekday => getNextWeekday(date, weekday as DateAdapter.Weekday));
+
+  return uniqDateTimes([...normalizedNthWeekdaysOfQuarter, ...normalizedNextWeekdays])
+    .filter(
+      entry =>
+        entry.isAfterOrEqual(date) && getStartOfQuarter(entry, fiscalYearStart).isEqual(quarter),
+    )
+    .sort(dateTimeSortComparer);
+}
@@ -4,6 +4,7 @@ import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
 import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
 import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
 import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
 import { ruleOptionFilled } from '../utilities/rule-option-filled';
 import { RevByDayOfYearRule } from './rev-rule';
 import { ByDayOfYearRule, IByDayOfYearRuleOptions, INormByDayOfYearRuleOptions } from './rule';
@@ -23,16 +24,35 @@ export const ByDayOfYearRuleModule: IRecurrenceRuleModule<
       if (['DAILY', 'WEEKLY', 'MONTHLY'].includes(options.frequency)) {
         throw new RuleOptionError(
           '"byDayOfYear" cannot be present when "frequency" is "DAILY", "WEEKLY", or "MONTHLY"',
+          { option: 'byDayOfYear', code: 'INCOMPATIBLE', value: options.byDayOfYear },
+        );
+      }
+
+      if (options.rscale !== undefined && options.rscale !== 'GREGORIAN') {
+        throw new RuleOptionError(
+          '"byDayOfYear" cannot be present when "rscale" is not "GREGORIAN"',
+          { option: 'byDayOfYear', code: 'INCOMPATIBLE', value: options.byDayOfYear },
         );
       }
 
       if (!ruleOptionFilled(options.byDayOfYear)) {
-        throw new RuleOptionError('"byDayOfYear" expects a non-empty array');
+        throw new RuleOptionError('"byDayOfYear" expects a non-empty array', {
+          option: 'byDayOfYear',
+          code: 'EMPTY',
+          value: options.byDayOfYear,
+        });
       }
 
-      if (options.byDayOfYear.some((num: number) => num === 0 || num < -366 || num > 366)) {
+      const invalidEntry = findInvalidEntry(
+        'byDayOfYear',
+        options.byDayOfYear,
+        (num: number) => num === 0 || num < -366 || num > 366,
+      );
+
+      if (invalidEntry) {
         throw new RuleOptionError(
           '"byDayOfYear" values must be `num !== 0 && num <= 366 && num >= -366`',
+          { ...invalidEntry, code: 'OUT_OF_RANGE' },
         );
       }
 
@@ -114,4 +114,17 @@ describe('RevByDayOfYearRule', () => {
       expect(result).toEqual({ date });
     });
   });
+
+  context(dateTime(2104, 1, 1), date => {
+    it('366', () => {
+      byDayOfYear = [366];
+
+      const rule = buildRule(date, { byDayOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2096, 12, 31, 23, 59, 59, 999) });
+    });
+  });
 });
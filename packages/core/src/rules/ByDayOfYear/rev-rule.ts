@@ -29,7 +29,7 @@ export class RevByDayOfYearRule extends RevRecurrenceRuleBase<INormByDayOfYearRu
     let nextYear = date;
     let index = 0;
 
-    while (!nextYearDay && index < 5) {
+    while (!nextYearDay && index < 9) {
       nextYear = nextYear
         .granularity('year')
         .subtract(1, 'year')
@@ -40,7 +40,7 @@ export class RevByDayOfYearRule extends RevRecurrenceRuleBase<INormByDayOfYearRu
       index++;
     }
 
-    if (index >= 5) {
+    if (!nextYearDay) {
       throw new RecurrenceRuleError('byDayOfYear Infinite loop');
     }
 
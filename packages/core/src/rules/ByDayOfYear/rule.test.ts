@@ -123,4 +123,17 @@ describe('ByDayOfYearRule', () => {
       expect(result).toEqual({ date: dateTime(2020, 12, 31) });
     });
   });
+
+  context(dateTime(2097, 1, 1), date => {
+    it('366', () => {
+      byDayOfYear = [366];
+
+      const rule = buildRule(date, { byDayOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2104, 12, 31) });
+    });
+  });
 });
@@ -44,7 +44,7 @@ export class ByDayOfYearRule extends RecurrenceRuleBase<INormByDayOfYearRuleOpti
     let nextYear = date;
     let index = 0;
 
-    while (!nextYearDay && index < 5) {
+    while (!nextYearDay && index < 9) {
       nextYear = nextYear.granularity('year').add(1, 'year');
 
       nextYearDay = normalizeByDayOfYear(nextYear, this.options.byDayOfYear!)[0];
@@ -52,7 +52,7 @@ export class ByDayOfYearRule extends RecurrenceRuleBase<INormByDayOfYearRuleOpti
       index++;
     }
 
-    if (index >= 5) {
+    if (!nextYearDay) {
       throw new RecurrenceRuleError('byDayOfYear Infinite loop');
     }
 
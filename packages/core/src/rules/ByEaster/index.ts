@@ -0,0 +1,3 @@
+export * from './module';
+export { ByEasterRule, IByEasterRuleOptions, INormByEasterRuleOptions } from './rule';
+export { RevByEasterRule } from './rev-rule';
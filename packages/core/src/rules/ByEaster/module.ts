@@ -0,0 +1,83 @@
+import { IRecurrenceRuleModule, RuleOptionError } from '@rschedule/core';
+import { ByHourOfDayRuleModule } from '../ByHourOfDay';
+import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
+import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
+import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
+import { ruleOptionFilled } from '../utilities/rule-option-filled';
+import { RevByEasterRule } from './rev-rule';
+import { ByEasterRule, IByEasterRuleOptions, INormByEasterRuleOptions } from './rule';
+
+const EASTER_CALENDARS = ['WESTERN', 'ORTHODOX'];
+
+export const ByEasterRuleModule: IRecurrenceRuleModule<
+  IByEasterRuleOptions,
+  INormByEasterRuleOptions
+> = {
+  name: 'ByEaster',
+  get: processor => {
+    if (processor.options.byEaster === undefined) return null;
+    if (processor.reverse) return new RevByEasterRule(processor);
+    return new ByEasterRule(processor);
+  },
+  normalizeOptions: (options, norm) => {
+    if (options.byEaster !== undefined) {
+      if (options.rscale !== undefined && options.rscale !== 'GREGORIAN') {
+        throw new RuleOptionError('"byEaster" cannot be present when "rscale" is not "GREGORIAN"', {
+          option: 'byEaster',
+          code: 'INCOMPATIBLE',
+          value: options.byEaster,
+        });
+      }
+
+      if (!ruleOptionFilled(options.byEaster)) {
+        throw new RuleOptionError('"byEaster" expects a non-empty array', {
+          option: 'byEaster',
+          code: 'EMPTY',
+          value: options.byEaster,
+        });
+      }
+
+      const invalidEntry = findInvalidEntry(
+        'byEaster',
+        options.byEaster,
+        num => !Number.isInteger(num) || num < -366 || num > 366,
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError('"byEaster" values must be `num <= 366 && num >= -366`', {
+          ...invalidEntry,
+          code: 'OUT_OF_RANGE',
+        });
+      }
+
+      if (options.easterCalendar !== undefined) {
+        if (!EASTER_CALENDARS.includes(options.easterCalendar)) {
+          throw new RuleOptionError(
+            `"easterCalendar" must be one of ${JSON.stringify(EASTER_CALENDARS)}`,
+            { option: 'easterCalendar', code: 'INVALID_VALUE', value: options.easterCalendar },
+          );
+        }
+
+        norm.easterCalendar = options.easterCalendar;
+      }
+
+      norm.byEaster = options.byEaster.slice();
+    } else if (options.easterCalendar !== undefined) {
+      throw new RuleOptionError('"easterCalendar" cannot be present without "byEaster"', {
+        option: 'easterCalendar',
+        code: 'REQUIRES_OPTION',
+        value: options.easterCalendar,
+      });
+    }
+  },
+  deps: () => [
+    FrequencyRuleModule,
+    ByEasterRuleModule,
+    ByHourOfDayRuleModule,
+    ByMinuteOfHourRuleModule,
+    BySecondOfMinuteRuleModule,
+    ByMillisecondOfSecondRuleModule,
+  ],
+};
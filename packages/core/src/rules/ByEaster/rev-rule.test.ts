@@ -0,0 +1,78 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRevRuleFn, dateTime } from '../test-utilities';
+import { RevByEasterRule } from './rev-rule';
+
+const buildRule = buildRevRuleFn<
+  typeof RevByEasterRule,
+  { byEaster: RuleOption.ByEaster[]; easterCalendar?: RuleOption.EasterCalendar }
+>(RevByEasterRule);
+
+describe('RevByEasterRule', () => {
+  let byEaster: RuleOption.ByEaster[];
+
+  afterEach(() => {
+    byEaster = [];
+  });
+
+  context(dateTime(2019, 4, 21), date => {
+    it('0', () => {
+      byEaster = [0];
+
+      const rule = buildRule(date, { byEaster });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('1,-2', () => {
+      byEaster = [1, -2];
+
+      const rule = buildRule(date, { byEaster });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 4, 19, 23, 59, 59, 999) });
+    });
+
+    it('1', () => {
+      byEaster = [1];
+
+      const rule = buildRule(date, { byEaster });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2018, 4, 2, 23, 59, 59, 999) });
+    });
+
+    it('0 ORTHODOX', () => {
+      byEaster = [0];
+
+      const rule = buildRule(date, { byEaster, easterCalendar: 'ORTHODOX' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2018, 4, 8, 23, 59, 59, 999) });
+    });
+  });
+
+  context(dateTime(2009, 1, 10), date => {
+    it('-83', () => {
+      byEaster = [-83];
+
+      const rule = buildRule(date, { byEaster });
+
+      const result = rule.run(date);
+
+      // there is no matching day in 2008 (easter was on March 23rd
+      // so the day falls on December 31st 2007)
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2007, 12, 31, 23, 59, 59, 999) });
+    });
+  });
+});
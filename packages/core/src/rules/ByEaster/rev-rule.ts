@@ -0,0 +1,32 @@
+import { DateTime, InvalidDateTime, RecurrenceRuleError, ValidDateTime } from '@rschedule/core';
+import { fromFixed, toFixed } from '../utilities/calendar-systems';
+import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { getEasterDays, INormByEasterRuleOptions } from './rule';
+
+export class RevByEasterRule extends RevRecurrenceRuleBase<INormByEasterRuleOptions> {
+  run(date: DateTime) {
+    const today = toFixed(date);
+
+    let year = date.get('year');
+    let index = 0;
+
+    while (index < 3) {
+      const day = getEasterDays(year, this.options)
+        .reverse()
+        .find(easterDay => easterDay <= today);
+
+      if (day === today) {
+        return this.validateDate(new ValidDateTime(date));
+      }
+
+      if (day !== undefined) {
+        return this.validateDate(new InvalidDateTime(fromFixed(date, day).endGranularity('day')));
+      }
+
+      year--;
+      index++;
+    }
+
+    throw new RecurrenceRuleError('byEaster Infinite while loop');
+  }
+}
@@ -0,0 +1,112 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRuleFn, dateTime } from '../test-utilities';
+import { toFixed } from '../utilities/calendar-systems';
+import { ByEasterRule, getEasterDays, getEasterSunday } from './rule';
+
+const buildRule = buildRuleFn<
+  typeof ByEasterRule,
+  { byEaster: RuleOption.ByEaster[]; easterCalendar?: RuleOption.EasterCalendar }
+>(ByEasterRule);
+
+describe('getEasterSunday', () => {
+  it('WESTERN', () => {
+    expect(getEasterSunday(1998)).toBe(toFixed(dateTime(1998, 4, 12)));
+    expect(getEasterSunday(2000)).toBe(toFixed(dateTime(2000, 4, 23)));
+    expect(getEasterSunday(2008)).toBe(toFixed(dateTime(2008, 3, 23)));
+    expect(getEasterSunday(2019)).toBe(toFixed(dateTime(2019, 4, 21)));
+    expect(getEasterSunday(2038)).toBe(toFixed(dateTime(2038, 4, 25)));
+  });
+
+  it('ORTHODOX', () => {
+    expect(getEasterSunday(2019, 'ORTHODOX')).toBe(toFixed(dateTime(2019, 4, 28)));
+    expect(getEasterSunday(2024, 'ORTHODOX')).toBe(toFixed(dateTime(2024, 5, 5)));
+    expect(getEasterSunday(2025, 'ORTHODOX')).toBe(toFixed(dateTime(2025, 4, 20)));
+    expect(getEasterSunday(2026, 'ORTHODOX')).toBe(toFixed(dateTime(2026, 4, 12)));
+  });
+});
+
+describe('getEasterDays', () => {
+  it('includes offsets from the easters of neighbouring years', () => {
+    // easter is on April 8th 2007, March 23rd 2008 and April 12th 2009
+    expect(getEasterDays(2008, { byEaster: [-83, 0, 270] })).toEqual([
+      toFixed(dateTime(2008, 1, 3)),
+      toFixed(dateTime(2008, 3, 23)),
+      toFixed(dateTime(2008, 12, 18)),
+    ]);
+
+    expect(getEasterDays(2009, { byEaster: [-83, 0, 290] })).toEqual([
+      toFixed(dateTime(2009, 1, 7)),
+      toFixed(dateTime(2009, 1, 19)),
+      toFixed(dateTime(2009, 4, 12)),
+    ]);
+  });
+});
+
+describe('ByEasterRule', () => {
+  let byEaster: RuleOption.ByEaster[];
+
+  afterEach(() => {
+    byEaster = [];
+  });
+
+  context(dateTime(2019, 4, 21), date => {
+    it('0', () => {
+      byEaster = [0];
+
+      const rule = buildRule(date, { byEaster });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('-2,1', () => {
+      byEaster = [-2, 1];
+
+      const rule = buildRule(date, { byEaster });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 4, 22) });
+    });
+
+    it('-1', () => {
+      byEaster = [-1];
+
+      const rule = buildRule(date, { byEaster });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2020, 4, 11) });
+    });
+
+    it('0 ORTHODOX', () => {
+      byEaster = [0];
+
+      const rule = buildRule(date, { byEaster, easterCalendar: 'ORTHODOX' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 4, 28) });
+    });
+  });
+
+  context(dateTime(2008, 3, 23, 10, 30), date => {
+    it('-83', () => {
+      byEaster = [-83];
+
+      const rule = buildRule(date, { byEaster });
+
+      const result = rule.run(date);
+
+      // there is no matching day remaining in 2008
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2009, 1, 19) });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  DateTime,
+  InvalidDateTime,
+  RecurrenceRuleError,
+  RuleOption,
+  ValidDateTime,
+} from '@rschedule/core';
+import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
+import {
+  fixedFromGregorian,
+  fromFixed,
+  gregorianYearFromFixed,
+  toFixed,
+} from '../utilities/calendar-systems';
+import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import './types';
+
+declare module '../../recurrence-rule-options' {
+  interface IRuleOptions extends IByEasterRuleOptions {}
+
+  interface INormRuleOptions extends INormByEasterRuleOptions {}
+}
+
+export interface IByEasterRuleOptions extends IFrequencyRuleOptions {
+  byEaster?: RuleOption.ByEaster[];
+  easterCalendar?: RuleOption.EasterCalendar;
+}
+
+export interface INormByEasterRuleOptions extends INormFrequencyRuleOptions {
+  byEaster?: RuleOption.ByEaster[];
+  easterCalendar?: RuleOption.EasterCalendar;
+}
+
+export class ByEasterRule extends RecurrenceRuleBase<INormByEasterRuleOptions> {
+  run(date: DateTime) {
+    const today = toFixed(date);
+
+    let year = date.get('year');
+    let index = 0;
+
+    // a year can be without any matching days (e.g. `byEaster: [-81]` and
+    // easter on March 22nd) so we may need to look at the following year
+    while (index < 3) {
+      const day = getEasterDays(year, this.options).find(easterDay => easterDay >= today);
+
+      if (day === today) {
+        return this.validateDate(new ValidDateTime(date));
+      }
+
+      if (day !== undefined) {
+        return this.validateDate(new InvalidDateTime(fromFixed(date, day)));
+      }
+
+      year++;
+      index++;
+    }
+
+    throw new RecurrenceRuleError('byEaster Infinite while loop');
+  }
+}
+
+/**
+ * Returns the fixed day number of each day in the provided gregorian year
+ * which is one of the `byEaster` offsets from Easter Sunday, sorted.
+ *
+ * Because an offset can move a day into the previous or following year,
+ * the Easter Sundays of those years are also considered.
+ */
+export function getEasterDays(
+  year: number,
+  options: {
+    byEaster?: RuleOption.ByEaster[];
+    easterCalendar?: RuleOption.EasterCalendar;
+  },
+) {
+  const days: number[] = [];
+
+  for (const easterYear of [year - 1, year, year + 1]) {
+    const easter = getEasterSunday(easterYear, options.easterCalendar);
+
+    for (const offset of options.byEaster!) {
+      const day = easter + offset;
+
+      if (gregorianYearFromFixed(day) === year && !days.includes(day)) {
+        days.push(day);
+      }
+    }
+  }
+
+  return days.sort((a, b) => a - b);
+}
+
+/**
+ * Returns the fixed day number of Easter Sunday in the provided gregorian year.
+ */
+export function getEasterSunday(
+  year: number,
+  calendar: RuleOption.EasterCalendar = 'WESTERN',
+): number {
+  return calendar === 'ORTHODOX' ? getOrthodoxEasterSunday(year) : getWesternEasterSunday(year);
+}
+
+/** Uses the "anonymous gregorian algorithm" */
+function getWesternEasterSunday(year: number) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return fixedFromGregorian(year, month, day);
+}
+
+/**
+ * Uses Meeus' julian algorithm and then converts the julian date
+ * to a gregorian date.
+ */
+function getOrthodoxEasterSunday(year: number) {
+  const d = (19 * (year % 19) + 15) % 30;
+  const e = (2 * (year % 4) + 4 * (year % 7) - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+
+  // the difference between the julian and gregorian calendars
+  return fixedFromGregorian(year, month, day) + Math.floor(year / 100) - Math.floor(year / 400) - 2;
+}
@@ -0,0 +1,8 @@
+import { DateAdapter } from '@rschedule/core';
+
+declare module '../../recurrence-rule-options' {
+  namespace RuleOption {
+    type ByEaster = number;
+    type EasterCalendar = 'WESTERN' | 'ORTHODOX';
+  }
+}
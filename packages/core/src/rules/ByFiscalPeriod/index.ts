@@ -0,0 +1,8 @@
+export * from './module';
+export {
+  ByFiscalPeriodRule,
+  getFiscalPeriodRanges,
+  IByFiscalPeriodRuleOptions,
+  INormByFiscalPeriodRuleOptions,
+} from './rule';
+export { RevByFiscalPeriodRule } from './rev-rule';
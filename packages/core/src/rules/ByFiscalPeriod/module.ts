@@ -0,0 +1,187 @@
+import {
+  DateAdapter,
+  FISCAL_CALENDAR_PATTERNS,
+  FISCAL_CALENDAR_YEAR_ENDS,
+  IRecurrenceRuleModule,
+  numberSortComparer,
+  RuleOptionError,
+} from '@rschedule/core';
+import { ByDayOfMonthRuleModule } from '../ByDayOfMonth';
+import { ByHourOfDayRuleModule } from '../ByHourOfDay';
+import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
+import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
+import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
+import { ruleOptionFilled } from '../utilities/rule-option-filled';
+import { RevByFiscalPeriodRule } from './rev-rule';
+import {
+  ByFiscalPeriodRule,
+  IByFiscalPeriodRuleOptions,
+  INormByFiscalPeriodRuleOptions,
+} from './rule';
+
+export const ByFiscalPeriodRuleModule: IRecurrenceRuleModule<
+  IByFiscalPeriodRuleOptions,
+  INormByFiscalPeriodRuleOptions
+> = {
+  name: 'ByFiscalPeriod',
+  get: processor => {
+    if (
+      processor.options.byFiscalPeriod === undefined &&
+      processor.options.byDayOfFiscalPeriod === undefined
+    ) {
+      return null;
+    }
+    if (processor.reverse) return new RevByFiscalPeriodRule(processor);
+    return new ByFiscalPeriodRule(processor);
+  },
+  normalizeOptions: (options, norm) => {
+    if (options.byFiscalPeriod === undefined && options.byDayOfFiscalPeriod === undefined) {
+      if (options.fiscalCalendar !== undefined) {
+        throw new RuleOptionError(
+          '"fiscalCalendar" cannot be present without "byFiscalPeriod" or "byDayOfFiscalPeriod"',
+          { option: 'fiscalCalendar', code: 'REQUIRES_OPTION', value: options.fiscalCalendar },
+        );
+      }
+
+      return;
+    }
+
+    if (options.rscale !== undefined && options.rscale !== 'GREGORIAN') {
+      const option =
+        options.byFiscalPeriod !== undefined ? 'byFiscalPeriod' : 'byDayOfFiscalPeriod';
+
+      throw new RuleOptionError(
+        '"byFiscalPeriod" and "byDayOfFiscalPeriod" cannot be present when "rscale" ' +
+          'is not "GREGORIAN"',
+        { option, code: 'INCOMPATIBLE', value: options[option] },
+      );
+    }
+
+    const calendar = options.fiscalCalendar;
+
+    if (!calendar) {
+      throw new RuleOptionError(
+        '"fiscalCalendar" is required when "byFiscalPeriod" or "byDayOfFiscalPeriod" is present',
+        { option: 'fiscalCalendar', code: 'REQUIRED', value: calendar },
+      );
+    }
+
+    if (!FISCAL_CALENDAR_PATTERNS.includes(calendar.pattern)) {
+      throw new RuleOptionError(
+        `"fiscalCalendar.pattern" must be one of ${JSON.stringify(FISCAL_CALENDAR_PATTERNS)}`,
+        { option: 'fiscalCalendar.pattern', code: 'INVALID_VALUE', value: calendar.pattern },
+      );
+    }
+
+    if (!FISCAL_CALENDAR_YEAR_ENDS.includes(calendar.yearEnd)) {
+      throw new RuleOptionError(
+        `"fiscalCalendar.yearEnd" must be one of ${JSON.stringify(FISCAL_CALENDAR_YEAR_ENDS)}`,
+        { option: 'fiscalCalendar.yearEnd', code: 'INVALID_VALUE', value: calendar.yearEnd },
+      );
+    }
+
+    if (
+      !Number.isInteger(calendar.yearEndMonth) ||
+      calendar.yearEndMonth < 1 ||
+      calendar.yearEndMonth > 12
+    ) {
+      throw new RuleOptionError('"fiscalCalendar.yearEndMonth" must be `num >= 1 && num <= 12`', {
+        option: 'fiscalCalendar.yearEndMonth',
+        code: 'OUT_OF_RANGE',
+        value: calendar.yearEndMonth,
+      });
+    }
+
+    if (!DateAdapter.WEEKDAYS.includes(calendar.yearEndWeekday)) {
+      throw new RuleOptionError(
+        `"fiscalCalendar.yearEndWeekday" must be one of ${JSON.stringify(DateAdapter.WEEKDAYS)}`,
+        {
+          option: 'fiscalCalendar.yearEndWeekday',
+          code: 'INVALID_VALUE',
+          value: calendar.yearEndWeekday,
+        },
+      );
+    }
+
+    norm.fiscalCalendar = {
+      pattern: calendar.pattern,
+      yearEnd: calendar.yearEnd,
+      yearEndMonth: calendar.yearEndMonth,
+      yearEndWeekday: calendar.yearEndWeekday,
+    };
+
+    if (options.byFiscalPeriod !== undefined) {
+      if (!ruleOptionFilled(options.byFiscalPeriod)) {
+        throw new RuleOptionError('"byFiscalPeriod" expects a non-empty array', {
+          option: 'byFiscalPeriod',
+          code: 'EMPTY',
+          value: options.byFiscalPeriod,
+        });
+      }
+
+      const invalidEntry = findInvalidEntry(
+        'byFiscalPeriod',
+        options.byFiscalPeriod,
+        num => !Number.isInteger(num) || num < 1 || num > 12,
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError('"byFiscalPeriod" values must be `num >= 1 && num <= 12`', {
+          ...invalidEntry,
+          code: 'OUT_OF_RANGE',
+        });
+      }
+
+      norm.byFiscalPeriod = options.byFiscalPeriod.slice();
+      norm.byFiscalPeriod!.sort(numberSortComparer);
+    }
+
+    if (options.byDayOfFiscalPeriod !== undefined) {
+      if (['DAILY', 'WEEKLY', 'MONTHLY'].includes(options.frequency)) {
+        throw new RuleOptionError(
+          '"byDayOfFiscalPeriod" cannot be present when "frequency" is "DAILY", "WEEKLY", ' +
+            'or "MONTHLY"',
+          {
+            option: 'byDayOfFiscalPeriod',
+            code: 'INCOMPATIBLE',
+            value: options.byDayOfFiscalPeriod,
+          },
+        );
+      }
+
+      if (!ruleOptionFilled(options.byDayOfFiscalPeriod)) {
+        throw new RuleOptionError('"byDayOfFiscalPeriod" expects a non-empty array', {
+          option: 'byDayOfFiscalPeriod',
+          code: 'EMPTY',
+          value: options.byDayOfFiscalPeriod,
+        });
+      }
+
+      const invalidDay = findInvalidEntry(
+        'byDayOfFiscalPeriod',
+        options.byDayOfFiscalPeriod,
+        num => !Number.isInteger(num) || num === 0 || num < -42 || num > 42,
+      );
+
+      if (invalidDay) {
+        throw new RuleOptionError(
+          '"byDayOfFiscalPeriod" values must be `num !== 0 && num <= 42 && num >= -42`',
+          { ...invalidDay, code: 'OUT_OF_RANGE' },
+        );
+      }
+
+      norm.byDayOfFiscalPeriod = options.byDayOfFiscalPeriod.slice();
+    }
+  },
+  deps: () => [
+    FrequencyRuleModule,
+    ByFiscalPeriodRuleModule,
+    ByDayOfMonthRuleModule,
+    ByHourOfDayRuleModule,
+    ByMinuteOfHourRuleModule,
+    BySecondOfMinuteRuleModule,
+    ByMillisecondOfSecondRuleModule,
+  ],
+};
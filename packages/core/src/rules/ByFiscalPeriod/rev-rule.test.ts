@@ -0,0 +1,74 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRevRuleFn, dateTime } from '../test-utilities';
+import { RevByFiscalPeriodRule } from './rev-rule';
+
+const buildRule = buildRevRuleFn<
+  typeof RevByFiscalPeriodRule,
+  {
+    byFiscalPeriod?: RuleOption.ByFiscalPeriod[];
+    byDayOfFiscalPeriod?: RuleOption.ByDayOfFiscalPeriod[];
+    fiscalCalendar: RuleOption.FiscalCalendar;
+  }
+>(RevByFiscalPeriodRule);
+
+// fiscal years end on the last saturday of december
+const fiscalCalendar: RuleOption.FiscalCalendar = {
+  pattern: '4-4-5',
+  yearEnd: 'LAST',
+  yearEndMonth: 12,
+  yearEndWeekday: 'SA',
+};
+
+describe('RevByFiscalPeriodRule', () => {
+  context(dateTime(2019, 3, 30), date => {
+    it('3', () => {
+      const rule = buildRule(date, {
+        byFiscalPeriod: [3],
+        fiscalCalendar,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('7', () => {
+      const rule = buildRule(date, {
+        byFiscalPeriod: [7],
+        fiscalCalendar,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2018, 7, 28, 23, 59, 59, 999) });
+    });
+
+    it('1 w/ byDayOfFiscalPeriod -1', () => {
+      const rule = buildRule(date, {
+        byFiscalPeriod: [1],
+        byDayOfFiscalPeriod: [-1],
+        fiscalCalendar,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 1, 26, 23, 59, 59, 999) });
+    });
+
+    it('byDayOfFiscalPeriod 1', () => {
+      const rule = buildRule(date, {
+        byDayOfFiscalPeriod: [1],
+        fiscalCalendar,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 2, 24, 23, 59, 59, 999) });
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import {
+  DateTime,
+  getFiscalPeriods,
+  InvalidDateTime,
+  RecurrenceRuleError,
+  ValidDateTime,
+} from '@rschedule/core';
+import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { getFiscalPeriodRanges, INormByFiscalPeriodRuleOptions } from './rule';
+
+export class RevByFiscalPeriodRule extends RevRecurrenceRuleBase<INormByFiscalPeriodRuleOptions> {
+  run(date: DateTime) {
+    let periods = getFiscalPeriods(date, this.options.fiscalCalendar!);
+    let index = 0;
+
+    while (index < 7) {
+      const range = getFiscalPeriodRanges(periods, this.options)
+        .reverse()
+        .find(({ start }) => start.isBeforeOrEqual(date));
+
+      if (range && range.end.isAfter(date)) {
+        return this.validateDate(new ValidDateTime(date));
+      }
+
+      if (range) {
+        return this.validateDate(new InvalidDateTime(range.end.subtract(1, 'millisecond')));
+      }
+
+      periods = getFiscalPeriods(periods[0].start.subtract(1, 'day'), this.options.fiscalCalendar!);
+      index++;
+    }
+
+    throw new RecurrenceRuleError('byFiscalPeriod Infinite while loop');
+  }
+}
@@ -0,0 +1,90 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRuleFn, dateTime } from '../test-utilities';
+import { ByFiscalPeriodRule } from './rule';
+
+const buildRule = buildRuleFn<
+  typeof ByFiscalPeriodRule,
+  {
+    byFiscalPeriod?: RuleOption.ByFiscalPeriod[];
+    byDayOfFiscalPeriod?: RuleOption.ByDayOfFiscalPeriod[];
+    fiscalCalendar: RuleOption.FiscalCalendar;
+  }
+>(ByFiscalPeriodRule);
+
+// fiscal years end on the last saturday of december
+const fiscalCalendar: RuleOption.FiscalCalendar = {
+  pattern: '4-4-5',
+  yearEnd: 'LAST',
+  yearEndMonth: 12,
+  yearEndWeekday: 'SA',
+};
+
+describe('ByFiscalPeriodRule', () => {
+  context(dateTime(2019, 3, 30), date => {
+    it('3', () => {
+      const rule = buildRule(date, {
+        byFiscalPeriod: [3],
+        fiscalCalendar,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('7', () => {
+      const rule = buildRule(date, {
+        byFiscalPeriod: [7],
+        fiscalCalendar,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 6, 30) });
+    });
+
+    it('1 w/ byDayOfFiscalPeriod -1', () => {
+      const rule = buildRule(date, {
+        byFiscalPeriod: [1],
+        byDayOfFiscalPeriod: [-1],
+        fiscalCalendar,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2020, 1, 25) });
+    });
+
+    it('byDayOfFiscalPeriod 1', () => {
+      const rule = buildRule(date, {
+        byDayOfFiscalPeriod: [1],
+        fiscalCalendar,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 3, 31) });
+    });
+  });
+
+  context(dateTime(2019, 12, 29, 9), date => {
+    it('12 w/ byDayOfFiscalPeriod 36', () => {
+      // the next fiscal year with 53 weeks ends on 2022/12/31
+      const rule = buildRule(date, {
+        byFiscalPeriod: [12],
+        byDayOfFiscalPeriod: [36],
+        fiscalCalendar,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2022, 12, 25) });
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  DateAdapter,
+  DateTime,
+  getFiscalPeriods,
+  IFiscalPeriod,
+  InvalidDateTime,
+  numberSortComparer,
+  RecurrenceRuleError,
+  RuleOption,
+  ValidDateTime,
+} from '@rschedule/core';
+import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
+import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import './types';
+
+declare module '../../recurrence-rule-options' {
+  interface IRuleOptions extends IByFiscalPeriodRuleOptions {}
+
+  interface INormRuleOptions extends INormByFiscalPeriodRuleOptions {}
+}
+
+export interface IByFiscalPeriodRuleOptions extends IFrequencyRuleOptions {
+  byFiscalPeriod?: RuleOption.ByFiscalPeriod[];
+  byDayOfFiscalPeriod?: RuleOption.ByDayOfFiscalPeriod[];
+  fiscalCalendar?: RuleOption.FiscalCalendar;
+}
+
+export interface INormByFiscalPeriodRuleOptions extends INormFrequencyRuleOptions {
+  byFiscalPeriod?: RuleOption.ByFiscalPeriod[];
+  byDayOfFiscalPeriod?: RuleOption.ByDayOfFiscalPeriod[];
+  fiscalCalendar?: RuleOption.FiscalCalendar;
+}
+
+export class ByFiscalPeriodRule extends RecurrenceRuleBase<INormByFiscalPeriodRuleOptions> {
+  run(date: DateTime) {
+    let periods = getFiscalPeriods(date, this.options.fiscalCalendar!);
+    let index = 0;
+
+    // a `byDayOfFiscalPeriod` entry greater than 35 only exists in
+    // fiscal years with 53 weeks, which occur every 5 or 6 years
+    while (index < 7) {
+      const range = getFiscalPeriodRanges(periods, this.options).find(({ end }) =>
+        end.isAfter(date),
+      );
+
+      if (range && range.start.isBeforeOrEqual(date)) {
+        return this.validateDate(new ValidDateTime(date));
+      }
+
+      if (range) {
+        return this.validateDate(new InvalidDateTime(range.start));
+      }
+
+      periods = getFiscalPeriods(periods[11].end, this.options.fiscalCalendar!);
+      index++;
+    }
+
+    throw new RecurrenceRuleError('byFiscalPeriod Infinite while loop');
+  }
+}
+
+/**
+ * Returns the ranges of time within the provided fiscal periods which
+ * match the `byFiscalPeriod` and `byDayOfFiscalPeriod` rule options, sorted.
+ * Each range is either a whole fiscal period or a single day.
+ */
+export function getFiscalPeriodRanges(
+  periods: IFiscalPeriod[],
+  options: {
+    byFiscalPeriod?: RuleOption.ByFiscalPeriod[];
+    byDayOfFiscalPeriod?: RuleOption.ByDayOfFiscalPeriod[];
+  },
+) {
+  const ranges: Array<{ start: DateTime; end: DateTime }> = [];
+
+  for (const period of periods) {
+    if (
+      options.byFiscalPeriod &&
+      !options.byFiscalPeriod.includes(period.period as RuleOption.ByFiscalPeriod)
+    ) {
+      continue;
+    }
+
+    if (!options.byDayOfFiscalPeriod) {
+      ranges.push({ start: period.start, end: period.end });
+      continue;
+    }
+
+    const length = Math.round(
+      (period.end.valueOf() - period.start.valueOf()) / DateAdapter.MILLISECONDS_IN_DAY,
+    );
+
+    options.byDayOfFiscalPeriod
+      .map(entry => (entry > 0 ? entry : length + entry + 1))
+      .filter((day, i, days) => day >= 1 && day <= length && days.indexOf(day) === i)
+      .sort(numberSortComparer)
+      .forEach(day => {
+        const start = period.start.add(day - 1, 'day');
+
+        ranges.push({ start, end: start.add(1, 'day') });
+      });
+  }
+
+  return ranges;
+}
@@ -0,0 +1,9 @@
+import { IFiscalCalendar } from '@rschedule/core';
+
+declare module '../../recurrence-rule-options' {
+  namespace RuleOption {
+    type ByFiscalPeriod = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+    type ByDayOfFiscalPeriod = number;
+    type FiscalCalendar = IFiscalCalendar;
+  }
+}
@@ -3,6 +3,7 @@ import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
 import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
 import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
 import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
 import { ruleOptionFilled } from '../utilities/rule-option-filled';
 import { RevByHourOfDayRule } from './rev-rule';
 import {
@@ -24,16 +25,33 @@ export const ByHourOfDayRuleModule: IRecurrenceRuleModule<
   normalizeOptions: (options, norm) => {
     if (options.byHourOfDay !== undefined) {
       if (!ruleOptionFilled(options.byHourOfDay)) {
-        throw new RuleOptionError('"byHourOfDay" expects a non-empty array');
+        throw new RuleOptionError('"byHourOfDay" expects a non-empty array', {
+          option: 'byHourOfDay',
+          code: 'EMPTY',
+          value: options.byHourOfDay,
+        });
       }
 
-      if (options.byHourOfDay.some(num => num < 0 || num > 23)) {
-        throw new RuleOptionError('"byHourOfDay" values must be >= 0 && <= 23');
+      const invalidEntry = findInvalidEntry(
+        'byHourOfDay',
+        options.byHourOfDay,
+        num => num < 0 || num > 23,
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError('"byHourOfDay" values must be >= 0 && <= 23', {
+          ...invalidEntry,
+          code: 'OUT_OF_RANGE',
+        });
       }
 
       norm.byHourOfDay = options.byHourOfDay;
       norm.byHourOfDay.sort(numberSortComparer);
-    } else if (['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY'].includes(options.frequency)) {
+    } else if (
+      ['YEARLY', 'QUARTERLY', 'MONTHLY', 'WEEKLY', 'DAILY'].includes(options.frequency) &&
+      !ruleOptionFilled((options as any).bySolarEvent) &&
+      (options as any).lunarPhaseTime !== 'EXACT'
+    ) {
       norm.byHourOfDay = [norm.start.get('hour')];
     }
   },
@@ -0,0 +1,9 @@
+export * from './module';
+export {
+  ByLunarPhaseRule,
+  getLunarPhaseDates,
+  IByLunarPhaseRuleOptions,
+  INormByLunarPhaseRuleOptions,
+} from './rule';
+export { RevByLunarPhaseRule } from './rev-rule';
+export { LUNAR_PHASES } from '../utilities/lunar-phases';
@@ -0,0 +1,97 @@
+import { IRecurrenceRuleModule, RuleOptionError } from '@rschedule/core';
+import { ByHourOfDayRuleModule } from '../ByHourOfDay';
+import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
+import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
+import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
+import { LUNAR_PHASES } from '../utilities/lunar-phases';
+import { ruleOptionFilled } from '../utilities/rule-option-filled';
+import { RevByLunarPhaseRule } from './rev-rule';
+import { ByLunarPhaseRule, IByLunarPhaseRuleOptions, INormByLunarPhaseRuleOptions } from './rule';
+
+const LUNAR_PHASE_TIMES = ['DATE', 'EXACT'];
+
+export const ByLunarPhaseRuleModule: IRecurrenceRuleModule<
+  IByLunarPhaseRuleOptions,
+  INormByLunarPhaseRuleOptions
+> = {
+  name: 'ByLunarPhase',
+  get: processor => {
+    if (processor.options.byLunarPhase === undefined) return null;
+    if (processor.reverse) return new RevByLunarPhaseRule(processor);
+    return new ByLunarPhaseRule(processor);
+  },
+  normalizeOptions: (options, norm) => {
+    if (options.byLunarPhase !== undefined) {
+      if (!ruleOptionFilled(options.byLunarPhase)) {
+        throw new RuleOptionError('"byLunarPhase" expects a non-empty array', {
+          option: 'byLunarPhase',
+          code: 'EMPTY',
+          value: options.byLunarPhase,
+        });
+      }
+
+      const invalidEntry = findInvalidEntry(
+        'byLunarPhase',
+        options.byLunarPhase,
+        phase => !LUNAR_PHASES.includes(phase),
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError(
+          `"byLunarPhase" values must be one of ${JSON.stringify(LUNAR_PHASES)}`,
+          { ...invalidEntry, code: 'INVALID_VALUE' },
+        );
+      }
+
+      if (options.lunarPhaseTime !== undefined) {
+        if (!LUNAR_PHASE_TIMES.includes(options.lunarPhaseTime)) {
+          throw new RuleOptionError(
+            `"lunarPhaseTime" must be one of ${JSON.stringify(LUNAR_PHASE_TIMES)}`,
+            { option: 'lunarPhaseTime', code: 'INVALID_VALUE', value: options.lunarPhaseTime },
+          );
+        }
+
+        if (options.lunarPhaseTime === 'EXACT') {
+          if (!['YEARLY', 'QUARTERLY', 'MONTHLY', 'WEEKLY', 'DAILY'].includes(options.frequency)) {
+            throw new RuleOptionError(
+              'when "lunarPhaseTime" is "EXACT", "frequency" must be "DAILY" or longer',
+              { option: 'lunarPhaseTime', code: 'INCOMPATIBLE', value: options.lunarPhaseTime },
+            );
+          }
+
+          if (
+            ['byHourOfDay', 'byMinuteOfHour', 'bySecondOfMinute', 'byMillisecondOfSecond'].some(
+              option => (options as any)[option] !== undefined,
+            )
+          ) {
+            throw new RuleOptionError(
+              'when "lunarPhaseTime" is "EXACT", "byLunarPhase" cannot be used in conjunction ' +
+                'with "byHourOfDay", "byMinuteOfHour", "bySecondOfMinute" or "byMillisecondOfSecond"',
+              { option: 'lunarPhaseTime', code: 'INCOMPATIBLE', value: options.lunarPhaseTime },
+            );
+          }
+        }
+
+        norm.lunarPhaseTime = options.lunarPhaseTime;
+      }
+
+      norm.byLunarPhase = options.byLunarPhase.slice();
+    } else if (options.lunarPhaseTime !== undefined) {
+      throw new RuleOptionError('"lunarPhaseTime" cannot be present without "byLunarPhase"', {
+        option: 'lunarPhaseTime',
+        code: 'REQUIRES_OPTION',
+        value: options.lunarPhaseTime,
+      });
+    }
+  },
+  deps: () => [
+    FrequencyRuleModule,
+    ByLunarPhaseRuleModule,
+    ByHourOfDayRuleModule,
+    ByMinuteOfHourRuleModule,
+    BySecondOfMinuteRuleModule,
+    ByMillisecondOfSecondRuleModule,
+  ],
+};
@@ -0,0 +1,55 @@
+import { context } from '@local-tests/utilities';
+import { DateTime, InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRevRuleFn, dateTime } from '../test-utilities';
+import { RevByLunarPhaseRule } from './rev-rule';
+
+const buildRule = buildRevRuleFn<
+  typeof RevByLunarPhaseRule,
+  { byLunarPhase: RuleOption.ByLunarPhase[]; lunarPhaseTime?: RuleOption.LunarPhaseTime }
+>(RevByLunarPhaseRule);
+
+function utcDateTime(...args: number[]) {
+  return DateTime.fromJSON({ ...dateTime(...args).toJSON(), timezone: 'UTC' });
+}
+
+describe('RevByLunarPhaseRule', () => {
+  context(utcDateTime(2024, 3, 20, 10), date => {
+    it('FULL_MOON', () => {
+      const rule = buildRule(date, { byLunarPhase: ['FULL_MOON'] });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 2, 24, 23, 59, 59, 999) });
+    });
+
+    it('NEW_MOON,FIRST_QUARTER', () => {
+      const rule = buildRule(date, { byLunarPhase: ['NEW_MOON', 'FIRST_QUARTER'] });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 3, 17, 23, 59, 59, 999) });
+    });
+
+    it('NEW_MOON EXACT', () => {
+      const rule = buildRule(date, { byLunarPhase: ['NEW_MOON'], lunarPhaseTime: 'EXACT' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 3, 10, 9, 1) });
+    });
+  });
+
+  context(utcDateTime(2024, 3, 25, 1), date => {
+    it('FULL_MOON', () => {
+      const rule = buildRule(date, { byLunarPhase: ['FULL_MOON'] });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+  });
+});
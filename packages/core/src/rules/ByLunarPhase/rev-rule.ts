@@ -0,0 +1,20 @@
+import { DateTime, InvalidDateTime, ValidDateTime } from '@rschedule/core';
+import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { getLunarPhaseDates, INormByLunarPhaseRuleOptions } from './rule';
+
+export class RevByLunarPhaseRule extends RevRecurrenceRuleBase<INormByLunarPhaseRuleOptions> {
+  run(date: DateTime) {
+    const exact = this.options.lunarPhaseTime === 'EXACT';
+    const target = exact ? date : date.granularity('day');
+
+    const phase = getLunarPhaseDates(date, this.options)
+      .reverse()
+      .find(phaseDate => phaseDate.isBeforeOrEqual(target))!;
+
+    if (phase.isEqual(target)) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    return this.validateDate(new InvalidDateTime(exact ? phase : phase.endGranularity('day')));
+  }
+}
@@ -0,0 +1,75 @@
+import { context } from '@local-tests/utilities';
+import { DateTime, InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRuleFn, dateTime } from '../test-utilities';
+import { ByLunarPhaseRule } from './rule';
+
+const buildRule = buildRuleFn<
+  typeof ByLunarPhaseRule,
+  { byLunarPhase: RuleOption.ByLunarPhase[]; lunarPhaseTime?: RuleOption.LunarPhaseTime }
+>(ByLunarPhaseRule);
+
+function utcDateTime(...args: number[]) {
+  return DateTime.fromJSON({ ...dateTime(...args).toJSON(), timezone: 'UTC' });
+}
+
+describe('ByLunarPhaseRule', () => {
+  context(utcDateTime(2024, 3, 20, 10), date => {
+    it('FULL_MOON', () => {
+      const rule = buildRule(date, { byLunarPhase: ['FULL_MOON'] });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 3, 25) });
+    });
+
+    it('NEW_MOON,LAST_QUARTER', () => {
+      const rule = buildRule(date, { byLunarPhase: ['NEW_MOON', 'LAST_QUARTER'] });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 4, 2) });
+    });
+
+    it('FULL_MOON EXACT', () => {
+      const rule = buildRule(date, { byLunarPhase: ['FULL_MOON'], lunarPhaseTime: 'EXACT' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 3, 25, 7, 1) });
+    });
+  });
+
+  context(utcDateTime(2024, 3, 25, 10), date => {
+    it('FULL_MOON', () => {
+      const rule = buildRule(date, { byLunarPhase: ['FULL_MOON'] });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('FULL_MOON EXACT', () => {
+      const rule = buildRule(date, { byLunarPhase: ['FULL_MOON'], lunarPhaseTime: 'EXACT' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 4, 23, 23, 50) });
+    });
+  });
+
+  context(utcDateTime(2024, 4, 8, 18, 22), date => {
+    it('NEW_MOON EXACT', () => {
+      const rule = buildRule(date, { byLunarPhase: ['NEW_MOON'], lunarPhaseTime: 'EXACT' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+  });
+});
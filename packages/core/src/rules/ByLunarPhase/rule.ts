@@ -0,0 +1,68 @@
+import {
+  DateTime,
+  dateTimeSortComparer,
+  InvalidDateTime,
+  RuleOption,
+  ValidDateTime,
+} from '@rschedule/core';
+import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
+import { getLunarPhaseTime, getLunation } from '../utilities/lunar-phases';
+import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { timeToDateTime } from '../utilities/time-to-date-time';
+import './types';
+
+declare module '../../recurrence-rule-options' {
+  interface IRuleOptions extends IByLunarPhaseRuleOptions {}
+
+  interface INormRuleOptions extends INormByLunarPhaseRuleOptions {}
+}
+
+export interface IByLunarPhaseRuleOptions extends IFrequencyRuleOptions {
+  byLunarPhase?: RuleOption.ByLunarPhase[];
+  lunarPhaseTime?: RuleOption.LunarPhaseTime;
+}
+
+export interface INormByLunarPhaseRuleOptions extends INormFrequencyRuleOptions {
+  byLunarPhase?: RuleOption.ByLunarPhase[];
+  lunarPhaseTime?: RuleOption.LunarPhaseTime;
+}
+
+export class ByLunarPhaseRule extends RecurrenceRuleBase<INormByLunarPhaseRuleOptions> {
+  run(date: DateTime) {
+    const target = this.options.lunarPhaseTime === 'EXACT' ? date : date.granularity('day');
+
+    const phase = getLunarPhaseDates(date, this.options).find(phaseDate =>
+      phaseDate.isAfterOrEqual(target),
+    )!;
+
+    if (phase.isEqual(target)) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    return this.validateDate(new InvalidDateTime(phase));
+  }
+}
+
+/**
+ * Returns the (sorted) dates, in the date's timezone, of the `byLunarPhase`
+ * phases during the lunations surrounding the provided date. Unless
+ * `lunarPhaseTime` is `"EXACT"`, the dates are the start of the day on which
+ * each phase takes place.
+ *
+ * Every lunation contains each lunar phase, so the returned dates always
+ * include the phases immediately before and after the provided date.
+ */
+export function getLunarPhaseDates(date: DateTime, options: INormByLunarPhaseRuleOptions) {
+  const lunation = getLunation(date.valueOf());
+  const dates: DateTime[] = [];
+
+  for (let index = lunation - 1; index <= lunation + 2; index++) {
+    options.byLunarPhase!.forEach(phase => {
+      const phaseDate = timeToDateTime(getLunarPhaseTime(index, phase), date.timezone);
+
+      dates.push(options.lunarPhaseTime === 'EXACT' ? phaseDate : phaseDate.granularity('day'));
+    });
+  }
+
+  return dates.sort(dateTimeSortComparer);
+}
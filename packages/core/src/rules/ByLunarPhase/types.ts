@@ -0,0 +1,13 @@
+import { DateAdapter } from '@rschedule/core';
+
+declare module '../../recurrence-rule-options' {
+  namespace RuleOption {
+    type LunarPhase = 'NEW_MOON' | 'FIRST_QUARTER' | 'FULL_MOON' | 'LAST_QUARTER';
+    type ByLunarPhase = LunarPhase;
+    /**
+     * `"DATE"` selects the (local) dates on which a lunar phase takes place.
+     * `"EXACT"` selects the times at which a lunar phase takes place.
+     */
+    type LunarPhaseTime = 'DATE' | 'EXACT';
+  }
+}
@@ -1,5 +1,6 @@
 import { IRecurrenceRuleModule, numberSortComparer, RuleOptionError } from '@rschedule/core';
 import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
 import { ruleOptionFilled } from '../utilities/rule-option-filled';
 import { RevByMillisecondOfSecondRule } from './rev-rule';
 import {
@@ -21,16 +22,33 @@ export const ByMillisecondOfSecondRuleModule: IRecurrenceRuleModule<
   normalizeOptions: (options, norm) => {
     if (options.byMillisecondOfSecond !== undefined) {
       if (!ruleOptionFilled(options.byMillisecondOfSecond)) {
-        throw new RuleOptionError('"byMillisecondOfSecond" expects a non-empty array');
+        throw new RuleOptionError('"byMillisecondOfSecond" expects a non-empty array', {
+          option: 'byMillisecondOfSecond',
+          code: 'EMPTY',
+          value: options.byMillisecondOfSecond,
+        });
       }
 
-      if (options.byMillisecondOfSecond.some(num => num < 0 || num > 999)) {
-        throw new RuleOptionError('"byMillisecondOfSecond" values must be >= 0 && <= 999');
+      const invalidEntry = findInvalidEntry(
+        'byMillisecondOfSecond',
+        options.byMillisecondOfSecond,
+        num => num < 0 || num > 999,
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError('"byMillisecondOfSecond" values must be >= 0 && <= 999', {
+          ...invalidEntry,
+          code: 'OUT_OF_RANGE',
+        });
       }
 
       norm.byMillisecondOfSecond = options.byMillisecondOfSecond;
       norm.byMillisecondOfSecond.sort(numberSortComparer);
-    } else if (options.frequency !== 'MILLISECONDLY') {
+    } else if (
+      options.frequency !== 'MILLISECONDLY' &&
+      !ruleOptionFilled((options as any).bySolarEvent) &&
+      (options as any).lunarPhaseTime !== 'EXACT'
+    ) {
       norm.byMillisecondOfSecond = [norm.start.get('millisecond')];
     }
   },
@@ -2,6 +2,7 @@ import { IRecurrenceRuleModule, numberSortComparer, RuleOptionError } from '@rsc
 import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
 import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
 import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
 import { ruleOptionFilled } from '../utilities/rule-option-filled';
 import { RevByMinuteOfHourRule } from './rev-rule';
 import {
@@ -23,16 +24,33 @@ export const ByMinuteOfHourRuleModule: IRecurrenceRuleModule<
   normalizeOptions: (options, norm) => {
     if (options.byMinuteOfHour !== undefined) {
       if (!ruleOptionFilled(options.byMinuteOfHour)) {
-        throw new RuleOptionError('"byMinuteOfHour" expects a non-empty array');
+        throw new RuleOptionError('"byMinuteOfHour" expects a non-empty array', {
+          option: 'byMinuteOfHour',
+          code: 'EMPTY',
+          value: options.byMinuteOfHour,
+        });
       }
 
-      if (options.byMinuteOfHour.some(num => num < 0 || num > 59)) {
-        throw new RuleOptionError('"byMinuteOfHour" values must be >= 0 && <= 59');
+      const invalidEntry = findInvalidEntry(
+        'byMinuteOfHour',
+        options.byMinuteOfHour,
+        num => num < 0 || num > 59,
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError('"byMinuteOfHour" values must be >= 0 && <= 59', {
+          ...invalidEntry,
+          code: 'OUT_OF_RANGE',
+        });
       }
 
       norm.byMinuteOfHour = options.byMinuteOfHour;
       norm.byMinuteOfHour.sort(numberSortComparer);
-    } else if (!['MINUTELY', 'SECONDLY', 'MILLISECONDLY'].includes(options.frequency)) {
+    } else if (
+      !['MINUTELY', 'SECONDLY', 'MILLISECONDLY'].includes(options.frequency) &&
+      !ruleOptionFilled((options as any).bySolarEvent) &&
+      (options as any).lunarPhaseTime !== 'EXACT'
+    ) {
       norm.byMinuteOfHour = [norm.start.get('minute')];
     }
   },
@@ -1,10 +1,12 @@
-import { IRecurrenceRuleModule, numberSortComparer, RuleOptionError } from '@rschedule/core';
+import { DateAdapter, IRecurrenceRuleModule, RuleOption, RuleOptionError } from '@rschedule/core';
 import { ByDayOfMonthRuleModule } from '../ByDayOfMonth';
 import { ByHourOfDayRuleModule } from '../ByHourOfDay';
 import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
 import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
 import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
 import { FrequencyRuleModule } from '../Frequency';
+import { parseMonthOfYear } from '../utilities/calendar-month-matches';
+import { getCalendarSystem, toFixed } from '../utilities/calendar-systems';
 import { ruleOptionFilled } from '../utilities/rule-option-filled';
 import { RevByMonthOfYearRule } from './rev-rule';
 import {
@@ -28,24 +30,69 @@ export const ByMonthOfYearRuleModule: IRecurrenceRuleModule<
   normalizeOptions: (options, norm) => {
     if (options.byMonthOfYear !== undefined) {
       if (!ruleOptionFilled(options.byMonthOfYear)) {
-        throw new RuleOptionError('"byMonthOfYear" expects a non-empty array');
+        throw new RuleOptionError('"byMonthOfYear" expects a non-empty array', {
+          option: 'byMonthOfYear',
+          code: 'EMPTY',
+          value: options.byMonthOfYear,
+        });
       }
 
-      if (options.byMonthOfYear.some((num: number) => num < 1 || num > 12)) {
-        throw new RuleOptionError('"byMonthOfYear" values must be `num >= 1 && num >= 12`');
-      }
+      const calendar = getCalendarSystem(options.rscale);
+
+      options.byMonthOfYear.forEach((entry, index) => {
+        const [num, leap] = parseMonthOfYear(entry);
+
+        if (!(num >= 1 && num <= 12) || (leap && !/^\d+L$/.test(entry as string))) {
+          throw new RuleOptionError('"byMonthOfYear" values must be `num >= 1 && num >= 12`', {
+            option: `byMonthOfYear[${index}]`,
+            code: 'OUT_OF_RANGE',
+            value: entry,
+          });
+        }
+
+        if (leap && !(calendar && calendar.leapMonths.includes(num))) {
+          throw new RuleOptionError(
+            `"byMonthOfYear" value "${entry}" is not a leap month ` +
+              `when "rscale" is "${options.rscale || 'GREGORIAN'}"`,
+            { option: `byMonthOfYear[${index}]`, code: 'INCOMPATIBLE', value: entry },
+          );
+        }
+      });
 
       norm.byMonthOfYear = options.byMonthOfYear.slice();
-      norm.byMonthOfYear!.sort(numberSortComparer);
+      norm.byMonthOfYear!.sort(monthOfYearSortComparer);
     } else if (
       !(
         ruleOptionFilled((options as any).byDayOfMonth) ||
         ruleOptionFilled((options as any).byDayOfWeek) ||
-        ruleOptionFilled((options as any).byDayOfYear)
+        ruleOptionFilled((options as any).byDayOfYear) ||
+        ruleOptionFilled((options as any).byWeekOfYear) ||
+        ruleOptionFilled((options as any).byEaster) ||
+        ruleOptionFilled((options as any).byLunarPhase) ||
+        ruleOptionFilled((options as any).byFiscalPeriod) ||
+        ruleOptionFilled((options as any).byDayOfFiscalPeriod)
       ) &&
-      options.frequency === 'YEARLY'
+      (options.frequency === 'QUARTERLY' ||
+        (options.frequency === 'YEARLY' && !ruleOptionFilled((options as any).byQuarterOfYear)))
     ) {
-      norm.byMonthOfYear = [norm.start.get('month')];
+      const calendar = getCalendarSystem(options.rscale);
+
+      if (calendar) {
+        const month = calendar.getMonthOf(toFixed(norm.start));
+
+        norm.byMonthOfYear = [
+          month.leap ? (`${month.month}L` as RuleOption.LeapMonth) : month.month,
+        ] as RuleOption.ByMonthOfYear[];
+      } else if (options.frequency === 'QUARTERLY') {
+        // the month of each quarter which is in the same position as the start month
+        const month = norm.start.get('month');
+
+        norm.byMonthOfYear = [0, 3, 6, 9]
+          .map(offset => (((month - 1 + offset) % 12) + 1) as DateAdapter.Month)
+          .sort(monthOfYearSortComparer);
+      } else {
+        norm.byMonthOfYear = [norm.start.get('month')];
+      }
     }
   },
   deps: () => [
@@ -58,3 +105,13 @@ export const ByMonthOfYearRuleModule: IRecurrenceRuleModule<
     ByMillisecondOfSecondRuleModule,
   ],
 };
+
+/** Sorts leap months after the month which they follow */
+function monthOfYearSortComparer(a: RuleOption.ByMonthOfYear, b: RuleOption.ByMonthOfYear) {
+  const [aNum, aLeap] = parseMonthOfYear(a);
+  const [bNum, bLeap] = parseMonthOfYear(b);
+
+  if (aNum !== bNum) return aNum - bNum;
+  if (aLeap === bLeap) return 0;
+  return aLeap ? 1 : -1;
+}
@@ -1,11 +1,26 @@
-import { DateTime, InvalidDateTime, ValidDateTime } from '@rschedule/core';
+import {
+  DateAdapter,
+  DateTime,
+  InvalidDateTime,
+  RecurrenceRuleError,
+  ValidDateTime,
+} from '@rschedule/core';
+import calendarMonthMatches from '../utilities/calendar-month-matches';
+import { fromFixed, getCalendarSystem, toFixed } from '../utilities/calendar-systems';
+import getSkippedMonths from '../utilities/get-skipped-months';
 import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
 import { INormByMonthOfYearRuleOptions } from './rule';
 
 export class RevByMonthOfYearRule extends RevRecurrenceRuleBase<INormByMonthOfYearRuleOptions> {
-  protected option = this.processor.options.byMonthOfYear!.slice().reverse();
+  protected option = (this.processor.options.byMonthOfYear as DateAdapter.Month[])
+    .slice()
+    .reverse();
+
+  protected readonly calendar = getCalendarSystem(this.options.rscale);
 
   run(date: DateTime) {
+    if (this.calendar) return this.runCalendar(date);
+
     const currentMonth = date.get('month');
 
     for (const month of this.option) {
@@ -15,18 +30,63 @@ export class RevByMonthOfYearRule extends RevRecurrenceRuleBase<INormByMonthOfYe
         return this.validateDate(new ValidDateTime(date));
       }
 
-      return this.validateDate(
-        new InvalidDateTime(date.endGranularity('year').set('month', month)),
-      );
+      return this.nextValidDate(date, date.endGranularity('year').set('month', month));
     }
 
-    return this.validateDate(
-      new InvalidDateTime(
-        date
-          .endGranularity('year')
-          .subtract(1, 'year')
-          .set('month', this.option[0]),
-      ),
+    return this.nextValidDate(
+      date,
+      date
+        .endGranularity('year')
+        .subtract(1, 'year')
+        .set('month', this.option[0]),
     );
   }
+
+  protected runCalendar(date: DateTime) {
+    const calendar = this.calendar!;
+    const fixed = toFixed(date);
+
+    let year = calendar.getYearOf(fixed);
+    let index = 0;
+
+    // a leap month might not occur for many years
+    while (index < 100) {
+      for (const month of year.months.slice().reverse()) {
+        if (month.start > fixed) continue;
+        if (!calendarMonthMatches(calendar, month, this.options)) continue;
+
+        if (month.start + month.length > fixed) {
+          return this.validateDate(new ValidDateTime(date));
+        }
+
+        return this.nextValidDate(
+          date,
+          fromFixed(date, month.start + month.length - 1).endGranularity('day'),
+        );
+      }
+
+      year = calendar.getYear(year.year - 1);
+      index++;
+    }
+
+    throw new RecurrenceRuleError('byMonthOfYear Infinite while loop');
+  }
+
+  protected nextValidDate(date: DateTime, nextMonth: DateTime) {
+    if (getSkippedMonths(date, this.options).length > 0) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    if (this.options.skip === 'FORWARD') {
+      // an entry from the next month might have been skipped
+      // forward to the first day of the following month
+      const followingDay = nextMonth.add(1, 'day').endGranularity('day');
+
+      if (followingDay.isBefore(date)) {
+        return this.validateDate(new InvalidDateTime(followingDay));
+      }
+    }
+
+    return this.validateDate(new InvalidDateTime(nextMonth));
+  }
 }
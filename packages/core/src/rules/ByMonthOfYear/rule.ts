@@ -1,5 +1,16 @@
-import { DateAdapter, DateTime, InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import {
+  DateAdapter,
+  DateTime,
+  InvalidDateTime,
+  RecurrenceRuleError,
+  RuleOption,
+  ValidDateTime,
+} from '@rschedule/core';
+import '../ByDayOfMonth/types';
 import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
+import calendarMonthMatches from '../utilities/calendar-month-matches';
+import { fromFixed, getCalendarSystem, toFixed } from '../utilities/calendar-systems';
+import getSkippedMonths from '../utilities/get-skipped-months';
 import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
 import './types';
 
@@ -15,29 +26,78 @@ export interface IByMonthOfYearRuleOptions extends IFrequencyRuleOptions {
 
 export interface INormByMonthOfYearRuleOptions extends INormFrequencyRuleOptions {
   byMonthOfYear?: RuleOption.ByMonthOfYear[];
+  byDayOfMonth?: RuleOption.ByDayOfMonth[];
 }
 
 export class ByMonthOfYearRule extends RecurrenceRuleBase<INormByMonthOfYearRuleOptions> {
+  protected readonly calendar = getCalendarSystem(this.options.rscale);
+
   run(date: DateTime) {
+    if (this.calendar) return this.runCalendar(date);
+
     const currentMonth = date.get('month');
 
-    for (const month of this.options.byMonthOfYear!) {
+    for (const month of this.options.byMonthOfYear as DateAdapter.Month[]) {
       if (currentMonth > month) continue;
 
       if (currentMonth === month) {
         return this.validateDate(new ValidDateTime(date));
       }
 
-      return this.validateDate(new InvalidDateTime(date.granularity('year').set('month', month)));
+      return this.nextValidDate(date, date.granularity('year').set('month', month));
     }
 
-    return this.validateDate(
-      new InvalidDateTime(
-        date
-          .granularity('year')
-          .add(1, 'year')
-          .set('month', this.options.byMonthOfYear![0]),
-      ),
+    return this.nextValidDate(
+      date,
+      date
+        .granularity('year')
+        .add(1, 'year')
+        .set('month', this.options.byMonthOfYear![0] as DateAdapter.Month),
     );
   }
+
+  protected runCalendar(date: DateTime) {
+    const calendar = this.calendar!;
+    const fixed = toFixed(date);
+
+    let year = calendar.getYearOf(fixed);
+    let index = 0;
+
+    // a leap month might not occur for many years
+    while (index < 100) {
+      for (const month of year.months) {
+        if (month.start + month.length <= fixed) continue;
+        if (!calendarMonthMatches(calendar, month, this.options)) continue;
+
+        if (month.start <= fixed) {
+          return this.validateDate(new ValidDateTime(date));
+        }
+
+        return this.nextValidDate(date, fromFixed(date, month.start));
+      }
+
+      year = calendar.getYear(year.year + 1);
+      index++;
+    }
+
+    throw new RecurrenceRuleError('byMonthOfYear Infinite while loop');
+  }
+
+  protected nextValidDate(date: DateTime, nextMonth: DateTime) {
+    if (getSkippedMonths(date, this.options).length > 0) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    if (this.options.skip === 'BACKWARD') {
+      // an entry from the next month might have been skipped
+      // backward to the last day of the previous month
+      const previousDay = nextMonth.subtract(1, 'day');
+
+      if (previousDay.isAfter(date)) {
+        return this.validateDate(new InvalidDateTime(previousDay));
+      }
+    }
+
+    return this.validateDate(new InvalidDateTime(nextMonth));
+  }
 }
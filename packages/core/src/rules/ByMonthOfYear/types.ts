@@ -2,6 +2,25 @@ import { DateAdapter } from '@rschedule/core';
 
 declare module '../../recurrence-rule-options' {
   namespace RuleOption {
-    type ByMonthOfYear = DateAdapter.Month;
+    type ByMonthOfYear = DateAdapter.Month | LeapMonth;
+
+    /**
+     * A leap month, which can only be used in conjunction with a non-gregorian
+     * `rscale` rule option. Following RFC 7529, a leap month has the same
+     * number as the month which precedes it (e.g. `"5L"` follows month `5`).
+     */
+    type LeapMonth =
+      | '1L'
+      | '2L'
+      | '3L'
+      | '4L'
+      | '5L'
+      | '6L'
+      | '7L'
+      | '8L'
+      | '9L'
+      | '10L'
+      | '11L'
+      | '12L';
   }
 }
@@ -0,0 +1,7 @@
+export * from './module';
+export {
+  ByQuarterOfYearRule,
+  IByQuarterOfYearRuleOptions,
+  INormByQuarterOfYearRuleOptions,
+} from './rule';
+export { RevByQuarterOfYearRule } from './rev-rule';
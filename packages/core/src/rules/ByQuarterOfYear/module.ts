@@ -0,0 +1,79 @@
+import { IRecurrenceRuleModule, RuleOptionError } from '@rschedule/core';
+import { ByDayOfMonthRuleModule } from '../ByDayOfMonth';
+import { ByHourOfDayRuleModule } from '../ByHourOfDay';
+import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
+import { ByMonthOfYearRuleModule } from '../ByMonthOfYear';
+import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
+import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
+import { ruleOptionFilled } from '../utilities/rule-option-filled';
+import { RevByQuarterOfYearRule } from './rev-rule';
+import {
+  ByQuarterOfYearRule,
+  IByQuarterOfYearRuleOptions,
+  INormByQuarterOfYearRuleOptions,
+} from './rule';
+
+export const ByQuarterOfYearRuleModule: IRecurrenceRuleModule<
+  IByQuarterOfYearRuleOptions,
+  INormByQuarterOfYearRuleOptions
+> = {
+  name: 'ByQuarterOfYear',
+  get: processor => {
+    if (processor.options.byQuarterOfYear === undefined) return null;
+    if (processor.reverse) return new RevByQuarterOfYearRule(processor);
+    return new ByQuarterOfYearRule(processor);
+  },
+  normalizeOptions: (options, norm) => {
+    if (options.byQuarterOfYear !== undefined) {
+      if (['DAILY', 'WEEKLY', 'MONTHLY'].includes(options.frequency)) {
+        throw new RuleOptionError(
+          '"byQuarterOfYear" cannot be present when "frequency" is "DAILY", "WEEKLY", or "MONTHLY"',
+          { option: 'byQuarterOfYear', code: 'INCOMPATIBLE', value: options.byQuarterOfYear },
+        );
+      }
+
+      if (options.rscale !== undefined && options.rscale !== 'GREGORIAN') {
+        throw new RuleOptionError(
+          '"byQuarterOfYear" cannot be present when "rscale" is not "GREGORIAN"',
+          { option: 'byQuarterOfYear', code: 'INCOMPATIBLE', value: options.byQuarterOfYear },
+        );
+      }
+
+      if (!ruleOptionFilled(options.byQuarterOfYear)) {
+        throw new RuleOptionError('"byQuarterOfYear" expects a non-empty array', {
+          option: 'byQuarterOfYear',
+          code: 'EMPTY',
+          value: options.byQuarterOfYear,
+        });
+      }
+
+      const invalidEntry = findInvalidEntry(
+        'byQuarterOfYear',
+        options.byQuarterOfYear,
+        num => ![1, 2, 3, 4].includes(num),
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError('"byQuarterOfYear" values must be `num >= 1 && num <= 4`', {
+          ...invalidEntry,
+          code: 'OUT_OF_RANGE',
+        });
+      }
+
+      norm.byQuarterOfYear = options.byQuarterOfYear.slice();
+      norm.byQuarterOfYear!.sort();
+    }
+  },
+  deps: () => [
+    FrequencyRuleModule,
+    ByQuarterOfYearRuleModule,
+    ByMonthOfYearRuleModule,
+    ByDayOfMonthRuleModule,
+    ByHourOfDayRuleModule,
+    ByMinuteOfHourRuleModule,
+    BySecondOfMinuteRuleModule,
+    ByMillisecondOfSecondRuleModule,
+  ],
+};
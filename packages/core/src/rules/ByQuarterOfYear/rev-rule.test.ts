@@ -0,0 +1,72 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRevRuleFn, dateTime } from '../test-utilities';
+import { RevByQuarterOfYearRule } from './rev-rule';
+
+const buildRule = buildRevRuleFn<
+  typeof RevByQuarterOfYearRule,
+  { byQuarterOfYear: RuleOption.ByQuarterOfYear[]; fiscalYearStart?: RuleOption.FiscalYearStart }
+>(RevByQuarterOfYearRule);
+
+describe('RevByQuarterOfYearRule', () => {
+  context(dateTime(2019, 1, 1), date => {
+    it('1', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [1],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('2,4', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [2, 4],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2018, 12, 31, 23, 59, 59, 999) });
+    });
+  });
+
+  context(dateTime(2019, 6, 10), date => {
+    it('1', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [1],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 3, 31, 23, 59, 59, 999) });
+    });
+
+    it('1 w/ fiscalYearStart 4', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [1],
+        fiscalYearStart: 4,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('4 w/ fiscalYearStart 2', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [4],
+        fiscalYearStart: 2,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 1, 31, 23, 59, 59, 999) });
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import {
+  DateTime,
+  getQuarterOfYear,
+  getStartOfQuarter,
+  InvalidDateTime,
+  RuleOption,
+  ValidDateTime,
+} from '@rschedule/core';
+import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { INormByQuarterOfYearRuleOptions } from './rule';
+
+export class RevByQuarterOfYearRule extends RevRecurrenceRuleBase<INormByQuarterOfYearRuleOptions> {
+  protected option = this.processor.options.byQuarterOfYear!.slice().reverse();
+
+  run(date: DateTime) {
+    const currentQuarter = getQuarterOfYear(date, this.options.fiscalYearStart);
+
+    if (this.option.includes(currentQuarter as RuleOption.ByQuarterOfYear)) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    const prevQuarter = this.option.find(quarter => quarter < currentQuarter) || this.option[0] - 4;
+
+    return this.validateDate(
+      new InvalidDateTime(
+        getStartOfQuarter(date, this.options.fiscalYearStart)
+          .add((prevQuarter - currentQuarter + 1) * 3, 'month')
+          .subtract(1, 'millisecond'),
+      ),
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRuleFn, dateTime } from '../test-utilities';
+import { ByQuarterOfYearRule } from './rule';
+
+const buildRule = buildRuleFn<
+  typeof ByQuarterOfYearRule,
+  { byQuarterOfYear: RuleOption.ByQuarterOfYear[]; fiscalYearStart?: RuleOption.FiscalYearStart }
+>(ByQuarterOfYearRule);
+
+describe('ByQuarterOfYearRule', () => {
+  context(dateTime(2019, 1, 1), date => {
+    it('1', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [1],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('2,4', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [2, 4],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 4, 1) });
+    });
+  });
+
+  context(dateTime(2019, 6, 10), date => {
+    it('1', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [1],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2020, 1, 1) });
+    });
+
+    it('1 w/ fiscalYearStart 4', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [1],
+        fiscalYearStart: 4,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('4 w/ fiscalYearStart 2', () => {
+      const rule = buildRule(date, {
+        byQuarterOfYear: [4],
+        fiscalYearStart: 2,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 11, 1) });
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  DateTime,
+  getQuarterOfYear,
+  getStartOfQuarter,
+  InvalidDateTime,
+  RuleOption,
+  ValidDateTime,
+} from '@rschedule/core';
+import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
+import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import './types';
+
+declare module '../../recurrence-rule-options' {
+  interface IRuleOptions extends IByQuarterOfYearRuleOptions {}
+
+  interface INormRuleOptions extends INormByQuarterOfYearRuleOptions {}
+}
+
+export interface IByQuarterOfYearRuleOptions extends IFrequencyRuleOptions {
+  byQuarterOfYear?: RuleOption.ByQuarterOfYear[];
+}
+
+export interface INormByQuarterOfYearRuleOptions extends INormFrequencyRuleOptions {
+  byQuarterOfYear?: RuleOption.ByQuarterOfYear[];
+}
+
+export class ByQuarterOfYearRule extends RecurrenceRuleBase<INormByQuarterOfYearRuleOptions> {
+  run(date: DateTime) {
+    const byQuarterOfYear = this.options.byQuarterOfYear!;
+    const currentQuarter = getQuarterOfYear(date, this.options.fiscalYearStart);
+
+    if (byQuarterOfYear.includes(currentQuarter as RuleOption.ByQuarterOfYear)) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    const nextQuarter =
+      byQuarterOfYear.find(quarter => quarter > currentQuarter) || byQuarterOfYear[0] + 4;
+
+    return this.validateDate(
+      new InvalidDateTime(
+        getStartOfQuarter(date, this.options.fiscalYearStart).add(
+          (nextQuarter - currentQuarter) * 3,
+          'month',
+        ),
+      ),
+    );
+  }
+}
@@ -0,0 +1,7 @@
+import { DateAdapter } from '@rschedule/core';
+
+declare module '../../recurrence-rule-options' {
+  namespace RuleOption {
+    type ByQuarterOfYear = 1 | 2 | 3 | 4;
+  }
+}
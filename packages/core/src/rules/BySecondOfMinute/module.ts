@@ -1,6 +1,7 @@
 import { IRecurrenceRuleModule, numberSortComparer, RuleOptionError } from '@rschedule/core';
 import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
 import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
 import { ruleOptionFilled } from '../utilities/rule-option-filled';
 import { RevBySecondOfMinuteRule } from './rev-rule';
 import {
@@ -22,16 +23,33 @@ export const BySecondOfMinuteRuleModule: IRecurrenceRuleModule<
   normalizeOptions: (options, norm) => {
     if (options.bySecondOfMinute !== undefined) {
       if (!ruleOptionFilled(options.bySecondOfMinute)) {
-        throw new RuleOptionError('"bySecondOfMinute" expects a non-empty array');
+        throw new RuleOptionError('"bySecondOfMinute" expects a non-empty array', {
+          option: 'bySecondOfMinute',
+          code: 'EMPTY',
+          value: options.bySecondOfMinute,
+        });
       }
 
-      if (options.bySecondOfMinute.some(num => num < 0 || num > 60)) {
-        throw new RuleOptionError('"bySecondOfMinute" values must be >= 0 && <= 60');
+      const invalidEntry = findInvalidEntry(
+        'bySecondOfMinute',
+        options.bySecondOfMinute,
+        num => num < 0 || num > 60,
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError('"bySecondOfMinute" values must be >= 0 && <= 60', {
+          ...invalidEntry,
+          code: 'OUT_OF_RANGE',
+        });
       }
 
       norm.bySecondOfMinute = options.bySecondOfMinute;
       norm.bySecondOfMinute.sort(numberSortComparer);
-    } else if (!['SECONDLY', 'MILLISECONDLY'].includes(options.frequency)) {
+    } else if (
+      !['SECONDLY', 'MILLISECONDLY'].includes(options.frequency) &&
+      !ruleOptionFilled((options as any).bySolarEvent) &&
+      (options as any).lunarPhaseTime !== 'EXACT'
+    ) {
       norm.bySecondOfMinute = [norm.start.get('second')];
     }
   },
@@ -0,0 +1,7 @@
+export * from './module';
+export {
+  BySetPositionRule,
+  IBySetPositionRuleOptions,
+  INormBySetPositionRuleOptions,
+} from './rule';
+export { RevBySetPositionRule } from './rev-rule';
@@ -0,0 +1,103 @@
+import { IRecurrenceRuleModule, RuleOptionError } from '@rschedule/core';
+import { ByDayOfMonthRuleModule } from '../ByDayOfMonth';
+import { ByDayOfWeekRuleModule } from '../ByDayOfWeek';
+import { ByDayOfYearRuleModule } from '../ByDayOfYear';
+import { ByEasterRuleModule } from '../ByEaster';
+import { ByFiscalPeriodRuleModule } from '../ByFiscalPeriod';
+import { ByHourOfDayRuleModule } from '../ByHourOfDay';
+import { ByLunarPhaseRuleModule } from '../ByLunarPhase';
+import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
+import { ByMonthOfYearRuleModule } from '../ByMonthOfYear';
+import { ByQuarterOfYearRuleModule } from '../ByQuarterOfYear';
+import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
+import { BySolarEventRuleModule } from '../BySolarEvent';
+import { ByTimeOfDayRuleModule } from '../ByTimeOfDay';
+import { ByWeekOfYearRuleModule } from '../ByWeekOfYear';
+import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
+import { ruleOptionFilled } from '../utilities/rule-option-filled';
+import { RevBySetPositionRule } from './rev-rule';
+import {
+  BySetPositionRule,
+  IBySetPositionRuleOptions,
+  INormBySetPositionRuleOptions,
+} from './rule';
+
+export const BySetPositionRuleModule: IRecurrenceRuleModule<
+  IBySetPositionRuleOptions,
+  INormBySetPositionRuleOptions
+> = {
+  name: 'BySetPosition',
+  get: processor => {
+    if (processor.options.bySetPosition === undefined) return null;
+    if (processor.reverse) return new RevBySetPositionRule(processor);
+    return new BySetPositionRule(processor);
+  },
+  normalizeOptions: (options, norm) => {
+    if (options.bySetPosition !== undefined) {
+      if (!ruleOptionFilled(options.bySetPosition)) {
+        throw new RuleOptionError('"bySetPosition" expects a non-empty array', {
+          option: 'bySetPosition',
+          code: 'EMPTY',
+          value: options.bySetPosition,
+        });
+      }
+
+      const invalidEntry = findInvalidEntry(
+        'bySetPosition',
+        options.bySetPosition,
+        num => !Number.isInteger(num) || num === 0 || num < -366 || num > 366,
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError(
+          '"bySetPosition" values must be `num !== 0 && num <= 366 && num >= -366`',
+          { ...invalidEntry, code: 'OUT_OF_RANGE' },
+        );
+      }
+
+      if (options.rscale !== undefined && options.rscale !== 'GREGORIAN') {
+        throw new RuleOptionError(
+          '"bySetPosition" cannot be present when "rscale" is not "GREGORIAN"',
+          { option: 'bySetPosition', code: 'INCOMPATIBLE', value: options.bySetPosition },
+        );
+      }
+
+      if (
+        !Object.keys(options).some(
+          key =>
+            key !== 'bySetPosition' &&
+            key.startsWith('by') &&
+            ruleOptionFilled((options as any)[key]),
+        )
+      ) {
+        throw new RuleOptionError(
+          '"bySetPosition" must be used in conjunction with another "by" rule option',
+          { option: 'bySetPosition', code: 'REQUIRES_OPTION', value: options.bySetPosition },
+        );
+      }
+
+      norm.bySetPosition = options.bySetPosition.slice();
+    }
+  },
+  deps: () => [
+    FrequencyRuleModule,
+    ByQuarterOfYearRuleModule,
+    ByMonthOfYearRuleModule,
+    ByWeekOfYearRuleModule,
+    ByDayOfYearRuleModule,
+    ByEasterRuleModule,
+    ByFiscalPeriodRuleModule,
+    ByLunarPhaseRuleModule,
+    ByDayOfMonthRuleModule,
+    ByDayOfWeekRuleModule,
+    BySolarEventRuleModule,
+    ByTimeOfDayRuleModule,
+    ByHourOfDayRuleModule,
+    ByMinuteOfHourRuleModule,
+    BySecondOfMinuteRuleModule,
+    ByMillisecondOfSecondRuleModule,
+    BySetPositionRuleModule,
+  ],
+};
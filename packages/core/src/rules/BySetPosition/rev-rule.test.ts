@@ -0,0 +1,63 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRevRuleFn, dateTime } from '../test-utilities';
+import { RevBySetPositionRule } from './rev-rule';
+
+const buildRule = buildRevRuleFn<
+  typeof RevBySetPositionRule,
+  { bySetPosition: RuleOption.BySetPosition[] }
+>(RevBySetPositionRule);
+
+const options = {
+  byMonthOfYear: [1, 3],
+  byDayOfMonth: [1],
+  byHourOfDay: [0],
+  byMinuteOfHour: [0],
+  bySecondOfMinute: [0],
+  byMillisecondOfSecond: [0],
+};
+
+describe('RevBySetPositionRule', () => {
+  let bySetPosition: RuleOption.BySetPosition[];
+
+  afterEach(() => {
+    bySetPosition = [];
+  });
+
+  context(dateTime(2019, 3, 2), date => {
+    it('1', () => {
+      bySetPosition = [1];
+
+      const rule = buildRule(date, { ...options, bySetPosition });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 1, 1) });
+    });
+
+    it('3', () => {
+      bySetPosition = [3];
+
+      const rule = buildRule(date, { ...options, bySetPosition });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2018, 12, 31, 23, 59, 59, 999) });
+    });
+  });
+
+  context(dateTime(2019, 3, 1), date => {
+    it('-1', () => {
+      bySetPosition = [-1];
+
+      const rule = buildRule(date, { ...options, bySetPosition });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { DateTime, InvalidDateTime, ValidDateTime } from '@rschedule/core';
+import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { getSetPositionPeriod, INormBySetPositionRuleOptions, ISetPositionPeriod } from './rule';
+
+export class RevBySetPositionRule extends RevRecurrenceRuleBase<INormBySetPositionRuleOptions> {
+  private period?: ISetPositionPeriod;
+
+  run(date: DateTime) {
+    const period = this.getPeriod(date);
+
+    const next = period.dates
+      .slice()
+      .reverse()
+      .find(day => day.isBeforeOrEqual(date));
+
+    if (!next) {
+      return this.validateDate(new InvalidDateTime(period.start.subtract(1, 'millisecond')));
+    }
+
+    if (next.isEqual(date)) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    return this.validateDate(new InvalidDateTime(next));
+  }
+
+  private getPeriod(date: DateTime) {
+    if (!this.period || date.isBefore(this.period.start) || date.isAfterOrEqual(this.period.end)) {
+      this.period = getSetPositionPeriod(date, this.options);
+    }
+
+    return this.period;
+  }
+}
@@ -0,0 +1,74 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRuleFn, dateTime } from '../test-utilities';
+import { BySetPositionRule } from './rule';
+
+const buildRule = buildRuleFn<
+  typeof BySetPositionRule,
+  { bySetPosition: RuleOption.BySetPosition[] }
+>(BySetPositionRule);
+
+const options = {
+  byMonthOfYear: [1, 3],
+  byDayOfMonth: [1],
+  byHourOfDay: [0],
+  byMinuteOfHour: [0],
+  bySecondOfMinute: [0],
+  byMillisecondOfSecond: [0],
+};
+
+describe('BySetPositionRule', () => {
+  let bySetPosition: RuleOption.BySetPosition[];
+
+  afterEach(() => {
+    bySetPosition = [];
+  });
+
+  context(dateTime(2019, 1, 1), date => {
+    it('1', () => {
+      bySetPosition = [1];
+
+      const rule = buildRule(date, { ...options, bySetPosition });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('-1', () => {
+      bySetPosition = [-1];
+
+      const rule = buildRule(date, { ...options, bySetPosition });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 3, 1) });
+    });
+
+    it('3', () => {
+      bySetPosition = [3];
+
+      const rule = buildRule(date, { ...options, bySetPosition });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2020, 1, 1) });
+    });
+  });
+
+  context(dateTime(2019, 3, 2), date => {
+    it('1,-1', () => {
+      bySetPosition = [1, -1];
+
+      const rule = buildRule(date, { ...options, bySetPosition });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2020, 1, 1) });
+    });
+  });
+});
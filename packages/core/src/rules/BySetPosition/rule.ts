@@ -0,0 +1,152 @@
+import {
+  DateTime,
+  dateTimeSortComparer,
+  freqToGranularity,
+  getStartOfQuarter,
+  InvalidDateTime,
+  RecurrenceRulesIterator,
+  recurrenceRulesReducer,
+  RuleOption,
+  uniqDateTimes,
+  ValidDateTime,
+} from '@rschedule/core';
+import { ByDayOfMonthRuleModule } from '../ByDayOfMonth';
+import { ByDayOfWeekRuleModule } from '../ByDayOfWeek';
+import { ByDayOfYearRuleModule } from '../ByDayOfYear';
+import { ByEasterRuleModule } from '../ByEaster';
+import { ByFiscalPeriodRuleModule } from '../ByFiscalPeriod';
+import { ByHourOfDayRuleModule } from '../ByHourOfDay';
+import { ByLunarPhaseRuleModule } from '../ByLunarPhase';
+import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
+import { ByMonthOfYearRuleModule } from '../ByMonthOfYear';
+import { ByQuarterOfYearRuleModule } from '../ByQuarterOfYear';
+import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
+import { BySolarEventRuleModule } from '../BySolarEvent';
+import { ByTimeOfDayRuleModule } from '../ByTimeOfDay';
+import { ByWeekOfYearRuleModule } from '../ByWeekOfYear';
+import {
+  FrequencyRuleModule,
+  IFrequencyRuleOptions,
+  INormFrequencyRuleOptions,
+} from '../Frequency';
+import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import './types';
+
+declare module '../../recurrence-rule-options' {
+  interface IRuleOptions extends IBySetPositionRuleOptions {}
+
+  interface INormRuleOptions extends INormBySetPositionRuleOptions {}
+}
+
+export interface IBySetPositionRuleOptions extends IFrequencyRuleOptions {
+  bySetPosition?: RuleOption.BySetPosition[];
+}
+
+export interface INormBySetPositionRuleOptions extends INormFrequencyRuleOptions {
+  bySetPosition?: RuleOption.BySetPosition[];
+}
+
+/**
+ * The rules used to build the full set of occurrences within a
+ * frequency period, before `bySetPosition` is applied to that set.
+ */
+const SET_RULES = [
+  FrequencyRuleModule,
+  ByQuarterOfYearRuleModule,
+  ByMonthOfYearRuleModule,
+  ByWeekOfYearRuleModule,
+  ByDayOfYearRuleModule,
+  ByEasterRuleModule,
+  ByFiscalPeriodRuleModule,
+  ByLunarPhaseRuleModule,
+  ByDayOfMonthRuleModule,
+  ByDayOfWeekRuleModule,
+  BySolarEventRuleModule,
+  ByTimeOfDayRuleModule,
+  ByHourOfDayRuleModule,
+  ByMinuteOfHourRuleModule,
+  BySecondOfMinuteRuleModule,
+  ByMillisecondOfSecondRuleModule,
+] as const;
+
+export interface ISetPositionPeriod {
+  start: DateTime;
+  end: DateTime;
+  dates: DateTime[];
+}
+
+export class BySetPositionRule extends RecurrenceRuleBase<INormBySetPositionRuleOptions> {
+  private period?: ISetPositionPeriod;
+
+  run(date: DateTime) {
+    const period = this.getPeriod(date);
+
+    const next = period.dates.find(day => day.isAfterOrEqual(date));
+
+    if (!next) {
+      return this.validateDate(new InvalidDateTime(period.end));
+    }
+
+    if (next.isEqual(date)) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    return this.validateDate(new InvalidDateTime(next));
+  }
+
+  private getPeriod(date: DateTime) {
+    if (!this.period || date.isBefore(this.period.start) || date.isAfterOrEqual(this.period.end)) {
+      this.period = getSetPositionPeriod(date, this.options);
+    }
+
+    return this.period;
+  }
+}
+
+/**
+ * Returns the frequency period (e.g. the year for a `YEARLY` rule) which
+ * contains the provided date along with the dates in that period which
+ * are selected by the `bySetPosition` rule option.
+ */
+export function getSetPositionPeriod(
+  date: DateTime,
+  options: INormBySetPositionRuleOptions,
+): ISetPositionPeriod {
+  let start: DateTime;
+  let end: DateTime;
+
+  if (options.frequency === 'QUARTERLY') {
+    start = getStartOfQuarter(date, options.fiscalYearStart);
+    end = start.add(3, 'month');
+  } else {
+    const unit = freqToGranularity(options.frequency);
+
+    start = date.granularity(unit, { weekStart: options.weekStart });
+    end = start.add(1, unit);
+  }
+  const { bySetPosition, ...setOptions } = options;
+
+  const iterator = new RecurrenceRulesIterator(
+    recurrenceRulesReducer(SET_RULES),
+    {
+      ...setOptions,
+      start,
+      end: undefined,
+      count: undefined,
+      duration: undefined,
+      interval: 1,
+    },
+    { start, end: end.subtract(1, 'millisecond') },
+  );
+
+  const set = Array.from(iterator) as DateTime[];
+
+  const dates = uniqDateTimes(
+    bySetPosition!
+      .map(position => (position > 0 ? set[position - 1] : set[set.length + position]))
+      .filter(day => !!day),
+  ).sort(dateTimeSortComparer);
+
+  return { start, end, dates };
+}
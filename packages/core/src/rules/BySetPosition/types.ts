@@ -0,0 +1,7 @@
+import { DateAdapter } from '@rschedule/core';
+
+declare module '../../recurrence-rule-options' {
+  namespace RuleOption {
+    type BySetPosition = number;
+  }
+}
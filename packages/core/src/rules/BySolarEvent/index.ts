@@ -0,0 +1,9 @@
+export * from './module';
+export {
+  BySolarEventRule,
+  getSolarEventDates,
+  IBySolarEventRuleOptions,
+  INormBySolarEventRuleOptions,
+} from './rule';
+export { RevBySolarEventRule } from './rev-rule';
+export { ISolarLocation, SOLAR_EVENTS } from '../utilities/solar-events';
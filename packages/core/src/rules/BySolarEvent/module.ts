@@ -0,0 +1,101 @@
+import { IRecurrenceRuleModule, RuleOptionError } from '@rschedule/core';
+import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
+import { ruleOptionFilled } from '../utilities/rule-option-filled';
+import { SOLAR_EVENTS } from '../utilities/solar-events';
+import { RevBySolarEventRule } from './rev-rule';
+import { BySolarEventRule, IBySolarEventRuleOptions, INormBySolarEventRuleOptions } from './rule';
+
+export const BySolarEventRuleModule: IRecurrenceRuleModule<
+  IBySolarEventRuleOptions,
+  INormBySolarEventRuleOptions
+> = {
+  name: 'BySolarEvent',
+  get: processor => {
+    if (processor.options.bySolarEvent === undefined) return null;
+    if (processor.reverse) return new RevBySolarEventRule(processor);
+    return new BySolarEventRule(processor);
+  },
+  normalizeOptions: (options, norm) => {
+    if (options.bySolarEvent !== undefined) {
+      if (!['YEARLY', 'QUARTERLY', 'MONTHLY', 'WEEKLY', 'DAILY'].includes(options.frequency)) {
+        throw new RuleOptionError(
+          '"bySolarEvent" can only be present when "frequency" is "DAILY" or longer',
+          { option: 'bySolarEvent', code: 'INCOMPATIBLE', value: options.bySolarEvent },
+        );
+      }
+
+      if (!ruleOptionFilled(options.bySolarEvent)) {
+        throw new RuleOptionError('"bySolarEvent" expects a non-empty array', {
+          option: 'bySolarEvent',
+          code: 'EMPTY',
+          value: options.bySolarEvent,
+        });
+      }
+
+      const invalidEntry = findInvalidEntry('bySolarEvent', options.bySolarEvent, entry => {
+        const [event, offset] = typeof entry === 'string' ? [entry, 0] : entry;
+
+        return (
+          !SOLAR_EVENTS.includes(event) ||
+          !Number.isInteger(offset) ||
+          offset < -720 ||
+          offset > 720
+        );
+      });
+
+      if (invalidEntry) {
+        throw new RuleOptionError(
+          '"bySolarEvent" values must be a solar event or a `[event, offset]` tuple ' +
+            'where `offset` is an integer number of minutes >= -720 && <= 720',
+          { ...invalidEntry, code: 'INVALID_VALUE' },
+        );
+      }
+
+      if (
+        ['byHourOfDay', 'byMinuteOfHour', 'bySecondOfMinute', 'byMillisecondOfSecond'].some(
+          option => (options as any)[option] !== undefined,
+        )
+      ) {
+        throw new RuleOptionError(
+          '"bySolarEvent" cannot be used in conjunction with "byHourOfDay", ' +
+            '"byMinuteOfHour", "bySecondOfMinute" or "byMillisecondOfSecond"',
+          { option: 'bySolarEvent', code: 'INCOMPATIBLE', value: options.bySolarEvent },
+        );
+      }
+
+      const location = options.solarLocation;
+
+      if (!location) {
+        throw new RuleOptionError('"bySolarEvent" requires the "solarLocation" rule option', {
+          option: 'solarLocation',
+          code: 'REQUIRED',
+          value: location,
+        });
+      }
+
+      if (
+        typeof location.latitude !== 'number' ||
+        typeof location.longitude !== 'number' ||
+        Math.abs(location.latitude) > 90 ||
+        Math.abs(location.longitude) > 180
+      ) {
+        throw new RuleOptionError(
+          '"solarLocation" expects a `latitude` >= -90 && <= 90 and a ' +
+            '`longitude` >= -180 && <= 180',
+          { option: 'solarLocation', code: 'OUT_OF_RANGE', value: location },
+        );
+      }
+
+      norm.bySolarEvent = options.bySolarEvent.slice();
+      norm.solarLocation = { latitude: location.latitude, longitude: location.longitude };
+    } else if (options.solarLocation !== undefined) {
+      throw new RuleOptionError('"solarLocation" cannot be present without "bySolarEvent"', {
+        option: 'solarLocation',
+        code: 'REQUIRES_OPTION',
+        value: options.solarLocation,
+      });
+    }
+  },
+  deps: () => [FrequencyRuleModule, BySolarEventRuleModule],
+};
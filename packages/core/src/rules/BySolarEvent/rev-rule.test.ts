@@ -0,0 +1,52 @@
+import { context } from '@local-tests/utilities';
+import { DateTime, InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRevRuleFn, dateTime } from '../test-utilities';
+import { RevBySolarEventRule } from './rev-rule';
+
+const buildRule = buildRevRuleFn<
+  typeof RevBySolarEventRule,
+  { bySolarEvent: RuleOption.BySolarEvent[]; solarLocation: RuleOption.SolarLocation }
+>(RevBySolarEventRule);
+
+function utcDateTime(...args: number[]) {
+  return DateTime.fromJSON({ ...dateTime(...args).toJSON(), timezone: 'UTC' });
+}
+
+const GREENWICH = { latitude: 51.4769, longitude: -0.0005 };
+
+describe('RevBySolarEventRule', () => {
+  context(utcDateTime(2024, 6, 21, 20, 21), date => {
+    it('SUNSET', () => {
+      const rule = buildRule(date, { bySolarEvent: ['SUNSET'], solarLocation: GREENWICH });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('SUNRISE,[SUNSET,30]', () => {
+      const rule = buildRule(date, {
+        bySolarEvent: ['SUNRISE', ['SUNSET', 30]],
+        solarLocation: GREENWICH,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 6, 21, 3, 43) });
+    });
+
+    it('[SUNSET,30]', () => {
+      const rule = buildRule(date, {
+        bySolarEvent: [['SUNSET', 30]],
+        solarLocation: GREENWICH,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 6, 20, 20, 51) });
+    });
+  });
+});
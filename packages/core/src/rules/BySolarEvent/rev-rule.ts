@@ -0,0 +1,30 @@
+import { DateTime, InvalidDateTime, RecurrenceRuleError, ValidDateTime } from '@rschedule/core';
+import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { getDay, getSolarEventDates, INormBySolarEventRuleOptions } from './rule';
+
+export class RevBySolarEventRule extends RevRecurrenceRuleBase<INormBySolarEventRuleOptions> {
+  run(date: DateTime) {
+    let day = getDay(date);
+    let index = 0;
+
+    // near the poles, the sun can go weeks or months without rising / setting
+    while (index < 53) {
+      const event = getSolarEventDates(day - 3, day + 3, date.timezone, this.options)
+        .reverse()
+        .find(eventDate => eventDate.isBeforeOrEqual(date));
+
+      if (event && event.isEqual(date)) {
+        return this.validateDate(new ValidDateTime(date));
+      }
+
+      if (event) {
+        return this.validateDate(new InvalidDateTime(event));
+      }
+
+      day -= 7;
+      index++;
+    }
+
+    throw new RecurrenceRuleError('bySolarEvent Infinite while loop');
+  }
+}
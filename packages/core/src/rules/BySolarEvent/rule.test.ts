@@ -0,0 +1,82 @@
+import { context } from '@local-tests/utilities';
+import { DateTime, InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRuleFn, dateTime } from '../test-utilities';
+import { BySolarEventRule } from './rule';
+
+const buildRule = buildRuleFn<
+  typeof BySolarEventRule,
+  { bySolarEvent: RuleOption.BySolarEvent[]; solarLocation: RuleOption.SolarLocation }
+>(BySolarEventRule);
+
+function utcDateTime(...args: number[]) {
+  return DateTime.fromJSON({ ...dateTime(...args).toJSON(), timezone: 'UTC' });
+}
+
+const GREENWICH = { latitude: 51.4769, longitude: -0.0005 };
+const TROMSO = { latitude: 69.6492, longitude: 18.9553 };
+
+describe('BySolarEventRule', () => {
+  context(utcDateTime(2024, 6, 21), date => {
+    it('SUNSET', () => {
+      const rule = buildRule(date, { bySolarEvent: ['SUNSET'], solarLocation: GREENWICH });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 6, 21, 20, 21) });
+    });
+
+    it('SUNRISE,SOLAR_NOON', () => {
+      const rule = buildRule(date, {
+        bySolarEvent: ['SOLAR_NOON', 'SUNRISE'],
+        solarLocation: GREENWICH,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 6, 21, 3, 43) });
+    });
+
+    it('SUNSET (polar day)', () => {
+      const rule = buildRule(date, { bySolarEvent: ['SUNSET'], solarLocation: TROMSO });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 7, 26, 22, 21) });
+    });
+  });
+
+  context(utcDateTime(2024, 6, 21, 20, 21), date => {
+    it('SUNSET', () => {
+      const rule = buildRule(date, { bySolarEvent: ['SUNSET'], solarLocation: GREENWICH });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('SUNRISE,[SUNSET,30]', () => {
+      const rule = buildRule(date, {
+        bySolarEvent: ['SUNRISE', ['SUNSET', 30]],
+        solarLocation: GREENWICH,
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 6, 21, 20, 51) });
+    });
+
+    it('SUNRISE', () => {
+      const rule = buildRule(date, { bySolarEvent: ['SUNRISE'], solarLocation: GREENWICH });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: utcDateTime(2024, 6, 22, 3, 43) });
+    });
+  });
+});
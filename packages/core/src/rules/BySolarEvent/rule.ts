@@ -0,0 +1,93 @@
+import {
+  DateAdapter,
+  DateTime,
+  dateTimeSortComparer,
+  InvalidDateTime,
+  RecurrenceRuleError,
+  RuleOption,
+  ValidDateTime,
+} from '@rschedule/core';
+import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
+import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { getSolarEventTime } from '../utilities/solar-events';
+import { timeToDateTime } from '../utilities/time-to-date-time';
+import './types';
+
+declare module '../../recurrence-rule-options' {
+  interface IRuleOptions extends IBySolarEventRuleOptions {}
+
+  interface INormRuleOptions extends INormBySolarEventRuleOptions {}
+}
+
+export interface IBySolarEventRuleOptions extends IFrequencyRuleOptions {
+  bySolarEvent?: RuleOption.BySolarEvent[];
+  solarLocation?: RuleOption.SolarLocation;
+}
+
+export interface INormBySolarEventRuleOptions extends INormFrequencyRuleOptions {
+  bySolarEvent?: RuleOption.BySolarEvent[];
+  solarLocation?: RuleOption.SolarLocation;
+}
+
+export class BySolarEventRule extends RecurrenceRuleBase<INormBySolarEventRuleOptions> {
+  run(date: DateTime) {
+    let day = getDay(date);
+    let index = 0;
+
+    // near the poles, the sun can go weeks or months without rising / setting
+    while (index < 53) {
+      const event = getSolarEventDates(day - 3, day + 3, date.timezone, this.options).find(
+        eventDate => eventDate.isAfterOrEqual(date),
+      );
+
+      if (event && event.isEqual(date)) {
+        return this.validateDate(new ValidDateTime(date));
+      }
+
+      if (event) {
+        return this.validateDate(new InvalidDateTime(event));
+      }
+
+      day += 7;
+      index++;
+    }
+
+    throw new RecurrenceRuleError('bySolarEvent Infinite while loop');
+  }
+}
+
+/**
+ * Returns the (sorted) dates of the `bySolarEvent` events, in the provided timezone,
+ * for the solar days between `firstDay` and `lastDay` (inclusive). Days are provided
+ * as the number of days since the unix epoch.
+ *
+ * Because the solar day at the `solarLocation` and the calendar day in the timezone
+ * needn't line up, callers should look at the surrounding solar days as well.
+ */
+export function getSolarEventDates(
+  firstDay: number,
+  lastDay: number,
+  timezone: string | null,
+  options: INormBySolarEventRuleOptions,
+): DateTime[] {
+  const dates: DateTime[] = [];
+
+  for (let day = firstDay; day <= lastDay; day++) {
+    options.bySolarEvent!.forEach(entry => {
+      const [event, offset] = typeof entry === 'string' ? [entry, 0] : entry;
+
+      const time = getSolarEventTime(day, event, options.solarLocation!);
+
+      if (time === undefined) return;
+
+      dates.push(timeToDateTime(time + offset * DateAdapter.MILLISECONDS_IN_MINUTE, timezone));
+    });
+  }
+
+  return dates.sort(dateTimeSortComparer);
+}
+
+/** Returns the number of days between the unix epoch and the date's calendar day */
+export function getDay(date: DateTime) {
+  return Math.floor(date.valueOf() / DateAdapter.MILLISECONDS_IN_DAY);
+}
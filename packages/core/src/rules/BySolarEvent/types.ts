@@ -0,0 +1,13 @@
+import { ISolarLocation } from '../utilities/solar-events';
+
+declare module '../../recurrence-rule-options' {
+  namespace RuleOption {
+    type SolarEvent = 'SUNRISE' | 'SUNSET' | 'SOLAR_NOON' | 'CIVIL_DAWN' | 'CIVIL_DUSK';
+    /**
+     * Either a solar event or a tuple of a solar event and an offset
+     * (in minutes) from that event (e.g. `['SUNSET', 30]`).
+     */
+    type BySolarEvent = SolarEvent | [SolarEvent, number];
+    type SolarLocation = ISolarLocation;
+  }
+}
@@ -0,0 +1,8 @@
+export * from './module';
+export {
+  ByTimeOfDayRule,
+  IByTimeOfDayRuleOptions,
+  INormByTimeOfDayRuleOptions,
+  parseTimeOfDay,
+} from './rule';
+export { RevByTimeOfDayRule } from './rev-rule';
@@ -0,0 +1,70 @@
+import { IRecurrenceRuleModule, RuleOption, RuleOptionError } from '@rschedule/core';
+import { ByHourOfDayRuleModule } from '../ByHourOfDay';
+import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
+import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
+import { FrequencyRuleModule } from '../Frequency';
+import { ruleOptionFilled } from '../utilities/rule-option-filled';
+import { RevByTimeOfDayRule } from './rev-rule';
+import {
+  ByTimeOfDayRule,
+  IByTimeOfDayRuleOptions,
+  INormByTimeOfDayRuleOptions,
+  parseTimeOfDay,
+} from './rule';
+
+export const ByTimeOfDayRuleModule: IRecurrenceRuleModule<
+  IByTimeOfDayRuleOptions,
+  INormByTimeOfDayRuleOptions
+> = {
+  name: 'ByTimeOfDay',
+  get: processor => {
+    if (processor.options.byTimeOfDay === undefined) return null;
+    if (processor.reverse) return new RevByTimeOfDayRule(processor);
+    return new ByTimeOfDayRule(processor);
+  },
+  normalizeOptions: (options, norm) => {
+    if (options.byTimeOfDay !== undefined) {
+      if (!['HOURLY', 'MINUTELY'].includes(options.frequency)) {
+        throw new RuleOptionError(
+          '"byTimeOfDay" can only be present when "frequency" is "HOURLY" or "MINUTELY"',
+          { option: 'byTimeOfDay', code: 'INCOMPATIBLE', value: options.byTimeOfDay },
+        );
+      }
+
+      if (!ruleOptionFilled(options.byTimeOfDay)) {
+        throw new RuleOptionError('"byTimeOfDay" expects a non-empty array', {
+          option: 'byTimeOfDay',
+          code: 'EMPTY',
+          value: options.byTimeOfDay,
+        });
+      }
+
+      options.byTimeOfDay.forEach((window, index) => {
+        const valid = Array.isArray(window) && window.length === 2;
+        const start = valid ? parseTimeOfDay(window[0]) : undefined;
+        const end = valid ? parseTimeOfDay(window[1]) : undefined;
+
+        if (start === undefined || end === undefined || start >= end) {
+          throw new RuleOptionError(
+            '"byTimeOfDay" values must be `[start, end]` tuples of "HH:MM" ' +
+              'or "HH:MM:SS" times where `start < end`',
+            { option: `byTimeOfDay[${index}]`, code: 'INVALID_VALUE', value: window },
+          );
+        }
+      });
+
+      norm.byTimeOfDay = options.byTimeOfDay.map(
+        ([start, end]) => [start, end] as RuleOption.ByTimeOfDay,
+      );
+    }
+  },
+  deps: () => [
+    FrequencyRuleModule,
+    ByTimeOfDayRuleModule,
+    ByHourOfDayRuleModule,
+    ByMinuteOfHourRuleModule,
+    BySecondOfMinuteRuleModule,
+    ByMillisecondOfSecondRuleModule,
+  ],
+};
@@ -0,0 +1,46 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRevRuleFn, dateTime } from '../test-utilities';
+import { RevByTimeOfDayRule } from './rev-rule';
+
+const buildRule = buildRevRuleFn<
+  typeof RevByTimeOfDayRule,
+  { byTimeOfDay: RuleOption.ByTimeOfDay[] }
+>(RevByTimeOfDayRule);
+
+describe('RevByTimeOfDayRule', () => {
+  context(dateTime(2019, 1, 1, 12), date => {
+    it('09:00-17:30', () => {
+      const rule = buildRule(date, {
+        byTimeOfDay: [['09:00', '17:30']],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('08:00-09:30,13:00-17:30', () => {
+      const rule = buildRule(date, {
+        byTimeOfDay: [['08:00', '09:30'], ['13:00', '17:30']],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 1, 1, 9, 29, 59, 999) });
+    });
+
+    it('13:00-17:30', () => {
+      const rule = buildRule(date, {
+        byTimeOfDay: [['13:00', '17:30']],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2018, 12, 31, 17, 29, 59, 999) });
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { DateTime, InvalidDateTime, ValidDateTime } from '@rschedule/core';
+import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { INormByTimeOfDayRuleOptions, parseTimeOfDay } from './rule';
+
+export class RevByTimeOfDayRule extends RevRecurrenceRuleBase<INormByTimeOfDayRuleOptions> {
+  /** `[start, end)` windows in milliseconds after the start of the day, sorted by end (desc) */
+  protected readonly windows = this.options
+    .byTimeOfDay!.map(([start, end]) => [parseTimeOfDay(start)!, parseTimeOfDay(end)!])
+    .sort((a, b) => b[1] - a[1]);
+
+  run(date: DateTime) {
+    const day = date.granularity('day');
+    const time = date.valueOf() - day.valueOf();
+    const window = this.windows.find(([start]) => start <= time);
+
+    if (window && window[1] > time) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    if (window) {
+      return this.validateDate(new InvalidDateTime(day.add(window[1] - 1, 'millisecond')));
+    }
+
+    return this.validateDate(
+      new InvalidDateTime(day.subtract(1, 'day').add(this.windows[0][1] - 1, 'millisecond')),
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRuleFn, dateTime } from '../test-utilities';
+import { ByTimeOfDayRule } from './rule';
+
+const buildRule = buildRuleFn<typeof ByTimeOfDayRule, { byTimeOfDay: RuleOption.ByTimeOfDay[] }>(
+  ByTimeOfDayRule,
+);
+
+describe('ByTimeOfDayRule', () => {
+  context(dateTime(2019, 1, 1, 9, 30), date => {
+    it('09:00-17:30', () => {
+      const rule = buildRule(date, { byTimeOfDay: [['09:00', '17:30']] });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('13:00-17:30,08:00-09:30', () => {
+      const rule = buildRule(date, {
+        byTimeOfDay: [['13:00', '17:30'], ['08:00', '09:30']],
+      });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 1, 1, 13) });
+    });
+
+    it('06:00-07:00:30', () => {
+      const rule = buildRule(date, { byTimeOfDay: [['06:00', '07:00:30']] });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 1, 2, 6) });
+    });
+  });
+
+  context(dateTime(2019, 1, 1, 23, 59), date => {
+    it('22:00-24:00', () => {
+      const rule = buildRule(date, { byTimeOfDay: [['22:00', '24:00']] });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+  });
+});
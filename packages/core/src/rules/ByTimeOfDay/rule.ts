@@ -0,0 +1,63 @@
+import { DateAdapter, DateTime, InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
+import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import './types';
+
+declare module '../../recurrence-rule-options' {
+  interface IRuleOptions extends IByTimeOfDayRuleOptions {}
+
+  interface INormRuleOptions extends INormByTimeOfDayRuleOptions {}
+}
+
+export interface IByTimeOfDayRuleOptions extends IFrequencyRuleOptions {
+  byTimeOfDay?: RuleOption.ByTimeOfDay[];
+}
+
+export interface INormByTimeOfDayRuleOptions extends INormFrequencyRuleOptions {
+  byTimeOfDay?: RuleOption.ByTimeOfDay[];
+}
+
+export class ByTimeOfDayRule extends RecurrenceRuleBase<INormByTimeOfDayRuleOptions> {
+  /** `[start, end)` windows in milliseconds after the start of the day, sorted by start */
+  protected readonly windows = this.options
+    .byTimeOfDay!.map(([start, end]) => [parseTimeOfDay(start)!, parseTimeOfDay(end)!])
+    .sort((a, b) => a[0] - b[0]);
+
+  run(date: DateTime) {
+    const day = date.granularity('day');
+    const time = date.valueOf() - day.valueOf();
+    const window = this.windows.find(([, end]) => end > time);
+
+    if (window && window[0] <= time) {
+      return this.validateDate(new ValidDateTime(date));
+    }
+
+    if (window) {
+      return this.validateDate(new InvalidDateTime(day.add(window[0], 'millisecond')));
+    }
+
+    return this.validateDate(
+      new InvalidDateTime(day.add(1, 'day').add(this.windows[0][0], 'millisecond')),
+    );
+  }
+}
+
+/**
+ * Returns the number of milliseconds between the start of the day and the
+ * provided `"HH:MM"` or `"HH:MM:SS"` time, or `undefined` if the time is
+ * invalid. `"24:00"` represents the end of the day.
+ */
+export function parseTimeOfDay(time: RuleOption.TimeOfDay): number | undefined {
+  const match = typeof time === 'string' && time.match(/^(\d\d):([0-5]\d)(?::([0-5]\d))?$/);
+
+  if (!match) return;
+
+  const milliseconds =
+    parseInt(match[1], 10) * DateAdapter.MILLISECONDS_IN_HOUR +
+    parseInt(match[2], 10) * DateAdapter.MILLISECONDS_IN_MINUTE +
+    parseInt(match[3] || '0', 10) * DateAdapter.MILLISECONDS_IN_SECOND;
+
+  if (milliseconds > DateAdapter.MILLISECONDS_IN_DAY) return;
+
+  return milliseconds;
+}
@@ -0,0 +1,10 @@
+import { DateAdapter } from '@rschedule/core';
+
+declare module '../../recurrence-rule-options' {
+  namespace RuleOption {
+    /** Either `"HH:MM"` or `"HH:MM:SS"` (e.g. `"17:30"`) */
+    type TimeOfDay = string;
+    /** A `[start, end)` window of time within each day */
+    type ByTimeOfDay = [TimeOfDay, TimeOfDay];
+  }
+}
@@ -0,0 +1,3 @@
+export * from './module';
+export { ByWeekOfYearRule, IByWeekOfYearRuleOptions, INormByWeekOfYearRuleOptions } from './rule';
+export { RevByWeekOfYearRule } from './rev-rule';
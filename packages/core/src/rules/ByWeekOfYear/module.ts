@@ -0,0 +1,83 @@
+import { IRecurrenceRuleModule, RuleOptionError } from '@rschedule/core';
+import { ByDayOfWeekRuleModule } from '../ByDayOfWeek';
+import { ByHourOfDayRuleModule } from '../ByHourOfDay';
+import { ByMillisecondOfSecondRuleModule } from '../ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from '../ByMinuteOfHour';
+import { BySecondOfMinuteRuleModule } from '../BySecondOfMinute';
+import { FrequencyRuleModule } from '../Frequency';
+import { findInvalidEntry } from '../utilities/find-invalid-entry';
+import { ruleOptionFilled } from '../utilities/rule-option-filled';
+import { RevByWeekOfYearRule } from './rev-rule';
+import { ByWeekOfYearRule, IByWeekOfYearRuleOptions, INormByWeekOfYearRuleOptions } from './rule';
+
+export const ByWeekOfYearRuleModule: IRecurrenceRuleModule<
+  IByWeekOfYearRuleOptions,
+  INormByWeekOfYearRuleOptions
+> = {
+  name: 'ByWeekOfYear',
+  get: processor => {
+    if (processor.options.byWeekOfYear === undefined) return null;
+    if (processor.reverse) return new RevByWeekOfYearRule(processor);
+    return new ByWeekOfYearRule(processor);
+  },
+  normalizeOptions: (options, norm) => {
+    if (options.byWeekOfYear !== undefined) {
+      if (options.frequency !== 'YEARLY') {
+        throw new RuleOptionError(
+          '"byWeekOfYear" can only be present when "frequency" is "YEARLY"',
+          { option: 'byWeekOfYear', code: 'INCOMPATIBLE', value: options.byWeekOfYear },
+        );
+      }
+
+      if (options.rscale !== undefined && options.rscale !== 'GREGORIAN') {
+        throw new RuleOptionError(
+          '"byWeekOfYear" cannot be present when "rscale" is not "GREGORIAN"',
+          { option: 'byWeekOfYear', code: 'INCOMPATIBLE', value: options.byWeekOfYear },
+        );
+      }
+
+      if (!ruleOptionFilled(options.byWeekOfYear)) {
+        throw new RuleOptionError('"byWeekOfYear" expects a non-empty array', {
+          option: 'byWeekOfYear',
+          code: 'EMPTY',
+          value: options.byWeekOfYear,
+        });
+      }
+
+      const invalidEntry = findInvalidEntry(
+        'byWeekOfYear',
+        options.byWeekOfYear,
+        num => num === 0 || num < -53 || num > 53,
+      );
+
+      if (invalidEntry) {
+        throw new RuleOptionError(
+          '"byWeekOfYear" values must be `num !== 0 && num <= 53 && num >= -53`',
+          { ...invalidEntry, code: 'OUT_OF_RANGE' },
+        );
+      }
+
+      if (
+        ruleOptionFilled((options as any).byDayOfWeek) &&
+        (options as any).byDayOfWeek.some((weekday: unknown) => Array.isArray(weekday))
+      ) {
+        throw new RuleOptionError(
+          '"byDayOfWeek" cannot include a numeric value (i.e. `[string, number]`) when ' +
+            '"byWeekOfYear" is present',
+          { option: 'byDayOfWeek', code: 'INCOMPATIBLE', value: (options as any).byDayOfWeek },
+        );
+      }
+
+      norm.byWeekOfYear = options.byWeekOfYear.slice();
+    }
+  },
+  deps: () => [
+    FrequencyRuleModule,
+    ByWeekOfYearRuleModule,
+    ByDayOfWeekRuleModule,
+    ByHourOfDayRuleModule,
+    ByMinuteOfHourRuleModule,
+    BySecondOfMinuteRuleModule,
+    ByMillisecondOfSecondRuleModule,
+  ],
+};
@@ -0,0 +1,78 @@
+import { context } from '@local-tests/utilities';
+import { InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRevRuleFn, dateTime } from '../test-utilities';
+import { RevByWeekOfYearRule } from './rev-rule';
+
+const buildRule = buildRevRuleFn<
+  typeof RevByWeekOfYearRule,
+  { byWeekOfYear: RuleOption.ByWeekOfYear[] }
+>(RevByWeekOfYearRule);
+
+describe('RevByWeekOfYearRule', () => {
+  let byWeekOfYear: RuleOption.ByWeekOfYear[];
+
+  afterEach(() => {
+    byWeekOfYear = [];
+  });
+
+  context(dateTime(2020, 1, 1), date => {
+    it('1', () => {
+      byWeekOfYear = [1];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('52', () => {
+      byWeekOfYear = [52];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 12, 29, 23, 59, 59, 999) });
+    });
+
+    it('-1', () => {
+      byWeekOfYear = [-1];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2019, 12, 29, 23, 59, 59, 999) });
+    });
+  });
+
+  context(dateTime(2020, 12, 31), date => {
+    it('53', () => {
+      byWeekOfYear = [53];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+  });
+
+  context(dateTime(2026, 1, 1), date => {
+    it('53', () => {
+      byWeekOfYear = [53];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2021, 1, 3, 23, 59, 59, 999) });
+    });
+  });
+});
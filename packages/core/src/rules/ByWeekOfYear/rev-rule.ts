@@ -0,0 +1,31 @@
+import { DateTime, InvalidDateTime, RecurrenceRuleError, ValidDateTime } from '@rschedule/core';
+import { RevRecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import { getWeekYear, INormByWeekOfYearRuleOptions, normalizeByWeekOfYear } from './rule';
+
+export class RevByWeekOfYearRule extends RevRecurrenceRuleBase<INormByWeekOfYearRuleOptions> {
+  run(date: DateTime) {
+    let weekYear = getWeekYear(date, this.options.weekStart);
+    let index = 0;
+
+    while (index < 30) {
+      const weeks = normalizeByWeekOfYear(weekYear, this.options.byWeekOfYear!).reverse();
+
+      for (const week of weeks) {
+        const weekEnd = weekYear.start.add(week, 'week').subtract(1, 'millisecond');
+
+        if (weekEnd.isBefore(date)) {
+          return this.validateDate(new InvalidDateTime(weekEnd));
+        }
+
+        if (weekYear.start.add(week - 1, 'week').isBeforeOrEqual(date)) {
+          return this.validateDate(new ValidDateTime(date));
+        }
+      }
+
+      weekYear = getWeekYear(weekYear.start.subtract(1, 'day'), this.options.weekStart);
+      index++;
+    }
+
+    throw new RecurrenceRuleError('byWeekOfYear Infinite while loop');
+  }
+}
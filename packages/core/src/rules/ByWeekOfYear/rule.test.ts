@@ -0,0 +1,123 @@
+import { context } from '@local-tests/utilities';
+import { DateAdapter, InvalidDateTime, RuleOption, ValidDateTime } from '@rschedule/core';
+import { buildRuleFn, dateTime } from '../test-utilities';
+import { ByWeekOfYearRule, getWeeksInWeekYear, getWeekYear } from './rule';
+
+const buildRule = buildRuleFn<
+  typeof ByWeekOfYearRule,
+  { byWeekOfYear: RuleOption.ByWeekOfYear[]; weekStart?: DateAdapter.Weekday }
+>(ByWeekOfYearRule);
+
+describe('ByWeekOfYearRule', () => {
+  let byWeekOfYear: RuleOption.ByWeekOfYear[];
+
+  afterEach(() => {
+    byWeekOfYear = [];
+  });
+
+  describe('getWeekYear()', () => {
+    it('2020', () => {
+      const weekYear = getWeekYear(dateTime(2020, 6, 1), 'MO');
+
+      expect(weekYear).toEqual({ start: dateTime(2019, 12, 30), end: dateTime(2021, 1, 4) });
+      expect(getWeeksInWeekYear(weekYear)).toBe(53);
+    });
+
+    it('2019', () => {
+      const weekYear = getWeekYear(dateTime(2019, 12, 29), 'MO');
+
+      expect(weekYear).toEqual({ start: dateTime(2018, 12, 31), end: dateTime(2019, 12, 30) });
+      expect(getWeeksInWeekYear(weekYear)).toBe(52);
+    });
+
+    it('2021 w/ weekStart SU', () => {
+      const weekYear = getWeekYear(dateTime(2021, 1, 2), 'SU');
+
+      expect(weekYear).toEqual({ start: dateTime(2019, 12, 29), end: dateTime(2021, 1, 3) });
+      expect(getWeeksInWeekYear(weekYear)).toBe(53);
+    });
+  });
+
+  context(dateTime(2020, 1, 1), date => {
+    it('1', () => {
+      byWeekOfYear = [1];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+
+    it('2', () => {
+      byWeekOfYear = [2];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2020, 1, 6) });
+    });
+
+    it('2 w/ weekStart SU', () => {
+      byWeekOfYear = [2];
+
+      const rule = buildRule(date, { byWeekOfYear, weekStart: 'SU' });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2020, 1, 5) });
+    });
+
+    it('53', () => {
+      byWeekOfYear = [53];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2020, 12, 28) });
+    });
+
+    it('-1', () => {
+      byWeekOfYear = [-1];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2020, 12, 28) });
+    });
+  });
+
+  context(dateTime(2019, 12, 31), date => {
+    it('1', () => {
+      byWeekOfYear = [1];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(ValidDateTime);
+      expect(result).toEqual({ date });
+    });
+  });
+
+  context(dateTime(2021, 1, 4), date => {
+    it('53', () => {
+      byWeekOfYear = [53];
+
+      const rule = buildRule(date, { byWeekOfYear });
+
+      const result = rule.run(date);
+
+      expect(result).toBeInstanceOf(InvalidDateTime);
+      expect(result).toEqual({ date: dateTime(2026, 12, 28) });
+    });
+  });
+});
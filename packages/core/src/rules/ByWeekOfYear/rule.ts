@@ -0,0 +1,123 @@
+import {
+  DateAdapter,
+  DateTime,
+  InvalidDateTime,
+  numberSortComparer,
+  orderedWeekdays,
+  RecurrenceRuleError,
+  RuleOption,
+  ValidDateTime,
+} from '@rschedule/core';
+import { IFrequencyRuleOptions, INormFrequencyRuleOptions } from '../Frequency';
+import { RecurrenceRuleBase } from '../utilities/recurrence-rule-base';
+import './types';
+
+declare module '../../recurrence-rule-options' {
+  interface IRuleOptions extends IByWeekOfYearRuleOptions {}
+
+  interface INormRuleOptions extends INormByWeekOfYearRuleOptions {}
+}
+
+export interface IByWeekOfYearRuleOptions extends IFrequencyRuleOptions {
+  byWeekOfYear?: RuleOption.ByWeekOfYear[];
+}
+
+export interface INormByWeekOfYearRuleOptions extends INormFrequencyRuleOptions {
+  byWeekOfYear?: RuleOption.ByWeekOfYear[];
+}
+
+export class ByWeekOfYearRule extends RecurrenceRuleBase<INormByWeekOfYearRuleOptions> {
+  run(date: DateTime) {
+    let weekYear = getWeekYear(date, this.options.weekStart);
+    let index = 0;
+
+    while (index < 30) {
+      for (const week of normalizeByWeekOfYear(weekYear, this.options.byWeekOfYear!)) {
+        const weekStart = weekYear.start.add(week - 1, 'week');
+
+        if (weekStart.isAfter(date)) {
+          return this.validateDate(new InvalidDateTime(weekStart));
+        }
+
+        if (weekStart.add(1, 'week').isAfter(date)) {
+          return this.validateDate(new ValidDateTime(date));
+        }
+      }
+
+      weekYear = getWeekYear(weekYear.end, this.options.weekStart);
+      index++;
+    }
+
+    throw new RecurrenceRuleError('byWeekOfYear Infinite while loop');
+  }
+}
+
+export interface IWeekYear {
+  /** The start of week 1 of the week year */
+  start: DateTime;
+  /** The start of week 1 of the following week year */
+  end: DateTime;
+}
+
+/**
+ * Week 1 of a year is the first week (beginning on `weekStart`) which
+ * contains at least 4 days of that year. Because of this, the first
+ * few days of a year can belong to the last week of the previous
+ * year and the last few days of a year can belong to week 1 of
+ * the following year.
+ */
+export function getFirstWeekOfYear(date: DateTime, weekStart: DateAdapter.Weekday) {
+  const firstDay = date.granularity('year');
+  const weekStartDate = firstDay.granularity('week', { weekStart });
+
+  if (orderedWeekdays(weekStart).indexOf(firstDay.get('weekday')) > 3) {
+    return weekStartDate.add(1, 'week');
+  }
+
+  return weekStartDate;
+}
+
+/**
+ * Returns the "week year" which the provided date belongs to.
+ */
+export function getWeekYear(date: DateTime, weekStart: DateAdapter.Weekday): IWeekYear {
+  const year = date.granularity('year');
+  const start = getFirstWeekOfYear(year, weekStart);
+
+  if (date.isBefore(start)) {
+    return { start: getFirstWeekOfYear(year.subtract(1, 'year'), weekStart), end: start };
+  }
+
+  const end = getFirstWeekOfYear(year.add(1, 'year'), weekStart);
+
+  if (date.isAfterOrEqual(end)) {
+    return { start: end, end: getFirstWeekOfYear(year.add(2, 'year'), weekStart) };
+  }
+
+  return { start, end };
+}
+
+/**
+ * Returns the number of weeks (either 52 or 53) in the provided week year.
+ */
+export function getWeeksInWeekYear(weekYear: IWeekYear) {
+  return Math.round(
+    (weekYear.end.valueOf() - weekYear.start.valueOf()) / DateAdapter.MILLISECONDS_IN_WEEK,
+  );
+}
+
+/**
+ * Converts negative week numbers into positive week numbers for the
+ * provided week year, filters out week numbers which don't exist in
+ * the week year (e.g. week 53 of a 52 week year), and sorts the result.
+ */
+export function normalizeByWeekOfYear(
+  weekYear: IWeekYear,
+  byWeekOfYear: RuleOption.ByWeekOfYear[],
+) {
+  const weeksInYear = getWeeksInWeekYear(weekYear);
+
+  return Array.from(new Set(byWeekOfYear.map(week => (week > 0 ? week : weeksInYear + week + 1))))
+    .filter(week => week >= 1 && week <= weeksInYear)
+    .sort(numberSortComparer);
+}
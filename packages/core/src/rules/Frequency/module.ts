@@ -10,9 +10,14 @@ const FREQUENCIES = [
   'DAILY',
   'WEEKLY',
   'MONTHLY',
+  'QUARTERLY',
   'YEARLY',
 ];
 
+const SKIP_OPTIONS = ['OMIT', 'BACKWARD', 'FORWARD'];
+
+const RSCALES = ['GREGORIAN', 'HEBREW', 'ISLAMIC-CIVIL', 'CHINESE'];
+
 export const FrequencyRuleModule: IRecurrenceRuleModule<
   IFrequencyRuleOptions,
   INormFrequencyRuleOptions
@@ -31,16 +36,28 @@ export const FrequencyRuleModule: IRecurrenceRuleModule<
   },
   normalizeOptions: (options, norm) => {
     if (!FREQUENCIES.includes(options.frequency)) {
-      throw new RuleOptionError(`"frequency" must be one of ${JSON.stringify(FREQUENCIES)}`);
+      throw new RuleOptionError(`"frequency" must be one of ${JSON.stringify(FREQUENCIES)}`, {
+        option: 'frequency',
+        code: 'INVALID_VALUE',
+        value: options.frequency,
+      });
     }
 
     if (options.interval !== undefined) {
       if (!Number.isInteger(options.interval)) {
-        throw new RuleOptionError('"interval" expects a whole number');
+        throw new RuleOptionError('"interval" expects a whole number', {
+          option: 'interval',
+          code: 'INVALID_TYPE',
+          value: options.interval,
+        });
       }
 
       if (options.interval < 1) {
-        throw new RuleOptionError('"interval" cannot be less than 1');
+        throw new RuleOptionError('"interval" cannot be less than 1', {
+          option: 'interval',
+          code: 'OUT_OF_RANGE',
+          value: options.interval,
+        });
       }
     }
 
@@ -48,8 +65,56 @@ export const FrequencyRuleModule: IRecurrenceRuleModule<
       if (!DateAdapter.WEEKDAYS.includes(options.weekStart)) {
         throw new RuleOptionError(
           `"weekStart" must be one of ${JSON.stringify(DateAdapter.WEEKDAYS)}`,
+          { option: 'weekStart', code: 'INVALID_VALUE', value: options.weekStart },
+        );
+      }
+    }
+
+    if (options.fiscalYearStart !== undefined) {
+      if (
+        !Number.isInteger(options.fiscalYearStart) ||
+        options.fiscalYearStart < 1 ||
+        options.fiscalYearStart > 12
+      ) {
+        throw new RuleOptionError('"fiscalYearStart" must be `num >= 1 && num <= 12`', {
+          option: 'fiscalYearStart',
+          code: 'OUT_OF_RANGE',
+          value: options.fiscalYearStart,
+        });
+      }
+
+      norm.fiscalYearStart = options.fiscalYearStart;
+    }
+
+    if (options.skip !== undefined) {
+      if (!SKIP_OPTIONS.includes(options.skip)) {
+        throw new RuleOptionError(`"skip" must be one of ${JSON.stringify(SKIP_OPTIONS)}`, {
+          option: 'skip',
+          code: 'INVALID_VALUE',
+          value: options.skip,
+        });
+      }
+
+      norm.skip = options.skip;
+    }
+
+    if (options.rscale !== undefined) {
+      if (!RSCALES.includes(options.rscale)) {
+        throw new RuleOptionError(`"rscale" must be one of ${JSON.stringify(RSCALES)}`, {
+          option: 'rscale',
+          code: 'INVALID_VALUE',
+          value: options.rscale,
+        });
+      }
+
+      if (options.rscale !== 'GREGORIAN' && options.frequency === 'QUARTERLY') {
+        throw new RuleOptionError(
+          '"frequency" cannot be "QUARTERLY" when "rscale" is not "GREGORIAN"',
+          { option: 'frequency', code: 'INCOMPATIBLE', value: options.frequency },
         );
       }
+
+      norm.rscale = options.rscale;
     }
 
     norm.frequency = options.frequency;
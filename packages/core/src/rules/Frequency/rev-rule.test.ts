@@ -385,4 +385,32 @@ describe('RevFrequencyRule', () => {
       });
     });
   });
+
+  context('MINUTELY' as 'MINUTELY', frequency => {
+    context(dateTime(1997, 9, 2, 9), date => {
+      let logic: RevFrequencyRule;
+
+      beforeEach(() => {
+        const options: IFrequencyRuleOptions & {
+          start: DateTime;
+          byHourOfDay: number[];
+          byMinuteOfHour: number[];
+        } = {
+          start: date,
+          frequency,
+          interval: 97,
+          byHourOfDay: [9, 18],
+          byMinuteOfHour: [0],
+        };
+
+        logic = buildRule(date, options);
+      });
+
+      it('skipsIntervalsWithoutSelectedTimes', () => {
+        const result = logic.validateDate(new ValidDateTime(dateTime(1997, 12, 8, 8, 59)));
+        expect(result).toBeInstanceOf(InvalidDateTime);
+        expect(result).toEqual({ date: dateTime(1997, 10, 8, 18, 0, 59, 999) });
+      });
+    });
+  });
 });
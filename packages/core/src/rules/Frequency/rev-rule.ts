@@ -1,12 +1,30 @@
 import { DateTime } from '@rschedule/core';
+import { periodicIntervalDifference } from '../utilities/periodic-intervals';
 import { FrequencyRule, intervalDifferenceBetweenDates } from './rule';
 
 export class RevFrequencyRule extends FrequencyRule {
-  protected setToCurrentInterval() {
+  protected setToCurrentInterval(date: DateTime) {
+    if (
+      ['MONTHLY', 'QUARTERLY'].includes(this.options.frequency) &&
+      this.options.skip === 'FORWARD'
+    ) {
+      // the first day of the next month might be valid because
+      // an entry from this interval was skipped forward to it
+      const nextDay = this.intervalEndDate.endGranularity('day');
+
+      if (nextDay.isBefore(date)) return nextDay;
+    }
+
     return this.intervalEndDate.subtract(1, 'millisecond');
   }
 
+  protected skipDay(date: DateTime) {
+    return date.granularity('day').subtract(1, 'millisecond');
+  }
+
   protected intervalDifference(date: DateTime) {
+    if (this.calendar) return this.calendarIntervalDifference(date, 'before');
+
     return intervalDifferenceBetweenDates({
       first: this.firstIntervalStartDate,
       second: date,
@@ -16,4 +34,14 @@ export class RevFrequencyRule extends FrequencyRule {
       direction: 'before',
     });
   }
+
+  protected periodicIntervalDifference(date: DateTime) {
+    return periodicIntervalDifference({
+      first: this.firstIntervalStartDate,
+      second: date,
+      interval: this.options.interval,
+      periodic: this.periodicIntervals!,
+      direction: 'before',
+    });
+  }
 }
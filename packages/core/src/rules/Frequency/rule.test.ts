@@ -313,6 +313,46 @@ describe('FrequencyRule', () => {
     });
   });
 
+  context('QUARTERLY' as 'QUARTERLY', frequency => {
+    it('intervalDifferenceBetweenDates()', () => {
+      const diff = intervalDifferenceBetweenDates({
+        first: dateTime(1997, 7, 1),
+        second: dateTime(1997, 9, 2, 9),
+        unit: 'quarter',
+        interval: 1,
+        weekStart: 'MO',
+        direction: 'after',
+      });
+
+      expect(diff).toBe(0);
+    });
+
+    context(dateTime(2019, 2, 10), date => {
+      let logic: FrequencyRule;
+
+      beforeEach(() => {
+        logic = buildRule(date, {
+          start: date,
+          frequency,
+          interval: 2,
+          fiscalYearStart: 2,
+        });
+      });
+
+      it('nextDateIsWithinInterval', () => {
+        const result = logic.validateDate(new ValidDateTime(dateTime(2019, 4, 30)));
+        expect(result).toBeInstanceOf(ValidDateTime);
+        expect(result).toEqual({ date: dateTime(2019, 4, 30) });
+      });
+
+      it('nextDateIsOutsideInterval', () => {
+        const result = logic.validateDate(new ValidDateTime(dateTime(2019, 5, 1)));
+        expect(result).toBeInstanceOf(InvalidDateTime);
+        expect(result).toEqual({ date: dateTime(2019, 8, 1) });
+      });
+    });
+  });
+
   context('WEEKLY' as 'WEEKLY', frequency => {
     context('MO' as 'MO', weekStart => {
       context(1, interval => {
@@ -713,4 +753,32 @@ describe('FrequencyRule', () => {
       });
     });
   });
+
+  context('MINUTELY' as 'MINUTELY', frequency => {
+    context(dateTime(1997, 9, 2, 9), date => {
+      let logic: FrequencyRule;
+
+      beforeEach(() => {
+        const options: IFrequencyRuleOptions & {
+          start: DateTime;
+          byHourOfDay: number[];
+          byMinuteOfHour: number[];
+        } = {
+          start: date,
+          frequency,
+          interval: 97,
+          byHourOfDay: [9, 18],
+          byMinuteOfHour: [0],
+        };
+
+        logic = buildRule(date, options);
+      });
+
+      it('skipsIntervalsWithoutSelectedTimes', () => {
+        const result = logic.validateDate(new ValidDateTime(dateTime(1997, 9, 2, 18)));
+        expect(result).toBeInstanceOf(InvalidDateTime);
+        expect(result).toEqual({ date: dateTime(1997, 10, 8, 18) });
+      });
+    });
+  });
 });
@@ -2,6 +2,7 @@ import {
   DateAdapter,
   DateTime,
   freqToGranularity,
+  getStartOfQuarter,
   INormRuleOptionsBase,
   InvalidDateTime,
   IRecurrenceRulesIterator,
@@ -11,6 +12,16 @@ import {
   ValidDateTime,
 } from '@rschedule/core';
 
+import '../ByDayOfMonth/types';
+import '../ByMonthOfYear/types';
+import calendarMonthMatches from '../utilities/calendar-month-matches';
+import { fromFixed, getCalendarSystem, toFixed } from '../utilities/calendar-systems';
+import getSkippedMonths from '../utilities/get-skipped-months';
+import {
+  getPeriodicIntervals,
+  IPeriodicIntervals,
+  periodicIntervalDifference,
+} from '../utilities/periodic-intervals';
 import { RecurrenceRule } from '../utilities/recurrence-rule';
 
 declare module '../../recurrence-rule-options' {
@@ -23,9 +34,13 @@ declare module '../../recurrence-rule-options' {
       | 'DAILY'
       | 'WEEKLY'
       | 'MONTHLY'
+      | 'QUARTERLY'
       | 'YEARLY';
     type Interval = number;
     type WeekStart = DateAdapter.Weekday;
+    type FiscalYearStart = DateAdapter.Month;
+    type Skip = 'OMIT' | 'BACKWARD' | 'FORWARD';
+    type RScale = 'GREGORIAN' | 'HEBREW' | 'ISLAMIC-CIVIL' | 'CHINESE';
   }
 
   interface IRuleOptions extends IFrequencyRuleOptions {}
@@ -37,21 +52,43 @@ export interface IFrequencyRuleOptions extends IRuleOptionsBase {
   frequency: RuleOption.Frequency;
   interval?: RuleOption.Interval;
   weekStart?: RuleOption.WeekStart;
+  fiscalYearStart?: RuleOption.FiscalYearStart;
+  skip?: RuleOption.Skip;
+  rscale?: RuleOption.RScale;
 }
 
 export interface INormFrequencyRuleOptions extends INormRuleOptionsBase {
   frequency: RuleOption.Frequency;
   interval: RuleOption.Interval;
   weekStart: RuleOption.WeekStart;
+  fiscalYearStart?: RuleOption.FiscalYearStart;
+  skip?: RuleOption.Skip;
+  rscale?: RuleOption.RScale;
 }
 
 export class FrequencyRule extends RecurrenceRule<INormFrequencyRuleOptions> {
-  protected readonly intervalUnit = freqToGranularity(this.options.frequency);
+  protected readonly intervalUnit =
+    this.options.frequency === 'QUARTERLY' ? 'quarter' : freqToGranularity(this.options.frequency);
+
+  /**
+   * When the `rscale` rule option is present, "YEARLY" and "MONTHLY" intervals
+   * are the years and months of that calendar system.
+   */
+  protected readonly calendar =
+    this.options.frequency === 'YEARLY' || this.options.frequency === 'MONTHLY'
+      ? getCalendarSystem(this.options.rscale)
+      : undefined;
 
   protected firstIntervalStartDate: DateTime;
   protected intervalStartDate: DateTime;
   protected intervalEndDate: DateTime;
 
+  /**
+   * Present when the intervals containing dates selected by the other
+   * rule options can be found arithmetically. See `getPeriodicIntervals()`.
+   */
+  protected periodicIntervals?: IPeriodicIntervals;
+
   constructor(
     processor: IRecurrenceRulesIterator<INormFrequencyRuleOptions>,
     protected initDate: DateTime,
@@ -61,6 +98,7 @@ export class FrequencyRule extends RecurrenceRule<INormFrequencyRuleOptions> {
     this.firstIntervalStartDate = this.normalizedStartDate(this.options.start);
     this.intervalStartDate = this.firstIntervalStartDate;
     this.intervalEndDate = this.normalizedEndDate(this.firstIntervalStartDate);
+    this.periodicIntervals = getPeriodicIntervals(this.options, this.firstIntervalStartDate);
 
     this.skipToInterval(this.initDate);
   }
@@ -71,35 +109,93 @@ export class FrequencyRule extends RecurrenceRule<INormFrequencyRuleOptions> {
 
   validateDate(arg: RecurrenceRuleResult) {
     const { date } = arg;
+    const skippedMonths = getSkippedMonths(date, this.options);
 
-    if (arg instanceof ValidDateTime && this.dateIsWithinInterval(date)) {
+    if (skippedMonths.some(month => this.dateIsWithinValidInterval(month))) {
+      // an entry from a valid interval was skipped to this date
       return arg;
     }
 
+    if (arg instanceof ValidDateTime) {
+      if (skippedMonths.length === 0) {
+        if (this.dateIsWithinInterval(date)) return arg;
+      } else if (this.dateIsWithinValidInterval(date)) {
+        if (matchesMonthAndDay(date, this.options)) return arg;
+
+        // The date is within a valid interval, but it is only valid
+        // because an entry from an invalid interval was skipped to it.
+        return new InvalidDateTime(this.skipDay(date));
+      }
+    }
+
     this.skipToInterval(date);
 
     return new InvalidDateTime(
       // if the interval is 1, date will always be within the interval
-      this.dateIsWithinInterval(date) ? date : this.setToCurrentInterval(),
+      this.dateIsWithinInterval(date) ? date : this.setToCurrentInterval(date),
     );
   }
 
-  protected setToCurrentInterval() {
+  protected setToCurrentInterval(date: DateTime) {
+    if (
+      ['MONTHLY', 'QUARTERLY'].includes(this.options.frequency) &&
+      this.options.skip === 'BACKWARD'
+    ) {
+      // the last day of the previous month might be valid because
+      // an entry from this interval was skipped backward to it
+      const previousDay = this.intervalStartDate.subtract(1, 'day');
+
+      if (previousDay.isAfter(date)) return previousDay;
+    }
+
     return this.intervalStartDate;
   }
 
+  protected skipDay(date: DateTime) {
+    return date.granularity('day').add(1, 'day');
+  }
+
   protected normalizedStartDate(date: DateTime) {
+    if (this.calendar) {
+      const fixed = toFixed(date);
+
+      return fromFixed(
+        date,
+        this.options.frequency === 'YEARLY'
+          ? this.calendar.getYearOf(fixed).start
+          : this.calendar.getMonthOf(fixed).start,
+      );
+    }
+
     if (this.options.frequency === 'WEEKLY') {
       return date.granularity('week', { weekStart: this.options.weekStart });
     }
 
+    if (this.options.frequency === 'QUARTERLY') {
+      return getStartOfQuarter(date, this.options.fiscalYearStart);
+    }
+
     return date.granularity(this.intervalUnit as DateAdapter.TimeUnit);
   }
 
   protected normalizedEndDate(start: DateTime) {
+    if (this.calendar) {
+      const fixed = toFixed(start);
+      const month = this.calendar.getMonthOf(fixed);
+
+      return fromFixed(
+        start,
+        this.options.frequency === 'YEARLY'
+          ? this.calendar.getYearOf(fixed).end
+          : month.start + month.length,
+      );
+    }
+
     switch (this.options.frequency) {
       case 'YEARLY':
         return start.add(1, 'year');
+      case 'QUARTERLY':
+        return start.add(3, 'month');
       case 'MONTHLY':
         return start.add(1, 'month');
       case 'WEEKLY':
@@ -120,9 +216,11 @@ export class FrequencyRule extends RecurrenceRule<INormFrequencyRuleOptions> {
   }
 
   protected skipToInterval(date: DateTime) {
-    const amount = this.intervalDifference(date);
+    const amount = this.periodicIntervals
+      ? this.periodicIntervalDifference(date)
+      : this.intervalDifference(date);
 
-    this.intervalStartDate = this.firstIntervalStartDate.add(amount, this.intervalUnit);
+    this.intervalStartDate = this.addIntervals(amount);
 
     this.intervalEndDate = this.normalizedEndDate(this.intervalStartDate);
   }
@@ -131,7 +229,39 @@ export class FrequencyRule extends RecurrenceRule<INormFrequencyRuleOptions> {
     return this.intervalStartDate.isBeforeOrEqual(date) && this.intervalEndDate.isAfter(date);
   }
 
+  /**
+   * Unlike `dateIsWithinInterval()`, this doesn't depend on
+   * the current interval.
+   */
+  protected dateIsWithinValidInterval(date: DateTime) {
+    const start = this.addIntervals(this.intervalDifference(date));
+
+    return start.isBeforeOrEqual(date) && this.normalizedEndDate(start).isAfter(date);
+  }
+
+  /** Returns the start of the interval `amount` units after the first interval */
+  protected addIntervals(amount: number) {
+    if (this.intervalUnit === 'quarter') {
+      return this.firstIntervalStartDate.add(amount * 3, 'month');
+    }
+
+    if (!this.calendar) {
+      return this.firstIntervalStartDate.add(amount, this.intervalUnit);
+    }
+
+    const first = toFixed(this.firstIntervalStartDate);
+
+    return fromFixed(
+      this.firstIntervalStartDate,
+      this.options.frequency === 'YEARLY'
+        ? this.calendar.getYear(this.calendar.getYearOf(first).year + amount).start
+        : this.calendar.addMonths(this.calendar.getMonthOf(first), amount).start,
+    );
+  }
+
   protected intervalDifference(date: DateTime) {
+    if (this.calendar) return this.calendarIntervalDifference(date, 'after');
+
     return intervalDifferenceBetweenDates({
       first: this.firstIntervalStartDate,
       second: date,
@@ -141,6 +271,75 @@ export class FrequencyRule extends RecurrenceRule<INormFrequencyRuleOptions> {
       direction: 'after',
     });
   }
+
+  /**
+   * Same as `intervalDifference()` but skips valid intervals which don't contain
+   * any dates selected by the other rule options
+   */
+  protected periodicIntervalDifference(date: DateTime) {
+    return periodicIntervalDifference({
+      first: this.firstIntervalStartDate,
+      second: date,
+      interval: this.options.interval,
+      periodic: this.periodicIntervals!,
+      direction: 'after',
+    });
+  }
+
+  /** Same as `intervalDifferenceBetweenDates()` but using the calendar system */
+  protected calendarIntervalDifference(date: DateTime, direction: 'after' | 'before') {
+    const calendar = this.calendar!;
+    const first = toFixed(this.firstIntervalStartDate);
+    const second = toFixed(date);
+
+    const difference =
+      this.options.frequency === 'YEARLY'
+        ? calendar.getYearOf(second).year - calendar.getYearOf(first).year
+        : calendar.monthDifference(calendar.getMonthOf(first), calendar.getMonthOf(second));
+
+    const fn = direction === 'after' ? Math.ceil : Math.floor;
+
+    return fn(difference / this.options.interval) * this.options.interval;
+  }
+}
+
+/**
+ * Returns `true` if the date's own month and day of the month
+ * match the `byMonthOfYear` and `byDayOfMonth` rule options.
+ */
+function matchesMonthAndDay(
+  date: DateTime,
+  options: INormFrequencyRuleOptions & {
+    byMonthOfYear?: RuleOption.ByMonthOfYear[];
+    byDayOfMonth?: RuleOption.ByDayOfMonth[];
+  },
+) {
+  const calendar = getCalendarSystem(options.rscale);
+  let day: number;
+  let lengthOfMonth: number;
+
+  if (calendar) {
+    const fixed = toFixed(date);
+    const month = calendar.getMonthOf(fixed);
+
+    if (!calendarMonthMatches(calendar, month, options)) return false;
+
+    day = fixed - month.start + 1;
+    lengthOfMonth = month.length;
+  } else {
+    if (options.byMonthOfYear && !options.byMonthOfYear.includes(date.get('month'))) {
+      return false;
+    }
+
+    day = date.get('day');
+    lengthOfMonth = date.endGranularity('month').get('day');
+  }
+
+  if (!options.byDayOfMonth) return true;
+
+  return options.byDayOfMonth.some(
+    entry => (entry > 0 ? entry : lengthOfMonth + entry + 1) === day,
+  );
 }
 
 /**
@@ -167,7 +366,7 @@ export function intervalDifferenceBetweenDates({
 }: {
   first: DateTime;
   second: DateTime;
-  unit: DateAdapter.TimeUnit | 'week';
+  unit: DateAdapter.TimeUnit | 'week' | 'quarter';
   interval: number;
   weekStart: DateAdapter.Weekday;
   direction: 'after' | 'before';
@@ -181,6 +380,10 @@ export function intervalDifferenceBetweenDates({
         months = (second.get('year') - first.get('year')) * 12;
         months = months + second.get('month') - first.get('month');
         return Math.floor(months / 12);
+      case 'quarter':
+        months = (second.get('year') - first.get('year')) * 12;
+        months = months + second.get('month') - first.get('month');
+        return Math.floor(months / 3);
       case 'month':
         months = (second.get('year') - first.get('year')) * 12;
         months = months + second.get('month') - first.get('month');
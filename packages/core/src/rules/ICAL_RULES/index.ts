@@ -9,11 +9,27 @@ import {
   IByDayOfWeekRuleOptions,
   INormByDayOfWeekRuleOptions,
 } from '../ByDayOfWeek';
+import {
+  ByDayOfYearRuleModule,
+  IByDayOfYearRuleOptions,
+  INormByDayOfYearRuleOptions,
+} from '../ByDayOfYear';
+import { ByEasterRuleModule, IByEasterRuleOptions, INormByEasterRuleOptions } from '../ByEaster';
+import {
+  ByFiscalPeriodRuleModule,
+  IByFiscalPeriodRuleOptions,
+  INormByFiscalPeriodRuleOptions,
+} from '../ByFiscalPeriod';
 import {
   ByHourOfDayRuleModule,
   IByHourOfDayRuleRuleOptions,
   INormByHourOfDayRuleRuleOptions,
 } from '../ByHourOfDay';
+import {
+  ByLunarPhaseRuleModule,
+  IByLunarPhaseRuleOptions,
+  INormByLunarPhaseRuleOptions,
+} from '../ByLunarPhase';
 import {
   ByMillisecondOfSecondRuleModule,
   IByMillisecondOfSecondRuleOptions,
@@ -29,11 +45,36 @@ import {
   IByMonthOfYearRuleOptions,
   INormByMonthOfYearRuleOptions,
 } from '../ByMonthOfYear';
+import {
+  ByQuarterOfYearRuleModule,
+  IByQuarterOfYearRuleOptions,
+  INormByQuarterOfYearRuleOptions,
+} from '../ByQuarterOfYear';
 import {
   BySecondOfMinuteRuleModule,
   IBySecondOfMinuteRuleOptions,
   INormBySecondOfMinuteRuleOptions,
 } from '../BySecondOfMinute';
+import {
+  BySetPositionRuleModule,
+  IBySetPositionRuleOptions,
+  INormBySetPositionRuleOptions,
+} from '../BySetPosition';
+import {
+  BySolarEventRuleModule,
+  IBySolarEventRuleOptions,
+  INormBySolarEventRuleOptions,
+} from '../BySolarEvent';
+import {
+  ByTimeOfDayRuleModule,
+  IByTimeOfDayRuleOptions,
+  INormByTimeOfDayRuleOptions,
+} from '../ByTimeOfDay';
+import {
+  ByWeekOfYearRuleModule,
+  IByWeekOfYearRuleOptions,
+  INormByWeekOfYearRuleOptions,
+} from '../ByWeekOfYear';
 import {
   FrequencyRuleModule,
   IFrequencyRuleOptions,
@@ -51,23 +92,41 @@ export type ICalRuleFrequency =
 
 interface IRRuleOptionsBase
   extends IFrequencyRuleOptions,
+    IByQuarterOfYearRuleOptions,
     IByMonthOfYearRuleOptions,
+    IByWeekOfYearRuleOptions,
+    IByDayOfYearRuleOptions,
+    IByEasterRuleOptions,
+    IByFiscalPeriodRuleOptions,
+    IByLunarPhaseRuleOptions,
     IByDayOfMonthRuleOptions,
     IByDayOfWeekRuleOptions,
+    IBySolarEventRuleOptions,
+    IByTimeOfDayRuleOptions,
     IByHourOfDayRuleRuleOptions,
     IByMinuteOfHourRuleRuleOptions,
     IBySecondOfMinuteRuleOptions,
-    IByMillisecondOfSecondRuleOptions {}
+    IByMillisecondOfSecondRuleOptions,
+    IBySetPositionRuleOptions {}
 
 interface INormRRuleOptionsBase
   extends INormFrequencyRuleOptions,
+    INormByQuarterOfYearRuleOptions,
     INormByMonthOfYearRuleOptions,
+    INormByWeekOfYearRuleOptions,
+    INormByDayOfYearRuleOptions,
+    INormByEasterRuleOptions,
+    INormByFiscalPeriodRuleOptions,
+    INormByLunarPhaseRuleOptions,
     INormByDayOfMonthRuleOptions,
     INormByDayOfWeekRuleOptions,
+    INormBySolarEventRuleOptions,
+    INormByTimeOfDayRuleOptions,
     INormByHourOfDayRuleRuleOptions,
     INormByMinuteOfHourRuleRuleOptions,
     INormBySecondOfMinuteRuleOptions,
-    INormByMillisecondOfSecondRuleOptions {}
+    INormByMillisecondOfSecondRuleOptions,
+    INormBySetPositionRuleOptions {}
 
 export type IRRuleOptions = Omit<IRRuleOptionsBase, 'frequency'> & {
   start: DateInput;
@@ -85,11 +144,20 @@ export type INormRRuleOptions = Omit<INormRRuleOptionsBase, 'frequency'> & {
 
 export const ICAL_RULES = [
   FrequencyRuleModule,
+  ByQuarterOfYearRuleModule,
   ByMonthOfYearRuleModule,
+  ByWeekOfYearRuleModule,
+  ByDayOfYearRuleModule,
+  ByEasterRuleModule,
+  ByFiscalPeriodRuleModule,
+  ByLunarPhaseRuleModule,
   ByDayOfMonthRuleModule,
   ByDayOfWeekRuleModule,
+  BySolarEventRuleModule,
+  ByTimeOfDayRuleModule,
   ByHourOfDayRuleModule,
   ByMinuteOfHourRuleModule,
   BySecondOfMinuteRuleModule,
   ByMillisecondOfSecondRuleModule,
+  BySetPositionRuleModule,
 ] as const;
@@ -0,0 +1,252 @@
+import {
+  DateTime,
+  IRecurrenceRuleModule,
+  normalizeRuleOptions,
+  RecurrenceRuleError,
+  RecurrenceRulesIterator,
+  recurrenceRulesReducer,
+  RuleOptionError,
+} from '@rschedule/core';
+import { ByHourOfDayRuleModule } from './ByHourOfDay';
+import { ByMillisecondOfSecondRuleModule } from './ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from './ByMinuteOfHour';
+import { BySecondOfMinuteRuleModule } from './BySecondOfMinute';
+import { defineRecurrenceRule } from './define-recurrence-rule';
+import { FrequencyRuleModule, IFrequencyRuleOptions, INormFrequencyRuleOptions } from './Frequency';
+import { dateTime } from './test-utilities';
+
+interface IByEvenDayRuleOptions extends IFrequencyRuleOptions {
+  byEvenDay?: boolean;
+}
+
+interface INormByEvenDayRuleOptions extends INormFrequencyRuleOptions {
+  byEvenDay?: boolean;
+}
+
+interface IByPaydayRuleOptions extends IFrequencyRuleOptions {
+  byPayday?: number;
+}
+
+interface INormByPaydayRuleOptions extends INormFrequencyRuleOptions {
+  byPayday?: number;
+}
+
+const ByEvenDayRuleModule = defineRecurrenceRule<IByEvenDayRuleOptions, INormByEvenDayRuleOptions>({
+  name: 'ByEvenDay',
+  options: ['byEvenDay'],
+  test: (date, options) => (date.get('day') % 2 === 0) === options.byEvenDay,
+});
+
+/** Matches the `byPayday` day of each month as well as the last day of each month */
+const ByPaydayRuleModule = defineRecurrenceRule<IByPaydayRuleOptions, INormByPaydayRuleOptions>({
+  name: 'ByPayday',
+  options: ['byPayday'],
+  test: (date, options) => date.get('day') === options.byPayday || isLastDayOfMonth(date),
+  next: (date, options) =>
+    date.get('day') < options.byPayday!
+      ? date.granularity('day').set('day', options.byPayday!)
+      : date.endGranularity('month').granularity('day'),
+  previous: (date, options) =>
+    date.get('day') > options.byPayday!
+      ? date.set('day', options.byPayday!).endGranularity('day')
+      : date
+          .granularity('month')
+          .subtract(1, 'day')
+          .endGranularity('day'),
+  normalizeOptions: (options, norm) => {
+    if (
+      options.byPayday !== undefined &&
+      (!Number.isInteger(options.byPayday) || options.byPayday < 1 || options.byPayday > 27)
+    ) {
+      throw new RuleOptionError('"byPayday" must be `num >= 1 && num <= 27`');
+    }
+
+    norm.byPayday = options.byPayday;
+  },
+});
+
+const ByEvenHourRuleModule = defineRecurrenceRule<
+  IFrequencyRuleOptions & { byEvenHour?: true },
+  INormFrequencyRuleOptions & { byEvenHour?: true }
+>({
+  name: 'ByEvenHour',
+  options: ['byEvenHour'],
+  granularity: 'hour',
+  test: date => date.get('hour') % 2 === 0,
+});
+
+const TIME_RULE_MODULES = [
+  ByHourOfDayRuleModule,
+  ByMinuteOfHourRuleModule,
+  BySecondOfMinuteRuleModule,
+  ByMillisecondOfSecondRuleModule,
+];
+
+function isLastDayOfMonth(date: DateTime) {
+  return date.add(1, 'day').get('month') !== date.get('month');
+}
+
+function build(
+  ruleModule: typeof ByEvenDayRuleModule | typeof ByPaydayRuleModule,
+  options: { [key: string]: any },
+  args: { start?: DateTime; end?: DateTime; reverse?: boolean } = {},
+) {
+  const modules = ruleModule.deps();
+
+  return new RecurrenceRulesIterator(
+    recurrenceRulesReducer(modules),
+    normalizeRuleOptions(modules, options as any),
+    args,
+  );
+}
+
+describe('defineRecurrenceRule', () => {
+  describe('deps', () => {
+    it('runs the rule before the shorter time rules', () => {
+      expect(ByEvenDayRuleModule.deps()).toEqual([
+        FrequencyRuleModule,
+        ByEvenDayRuleModule,
+        ...TIME_RULE_MODULES,
+      ]);
+
+      expect(ByEvenHourRuleModule.deps()).toEqual([
+        FrequencyRuleModule,
+        ByEvenHourRuleModule,
+        ...TIME_RULE_MODULES.slice(1),
+      ]);
+    });
+
+    it('can be overridden', () => {
+      const ruleModule: IRecurrenceRuleModule<
+        IByEvenDayRuleOptions,
+        INormByEvenDayRuleOptions
+      > = defineRecurrenceRule<IByEvenDayRuleOptions, INormByEvenDayRuleOptions>({
+        name: 'ByEvenDay',
+        options: ['byEvenDay'],
+        test: date => date.get('day') % 2 === 0,
+        deps: () => [FrequencyRuleModule, ruleModule],
+      });
+
+      expect(ruleModule.deps()).toEqual([FrequencyRuleModule, ruleModule]);
+    });
+  });
+
+  describe('normalizeOptions', () => {
+    it('copies the rule options', () => {
+      const start = dateTime(2024, 1, 1);
+
+      expect(
+        normalizeRuleOptions([FrequencyRuleModule, ByEvenDayRuleModule], {
+          frequency: 'DAILY',
+          start,
+          byEvenDay: true,
+        }),
+      ).toEqual({ frequency: 'DAILY', interval: 1, weekStart: 'MO', start, byEvenDay: true });
+    });
+
+    it('runs the provided normalizeOptions function', () => {
+      expect(() =>
+        normalizeRuleOptions([FrequencyRuleModule, ByPaydayRuleModule], {
+          frequency: 'MONTHLY',
+          start: dateTime(2024, 1, 1),
+          byPayday: 31,
+        }),
+      ).toThrowError(RuleOptionError);
+    });
+  });
+
+  it('is skipped when none of its options are present', () => {
+    const iterator = build(ByEvenDayRuleModule, {
+      frequency: 'DAILY',
+      start: dateTime(2024, 1, 1, 9),
+      count: 3,
+    });
+
+    expect(Array.from(iterator)).toEqual([
+      dateTime(2024, 1, 1, 9),
+      dateTime(2024, 1, 2, 9),
+      dateTime(2024, 1, 3, 9),
+    ]);
+  });
+
+  describe('with the default next and previous functions', () => {
+    const options = {
+      frequency: 'DAILY',
+      start: dateTime(2024, 1, 1, 9),
+      byEvenDay: true,
+    };
+
+    const result = [dateTime(2024, 1, 2, 9), dateTime(2024, 1, 4, 9), dateTime(2024, 1, 6, 9)];
+
+    it('forward', () => {
+      const iterator = build(ByEvenDayRuleModule, { ...options, end: dateTime(2024, 1, 7) });
+
+      expect(Array.from(iterator)).toEqual(result);
+    });
+
+    it('reverse', () => {
+      const iterator = build(
+        ByEvenDayRuleModule,
+        { ...options, end: dateTime(2024, 1, 7) },
+        { reverse: true },
+      );
+
+      expect(Array.from(iterator)).toEqual(result.slice().reverse());
+    });
+
+    it('count', () => {
+      const iterator = build(ByEvenDayRuleModule, { ...options, count: 3 });
+
+      expect(Array.from(iterator)).toEqual(result);
+    });
+  });
+
+  describe('with next and previous functions', () => {
+    const options = {
+      frequency: 'MONTHLY',
+      start: dateTime(2024, 1, 20, 17),
+      byPayday: 15,
+    };
+
+    const result = [
+      dateTime(2024, 1, 31, 17),
+      dateTime(2024, 2, 15, 17),
+      dateTime(2024, 2, 29, 17),
+      dateTime(2024, 3, 15, 17),
+      dateTime(2024, 3, 31, 17),
+    ];
+
+    it('forward', () => {
+      const iterator = build(ByPaydayRuleModule, { ...options, count: 5 });
+
+      expect(Array.from(iterator)).toEqual(result);
+    });
+
+    it('reverse', () => {
+      const iterator = build(
+        ByPaydayRuleModule,
+        { ...options, end: dateTime(2024, 4, 1) },
+        { reverse: true },
+      );
+
+      expect(Array.from(iterator)).toEqual(result.slice().reverse());
+    });
+  });
+
+  it('throws if next does not advance the date', () => {
+    const ruleModule = defineRecurrenceRule<IByEvenDayRuleOptions, INormByEvenDayRuleOptions>({
+      name: 'ByEvenDay',
+      options: ['byEvenDay'],
+      test: date => date.get('day') % 2 === 0,
+      next: date => date,
+    });
+
+    const iterator = build(ruleModule, {
+      frequency: 'DAILY',
+      start: dateTime(2024, 1, 1),
+      byEvenDay: true,
+    });
+
+    expect(() => iterator.next()).toThrowError(RecurrenceRuleError);
+  });
+});
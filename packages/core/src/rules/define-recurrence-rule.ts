@@ -0,0 +1,195 @@
+import {
+  DateTime,
+  INormRuleOptionsBase,
+  InvalidDateTime,
+  IRecurrenceRuleModule,
+  RecurrenceRuleError,
+  ValidDateTime,
+} from '@rschedule/core';
+import { ByHourOfDayRuleModule } from './ByHourOfDay';
+import { ByMillisecondOfSecondRuleModule } from './ByMillisecondOfSecond';
+import { ByMinuteOfHourRuleModule } from './ByMinuteOfHour';
+import { BySecondOfMinuteRuleModule } from './BySecondOfMinute';
+import { FrequencyRuleModule, IFrequencyRuleOptions, INormFrequencyRuleOptions } from './Frequency';
+import { RecurrenceRuleBase, RevRecurrenceRuleBase } from './utilities/recurrence-rule-base';
+
+/** The maximum number of candidate dates a defined rule will test in a single run */
+const MAX_CANDIDATES = 1000;
+
+export type RecurrenceRuleGranularity = 'day' | 'hour' | 'minute' | 'second' | 'millisecond';
+
+export interface IRecurrenceRuleDefinition<
+  T extends IFrequencyRuleOptions,
+  N extends INormFrequencyRuleOptions
+> {
+  /** The unique name of the generated `IRecurrenceRuleModule` */
+  name: string;
+  /**
+   * The rule options which belong to this recurrence rule. The rule is only
+   * run when at least one of them is present and, unless `normalizeOptions`
+   * says otherwise, they are copied to the normalized options as is.
+   */
+  options: ReadonlyArray<Exclude<keyof T & keyof N, keyof IFrequencyRuleOptions>>;
+  /**
+   * The unit of time which `test()` looks at. Used by the default `next()` and
+   * `previous()` functions and to determine which of the time rules (e.g.
+   * `ByHourOfDay`) run after this rule. Defaults to `"day"`.
+   */
+  granularity?: RecurrenceRuleGranularity;
+  /** Returns `true` if the provided date matches this recurrence rule */
+  test(date: DateTime, options: N): boolean;
+  /**
+   * Returns the next date, after the provided (non-matching) date, which may
+   * match this recurrence rule. Defaults to the start of the next `granularity`.
+   */
+  next?(date: DateTime, options: N): DateTime;
+  /**
+   * Returns the previous date, before the provided (non-matching) date, which may
+   * match this recurrence rule. Defaults to the end of the previous `granularity`.
+   */
+  previous?(date: DateTime, options: N): DateTime;
+  /**
+   * Validates the provided rule options (throwing a `RuleOptionError` if they
+   * are invalid) and, optionally, updates the normalized options. Called for
+   * every rule, regardless of whether this rule's options are present.
+   */
+  normalizeOptions?(options: T, norm: INormRuleOptionsBase & Partial<N>): void;
+  /**
+   * Overrides the generated dependencies. As with any `IRecurrenceRuleModule`,
+   * the returned array must contain the generated module itself.
+   */
+  deps?(): ReadonlyArray<IRecurrenceRuleModule<any, any>>;
+}
+
+/**
+ * Builds an `IRecurrenceRuleModule` out of a predicate function. Both the
+ * forward and reverse recurrence rules are generated for you as are the
+ * rule's option normalization and dependency declaration.
+ *
+ * The generated dependencies run the rule after the `Frequency` rule and
+ * before any time rules which are shorter than the rule's `granularity`.
+ *
+ * ```ts
+ * declare module '@rschedule/core' {
+ *   interface IRuleOptions { byEvenDay?: boolean }
+ *   interface INormRuleOptions { byEvenDay?: boolean }
+ * }
+ *
+ * const ByEvenDayRuleModule = defineRecurrenceRule({
+ *   name: 'ByEvenDay',
+ *   options: ['byEvenDay'],
+ *   test: date => date.get('day') % 2 === 0,
+ * });
+ * ```
+ */
+export function defineRecurrenceRule<
+  T extends IFrequencyRuleOptions,
+  N extends INormFrequencyRuleOptions
+>(definition: IRecurrenceRuleDefinition<T, N>): IRecurrenceRuleModule<T, N> {
+  const granularity = definition.granularity || 'day';
+
+  const next =
+    definition.next || ((date: DateTime) => date.granularity(granularity).add(1, granularity));
+
+  const previous =
+    definition.previous ||
+    ((date: DateTime) => date.subtract(1, granularity).endGranularity(granularity));
+
+  class DefinedRule extends RecurrenceRuleBase<N> {
+    run(date: DateTime) {
+      let candidate = date;
+      let index = 0;
+
+      while (index < MAX_CANDIDATES) {
+        if (definition.test(candidate, this.options)) {
+          return this.validateDate(
+            candidate === date ? new ValidDateTime(date) : new InvalidDateTime(candidate),
+          );
+        }
+
+        const nextCandidate = next(candidate, this.options);
+
+        if (!nextCandidate.isAfter(candidate)) {
+          throw new RecurrenceRuleError(
+            `${definition.name} "next()" must return a date after the provided date`,
+          );
+        }
+
+        candidate = nextCandidate;
+        index++;
+      }
+
+      throw new RecurrenceRuleError(`${definition.name} Infinite while loop`);
+    }
+  }
+
+  class RevDefinedRule extends RevRecurrenceRuleBase<N> {
+    run(date: DateTime) {
+      let candidate = date;
+      let index = 0;
+
+      while (index < MAX_CANDIDATES) {
+        if (definition.test(candidate, this.options)) {
+          return this.validateDate(
+            candidate === date ? new ValidDateTime(date) : new InvalidDateTime(candidate),
+          );
+        }
+
+        const previousCandidate = previous(candidate, this.options);
+
+        if (!previousCandidate.isBefore(candidate)) {
+          throw new RecurrenceRuleError(
+            `${definition.name} "previous()" must return a date before the provided date`,
+          );
+        }
+
+        candidate = previousCandidate;
+        index++;
+      }
+
+      throw new RecurrenceRuleError(`${definition.name} Infinite while loop`);
+    }
+  }
+
+  const ruleModule: IRecurrenceRuleModule<T, N> = {
+    name: definition.name,
+    get: processor => {
+      if (definition.options.every(option => processor.options[option] === undefined)) {
+        return null;
+      }
+
+      if (processor.reverse) return new RevDefinedRule(processor);
+      return new DefinedRule(processor);
+    },
+    normalizeOptions: (options, norm) => {
+      definition.options.forEach(option => {
+        if (options[option] !== undefined) {
+          norm[option] = options[option] as any;
+        }
+      });
+
+      if (definition.normalizeOptions) {
+        definition.normalizeOptions(options, norm);
+      }
+    },
+    deps: () => {
+      if (definition.deps) return definition.deps();
+
+      return [FrequencyRuleModule, ruleModule, ...getTimeRuleModules(granularity)];
+    },
+  };
+
+  return ruleModule;
+}
+
+/** Returns the time rule modules which are shorter than the provided granularity */
+function getTimeRuleModules(granularity: RecurrenceRuleGranularity) {
+  const modules: IRecurrenceRuleModule<any, any>[] = [
+    ByHourOfDayRuleModule,
+    ByMinuteOfHourRuleModule,
+    BySecondOfMinuteRuleModule,
+    ByMillisecondOfSecondRuleModule,
+  ];
+
+  return modules.slice(['day', 'hour', 'minute', 'second', 'millisecond'].indexOf(granularity));
+}
@@ -1,9 +1,19 @@
 export * from './ByDayOfMonth';
 export * from './ByDayOfWeek';
+export * from './ByDayOfYear';
+export * from './ByEaster';
+export * from './ByFiscalPeriod';
 export * from './ByHourOfDay';
+export * from './ByLunarPhase';
 export * from './ByMillisecondOfSecond';
 export * from './ByMinuteOfHour';
 export * from './ByMonthOfYear';
+export * from './ByQuarterOfYear';
 export * from './BySecondOfMinute';
+export * from './BySetPosition';
+export * from './BySolarEvent';
+export * from './ByTimeOfDay';
+export * from './ByWeekOfYear';
+export * from './define-recurrence-rule';
 export * from './Frequency';
 export * from './ICAL_RULES';
@@ -0,0 +1,49 @@
+import { RuleOption } from '@rschedule/core';
+import '../ByMonthOfYear/types';
+import { CalendarSystem, ICalendarMonth } from './calendar-systems';
+
+/**
+ * Returns `true` if the calendar month is selected by the `byMonthOfYear`
+ * rule option.
+ *
+ * When a leap month (e.g. `"5L"`) doesn't exist in a calendar year and the
+ * `skip` rule option is `"BACKWARD"`, the month it follows (e.g. `5`) is
+ * selected in its place. When `skip` is `"FORWARD"`, the month after that
+ * (e.g. `6`) is selected instead.
+ */
+export default function calendarMonthMatches(
+  calendar: CalendarSystem,
+  month: ICalendarMonth,
+  options: {
+    skip?: RuleOption.Skip;
+    byMonthOfYear?: RuleOption.ByMonthOfYear[];
+  },
+) {
+  if (!options.byMonthOfYear) return true;
+
+  return options.byMonthOfYear.some(entry => {
+    const [number, leap] = parseMonthOfYear(entry);
+
+    if (month.month === number && month.leap === leap) return true;
+
+    if (!leap || month.leap || !(options.skip === 'BACKWARD' || options.skip === 'FORWARD')) {
+      return false;
+    }
+
+    const hasLeapMonth = calendar
+      .getYear(month.year)
+      .months.some(other => other.leap && other.month === number);
+
+    if (hasLeapMonth) return false;
+
+    return month.month === (options.skip === 'BACKWARD' ? number : number + 1);
+  });
+}
+
+/**
+ * Returns the month number of a `byMonthOfYear` entry and whether or
+ * not it is a leap month.
+ */
+export function parseMonthOfYear(entry: RuleOption.ByMonthOfYear): [number, boolean] {
+  return typeof entry === 'number' ? [entry, false] : [parseInt(entry, 10), true];
+}
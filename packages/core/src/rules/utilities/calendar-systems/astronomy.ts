@@ -0,0 +1,261 @@
+import { gregorianYearFromFixed, MEAN_SYNODIC_MONTH, mod } from './calendar-system';
+
+/**
+ * Low level astronomical calculations used by the Chinese calendar.
+ *
+ * A "moment" is a fixed day number with a fractional part representing
+ * the time of day in universal time (e.g. `730120.5` is noon UTC on
+ * 2000-01-01).
+ *
+ * The solar longitude algorithm is from "Calendrical Calculations" by
+ * Reingold & Dershowitz. The new moon algorithm is from "Astronomical
+ * Algorithms" by Jean Meeus. Both are accurate to within a minute or
+ * two for the years 1900 - 2100.
+ */
+
+const MEAN_TROPICAL_YEAR = 365.242189;
+
+/** The moment of 2000-01-01 12:00 terrestrial time */
+const J2000 = 730120.5;
+
+/** The difference between a julian day number and a moment */
+const JD_EPOCH = 1721424.5;
+
+// [x, y, z] coefficients of the periodic terms of the solar longitude
+// prettier-ignore
+const SOLAR_LONGITUDE_TERMS: ReadonlyArray<[number, number, number]> = [
+  [403406, 270.54861, 0.9287892], [195207, 340.19128, 35999.1376958],
+  [119433, 63.91854, 35999.4089666], [112392, 331.2622, 35998.7287385],
+  [3891, 317.843, 71998.20261], [2819, 86.631, 71998.4403],
+  [1721, 240.052, 36000.35726], [660, 310.26, 71997.4812],
+  [350, 247.23, 32964.4678], [334, 260.87, -19.441],
+  [314, 297.82, 445267.1117], [268, 343.14, 45036.884],
+  [242, 166.79, 3.1008], [234, 81.53, 22518.4434],
+  [158, 3.5, -19.9739], [132, 132.75, 65928.9345],
+  [129, 182.95, 9038.0293], [114, 162.03, 3034.7684],
+  [99, 29.8, 33718.148], [93, 266.4, 3034.448],
+  [86, 249.2, -2280.773], [78, 157.6, 29929.992],
+  [72, 257.8, 31556.493], [68, 185.1, 149.588],
+  [64, 69.9, 9037.75], [46, 8.0, 107997.405],
+  [38, 197.1, -4444.176], [37, 250.4, 151.771],
+  [32, 65.3, 67555.316], [29, 162.7, 31556.08],
+  [28, 341.5, -4561.54], [27, 291.6, 107996.706],
+  [27, 98.5, 1221.655], [25, 146.7, 62894.167],
+  [24, 110.0, 31437.369], [21, 5.2, 14578.298],
+  [21, 342.6, -31931.757], [20, 230.9, 34777.243],
+  [18, 256.1, 1221.999], [17, 45.3, 62894.511],
+  [14, 242.9, -4442.039], [13, 115.2, 107997.909],
+  [13, 151.8, 119.066], [13, 285.3, 16859.071],
+  [12, 53.3, -4.578], [10, 126.6, 26895.292],
+  [10, 205.7, -39.127], [10, 85.9, 12297.536],
+  [10, 146.1, 90073.778],
+];
+
+// [a, b] coefficients of the planetary corrections to the time of a new moon,
+// where the correction is `coefficient * sin(a + b * k)`
+// prettier-ignore
+const NEW_MOON_PLANETARY_TERMS: ReadonlyArray<[number, number, number]> = [
+  [0.000325, 299.77, 0.107408], [0.000165, 251.88, 0.016321],
+  [0.000164, 251.83, 26.651886], [0.000126, 349.42, 36.412478],
+  [0.00011, 84.66, 18.206239], [0.000062, 141.74, 53.303771],
+  [0.00006, 207.14, 2.453732], [0.000056, 154.84, 7.30686],
+  [0.000047, 34.52, 27.261239], [0.000042, 207.19, 0.121824],
+  [0.00004, 291.34, 1.844379], [0.000037, 161.72, 24.198154],
+  [0.000035, 239.56, 25.513099], [0.000023, 331.55, 3.592518],
+];
+
+/** Returns the solar longitude, in degrees, at the provided (universal) moment */
+export function solarLongitude(moment: number) {
+  const c = julianCenturies(moment);
+
+  const longitude =
+    282.7771834 +
+    36000.76953744 * c +
+    0.000005729577951308232 *
+      SOLAR_LONGITUDE_TERMS.reduce((sum, [x, y, z]) => sum + x * sinDegrees(y + z * c), 0);
+
+  return mod(longitude + aberration(c) + nutation(c), 360);
+}
+
+/**
+ * Returns the moment before (or at) the provided moment when the sun
+ * was last at the provided solar longitude.
+ */
+export function solarLongitudeBefore(longitude: number, moment: number) {
+  const rate = MEAN_TROPICAL_YEAR / 360;
+  const tau = moment - rate * mod(solarLongitude(moment) - longitude, 360);
+
+  return bisect(
+    tau - 5,
+    Math.min(moment, tau + 5),
+    x => mod(solarLongitude(x) - longitude, 360) < 180,
+  );
+}
+
+/** Returns the moment of the first new moon at or after the provided moment */
+export function newMoonAtOrAfter(moment: number) {
+  let k = Math.round((moment - nthNewMoon(0)) / MEAN_SYNODIC_MONTH);
+
+  while (nthNewMoon(k) < moment) k++;
+  while (nthNewMoon(k - 1) >= moment) k--;
+
+  return nthNewMoon(k);
+}
+
+/** Returns the moment of the last new moon before the provided moment */
+export function newMoonBefore(moment: number) {
+  let k = Math.round((moment - nthNewMoon(0)) / MEAN_SYNODIC_MONTH);
+
+  while (nthNewMoon(k) >= moment) k--;
+  while (nthNewMoon(k + 1) < moment) k++;
+
+  return nthNewMoon(k);
+}
+
+/**
+ * Returns the moment of the kth new moon, where the 0th new moon is
+ * the first new moon of 2000.
+ */
+function nthNewMoon(k: number) {
+  const t = k / 1236.85;
+
+  const jde =
+    2451550.09766 +
+    29.530588861 * k +
+    0.00015437 * t ** 2 -
+    0.00000015 * t ** 3 +
+    0.00000000073 * t ** 4;
+
+  const e = 1 - 0.002516 * t - 0.0000074 * t ** 2;
+  // sun's mean anomaly
+  const m = 2.5534 + 29.1053567 * k - 0.0000014 * t ** 2 - 0.00000011 * t ** 3;
+  // moon's mean anomaly
+  const mp =
+    201.5643 + 385.81693528 * k + 0.0107582 * t ** 2 + 0.00001238 * t ** 3 - 0.000000058 * t ** 4;
+  // moon's argument of latitude
+  const f =
+    160.7108 + 390.67050284 * k - 0.0016118 * t ** 2 - 0.00000227 * t ** 3 + 0.000000011 * t ** 4;
+  // longitude of the ascending node of the lunar orbit
+  const omega = 124.7746 - 1.56375588 * k + 0.0020672 * t ** 2 + 0.00000215 * t ** 3;
+
+  const correction =
+    -0.4072 * sinDegrees(mp) +
+    0.17241 * e * sinDegrees(m) +
+    0.01608 * sinDegrees(2 * mp) +
+    0.01039 * sinDegrees(2 * f) +
+    0.00739 * e * sinDegrees(mp - m) -
+    0.00514 * e * sinDegrees(mp + m) +
+    0.00208 * e * e * sinDegrees(2 * m) -
+    0.00111 * sinDegrees(mp - 2 * f) -
+    0.00057 * sinDegrees(mp + 2 * f) +
+    0.00056 * e * sinDegrees(2 * mp + m) -
+    0.00042 * sinDegrees(3 * mp) +
+    0.00042 * e * sinDegrees(m + 2 * f) +
+    0.00038 * e * sinDegrees(m - 2 * f) -
+    0.00024 * e * sinDegrees(2 * mp - m) -
+    0.00017 * sinDegrees(omega) -
+    0.00007 * sinDegrees(mp + 2 * m) +
+    0.00004 * sinDegrees(2 * mp - 2 * f) +
+    0.00004 * sinDegrees(3 * m) +
+    0.00003 * sinDegrees(mp + m - 2 * f) +
+    0.00003 * sinDegrees(2 * mp + 2 * f) -
+    0.00003 * sinDegrees(mp + m + 2 * f) +
+    0.00003 * sinDegrees(mp - m + 2 * f) -
+    0.00002 * sinDegrees(mp - m - 2 * f) -
+    0.00002 * sinDegrees(3 * mp + m) +
+    0.00002 * sinDegrees(4 * mp);
+
+  const planetaryCorrection = NEW_MOON_PLANETARY_TERMS.reduce(
+    (sum, [coefficient, a, b], index) =>
+      sum + coefficient * sinDegrees(a + b * k - (index === 0 ? 0.009173 * t ** 2 : 0)),
+    0,
+  );
+
+  const dynamicalMoment = jde + correction + planetaryCorrection - JD_EPOCH;
+
+  return dynamicalMoment - deltaT(dynamicalMoment);
+}
+
+function julianCenturies(moment: number) {
+  return (moment + deltaT(moment) - J2000) / 36525;
+}
+
+function aberration(c: number) {
+  return 0.0000974 * cosDegrees(177.63 + 35999.01848 * c) - 0.005575;
+}
+
+function nutation(c: number) {
+  const a = 124.9 - 1934.134 * c + 0.002063 * c * c;
+  const b = 201.11 + 72001.5377 * c + 0.00057 * c * c;
+
+  return -0.004778 * sinDegrees(a) - 0.0003667 * sinDegrees(b);
+}
+
+/**
+ * Returns the difference between terrestrial time and universal time, in days,
+ * using the polynomial expressions of Espenak & Meeus.
+ */
+function deltaT(moment: number) {
+  const year = gregorianYearFromFixed(Math.floor(moment));
+  let seconds: number;
+  let t: number;
+
+  if (year >= 1900 && year < 1920) {
+    t = year - 1900;
+    seconds = -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  } else if (year >= 1920 && year < 1941) {
+    t = year - 1920;
+    seconds = 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3;
+  } else if (year >= 1941 && year < 1961) {
+    t = year - 1950;
+    seconds = 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+  } else if (year >= 1961 && year < 1986) {
+    t = year - 1975;
+    seconds = 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+  } else if (year >= 1986 && year < 2005) {
+    t = year - 2000;
+    seconds =
+      63.86 +
+      0.3345 * t -
+      0.060374 * t ** 2 +
+      0.0017275 * t ** 3 +
+      0.000651814 * t ** 4 +
+      0.00002373599 * t ** 5;
+  } else if (year >= 2005 && year < 2050) {
+    t = year - 2000;
+    seconds = 62.92 + 0.32217 * t + 0.005589 * t ** 2;
+  } else if (year >= 2050 && year < 2150) {
+    seconds = -20 + 32 * ((year - 1820) / 100) ** 2 - 0.5628 * (2150 - year);
+  } else {
+    seconds = -20 + 32 * ((year - 1820) / 100) ** 2;
+  }
+
+  return seconds / 86400;
+}
+
+/**
+ * Finds the point, to within a second, in the range `[low, high]` where
+ * `condition` becomes true (`condition` must be false at `low` and true at
+ * `high`).
+ */
+function bisect(low: number, high: number, condition: (x: number) => boolean) {
+  while (high - low > 1 / 86400) {
+    const x = (low + high) / 2;
+
+    if (condition(x)) {
+      high = x;
+    } else {
+      low = x;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+function sinDegrees(degrees: number) {
+  return Math.sin((mod(degrees, 360) * Math.PI) / 180);
+}
+
+function cosDegrees(degrees: number) {
+  return Math.cos((mod(degrees, 360) * Math.PI) / 180);
+}
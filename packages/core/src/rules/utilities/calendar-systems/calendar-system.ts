@@ -0,0 +1,144 @@
+import { DateAdapter, DateTime } from '@rschedule/core';
+
+/**
+ * The average length of a lunar month in days. All of the supported
+ * non-gregorian calendar systems are lunar (or lunisolar), so the
+ * number of months between two dates can be found by dividing the
+ * number of days between them by this number and rounding.
+ */
+export const MEAN_SYNODIC_MONTH = 29.530588861;
+
+/** The fixed day number of 1970-01-01 */
+const UNIX_EPOCH = 719163;
+
+export interface ICalendarMonth {
+  /** The calendar year which this month belongs to */
+  year: number;
+  /**
+   * The month's number within the calendar year. A leap month has
+   * the same number as the month which precedes it.
+   */
+  month: number;
+  leap: boolean;
+  /** The fixed day number of the first day of the month */
+  start: number;
+  /** The number of days in the month */
+  length: number;
+}
+
+export interface ICalendarYear {
+  year: number;
+  /** The fixed day number of the first day of the year */
+  start: number;
+  /** The fixed day number of the first day of the following year */
+  end: number;
+  months: ICalendarMonth[];
+}
+
+/**
+ * A calendar system converts "fixed" day numbers (the number of days
+ * since 0001-01-01 in the proleptic gregorian calendar, where
+ * 0001-01-01 is day 1) into the years and months of another
+ * calendar. All of the calculations are done offline.
+ */
+export abstract class CalendarSystem {
+  /** The numbers of the months which can be followed by a leap month */
+  abstract readonly leapMonths: ReadonlyArray<number>;
+
+  private readonly years = new Map<number, ICalendarYear>();
+
+  getYear(year: number): ICalendarYear {
+    let result = this.years.get(year);
+
+    if (!result) {
+      result = this.buildYear(year);
+      this.years.set(year, result);
+    }
+
+    return result;
+  }
+
+  /** Returns the calendar year which contains the provided fixed day */
+  getYearOf(fixed: number): ICalendarYear {
+    let year = this.getYear(this.estimateYear(fixed));
+
+    while (fixed < year.start) {
+      year = this.getYear(year.year - 1);
+    }
+
+    while (fixed >= year.end) {
+      year = this.getYear(year.year + 1);
+    }
+
+    return year;
+  }
+
+  /** Returns the calendar month which contains the provided fixed day */
+  getMonthOf(fixed: number): ICalendarMonth {
+    return this.getYearOf(fixed).months.find(month => fixed < month.start + month.length)!;
+  }
+
+  /** Returns the calendar month which is `amount` months after the provided month */
+  addMonths(month: ICalendarMonth, amount: number): ICalendarMonth {
+    // lunar months never drift far from their mean length, so this
+    // will always land in the middle of the correct month
+    return this.getMonthOf(month.start + Math.round(amount * MEAN_SYNODIC_MONTH) + 15);
+  }
+
+  /** Returns the number of months between the start of the two provided months */
+  monthDifference(first: ICalendarMonth, second: ICalendarMonth) {
+    return Math.round((second.start - first.start) / MEAN_SYNODIC_MONTH);
+  }
+
+  /**
+   * Returns the calendar year which contains the provided fixed day, or
+   * a year next to it.
+   */
+  protected abstract estimateYear(fixed: number): number;
+
+  protected abstract buildYear(year: number): ICalendarYear;
+}
+
+/** Returns the fixed day number of the provided date */
+export function toFixed(date: DateTime) {
+  return Math.floor(date.valueOf() / DateAdapter.MILLISECONDS_IN_DAY) + UNIX_EPOCH;
+}
+
+/** Returns the start of the provided fixed day, in the same timezone as `date` */
+export function fromFixed(date: DateTime, fixed: number) {
+  return date.granularity('day').add(fixed - toFixed(date), 'day');
+}
+
+export function fixedFromGregorian(year: number, month: number, day: number) {
+  const date = new Date(0);
+
+  date.setUTCFullYear(year, month - 1, day);
+
+  return Math.floor(date.valueOf() / DateAdapter.MILLISECONDS_IN_DAY) + UNIX_EPOCH;
+}
+
+export function gregorianYearFromFixed(fixed: number) {
+  return new Date((fixed - UNIX_EPOCH) * DateAdapter.MILLISECONDS_IN_DAY).getUTCFullYear();
+}
+
+/** Builds the months of a calendar year from the lengths of its months */
+export function buildMonths(
+  year: number,
+  start: number,
+  lengths: Array<[number, boolean, number]>,
+): ICalendarMonth[] {
+  let monthStart = start;
+
+  return lengths.map(([month, leap, length]) => {
+    const result = { year, month, leap, start: monthStart, length };
+
+    monthStart += length;
+
+    return result;
+  });
+}
+
+/** The modulo operation, but the result always has the sign of the divisor */
+export function mod(x: number, y: number) {
+  return x - y * Math.floor(x / y);
+}
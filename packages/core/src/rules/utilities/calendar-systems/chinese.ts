@@ -0,0 +1,154 @@
+import { newMoonAtOrAfter, newMoonBefore, solarLongitude, solarLongitudeBefore } from './astronomy';
+import {
+  CalendarSystem,
+  fixedFromGregorian,
+  gregorianYearFromFixed,
+  ICalendarMonth,
+  ICalendarYear,
+  MEAN_SYNODIC_MONTH,
+  mod,
+} from './calendar-system';
+
+/**
+ * The astronomical Chinese calendar. Months begin on the day of a new
+ * moon (in Beijing) and leap months are inserted following the rules in
+ * use since 1645. A leap month has the same number as the month before
+ * it and is represented in RFC 7529 style (e.g. `5L` follows month 5).
+ *
+ * Calendar years are numbered using the gregorian year in which the
+ * year begins (i.e. the year of the Chinese New Year).
+ *
+ * Algorithms are from "Calendrical Calculations" by Reingold & Dershowitz.
+ */
+export class ChineseCalendarSystem extends CalendarSystem {
+  readonly leapMonths = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+  protected estimateYear(fixed: number) {
+    return gregorianYearFromFixed(fixed);
+  }
+
+  protected buildYear(year: number): ICalendarYear {
+    const start = getNewYearOnOrBefore(fixedFromGregorian(year, 7, 1));
+    const end = getNewYearOnOrBefore(fixedFromGregorian(year + 1, 7, 1));
+    const months: ICalendarMonth[] = [];
+
+    let monthStart = start;
+
+    while (monthStart < end) {
+      const nextMonthStart = newMoonOnOrAfter(monthStart + 1);
+
+      months.push({
+        year,
+        ...getMonthNumber(monthStart),
+        start: monthStart,
+        length: nextMonthStart - monthStart,
+      });
+
+      monthStart = nextMonthStart;
+    }
+
+    return { year, start, end, months };
+  }
+}
+
+/** The offset of Beijing time from universal time, in days */
+function getChinaZone(fixed: number) {
+  return gregorianYearFromFixed(fixed) < 1929 ? 1397 / 180 / 24 : 8 / 24;
+}
+
+/** Returns the universal moment of the start of the provided day in Beijing */
+function midnightInChina(fixed: number) {
+  return fixed - getChinaZone(fixed);
+}
+
+/** Returns the day in Beijing of the provided universal moment */
+function toChinaDay(moment: number) {
+  return Math.floor(moment + getChinaZone(Math.floor(moment)));
+}
+
+function winterSolsticeOnOrBefore(fixed: number) {
+  return toChinaDay(solarLongitudeBefore(270, midnightInChina(fixed + 1)));
+}
+
+function newMoonOnOrAfter(fixed: number) {
+  return toChinaDay(newMoonAtOrAfter(midnightInChina(fixed)));
+}
+
+function newMoonOnOrBefore(fixed: number) {
+  return toChinaDay(newMoonBefore(midnightInChina(fixed + 1)));
+}
+
+/** Returns the index (1 - 12) of the last major solar term to begin before the day */
+function getMajorSolarTerm(fixed: number) {
+  const longitude = solarLongitude(midnightInChina(fixed));
+
+  return mod(2 + Math.floor(longitude / 30) - 1, 12) + 1;
+}
+
+/** Returns true if the month which begins on the provided day has no major solar term */
+function hasNoMajorSolarTerm(monthStart: number) {
+  return getMajorSolarTerm(monthStart) === getMajorSolarTerm(newMoonOnOrAfter(monthStart + 1));
+}
+
+/**
+ * Returns true if there is a month without a major solar term
+ * between the two months (inclusive).
+ */
+function hasPriorLeapMonth(firstMonthStart: number, monthStart: number): boolean {
+  return (
+    monthStart >= firstMonthStart &&
+    (hasNoMajorSolarTerm(monthStart) ||
+      hasPriorLeapMonth(firstMonthStart, newMoonOnOrBefore(monthStart - 1)))
+  );
+}
+
+/**
+ * Returns the month number of the month which begins on the provided day and
+ * whether or not it is a leap month.
+ */
+function getMonthNumber(monthStart: number) {
+  const s1 = winterSolsticeOnOrBefore(monthStart);
+  const s2 = winterSolsticeOnOrBefore(s1 + 370);
+  const m12 = newMoonOnOrAfter(s1 + 1);
+  const nextM11 = newMoonOnOrBefore(s2);
+  const isLeapYear = Math.round((nextM11 - m12) / MEAN_SYNODIC_MONTH) === 12;
+
+  const month =
+    mod(
+      Math.round((monthStart - m12) / MEAN_SYNODIC_MONTH) -
+        (isLeapYear && hasPriorLeapMonth(m12, monthStart) ? 1 : 0) -
+        1,
+      12,
+    ) + 1;
+
+  const leap =
+    isLeapYear &&
+    hasNoMajorSolarTerm(monthStart) &&
+    !hasPriorLeapMonth(m12, newMoonOnOrBefore(monthStart - 1));
+
+  return { month, leap };
+}
+
+/** Returns the Chinese New Year in the "sui" (solstice to solstice year) containing the day */
+function getNewYearInSui(fixed: number) {
+  const s1 = winterSolsticeOnOrBefore(fixed);
+  const s2 = winterSolsticeOnOrBefore(s1 + 370);
+  const m12 = newMoonOnOrAfter(s1 + 1);
+  const m13 = newMoonOnOrAfter(m12 + 1);
+  const nextM11 = newMoonOnOrBefore(s2);
+
+  if (
+    Math.round((nextM11 - m12) / MEAN_SYNODIC_MONTH) === 12 &&
+    (hasNoMajorSolarTerm(m12) || hasNoMajorSolarTerm(m13))
+  ) {
+    return newMoonOnOrAfter(m13 + 1);
+  }
+
+  return m13;
+}
+
+function getNewYearOnOrBefore(fixed: number) {
+  const newYear = getNewYearInSui(fixed);
+
+  return fixed >= newYear ? newYear : getNewYearInSui(fixed - 180);
+}
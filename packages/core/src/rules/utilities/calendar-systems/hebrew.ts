@@ -0,0 +1,87 @@
+import {
+  buildMonths,
+  CalendarSystem,
+  gregorianYearFromFixed,
+  ICalendarYear,
+  mod,
+} from './calendar-system';
+
+/** The fixed day number of 1 Tishri, AM 1 */
+const HEBREW_EPOCH = -1373427;
+
+/**
+ * The arithmetic Hebrew calendar. Years begin on 1 Tishri and months
+ * are numbered following RFC 7529: Tishri is month 1, Shevat is month 5,
+ * Adar I (which only exists in leap years) is month `5L` and Adar (Adar II
+ * in leap years) is month 6.
+ *
+ * Algorithms are from "Calendrical Calculations" by Reingold & Dershowitz.
+ */
+export class HebrewCalendarSystem extends CalendarSystem {
+  readonly leapMonths = [5];
+
+  protected estimateYear(fixed: number) {
+    return gregorianYearFromFixed(fixed) + 3760;
+  }
+
+  protected buildYear(year: number): ICalendarYear {
+    const start = getNewYear(year);
+    const end = getNewYear(year + 1);
+    const length = end - start;
+
+    // years are 353, 354, 355, 383, 384 or 385 days long. Heshvan has an
+    // extra day in "complete" years and Kislev is missing a day in
+    // "deficient" years
+    const heshvan = mod(length, 10) === 5 ? 30 : 29;
+    const kislev = mod(length, 10) === 3 ? 29 : 30;
+
+    return {
+      year,
+      start,
+      end,
+      months: buildMonths(year, start, [
+        [1, false, 30],
+        [2, false, heshvan],
+        [3, false, kislev],
+        [4, false, 29],
+        [5, false, 30],
+        ...(isLeapYear(year) ? [[5, true, 30] as [number, boolean, number]] : []),
+        [6, false, 29],
+        [7, false, 30],
+        [8, false, 29],
+        [9, false, 30],
+        [10, false, 29],
+        [11, false, 30],
+        [12, false, 29],
+      ]),
+    };
+  }
+}
+
+function isLeapYear(year: number) {
+  return mod(7 * year + 1, 19) < 7;
+}
+
+/** The number of days from the epoch until the molad of Tishri of the year */
+function getElapsedDays(year: number) {
+  const monthsElapsed = Math.floor((235 * year - 234) / 19);
+  const partsElapsed = 12084 + 13753 * monthsElapsed;
+  const days = 29 * monthsElapsed + Math.floor(partsElapsed / 25920);
+
+  return mod(3 * (days + 1), 7) < 3 ? days + 1 : days;
+}
+
+/** Delays the new year so that the year has a valid length */
+function getYearLengthCorrection(year: number) {
+  const ny0 = getElapsedDays(year - 1);
+  const ny1 = getElapsedDays(year);
+  const ny2 = getElapsedDays(year + 1);
+
+  if (ny2 - ny1 === 356) return 2;
+  if (ny1 - ny0 === 382) return 1;
+  return 0;
+}
+
+function getNewYear(year: number) {
+  return HEBREW_EPOCH + getElapsedDays(year) + getYearLengthCorrection(year);
+}
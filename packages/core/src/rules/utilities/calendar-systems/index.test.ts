@@ -0,0 +1,88 @@
+import { dateTime } from '../../test-utilities';
+import { fromFixed, getCalendarSystem, toFixed } from './index';
+
+/** Returns `[year, month, day]` (with leap months as e.g. `"5L"`) */
+function toCalendarDate(rscale: 'HEBREW' | 'ISLAMIC-CIVIL' | 'CHINESE', ...args: number[]) {
+  const calendar = getCalendarSystem(rscale)!;
+  const fixed = toFixed(dateTime(...args));
+  const month = calendar.getMonthOf(fixed);
+
+  return [month.year, month.leap ? `${month.month}L` : month.month, fixed - month.start + 1];
+}
+
+describe('getCalendarSystem', () => {
+  it('GREGORIAN', () => {
+    expect(getCalendarSystem(undefined)).toBe(undefined);
+    expect(getCalendarSystem('GREGORIAN')).toBe(undefined);
+  });
+
+  it('caches calendar systems', () => {
+    expect(getCalendarSystem('HEBREW')).toBe(getCalendarSystem('HEBREW'));
+  });
+});
+
+describe('toFixed', () => {
+  it('converts to and from fixed day numbers', () => {
+    expect(toFixed(dateTime(1970, 1, 1))).toBe(719163);
+    expect(fromFixed(dateTime(2019, 6, 10, 5), 719163).toISOString()).toBe(
+      dateTime(1970, 1, 1).toISOString(),
+    );
+  });
+});
+
+describe('HebrewCalendarSystem', () => {
+  it('new years', () => {
+    expect(toCalendarDate('HEBREW', 2023, 9, 16)).toEqual([5784, 1, 1]);
+    expect(toCalendarDate('HEBREW', 2024, 10, 3)).toEqual([5785, 1, 1]);
+    expect(toCalendarDate('HEBREW', 2025, 9, 23)).toEqual([5786, 1, 1]);
+  });
+
+  it('leap months', () => {
+    expect(toCalendarDate('HEBREW', 2014, 2, 8)).toEqual([5774, '5L', 8]);
+    expect(toCalendarDate('HEBREW', 2014, 3, 10)).toEqual([5774, 6, 8]);
+    expect(toCalendarDate('HEBREW', 2015, 2, 27)).toEqual([5775, 6, 8]);
+  });
+
+  it('year lengths', () => {
+    const calendar = getCalendarSystem('HEBREW')!;
+
+    expect(calendar.getYear(5784).months.length).toBe(13);
+    expect(calendar.getYear(5785).months.length).toBe(12);
+    expect(calendar.getYear(5784).end - calendar.getYear(5784).start).toBe(383);
+  });
+});
+
+describe('IslamicCivilCalendarSystem', () => {
+  it('months', () => {
+    expect(toCalendarDate('ISLAMIC-CIVIL', 2024, 3, 11)).toEqual([1445, 9, 1]);
+    expect(toCalendarDate('ISLAMIC-CIVIL', 2024, 4, 9)).toEqual([1445, 9, 30]);
+    expect(toCalendarDate('ISLAMIC-CIVIL', 2024, 7, 7)).toEqual([1445, 12, 30]);
+    expect(toCalendarDate('ISLAMIC-CIVIL', 2024, 7, 8)).toEqual([1446, 1, 1]);
+  });
+});
+
+describe('ChineseCalendarSystem', () => {
+  it('new years', () => {
+    expect(toCalendarDate('CHINESE', 2013, 2, 10)).toEqual([2013, 1, 1]);
+    expect(toCalendarDate('CHINESE', 2014, 1, 31)).toEqual([2014, 1, 1]);
+    expect(toCalendarDate('CHINESE', 2020, 1, 25)).toEqual([2020, 1, 1]);
+    expect(toCalendarDate('CHINESE', 2033, 1, 31)).toEqual([2033, 1, 1]);
+  });
+
+  it('leap months', () => {
+    expect(toCalendarDate('CHINESE', 2017, 7, 23)).toEqual([2017, '6L', 1]);
+    expect(toCalendarDate('CHINESE', 2020, 5, 23)).toEqual([2020, '4L', 1]);
+    expect(toCalendarDate('CHINESE', 2023, 3, 22)).toEqual([2023, '2L', 1]);
+    expect(toCalendarDate('CHINESE', 2033, 12, 22)).toEqual([2033, '11L', 1]);
+  });
+
+  it('addMonths', () => {
+    const calendar = getCalendarSystem('CHINESE')!;
+    const month = calendar.getMonthOf(toFixed(dateTime(2017, 7, 1)));
+
+    expect(month).toMatchObject({ year: 2017, month: 6, leap: false });
+    expect(calendar.addMonths(month, 1)).toMatchObject({ year: 2017, month: 6, leap: true });
+    expect(calendar.addMonths(month, 2)).toMatchObject({ year: 2017, month: 7, leap: false });
+    expect(calendar.monthDifference(month, calendar.addMonths(month, 13))).toBe(13);
+  });
+});
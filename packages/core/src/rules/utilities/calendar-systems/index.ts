@@ -0,0 +1,35 @@
+import { INormFrequencyRuleOptions } from '../../Frequency';
+import { CalendarSystem } from './calendar-system';
+import { ChineseCalendarSystem } from './chinese';
+import { HebrewCalendarSystem } from './hebrew';
+import { IslamicCivilCalendarSystem } from './islamic-civil';
+
+export * from './calendar-system';
+
+const CALENDAR_SYSTEMS: { [key: string]: CalendarSystem } = {};
+
+/**
+ * Returns the calendar system for the provided `rscale` rule option
+ * or `undefined` if the rule should use the gregorian calendar.
+ */
+export function getCalendarSystem(
+  rscale: INormFrequencyRuleOptions['rscale'],
+): CalendarSystem | undefined {
+  if (!rscale || rscale === 'GREGORIAN') return;
+
+  if (!CALENDAR_SYSTEMS[rscale]) {
+    switch (rscale) {
+      case 'HEBREW':
+        CALENDAR_SYSTEMS[rscale] = new HebrewCalendarSystem();
+        break;
+      case 'ISLAMIC-CIVIL':
+        CALENDAR_SYSTEMS[rscale] = new IslamicCivilCalendarSystem();
+        break;
+      case 'CHINESE':
+        CALENDAR_SYSTEMS[rscale] = new ChineseCalendarSystem();
+        break;
+    }
+  }
+
+  return CALENDAR_SYSTEMS[rscale];
+}
@@ -0,0 +1,47 @@
+import { buildMonths, CalendarSystem, ICalendarYear, mod } from './calendar-system';
+
+/** The fixed day number of 1 Muharram, AH 1 (Friday, July 16, 622 julian) */
+const ISLAMIC_EPOCH = 227015;
+
+/**
+ * The tabular (arithmetic) Islamic calendar with a Friday epoch.
+ * Months alternate between 30 and 29 days, except that the 12th
+ * month has 30 days in the 11 leap years of each 30 year cycle.
+ *
+ * Algorithms are from "Calendrical Calculations" by Reingold & Dershowitz.
+ */
+export class IslamicCivilCalendarSystem extends CalendarSystem {
+  readonly leapMonths: number[] = [];
+
+  protected estimateYear(fixed: number) {
+    return Math.floor((30 * (fixed - ISLAMIC_EPOCH) + 10646) / 10631);
+  }
+
+  protected buildYear(year: number): ICalendarYear {
+    const start = getNewYear(year);
+    const lengths: Array<[number, boolean, number]> = [];
+
+    for (let month = 1; month <= 12; month++) {
+      lengths.push([month, false, month % 2 === 1 ? 30 : 29]);
+    }
+
+    if (isLeapYear(year)) {
+      lengths[11][2] = 30;
+    }
+
+    return {
+      year,
+      start,
+      end: getNewYear(year + 1),
+      months: buildMonths(year, start, lengths),
+    };
+  }
+}
+
+function isLeapYear(year: number) {
+  return mod(14 + 11 * year, 30) < 11;
+}
+
+function getNewYear(year: number) {
+  return ISLAMIC_EPOCH + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30);
+}
@@ -0,0 +1,15 @@
+/**
+ * Returns the path (e.g. `"byDayOfMonth[1]"`) and value of the first entry of a
+ * rule option which is invalid, or `undefined` if every entry is valid.
+ */
+export function findInvalidEntry<T>(
+  option: string,
+  entries: T[],
+  isInvalid: (entry: T) => boolean,
+): { option: string; value: T } | undefined {
+  const index = entries.findIndex(isInvalid);
+
+  if (index === -1) return;
+
+  return { option: `${option}[${index}]`, value: entries[index] };
+}
@@ -0,0 +1,22 @@
+import { DateAdapter, DateTime } from '@rschedule/core';
+import getNextWeekday from './get-next-weekday';
+
+export default function getNthWeekdayOfQuarter(
+  date: DateTime,
+  weekday: DateAdapter.Weekday,
+  nth: number,
+  fiscalYearStart: DateAdapter.Month = 1,
+) {
+  const monthOfQuarter = (date.get('month') - fiscalYearStart + 12) % 3;
+
+  let base = date.set('day', 1).subtract(monthOfQuarter, 'month');
+
+  if (nth < 0) {
+    base = base.add(3, 'month');
+  }
+
+  base = getNextWeekday(base, weekday);
+
+  // when nth is negative, adding it will act as subtraction
+  return nth < 0 ? base.add(nth, 'week') : base.add(nth - 1, 'week');
+}
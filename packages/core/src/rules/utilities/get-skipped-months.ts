@@ -0,0 +1,127 @@
+import { DateAdapter, DateTime, RuleOption, uniqDateTimes } from '@rschedule/core';
+import '../ByDayOfMonth/types';
+import '../ByMonthOfYear/types';
+import { INormFrequencyRuleOptions } from '../Frequency';
+import calendarMonthMatches from './calendar-month-matches';
+import { CalendarSystem, fromFixed, getCalendarSystem, toFixed } from './calendar-systems';
+
+/**
+ * When the `skip` rule option is `"BACKWARD"` or `"FORWARD"`, a `byDayOfMonth`
+ * entry which doesn't exist in a month (e.g. the 30th of February) is moved to
+ * the last day of that month (`"BACKWARD"`) or to the first day of the
+ * following month (`"FORWARD"`). Similarly, a negative entry which doesn't
+ * exist in a month is moved to the last day of the previous month or to the
+ * first day of the month.
+ *
+ * Given a date, returns the start of each month which had an entry moved
+ * onto that date. Months which are excluded by `byMonthOfYear` are ignored.
+ * Skipping only applies to `"YEARLY"`, `"QUARTERLY"` and `"MONTHLY"` rules.
+ *
+ * If the `rscale` rule option is present, months are the months of that
+ * calendar system.
+ */
+export default function getSkippedMonths(
+  date: DateTime,
+  options: {
+    frequency: RuleOption.Frequency;
+    skip?: RuleOption.Skip;
+    rscale?: INormFrequencyRuleOptions['rscale'];
+    byMonthOfYear?: RuleOption.ByMonthOfYear[];
+    byDayOfMonth?: RuleOption.ByDayOfMonth[];
+  },
+): DateTime[] {
+  const { skip, byDayOfMonth, byMonthOfYear } = options;
+
+  if (
+    !byDayOfMonth ||
+    !(skip === 'BACKWARD' || skip === 'FORWARD') ||
+    !['YEARLY', 'QUARTERLY', 'MONTHLY'].includes(options.frequency)
+  ) {
+    return [];
+  }
+
+  const calendar = getCalendarSystem(options.rscale);
+
+  if (calendar) return getSkippedCalendarMonths(date, calendar, options);
+
+  const month = date.granularity('month');
+  const day = date.get('day');
+  const lengthOfMonth = getLengthOfMonth(month);
+  const months: DateTime[] = [];
+
+  if (skip === 'FORWARD' && day === 1) {
+    const previousMonth = month.subtract(1, 'month');
+
+    if (byDayOfMonth.some(entry => entry > getLengthOfMonth(previousMonth))) {
+      months.push(previousMonth);
+    }
+
+    if (byDayOfMonth.some(entry => -entry > lengthOfMonth)) {
+      months.push(month);
+    }
+  } else if (skip === 'BACKWARD' && day === lengthOfMonth) {
+    const nextMonth = month.add(1, 'month');
+
+    if (byDayOfMonth.some(entry => entry > lengthOfMonth)) {
+      months.push(month);
+    }
+
+    if (byDayOfMonth.some(entry => -entry > getLengthOfMonth(nextMonth))) {
+      months.push(nextMonth);
+    }
+  }
+
+  return uniqDateTimes(
+    months.filter(
+      skippedMonth =>
+        !byMonthOfYear || byMonthOfYear.includes(skippedMonth.get('month') as DateAdapter.Month),
+    ),
+  );
+}
+
+function getLengthOfMonth(date: DateTime) {
+  return date.endGranularity('month').get('day');
+}
+
+/** Same as `getSkippedMonths()` but using the months of a calendar system */
+function getSkippedCalendarMonths(
+  date: DateTime,
+  calendar: CalendarSystem,
+  options: {
+    skip?: RuleOption.Skip;
+    byMonthOfYear?: RuleOption.ByMonthOfYear[];
+    byDayOfMonth?: RuleOption.ByDayOfMonth[];
+  },
+): DateTime[] {
+  const byDayOfMonth = options.byDayOfMonth!;
+  const fixed = toFixed(date);
+  const month = calendar.getMonthOf(fixed);
+  const day = fixed - month.start + 1;
+  const months = [];
+
+  if (options.skip === 'FORWARD' && day === 1) {
+    const previousMonth = calendar.getMonthOf(month.start - 1);
+
+    if (byDayOfMonth.some(entry => entry > previousMonth.length)) {
+      months.push(previousMonth);
+    }
+
+    if (byDayOfMonth.some(entry => -entry > month.length)) {
+      months.push(month);
+    }
+  } else if (options.skip === 'BACKWARD' && day === month.length) {
+    const nextMonth = calendar.getMonthOf(month.start + month.length);
+
+    if (byDayOfMonth.some(entry => entry > month.length)) {
+      months.push(month);
+    }
+
+    if (byDayOfMonth.some(entry => -entry > nextMonth.length)) {
+      months.push(nextMonth);
+    }
+  }
+
+  return months
+    .filter(skippedMonth => calendarMonthMatches(calendar, skippedMonth, options))
+    .map(skippedMonth => fromFixed(date, skippedMonth.start));
+}
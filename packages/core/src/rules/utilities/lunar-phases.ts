@@ -0,0 +1,178 @@
+import { DateAdapter, RuleOption } from '@rschedule/core';
+
+const J1970 = 2440587.5;
+const RAD = Math.PI / 180;
+/** The mean length of a lunation (in days) */
+const SYNODIC_MONTH = 29.530588861;
+/** The julian ephemeris day of the first new moon of 2000 */
+const FIRST_NEW_MOON_2000 = 2451550.09766;
+/**
+ * The difference between terrestrial time and universal time (ΔT), in days.
+ * It is about 69 seconds in the 2020s and changes slowly.
+ */
+const DELTA_T = 69 / 86400;
+
+export const LUNAR_PHASES: ReadonlyArray<RuleOption.LunarPhase> = [
+  'NEW_MOON',
+  'FIRST_QUARTER',
+  'FULL_MOON',
+  'LAST_QUARTER',
+];
+
+/** The fraction of a lunation at which each phase takes place */
+const LUNAR_PHASE_OFFSETS = {
+  NEW_MOON: 0,
+  FIRST_QUARTER: 0.25,
+  FULL_MOON: 0.5,
+  LAST_QUARTER: 0.75,
+};
+
+/**
+ * The periodic terms of the phase corrections as
+ * `[coefficient, power of E, M, M', F, Ω]` where the argument of
+ * the sine is the sum of the multiples of M, M', F and Ω.
+ */
+type PeriodicTerm = [number, number, number, number, number, number];
+
+const NEW_MOON_TERMS: PeriodicTerm[] = [
+  [-0.4072, 0, 0, 1, 0, 0],
+  [0.17241, 1, 1, 0, 0, 0],
+  [0.01608, 0, 0, 2, 0, 0],
+  [0.01039, 0, 0, 0, 2, 0],
+  [0.00739, 1, -1, 1, 0, 0],
+  [-0.00514, 1, 1, 1, 0, 0],
+  [0.00208, 2, 2, 0, 0, 0],
+  [-0.00111, 0, 0, 1, -2, 0],
+  [-0.00057, 0, 0, 1, 2, 0],
+  [0.00056, 1, 1, 2, 0, 0],
+  [-0.00042, 0, 0, 3, 0, 0],
+  [0.00042, 1, 1, 0, 2, 0],
+  [0.00038, 1, 1, 0, -2, 0],
+  [-0.00024, 1, -1, 2, 0, 0],
+  [-0.00017, 0, 0, 0, 0, 1],
+  [-0.00007, 0, 2, 1, 0, 0],
+  [0.00004, 0, 0, 2, -2, 0],
+  [0.00004, 0, 3, 0, 0, 0],
+  [0.00003, 0, 1, 1, -2, 0],
+  [0.00003, 0, 0, 2, 2, 0],
+  [-0.00003, 0, 1, 1, 2, 0],
+  [0.00003, 0, -1, 1, 2, 0],
+  [-0.00002, 0, -1, 1, -2, 0],
+  [-0.00002, 0, 1, 3, 0, 0],
+  [0.00002, 0, 0, 4, 0, 0],
+];
+
+const FULL_MOON_TERMS: PeriodicTerm[] = [
+  [-0.40614, 0, 0, 1, 0, 0],
+  [0.17302, 1, 1, 0, 0, 0],
+  [0.01614, 0, 0, 2, 0, 0],
+  [0.01043, 0, 0, 0, 2, 0],
+  [0.00734, 1, -1, 1, 0, 0],
+  [-0.00515, 1, 1, 1, 0, 0],
+  [0.00209, 2, 2, 0, 0, 0],
+  [-0.00111, 0, 0, 1, -2, 0],
+  [-0.00057, 0, 0, 1, 2, 0],
+  [0.00056, 1, 1, 2, 0, 0],
+  [-0.00042, 0, 0, 3, 0, 0],
+  [0.00042, 1, 1, 0, 2, 0],
+  [0.00038, 1, 1, 0, -2, 0],
+  [-0.00024, 1, -1, 2, 0, 0],
+  [-0.00017, 0, 0, 0, 0, 1],
+  [-0.00007, 0, 2, 1, 0, 0],
+  [0.00004, 0, 0, 2, -2, 0],
+  [0.00004, 0, 3, 0, 0, 0],
+  [0.00003, 0, 1, 1, -2, 0],
+  [0.00003, 0, 0, 2, 2, 0],
+  [-0.00003, 0, 1, 1, 2, 0],
+  [0.00003, 0, -1, 1, 2, 0],
+  [-0.00002, 0, -1, 1, -2, 0],
+  [-0.00002, 0, 1, 3, 0, 0],
+  [0.00002, 0, 0, 4, 0, 0],
+];
+
+const QUARTER_TERMS: PeriodicTerm[] = [
+  [-0.62801, 0, 0, 1, 0, 0],
+  [0.17172, 1, 1, 0, 0, 0],
+  [-0.01183, 1, 1, 1, 0, 0],
+  [0.00862, 0, 0, 2, 0, 0],
+  [0.00804, 0, 0, 0, 2, 0],
+  [0.00454, 1, -1, 1, 0, 0],
+  [0.00204, 2, 2, 0, 0, 0],
+  [-0.0018, 0, 0, 1, -2, 0],
+  [-0.0007, 0, 0, 1, 2, 0],
+  [-0.0004, 0, 0, 3, 0, 0],
+  [-0.00034, 1, -1, 2, 0, 0],
+  [0.00032, 1, 1, 0, 2, 0],
+  [0.00032, 1, 1, 0, -2, 0],
+  [-0.00028, 2, 2, 1, 0, 0],
+  [0.00027, 1, 1, 2, 0, 0],
+  [-0.00017, 0, 0, 0, 0, 1],
+  [-0.00005, 0, -1, 1, -2, 0],
+  [0.00004, 0, 0, 2, 2, 0],
+  [-0.00004, 0, 1, 1, 2, 0],
+  [0.00004, 0, -2, 1, 0, 0],
+  [0.00003, 0, 1, 1, -2, 0],
+  [0.00003, 0, 3, 0, 0, 0],
+  [0.00002, 0, 0, 2, -2, 0],
+  [0.00002, 0, -1, 1, 2, 0],
+  [-0.00002, 0, 1, 3, 0, 0],
+];
+
+/**
+ * Returns the number of the lunation (counting from the first new moon
+ * of 2000) which is in progress at the provided time (in milliseconds
+ * since the unix epoch). The result is approximate.
+ */
+export function getLunation(time: number) {
+  const julianDate = time / DateAdapter.MILLISECONDS_IN_DAY + J1970;
+
+  return Math.floor((julianDate - FIRST_NEW_MOON_2000) / SYNODIC_MONTH);
+}
+
+/**
+ * Returns the time of the lunar phase (in milliseconds since the unix epoch,
+ * rounded to the nearest minute) during the provided lunation.
+ *
+ * Uses the algorithm from chapter 49 of Jean Meeus' "Astronomical Algorithms"
+ * (without the planetary corrections), which is accurate to within a few minutes.
+ */
+export function getLunarPhaseTime(lunation: number, phase: RuleOption.LunarPhase) {
+  const k = lunation + LUNAR_PHASE_OFFSETS[phase];
+  const t = k / 1236.85;
+  const e = 1 - 0.002516 * t - 0.0000074 * t * t;
+  const m = (2.5534 + 29.1053567 * k - 0.0000014 * t * t) * RAD;
+  const mPrime = (201.5643 + 385.81693528 * k + 0.0107582 * t * t) * RAD;
+  const f = (160.7108 + 390.67050284 * k - 0.0016118 * t * t) * RAD;
+  const omega = (124.7746 - 1.56375588 * k + 0.0020672 * t * t) * RAD;
+
+  const terms =
+    phase === 'NEW_MOON' ? NEW_MOON_TERMS : phase === 'FULL_MOON' ? FULL_MOON_TERMS : QUARTER_TERMS;
+
+  let julianDate = FIRST_NEW_MOON_2000 + SYNODIC_MONTH * k + 0.00015437 * t * t;
+
+  terms.forEach(([coefficient, power, mFactor, mPrimeFactor, fFactor, omegaFactor]) => {
+    julianDate +=
+      coefficient *
+      Math.pow(e, power) *
+      Math.sin(mFactor * m + mPrimeFactor * mPrime + fFactor * f + omegaFactor * omega);
+  });
+
+  if (phase === 'FIRST_QUARTER' || phase === 'LAST_QUARTER') {
+    const w =
+      0.00306 -
+      0.00038 * e * Math.cos(m) +
+      0.00026 * Math.cos(mPrime) -
+      0.00002 * Math.cos(mPrime - m) +
+      0.00002 * Math.cos(mPrime + m) +
+      0.00002 * Math.cos(2 * f);
+
+    julianDate += phase === 'FIRST_QUARTER' ? w : -w;
+  }
+
+  const minutes = Math.round(
+    ((julianDate - DELTA_T - J1970) * DateAdapter.MILLISECONDS_IN_DAY) /
+      DateAdapter.MILLISECONDS_IN_MINUTE,
+  );
+
+  return minutes * DateAdapter.MILLISECONDS_IN_MINUTE;
+}
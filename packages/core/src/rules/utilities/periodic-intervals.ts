@@ -0,0 +1,191 @@
+import {
+  DateAdapter,
+  DateTime,
+  FIXED_FREQUENCY_LENGTHS,
+  INTERVAL_OPTIONS,
+  RuleOption,
+} from '@rschedule/core';
+import '../ByDayOfWeek/types';
+import { INormFrequencyRuleOptions } from '../Frequency';
+import { mod } from './calendar-systems';
+
+export interface IPeriodicIntervals {
+  /** The length of the rule's frequency, in milliseconds */
+  unit: number;
+  /**
+   * The valid intervals containing selected dates are the intervals which are
+   * `interval * (residue + modulus * n)` intervals after the first interval.
+   */
+  modulus: number;
+  residues: number[];
+}
+
+/** Time of day rule options, along with their length (in milliseconds) and number of values */
+const TIME_OPTIONS: Array<[string, number, number]> = [
+  ['byHourOfDay', DateAdapter.MILLISECONDS_IN_HOUR, 24],
+  ['byMinuteOfHour', DateAdapter.MILLISECONDS_IN_MINUTE, 60],
+  ['bySecondOfMinute', DateAdapter.MILLISECONDS_IN_SECOND, 60],
+  ['byMillisecondOfSecond', 1, 1000],
+];
+
+/** `new Date(0)` is a thursday */
+const EPOCH_WEEKDAY_INDEX = DateAdapter.WEEKDAYS.indexOf('TH');
+
+/** Beyond this many selected positions per day (or week), the rule isn't considered sparse */
+const MAX_SELECTED_POSITIONS = 10000;
+
+/**
+ * If the rule's frequency has a fixed length (e.g. "HOURLY") and the only other rule
+ * options are time of day options and `byDayOfWeek` weekdays, the dates those options
+ * select repeat every day (or week). In that case, whether an interval contains selected
+ * dates only depends on its position within the day (or week), and the first valid
+ * interval containing selected dates can be found by solving a linear congruence rather
+ * than by alternating between the frequency and the other rule options interval by
+ * interval (which, for sparse rules, can take thousands of iterations).
+ *
+ * Returns `undefined` if the rule doesn't qualify or if every interval contains
+ * selected dates (in which case there's nothing to skip).
+ */
+export function getPeriodicIntervals(
+  options: INormFrequencyRuleOptions,
+  first: DateTime,
+): IPeriodicIntervals | undefined {
+  const unit = FIXED_FREQUENCY_LENGTHS[options.frequency];
+  const byOptions = options as INormFrequencyRuleOptions & { [option: string]: any };
+  const weekdays: RuleOption.ByDayOfWeek[] | undefined = byOptions.byDayOfWeek;
+
+  if (
+    !unit ||
+    (weekdays && weekdays.some(weekday => Array.isArray(weekday))) ||
+    Object.keys(options).some(
+      option =>
+        byOptions[option] !== undefined &&
+        !INTERVAL_OPTIONS.includes(option) &&
+        option !== 'byDayOfWeek' &&
+        !TIME_OPTIONS.some(([timeOption]) => timeOption === option),
+    )
+  ) {
+    return;
+  }
+
+  const period = weekdays ? DateAdapter.MILLISECONDS_IN_WEEK : DateAdapter.MILLISECONDS_IN_DAY;
+  const slots = period / unit;
+
+  // ensures the arithmetic below stays within the safe integer range
+  if (slots * slots > Number.MAX_SAFE_INTEGER) return;
+
+  // the offsets, from the start of the period, of the intervals containing selected dates
+  let offsets = weekdays
+    ? (weekdays as DateAdapter.Weekday[]).map(
+        weekday =>
+          mod(DateAdapter.WEEKDAYS.indexOf(weekday) - EPOCH_WEEKDAY_INDEX, 7) *
+          DateAdapter.MILLISECONDS_IN_DAY,
+      )
+    : [0];
+
+  for (const [option, length, count] of TIME_OPTIONS) {
+    // options shorter than the frequency select dates within an interval
+    if (length < unit) break;
+
+    const values: number[] = byOptions[option] || Array.from({ length: count }, (_, i) => i);
+
+    if (offsets.length * values.length > MAX_SELECTED_POSITIONS) return;
+
+    offsets = offsets.reduce(
+      (prev, offset) => prev.concat(values.map(value => offset + value * length)),
+      [] as number[],
+    );
+  }
+
+  if (offsets.length >= slots) return;
+
+  // Interval `i * interval` is selected when `(firstSlot + i * interval) % slots`
+  // is one of the offsets. Solve for `i`.
+  const interval = options.interval;
+  const divisor = greatestCommonDivisor(interval, slots);
+  const modulus = slots / divisor;
+  const inverse = modularInverse((interval / divisor) % modulus, modulus);
+  const firstSlot = mod(first.valueOf(), period) / unit;
+
+  const residues = new Set<number>();
+
+  offsets.forEach(offset => {
+    const difference = mod(offset / unit - firstSlot, slots);
+
+    if (difference % divisor !== 0) return;
+
+    residues.add(((difference / divisor) * inverse) % modulus);
+  });
+
+  // no selected dates ever fall within a valid interval
+  if (residues.size === 0) return;
+
+  return { unit, modulus, residues: Array.from(residues) };
+}
+
+/**
+ * Like `intervalDifferenceBetweenDates()` except that the returned
+ * difference is to the first (or, if `direction` is "before", last)
+ * valid interval which also contains selected dates.
+ */
+export function periodicIntervalDifference({
+  first,
+  second,
+  interval,
+  periodic,
+  direction,
+}: {
+  first: DateTime;
+  second: DateTime;
+  interval: number;
+  periodic: IPeriodicIntervals;
+  direction: 'after' | 'before';
+}) {
+  const slot = Math.floor((second.valueOf() - first.valueOf()) / periodic.unit);
+
+  if (direction === 'after') {
+    const min = Math.ceil(slot / interval);
+
+    return (
+      interval *
+      periodic.residues.reduce(
+        (prev, residue) => Math.min(prev, min + mod(residue - min, periodic.modulus)),
+        Infinity,
+      )
+    );
+  }
+
+  const max = Math.floor(slot / interval);
+
+  return (
+    interval *
+    periodic.residues.reduce(
+      (prev, residue) => Math.max(prev, max - mod(max - residue, periodic.modulus)),
+      -Infinity,
+    )
+  );
+}
+
+function greatestCommonDivisor(a: number, b: number) {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+
+  return a;
+}
+
+/** Returns `x` such that `(a * x) % modulus === 1` (`a` and `modulus` must be coprime) */
+function modularInverse(a: number, modulus: number) {
+  if (modulus === 1) return 0;
+
+  let [oldR, r] = [a, modulus];
+  let [oldS, s] = [1, 0];
+
+  while (r !== 0) {
+    const quotient = Math.floor(oldR / r);
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+
+  return mod(oldS, modulus);
+}
@@ -0,0 +1,86 @@
+import { DateAdapter, RuleOption } from '@rschedule/core';
+
+const J1970 = 2440587.5;
+const J2000 = 2451545;
+const RAD = Math.PI / 180;
+/** The obliquity of the ecliptic (the tilt of the earth's axis) */
+const OBLIQUITY = 23.4397 * RAD;
+
+/**
+ * The altitude of the center of the sun (in degrees) at each solar event. Sunrise
+ * and sunset account for atmospheric refraction and the radius of the sun.
+ */
+const SOLAR_EVENT_ALTITUDES = {
+  SUNRISE: -0.833,
+  SUNSET: -0.833,
+  CIVIL_DAWN: -6,
+  CIVIL_DUSK: -6,
+};
+
+export interface ISolarLocation {
+  latitude: number;
+  /** East is positive */
+  longitude: number;
+}
+
+export const SOLAR_EVENTS: ReadonlyArray<RuleOption.SolarEvent> = [
+  'SUNRISE',
+  'SUNSET',
+  'SOLAR_NOON',
+  'CIVIL_DAWN',
+  'CIVIL_DUSK',
+];
+
+/**
+ * Returns the time of the solar event (in milliseconds since the unix epoch, rounded
+ * to the nearest minute) during the solar day at the location which is closest to
+ * the provided UTC `day` (in days since the unix epoch). Returns `undefined` if the
+ * event doesn't happen on that day (e.g. sunset during a polar day).
+ *
+ * Uses the [sunrise equation](https://en.wikipedia.org/wiki/Sunrise_equation), which
+ * is accurate to within a minute or two outside of the polar regions.
+ */
+export function getSolarEventTime(
+  day: number,
+  event: RuleOption.SolarEvent,
+  location: ISolarLocation,
+): number | undefined {
+  // the number of days between the J2000 epoch and the local mean solar noon
+  const meanSolarNoon = day - (J2000 - J1970 - 0.5) - location.longitude / 360;
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarNoon) * RAD;
+  const center =
+    1.9148 * Math.sin(meanAnomaly) +
+    0.02 * Math.sin(2 * meanAnomaly) +
+    0.0003 * Math.sin(3 * meanAnomaly);
+  const eclipticLongitude = meanAnomaly + (center + 180 + 102.9372) * RAD;
+  const transit =
+    J2000 +
+    meanSolarNoon +
+    0.0053 * Math.sin(meanAnomaly) -
+    0.0069 * Math.sin(2 * eclipticLongitude);
+
+  if (event === 'SOLAR_NOON') return julianDateToTime(transit);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(OBLIQUITY));
+  const latitude = location.latitude * RAD;
+  const cosHourAngle =
+    (Math.sin(SOLAR_EVENT_ALTITUDES[event] * RAD) - Math.sin(latitude) * Math.sin(declination)) /
+    (Math.cos(latitude) * Math.cos(declination));
+
+  // the sun never reaches the altitude on this day
+  if (cosHourAngle < -1 || cosHourAngle > 1) return;
+
+  const hourAngle = Math.acos(cosHourAngle) / RAD / 360;
+
+  return julianDateToTime(
+    event === 'SUNRISE' || event === 'CIVIL_DAWN' ? transit - hourAngle : transit + hourAngle,
+  );
+}
+
+function julianDateToTime(julianDate: number) {
+  const minutes = Math.round(
+    ((julianDate - J1970) * DateAdapter.MILLISECONDS_IN_DAY) / DateAdapter.MILLISECONDS_IN_MINUTE,
+  );
+
+  return minutes * DateAdapter.MILLISECONDS_IN_MINUTE;
+}
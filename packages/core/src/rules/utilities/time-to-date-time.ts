@@ -0,0 +1,23 @@
+import { DateTime, normalizeDateTimeTimezone } from '@rschedule/core';
+
+/**
+ * Converts a time (in milliseconds since the unix epoch) into a `DateTime`
+ * in the provided timezone. Seconds and milliseconds are dropped.
+ */
+export function timeToDateTime(time: number, timezone: string | null) {
+  const date = new Date(time);
+
+  return normalizeDateTimeTimezone(
+    DateTime.fromJSON({
+      timezone: 'UTC',
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: 0,
+      millisecond: 0,
+    }),
+    timezone,
+  );
+}
@@ -40,6 +40,26 @@ export function cloneJSON<T>(json: T): T {
   return JSON.parse(JSON.stringify(json));
 }
 
+/**
+ * Like `JSON.stringify()` except that the keys of objects are sorted, so
+ * objects containing the same entries always produce the same string.
+ */
+export function canonicalJSONStringify(json: unknown): string {
+  return JSON.stringify(json, (_, value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+
+    const sorted: { [key: string]: unknown } = {};
+
+    Object.keys(value)
+      .sort()
+      .forEach(key => {
+        sorted[key] = value[key];
+      });
+
+    return sorted;
+  });
+}
+
 export function dateInputToDateAdapter(date: DateInput): DateAdapter {
   // prettier-ignore
   return date instanceof DateTime ? DateAdapterBase.adapter.fromDateTime(date) :
@@ -0,0 +1,150 @@
+/**
+ * Compares finding occurrences after a date (`occurrences({ start })`) with and without
+ * the frequency rule skipping directly to the intervals which contain dates selected by
+ * the rule's other options (see `getPeriodicIntervals()`).
+ *
+ * Only rules with a fixed length frequency (`MILLISECONDLY` through `DAILY`) whose other
+ * rule options are time of day options and `byDayOfWeek` weekdays can skip this way. Every
+ * `WEEKLY` interval contains each weekday and time of day (so there's nothing to skip) and
+ * `MONTHLY`, `QUARTERLY` and `YEARLY` intervals vary in length, so those frequencies take
+ * the interval by interval path in both columns and are only benchmarked for comparison.
+ * The skipping happens in the `Frequency` rule; `RecurrenceRulesIterator#nextDate()` is
+ * unchanged.
+ *
+ * The "baseline" column disables the skip, in which case the frequency rule only skips
+ * to the next valid interval (as it did before) and then iterates interval by interval.
+ * If the baseline fails to find an occurrence within the recurrence rules iterator's
+ * iteration limit, the `RecurrenceRuleError` is reported instead of a time.
+ *
+ * Run with `yarn benchmark`.
+ */
+
+import '@rschedule/standard-date-adapter/setup';
+
+import { IRuleOptions, RecurrenceRuleError } from '@rschedule/core';
+import { Rule } from '@rschedule/core/generators';
+import { FrequencyRule } from '@rschedule/core/rules/Frequency';
+import { ICAL_RULES } from '@rschedule/core/rules/ICAL_RULES';
+
+Rule.recurrenceRules = ICAL_RULES;
+
+const START = new Date(2015, 0, 1, 9);
+const DATE = new Date(2027, 5, 1);
+
+/** the number of occurrences each benchmark finds after `DATE` */
+const TAKE = 10;
+
+/** each benchmark is repeated this many times and the fastest time is reported */
+const RUNS = 5;
+
+const BENCHMARKS: Array<[string, Omit<IRuleOptions, 'start'>]> = [
+  ['MILLISECONDLY', { frequency: 'MILLISECONDLY', interval: 997, byHourOfDay: [9] }],
+  [
+    'MILLISECONDLY',
+    {
+      frequency: 'MILLISECONDLY',
+      interval: 997,
+      byHourOfDay: [9],
+      byMinuteOfHour: [0],
+      bySecondOfMinute: [0],
+    },
+  ],
+  ['SECONDLY', { frequency: 'SECONDLY', interval: 61, byHourOfDay: [9], byMinuteOfHour: [0, 30] }],
+  [
+    'SECONDLY',
+    {
+      frequency: 'SECONDLY',
+      interval: 61,
+      byHourOfDay: [9],
+      byMinuteOfHour: [0],
+      bySecondOfMinute: [0],
+    },
+  ],
+  ['MINUTELY', { frequency: 'MINUTELY', interval: 97, byHourOfDay: [9, 18] }],
+  ['MINUTELY', { frequency: 'MINUTELY', interval: 97, byHourOfDay: [9], byMinuteOfHour: [0, 30] }],
+  ['HOURLY', { frequency: 'HOURLY', interval: 25, byHourOfDay: [9] }],
+  ['HOURLY', { frequency: 'HOURLY', interval: 101, byDayOfWeek: ['TU', 'TH'], byHourOfDay: [9] }],
+  ['DAILY', { frequency: 'DAILY', interval: 400, byDayOfWeek: ['MO'] }],
+  ['WEEKLY', { frequency: 'WEEKLY', interval: 53, byDayOfWeek: ['MO', 'FR'] }],
+  ['MONTHLY', { frequency: 'MONTHLY', interval: 7, byDayOfMonth: [31] }],
+  ['QUARTERLY', { frequency: 'QUARTERLY', interval: 3, byDayOfWeek: [['MO', 1]] }],
+  ['YEARLY', { frequency: 'YEARLY', byMonthOfYear: [2], byDayOfMonth: [29] }],
+];
+
+const prototype = FrequencyRule.prototype as any;
+const periodicIntervalDifference = prototype.periodicIntervalDifference;
+
+/** Makes the frequency rule behave as it did before it could skip to periodic intervals */
+function setBaseline(baseline: boolean) {
+  prototype.periodicIntervalDifference = baseline
+    ? function(this: any, date: unknown) {
+        return this.intervalDifference(date);
+      }
+    : periodicIntervalDifference;
+}
+
+function time(rule: Rule) {
+  let ms = Infinity;
+  let dates: string[] = [];
+
+  for (let run = 0; run < RUNS; run++) {
+    const start = process.hrtime();
+
+    dates = rule
+      .occurrences({ start: DATE, take: TAKE })
+      .toArray()
+      .map(date => date.toISOString());
+
+    const [seconds, nanoseconds] = process.hrtime(start);
+
+    ms = Math.min(ms, seconds * 1000 + nanoseconds / 1000000);
+  }
+
+  return { ms, dates };
+}
+
+function timeBaseline(rule: Rule) {
+  setBaseline(true);
+
+  try {
+    return time(rule);
+  } catch (e) {
+    if (e instanceof RecurrenceRuleError) return;
+    throw e;
+  } finally {
+    setBaseline(false);
+  }
+}
+
+console.log(
+  `first ${TAKE} occurrences after ${DATE.toISOString()} of rules starting ${START.toISOString()}\n`,
+);
+
+console.log(
+  [
+    'frequency'.padEnd(14),
+    'baseline (ms)'.padStart(20),
+    'skip (ms)'.padStart(10),
+    'speed-up'.padStart(9),
+  ].join(' '),
+);
+
+BENCHMARKS.forEach(([name, options]) => {
+  const rule = new Rule({ ...options, start: START });
+
+  const baseline = timeBaseline(rule);
+  const skipped = time(rule);
+
+  if (baseline && baseline.dates.join() !== skipped.dates.join()) {
+    throw new Error(`${name}: the baseline and skipping returned different occurrences`);
+  }
+
+  console.log(
+    [
+      name.padEnd(14),
+      (baseline ? baseline.ms.toFixed(1) : 'RecurrenceRuleError').padStart(20),
+      skipped.ms.toFixed(1).padStart(10),
+      (baseline ? `${Math.round(baseline.ms / skipped.ms)}x` : '-').padStart(9),
+    ].join(' '),
+  );
+});
@@ -1,4 +1,13 @@
-import { DateAdapter, DateAdapterBase, RuleOption } from '@rschedule/core';
+import {
+  DateAdapter,
+  DateAdapterBase,
+  FISCAL_CALENDAR_PATTERNS,
+  FISCAL_CALENDAR_YEAR_ENDS,
+  RuleOption,
+} from '@rschedule/core';
+import { LUNAR_PHASES } from '@rschedule/core/rules/ByLunarPhase';
+import { SOLAR_EVENTS } from '@rschedule/core/rules/BySolarEvent';
+import { parseTimeOfDay } from '@rschedule/core/rules/ByTimeOfDay';
 import { ICalRuleFrequency, IRRuleOptions } from '@rschedule/core/rules/ICAL_RULES';
 import { parse } from 'ical.js';
 import { IJCalComponent, IJCalProperty } from './serializer';
@@ -274,20 +283,62 @@ export function parseRule(input: IJCalProperty, dtstart: IDtstartProperty): IVEv
     result.byDayOfMonth = parseBYMONTHDAY(input[3].bymonthday);
   }
   if (input[3].hasOwnProperty('byyearday')) {
-    parseBYYEARDAY(input[3].byyearday);
+    result.byDayOfYear = parseBYYEARDAY(input[3].byyearday);
   }
   if (input[3].hasOwnProperty('byweekno')) {
-    parseBYWEEKNO(input[3].byweekno);
+    result.byWeekOfYear = parseBYWEEKNO(input[3].byweekno);
   }
   if (input[3].hasOwnProperty('bymonth')) {
     result.byMonthOfYear = parseBYMONTH(input[3].bymonth);
   }
   if (input[3].hasOwnProperty('bysetpos')) {
-    parseBYSETPOS(input[3].bysetpos);
+    result.bySetPosition = parseBYSETPOS(input[3].bysetpos);
   }
   if (input[3].hasOwnProperty('wkst')) {
     result.weekStart = parseWKST(input[3].wkst);
   }
+  if (input[3].hasOwnProperty('skip')) {
+    result.skip = parseSKIP(input[3].skip);
+  }
+  if (input[3].hasOwnProperty('rscale')) {
+    result.rscale = parseRSCALE(input[3].rscale);
+  }
+  if (input[3].hasOwnProperty('x-byeaster')) {
+    result.byEaster = parseXBYEASTER(input[3]['x-byeaster']);
+  }
+  if (input[3].hasOwnProperty('x-eastercalendar')) {
+    result.easterCalendar = parseXEASTERCALENDAR(input[3]['x-eastercalendar']);
+  }
+  if (input[3].hasOwnProperty('x-byquarter')) {
+    result.byQuarterOfYear = parseXBYQUARTER(input[3]['x-byquarter']);
+  }
+  if (input[3].hasOwnProperty('x-fiscalyearstart')) {
+    result.fiscalYearStart = parseXFISCALYEARSTART(input[3]['x-fiscalyearstart']);
+  }
+  if (input[3].hasOwnProperty('x-byfiscalperiod')) {
+    result.byFiscalPeriod = parseXBYFISCALPERIOD(input[3]['x-byfiscalperiod']);
+  }
+  if (input[3].hasOwnProperty('x-bydayoffiscalperiod')) {
+    result.byDayOfFiscalPeriod = parseXBYDAYOFFISCALPERIOD(input[3]['x-bydayoffiscalperiod']);
+  }
+  if (input[3].hasOwnProperty('x-fiscalcalendar')) {
+    result.fiscalCalendar = parseXFISCALCALENDAR(input[3]['x-fiscalcalendar']);
+  }
+  if (input[3].hasOwnProperty('x-bytimeofday')) {
+    result.byTimeOfDay = parseXBYTIMEOFDAY(input[3]['x-bytimeofday']);
+  }
+  if (input[3].hasOwnProperty('x-bysolarevent')) {
+    result.bySolarEvent = parseXBYSOLAREVENT(input[3]['x-bysolarevent']);
+  }
+  if (input[3].hasOwnProperty('x-solarlocation')) {
+    result.solarLocation = parseXSOLARLOCATION(input[3]['x-solarlocation']);
+  }
+  if (input[3].hasOwnProperty('x-bylunarphase')) {
+    result.byLunarPhase = parseXBYLUNARPHASE(input[3]['x-bylunarphase']);
+  }
+  if (input[3].hasOwnProperty('x-lunarphasetime')) {
+    result.lunarPhaseTime = parseXLUNARPHASETIME(input[3]['x-lunarphasetime']);
+  }
 
   return result;
 }
@@ -419,18 +470,30 @@ export function parseBYMONTHDAY(input: number | number[]) {
   return input as RuleOption.ByDayOfMonth[];
 }
 
-export function parseBYYEARDAY(input: any) {
-  console.error(`Parsing "BYYEARDAY" rrule property is not implemented.`);
-  return input;
+export function parseBYYEARDAY(input: number | number[]) {
+  if (!Array.isArray(input)) {
+    input = [input];
+  }
+
+  input.forEach(int => {
+    if (typeof int !== 'number' || isNaN(int) || int === 0 || int < -366 || int > 366) {
+      throw new ParseICalError(`Invalid BYYEARDAY value "${int}"`);
+    }
+  });
+
+  return input as RuleOption.ByDayOfYear[];
 }
 
-export function parseBYMONTH(input: number | number[]) {
+export function parseBYMONTH(input: number | string | Array<number | string>) {
   if (!Array.isArray(input)) {
     input = [input];
   }
 
   input.forEach(int => {
-    if (typeof int !== 'number' || isNaN(int) || int < 1 || int > 12) {
+    // leap months (e.g. "5L") are only valid in conjunction with RSCALE
+    const num = typeof int === 'string' && /^\d+L$/.test(int) ? parseInt(int, 10) : int;
+
+    if (typeof num !== 'number' || isNaN(num) || num < 1 || num > 12) {
       throw new ParseICalError(`Invalid BYMONTH value "${int}"`);
     }
   });
@@ -438,14 +501,241 @@ export function parseBYMONTH(input: number | number[]) {
   return input as RuleOption.ByMonthOfYear[];
 }
 
-export function parseBYWEEKNO(input: any) {
-  console.error(`Parsing "BYWEEKNO" rrule property is not implemented.`);
-  return input;
+export function parseBYWEEKNO(input: number | number[]) {
+  if (!Array.isArray(input)) {
+    input = [input];
+  }
+
+  input.forEach(int => {
+    if (typeof int !== 'number' || isNaN(int) || int === 0 || int < -53 || int > 53) {
+      throw new ParseICalError(`Invalid BYWEEKNO value "${int}"`);
+    }
+  });
+
+  return input as RuleOption.ByWeekOfYear[];
+}
+
+export function parseBYSETPOS(input: number | number[]) {
+  if (!Array.isArray(input)) {
+    input = [input];
+  }
+
+  input.forEach(int => {
+    if (typeof int !== 'number' || !Number.isInteger(int) || int === 0 || int < -366 || int > 366) {
+      throw new ParseICalError(`Invalid BYSETPOS value "${int}"`);
+    }
+  });
+
+  return input as RuleOption.BySetPosition[];
+}
+
+export function parseSKIP(input: string) {
+  if (!['OMIT', 'BACKWARD', 'FORWARD'].includes(input)) {
+    throw new ParseICalError(`Invalid SKIP value "${input}"`);
+  }
+
+  return input as RuleOption.Skip;
+}
+
+export function parseRSCALE(input: string) {
+  const rscale = typeof input === 'string' ? input.toUpperCase() : input;
+
+  if (!['GREGORIAN', 'HEBREW', 'ISLAMIC-CIVIL', 'CHINESE'].includes(rscale)) {
+    throw new ParseICalError(`Unsupported RSCALE value "${input}"`);
+  }
+
+  return rscale as RuleOption.RScale;
+}
+
+// ical.js doesn't know about `X-` rule parts, so their values are unparsed strings
+function splitXValue(input: string | number | Array<string | number>) {
+  if (Array.isArray(input)) return input;
+  if (typeof input === 'string') return input.split(',');
+  return [input];
+}
+
+export function parseXBYEASTER(input: string | number[]) {
+  return splitXValue(input).map(value => {
+    const int = typeof value === 'number' ? value : Number(value);
+
+    if (!Number.isInteger(int) || int < -366 || int > 366) {
+      throw new ParseICalError(`Invalid X-BYEASTER value "${value}"`);
+    }
+
+    return int as RuleOption.ByEaster;
+  });
+}
+
+export function parseXEASTERCALENDAR(input: string) {
+  const calendar = typeof input === 'string' ? input.toUpperCase() : input;
+
+  if (!['WESTERN', 'ORTHODOX'].includes(calendar)) {
+    throw new ParseICalError(`Invalid X-EASTERCALENDAR value "${input}"`);
+  }
+
+  return calendar as RuleOption.EasterCalendar;
+}
+
+export function parseXBYQUARTER(input: string | number | number[]) {
+  return splitXValue(input).map(value => {
+    const int = typeof value === 'number' ? value : Number(value);
+
+    if (!Number.isInteger(int) || int < 1 || int > 4) {
+      throw new ParseICalError(`Invalid X-BYQUARTER value "${value}"`);
+    }
+
+    return int as RuleOption.ByQuarterOfYear;
+  });
+}
+
+export function parseXFISCALYEARSTART(input: string | number) {
+  const int = typeof input === 'number' ? input : Number(input);
+
+  if (!Number.isInteger(int) || int < 1 || int > 12) {
+    throw new ParseICalError(`Invalid X-FISCALYEARSTART value "${input}"`);
+  }
+
+  return int as RuleOption.FiscalYearStart;
+}
+
+export function parseXBYFISCALPERIOD(input: string | number | number[]) {
+  return splitXValue(input).map(value => {
+    const int = typeof value === 'number' ? value : Number(value);
+
+    if (!Number.isInteger(int) || int < 1 || int > 12) {
+      throw new ParseICalError(`Invalid X-BYFISCALPERIOD value "${value}"`);
+    }
+
+    return int as RuleOption.ByFiscalPeriod;
+  });
+}
+
+export function parseXBYDAYOFFISCALPERIOD(input: string | number | number[]) {
+  return splitXValue(input).map(value => {
+    const int = typeof value === 'number' ? value : Number(value);
+
+    if (!Number.isInteger(int) || int === 0 || int < -42 || int > 42) {
+      throw new ParseICalError(`Invalid X-BYDAYOFFISCALPERIOD value "${value}"`);
+    }
+
+    return int as RuleOption.ByDayOfFiscalPeriod;
+  });
+}
+
+/** The value is a `pattern,yearEnd,yearEndMonth,yearEndWeekday` list (e.g. `4-4-5,LAST,1,SA`) */
+export function parseXFISCALCALENDAR(input: string | Array<string | number>) {
+  const values = splitXValue(input).map(value => String(value).toUpperCase());
+  const [pattern, yearEnd, yearEndMonth, yearEndWeekday] = values;
+  const month = Number(yearEndMonth);
+
+  if (
+    values.length !== 4 ||
+    !FISCAL_CALENDAR_PATTERNS.includes(pattern) ||
+    !FISCAL_CALENDAR_YEAR_ENDS.includes(yearEnd) ||
+    !Number.isInteger(month) ||
+    month < 1 ||
+    month > 12 ||
+    !DateAdapter.WEEKDAYS.includes(yearEndWeekday as DateAdapter.Weekday)
+  ) {
+    throw new ParseICalError(`Invalid X-FISCALCALENDAR value "${input}"`);
+  }
+
+  const calendar: RuleOption.FiscalCalendar = {
+    pattern: pattern as RuleOption.FiscalCalendar['pattern'],
+    yearEnd: yearEnd as RuleOption.FiscalCalendar['yearEnd'],
+    yearEndMonth: month as DateAdapter.Month,
+    yearEndWeekday: yearEndWeekday as DateAdapter.Weekday,
+  };
+
+  return calendar;
+}
+
+/** Each value is a `start-end` window of `HHMM` or `HHMMSS` times (e.g. `0900-1730`) */
+export function parseXBYTIMEOFDAY(input: string | string[]) {
+  return splitXValue(input).map(value => {
+    const match = String(value).match(/^(\d\d)(\d\d)(\d\d)?-(\d\d)(\d\d)(\d\d)?$/);
+
+    const window =
+      match &&
+      ([[match[1], match[2], match[3]], [match[4], match[5], match[6]]].map(parts =>
+        parts.filter(part => part !== undefined).join(':'),
+      ) as RuleOption.ByTimeOfDay);
+
+    if (
+      !window ||
+      parseTimeOfDay(window[0]) === undefined ||
+      parseTimeOfDay(window[1]) === undefined
+    ) {
+      throw new ParseICalError(`Invalid X-BYTIMEOFDAY value "${value}"`);
+    }
+
+    return window;
+  });
 }
 
-export function parseBYSETPOS(input: any) {
-  console.error(`Parsing "BYSETPOS" rrule property is not implemented.`);
-  return input;
+/** Each value is a solar event, optionally followed by a signed offset in minutes (e.g. `SUNSET+30`) */
+export function parseXBYSOLAREVENT(input: string | string[]) {
+  return splitXValue(input).map(value => {
+    const match = String(value)
+      .toUpperCase()
+      .match(/^([A-Z_]+)([+-]\d+)?$/);
+    const event = match && (match[1] as RuleOption.SolarEvent);
+    const offset = match && match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+
+    if (
+      !event ||
+      !SOLAR_EVENTS.includes(event) ||
+      (offset !== undefined && Math.abs(offset) > 720)
+    ) {
+      throw new ParseICalError(`Invalid X-BYSOLAREVENT value "${value}"`);
+    }
+
+    const solarEvent: RuleOption.BySolarEvent = offset === undefined ? event : [event, offset];
+
+    return solarEvent;
+  });
+}
+
+/** The value is a `latitude,longitude` list (e.g. `40.7128,-74.006`) */
+export function parseXSOLARLOCATION(input: string | Array<string | number>) {
+  const values = splitXValue(input).map(value => Number(value));
+  const [latitude, longitude] = values;
+
+  if (
+    values.length !== 2 ||
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    throw new ParseICalError(`Invalid X-SOLARLOCATION value "${input}"`);
+  }
+
+  const location: RuleOption.SolarLocation = { latitude, longitude };
+
+  return location;
+}
+
+export function parseXBYLUNARPHASE(input: string | string[]) {
+  return splitXValue(input).map(value => {
+    const phase = String(value).toUpperCase() as RuleOption.LunarPhase;
+
+    if (!LUNAR_PHASES.includes(phase)) {
+      throw new ParseICalError(`Invalid X-BYLUNARPHASE value "${value}"`);
+    }
+
+    return phase;
+  });
+}
+
+export function parseXLUNARPHASETIME(input: string) {
+  const time = typeof input === 'string' ? input.toUpperCase() : input;
+
+  if (!['DATE', 'EXACT'].includes(time)) {
+    throw new ParseICalError(`Invalid X-LUNARPHASETIME value "${input}"`);
+  }
+
+  return time as RuleOption.LunarPhaseTime;
 }
 
 export function parseWKST(input: number) {
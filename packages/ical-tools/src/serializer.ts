@@ -104,6 +104,11 @@ export function ruleOptionsToJCalProp(
 
   const stringOptions: any = {};
 
+  // as in the examples of RFC 7529, RSCALE comes first
+  if (ruleOptions.rscale !== undefined) {
+    stringOptions.rscale = ruleOptions.rscale;
+  }
+
   for (const option in ruleOptions) {
     if (ruleOptions.hasOwnProperty(option) && (ruleOptions as any)[option] !== undefined) {
       switch (option) {
@@ -136,12 +141,70 @@ export function ruleOptionsToJCalProp(
         case 'byDayOfMonth':
           stringOptions.bymonthday = ruleOptions.byDayOfMonth;
           break;
+        case 'byDayOfYear':
+          stringOptions.byyearday = ruleOptions.byDayOfYear;
+          break;
+        case 'byWeekOfYear':
+          stringOptions.byweekno = ruleOptions.byWeekOfYear;
+          break;
         case 'byMonthOfYear':
           stringOptions.bymonth = ruleOptions.byMonthOfYear;
           break;
+        case 'bySetPosition':
+          stringOptions.bysetpos = ruleOptions.bySetPosition;
+          break;
         case 'weekStart':
           stringOptions.wkst = DateAdapter.WEEKDAYS.indexOf(ruleOptions.weekStart!) + 1;
           break;
+        case 'skip':
+          stringOptions.skip = ruleOptions.skip;
+          break;
+        case 'byEaster':
+          stringOptions['x-byeaster'] = ruleOptions.byEaster;
+          break;
+        case 'easterCalendar':
+          stringOptions['x-eastercalendar'] = ruleOptions.easterCalendar;
+          break;
+        case 'byQuarterOfYear':
+          stringOptions['x-byquarter'] = ruleOptions.byQuarterOfYear;
+          break;
+        case 'fiscalYearStart':
+          stringOptions['x-fiscalyearstart'] = ruleOptions.fiscalYearStart;
+          break;
+        case 'byFiscalPeriod':
+          stringOptions['x-byfiscalperiod'] = ruleOptions.byFiscalPeriod;
+          break;
+        case 'byDayOfFiscalPeriod':
+          stringOptions['x-bydayoffiscalperiod'] = ruleOptions.byDayOfFiscalPeriod;
+          break;
+        case 'fiscalCalendar': {
+          const { pattern, yearEnd, yearEndMonth, yearEndWeekday } = ruleOptions.fiscalCalendar!;
+
+          stringOptions['x-fiscalcalendar'] = [pattern, yearEnd, yearEndMonth, yearEndWeekday];
+          break;
+        }
+        case 'byTimeOfDay':
+          stringOptions['x-bytimeofday'] = ruleOptions.byTimeOfDay!.map(window =>
+            window.map(time => time.replace(/:/g, '')).join('-'),
+          );
+          break;
+        case 'bySolarEvent':
+          stringOptions['x-bysolarevent'] = ruleOptions.bySolarEvent!.map(entry =>
+            typeof entry === 'string' ? entry : `${entry[0]}${entry[1] < 0 ? '' : '+'}${entry[1]}`,
+          );
+          break;
+        case 'solarLocation':
+          stringOptions['x-solarlocation'] = [
+            ruleOptions.solarLocation!.latitude,
+            ruleOptions.solarLocation!.longitude,
+          ];
+          break;
+        case 'byLunarPhase':
+          stringOptions['x-bylunarphase'] = ruleOptions.byLunarPhase;
+          break;
+        case 'lunarPhaseTime':
+          stringOptions['x-lunarphasetime'] = ruleOptions.lunarPhaseTime;
+          break;
       }
     }
   }
@@ -9,10 +9,27 @@ import {
   parseBYMONTH,
   parseBYMONTHDAY,
   parseBYSECOND,
+  parseBYSETPOS,
+  parseBYWEEKNO,
+  parseBYYEARDAY,
   parseCOUNT,
   parseINTERVAL,
+  parseRSCALE,
+  parseSKIP,
   parseUNTIL,
   parseWKST,
+  parseXBYDAYOFFISCALPERIOD,
+  parseXBYEASTER,
+  parseXBYFISCALPERIOD,
+  parseXBYLUNARPHASE,
+  parseXBYQUARTER,
+  parseXBYSOLAREVENT,
+  parseXBYTIMEOFDAY,
+  parseXEASTERCALENDAR,
+  parseXFISCALCALENDAR,
+  parseXFISCALYEARSTART,
+  parseXLUNARPHASETIME,
+  parseXSOLARLOCATION,
 } from '../src/parser';
 
 import { VEvent } from '@rschedule/ical-tools';
@@ -342,6 +359,34 @@ export default function icalTests() {
           });
         });
 
+        describe('parseBYYEARDAY()', () => {
+          describe('VALID', () => {
+            test(3, text => {
+              expect(parseBYYEARDAY(text)).toEqual([3]);
+            });
+
+            test([3, -4, 366, -366], text => {
+              expect(parseBYYEARDAY(text)).toEqual([3, -4, 366, -366]);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('SECONDL', text => {
+              expect(() => parseBYYEARDAY(text as any)).toThrowError(
+                `Invalid BYYEARDAY value "${text}"`,
+              );
+            });
+
+            test([1, 3, 4, 'a'], text => {
+              expect(() => parseBYYEARDAY(text as any)).toThrowError(`Invalid BYYEARDAY value "a"`);
+            });
+
+            test([3, 4, -367, 7], text => {
+              expect(() => parseBYYEARDAY(text)).toThrowError(`Invalid BYYEARDAY value "-367"`);
+            });
+          });
+        });
+
         describe('parseBYMONTH()', () => {
           describe('VALID', () => {
             test(3, text => {
@@ -351,6 +396,10 @@ export default function icalTests() {
             test([3, 4, 12, 7], text => {
               expect(parseBYMONTH(text)).toEqual([3, 4, 12, 7]);
             });
+
+            test(['5L', 6], text => {
+              expect(parseBYMONTH(text)).toEqual(['5L', 6]);
+            });
           });
 
           describe('INVALID', () => {
@@ -363,6 +412,368 @@ export default function icalTests() {
             test([1, 3, 4, 'a'], text => {
               expect(() => parseBYMONTH(text as any)).toThrowError(`Invalid BYMONTH value "a"`);
             });
+
+            test(['13L'], text => {
+              expect(() => parseBYMONTH(text as any)).toThrowError(`Invalid BYMONTH value "13L"`);
+            });
+          });
+        });
+
+        describe('parseBYWEEKNO()', () => {
+          describe('VALID', () => {
+            test(3, text => {
+              expect(parseBYWEEKNO(text)).toEqual([3]);
+            });
+
+            test([3, -1, 53, -53], text => {
+              expect(parseBYWEEKNO(text)).toEqual([3, -1, 53, -53]);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('SECONDL', text => {
+              expect(() => parseBYWEEKNO(text as any)).toThrowError(
+                `Invalid BYWEEKNO value "${text}"`,
+              );
+            });
+
+            test([1, 0, 4], text => {
+              expect(() => parseBYWEEKNO(text)).toThrowError(`Invalid BYWEEKNO value "0"`);
+            });
+
+            test([3, 4, 54], text => {
+              expect(() => parseBYWEEKNO(text)).toThrowError(`Invalid BYWEEKNO value "54"`);
+            });
+          });
+        });
+
+        describe('parseBYSETPOS()', () => {
+          describe('VALID', () => {
+            test(3, text => {
+              expect(parseBYSETPOS(text)).toEqual([3]);
+            });
+
+            test([3, -1, 366, -366], text => {
+              expect(parseBYSETPOS(text)).toEqual([3, -1, 366, -366]);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('SECONDL', text => {
+              expect(() => parseBYSETPOS(text as any)).toThrowError(
+                `Invalid BYSETPOS value "${text}"`,
+              );
+            });
+
+            test([1, 0, 4], text => {
+              expect(() => parseBYSETPOS(text)).toThrowError(`Invalid BYSETPOS value "0"`);
+            });
+
+            test([3, 4, 367], text => {
+              expect(() => parseBYSETPOS(text)).toThrowError(`Invalid BYSETPOS value "367"`);
+            });
+          });
+        });
+
+        describe('parseSKIP()', () => {
+          describe('VALID', () => {
+            test('OMIT', text => {
+              expect(parseSKIP(text)).toBe('OMIT');
+            });
+
+            test('BACKWARD', text => {
+              expect(parseSKIP(text)).toBe('BACKWARD');
+            });
+
+            test('FORWARD', text => {
+              expect(parseSKIP(text)).toBe('FORWARD');
+            });
+          });
+
+          describe('INVALID', () => {
+            test('BACKWARDS', text => {
+              expect(() => parseSKIP(text)).toThrowError(`Invalid SKIP value "${text}"`);
+            });
+
+            test(1, text => {
+              expect(() => parseSKIP(text as any)).toThrowError(`Invalid SKIP value "${text}"`);
+            });
+          });
+        });
+
+        describe('parseRSCALE()', () => {
+          describe('VALID', () => {
+            test('HEBREW', text => {
+              expect(parseRSCALE(text)).toBe('HEBREW');
+            });
+
+            test('islamic-civil', text => {
+              expect(parseRSCALE(text)).toBe('ISLAMIC-CIVIL');
+            });
+          });
+
+          describe('INVALID', () => {
+            test('ETHIOPIC', text => {
+              expect(() => parseRSCALE(text)).toThrowError(`Unsupported RSCALE value "${text}"`);
+            });
+          });
+        });
+
+        describe('parseXBYEASTER()', () => {
+          describe('VALID', () => {
+            test('0', text => {
+              expect(parseXBYEASTER(text)).toEqual([0]);
+            });
+
+            test('-2,1', text => {
+              expect(parseXBYEASTER(text)).toEqual([-2, 1]);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('1.5', text => {
+              expect(() => parseXBYEASTER(text)).toThrowError(`Invalid X-BYEASTER value "${text}"`);
+            });
+
+            test('367', text => {
+              expect(() => parseXBYEASTER(text)).toThrowError(`Invalid X-BYEASTER value "${text}"`);
+            });
+          });
+        });
+
+        describe('parseXEASTERCALENDAR()', () => {
+          describe('VALID', () => {
+            test('orthodox', text => {
+              expect(parseXEASTERCALENDAR(text)).toBe('ORTHODOX');
+            });
+          });
+
+          describe('INVALID', () => {
+            test('COPTIC', text => {
+              expect(() => parseXEASTERCALENDAR(text)).toThrowError(
+                `Invalid X-EASTERCALENDAR value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXBYQUARTER()', () => {
+          describe('VALID', () => {
+            test('2', text => {
+              expect(parseXBYQUARTER(text)).toEqual([2]);
+            });
+
+            test('1,4', text => {
+              expect(parseXBYQUARTER(text)).toEqual([1, 4]);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('5', text => {
+              expect(() => parseXBYQUARTER(text)).toThrowError(
+                `Invalid X-BYQUARTER value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXFISCALYEARSTART()', () => {
+          describe('VALID', () => {
+            test('4', text => {
+              expect(parseXFISCALYEARSTART(text)).toBe(4);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('13', text => {
+              expect(() => parseXFISCALYEARSTART(text)).toThrowError(
+                `Invalid X-FISCALYEARSTART value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXBYFISCALPERIOD()', () => {
+          describe('VALID', () => {
+            test('7', text => {
+              expect(parseXBYFISCALPERIOD(text)).toEqual([7]);
+            });
+
+            test('1,12', text => {
+              expect(parseXBYFISCALPERIOD(text)).toEqual([1, 12]);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('13', text => {
+              expect(() => parseXBYFISCALPERIOD(text)).toThrowError(
+                `Invalid X-BYFISCALPERIOD value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXBYDAYOFFISCALPERIOD()', () => {
+          describe('VALID', () => {
+            test('1,-1', text => {
+              expect(parseXBYDAYOFFISCALPERIOD(text)).toEqual([1, -1]);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('0', text => {
+              expect(() => parseXBYDAYOFFISCALPERIOD(text)).toThrowError(
+                `Invalid X-BYDAYOFFISCALPERIOD value "${text}"`,
+              );
+            });
+
+            test('43', text => {
+              expect(() => parseXBYDAYOFFISCALPERIOD(text)).toThrowError(
+                `Invalid X-BYDAYOFFISCALPERIOD value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXFISCALCALENDAR()', () => {
+          describe('VALID', () => {
+            test('4-5-4,NEAREST,1,SA', text => {
+              expect(parseXFISCALCALENDAR(text)).toEqual({
+                pattern: '4-5-4',
+                yearEnd: 'NEAREST',
+                yearEndMonth: 1,
+                yearEndWeekday: 'SA',
+              });
+            });
+          });
+
+          describe('INVALID', () => {
+            test('4-4-4,LAST,1,SA', text => {
+              expect(() => parseXFISCALCALENDAR(text)).toThrowError(
+                `Invalid X-FISCALCALENDAR value "${text}"`,
+              );
+            });
+
+            test('4-4-5,LAST,13,SA', text => {
+              expect(() => parseXFISCALCALENDAR(text)).toThrowError(
+                `Invalid X-FISCALCALENDAR value "${text}"`,
+              );
+            });
+
+            test('4-4-5,LAST,1', text => {
+              expect(() => parseXFISCALCALENDAR(text)).toThrowError(
+                `Invalid X-FISCALCALENDAR value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXBYTIMEOFDAY()', () => {
+          describe('VALID', () => {
+            test('0900-1730', text => {
+              expect(parseXBYTIMEOFDAY(text)).toEqual([['09:00', '17:30']]);
+            });
+
+            test('000000-083015,2000-2400', text => {
+              expect(parseXBYTIMEOFDAY(text)).toEqual([
+                ['00:00:00', '08:30:15'],
+                ['20:00', '24:00'],
+              ]);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('09:00-17:30', text => {
+              expect(() => parseXBYTIMEOFDAY(text)).toThrowError(
+                `Invalid X-BYTIMEOFDAY value "${text}"`,
+              );
+            });
+
+            test('0900-2430', text => {
+              expect(() => parseXBYTIMEOFDAY(text)).toThrowError(
+                `Invalid X-BYTIMEOFDAY value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXBYSOLAREVENT()', () => {
+          describe('VALID', () => {
+            test('SUNRISE,SUNSET+30,CIVIL_DUSK-15', text => {
+              expect(parseXBYSOLAREVENT(text)).toEqual([
+                'SUNRISE',
+                ['SUNSET', 30],
+                ['CIVIL_DUSK', -15],
+              ]);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('MOONRISE', text => {
+              expect(() => parseXBYSOLAREVENT(text)).toThrowError(
+                `Invalid X-BYSOLAREVENT value "${text}"`,
+              );
+            });
+
+            test('SUNSET+721', text => {
+              expect(() => parseXBYSOLAREVENT(text)).toThrowError(
+                `Invalid X-BYSOLAREVENT value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXSOLARLOCATION()', () => {
+          describe('VALID', () => {
+            test('40.7128,-74.006', text => {
+              expect(parseXSOLARLOCATION(text)).toEqual({ latitude: 40.7128, longitude: -74.006 });
+            });
+          });
+
+          describe('INVALID', () => {
+            test('91,0', text => {
+              expect(() => parseXSOLARLOCATION(text)).toThrowError(
+                `Invalid X-SOLARLOCATION value "${text}"`,
+              );
+            });
+
+            test('40.7128', text => {
+              expect(() => parseXSOLARLOCATION(text)).toThrowError(
+                `Invalid X-SOLARLOCATION value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXBYLUNARPHASE()', () => {
+          describe('VALID', () => {
+            test('NEW_MOON,FULL_MOON', text => {
+              expect(parseXBYLUNARPHASE(text)).toEqual(['NEW_MOON', 'FULL_MOON']);
+            });
+          });
+
+          describe('INVALID', () => {
+            test('BLUE_MOON', text => {
+              expect(() => parseXBYLUNARPHASE(text)).toThrowError(
+                `Invalid X-BYLUNARPHASE value "${text}"`,
+              );
+            });
+          });
+        });
+
+        describe('parseXLUNARPHASETIME()', () => {
+          describe('VALID', () => {
+            test('EXACT', text => {
+              expect(parseXLUNARPHASETIME(text)).toBe('EXACT');
+            });
+          });
+
+          describe('INVALID', () => {
+            test('HOUR', text => {
+              expect(() => parseXLUNARPHASETIME(text)).toThrowError(
+                `Invalid X-LUNARPHASETIME value "${text}"`,
+              );
+            });
           });
         });
 
@@ -764,6 +1175,289 @@ export default function icalTests() {
             expect(serialized).toBe(icalLocal);
           });
 
+          const icalBySetPosition = [
+            'BEGIN:VEVENT',
+            'DTSTART:20101010T000000',
+            'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('BYSETPOS', () => {
+            const parsed = VEvent.fromICal(icalBySetPosition)[0] as VEvent;
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalBySetPosition);
+          });
+
+          const icalByWeekNo = [
+            'BEGIN:VEVENT',
+            'DTSTART:20101010T000000',
+            'RRULE:FREQ=YEARLY;BYDAY=MO;BYWEEKNO=1,-1',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('BYWEEKNO', () => {
+            const parsed = VEvent.fromICal(icalByWeekNo)[0] as VEvent;
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalByWeekNo);
+          });
+
+          const icalByYearDay = [
+            'BEGIN:VEVENT',
+            'DTSTART:20101010T000000',
+            'RRULE:FREQ=YEARLY;BYYEARDAY=1,100,-1',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('BYYEARDAY', () => {
+            const parsed = VEvent.fromICal(icalByYearDay)[0] as VEvent;
+
+            expect(parsed.rrules[0].options.byDayOfYear).toEqual([1, 100, -1]);
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalByYearDay);
+          });
+
+          const icalSkip = [
+            'BEGIN:VEVENT',
+            'DTSTART:20100131T000000',
+            'RRULE:FREQ=MONTHLY;BYMONTHDAY=31;SKIP=BACKWARD',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('SKIP', () => {
+            const parsed = VEvent.fromICal(icalSkip)[0] as VEvent;
+
+            expect(parsed.rrules[0].options.skip).toBe('BACKWARD');
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalSkip);
+          });
+
+          const icalRScale = [
+            'BEGIN:VEVENT',
+            'DTSTART:20140208T090000',
+            'RRULE:RSCALE=HEBREW;FREQ=YEARLY;BYMONTHDAY=8;BYMONTH=5L;SKIP=FORWARD',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('RSCALE', () => {
+            const parsed = VEvent.fromICal(icalRScale)[0] as VEvent;
+
+            expect(parsed.rrules[0].options.rscale).toBe('HEBREW');
+            expect(parsed.rrules[0].options.byMonthOfYear).toEqual(['5L']);
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalRScale);
+          });
+
+          const icalEaster = [
+            'BEGIN:VEVENT',
+            'DTSTART:20240503T090000',
+            'RRULE:FREQ=YEARLY;X-BYEASTER=-2,1;X-EASTERCALENDAR=ORTHODOX',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('X-BYEASTER', () => {
+            const parsed = VEvent.fromICal(icalEaster)[0] as VEvent;
+
+            expect(parsed.rrules[0].options.byEaster).toEqual([-2, 1]);
+            expect(parsed.rrules[0].options.easterCalendar).toBe('ORTHODOX');
+            expect(
+              parsed
+                .occurrences({ take: 2 })
+                .toArray()
+                .map(date => date.toISOString()),
+            ).toEqual([
+              dateAdapter(2024, 5, 3, 9, 0, 0, { timezone: null }).toISOString(),
+              dateAdapter(2024, 5, 6, 9, 0, 0, { timezone: null }).toISOString(),
+            ]);
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalEaster);
+          });
+
+          const icalQuarter = [
+            'BEGIN:VEVENT',
+            'DTSTART:20240701T090000',
+            'RRULE:FREQ=YEARLY;BYDAY=1MO;X-BYQUARTER=2;X-FISCALYEARSTART=4',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('X-BYQUARTER', () => {
+            const parsed = VEvent.fromICal(icalQuarter)[0] as VEvent;
+
+            expect(parsed.rrules[0].options.byQuarterOfYear).toEqual([2]);
+            expect(parsed.rrules[0].options.fiscalYearStart).toBe(4);
+            expect(
+              parsed
+                .occurrences({ take: 2 })
+                .toArray()
+                .map(date => date.toISOString()),
+            ).toEqual([
+              dateAdapter(2024, 7, 1, 9, 0, 0, { timezone: null }).toISOString(),
+              dateAdapter(2025, 7, 7, 9, 0, 0, { timezone: null }).toISOString(),
+            ]);
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalQuarter);
+          });
+
+          const icalFiscalPeriod = [
+            'BEGIN:VEVENT',
+            'DTSTART:20230826T090000',
+            // lines longer than 75 characters are folded
+            'RRULE:FREQ=YEARLY;X-BYFISCALPERIOD=7;X-BYDAYOFFISCALPERIOD=-1;X-FISCALCALEN',
+            ' DAR=4-5-4,NEAREST,1,SA',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('X-BYFISCALPERIOD', () => {
+            const parsed = VEvent.fromICal(icalFiscalPeriod)[0] as VEvent;
+
+            expect(parsed.rrules[0].options.fiscalCalendar).toEqual({
+              pattern: '4-5-4',
+              yearEnd: 'NEAREST',
+              yearEndMonth: 1,
+              yearEndWeekday: 'SA',
+            });
+            expect(
+              parsed
+                .occurrences({ take: 3 })
+                .toArray()
+                .map(date => date.toISOString()),
+            ).toEqual([
+              dateAdapter(2023, 8, 26, 9, 0, 0, { timezone: null }).toISOString(),
+              dateAdapter(2024, 8, 31, 9, 0, 0, { timezone: null }).toISOString(),
+              dateAdapter(2025, 8, 30, 9, 0, 0, { timezone: null }).toISOString(),
+            ]);
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalFiscalPeriod);
+          });
+
+          const icalTimeOfDay = [
+            'BEGIN:VEVENT',
+            'DTSTART:20240101T090000',
+            'RRULE:FREQ=HOURLY;X-BYTIMEOFDAY=0900-1130,1300-1400',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('X-BYTIMEOFDAY', () => {
+            const parsed = VEvent.fromICal(icalTimeOfDay)[0] as VEvent;
+
+            expect(parsed.rrules[0].options.byTimeOfDay).toEqual([
+              ['09:00', '11:30'],
+              ['13:00', '14:00'],
+            ]);
+            expect(
+              parsed
+                .occurrences({ take: 5 })
+                .toArray()
+                .map(date => date.toISOString()),
+            ).toEqual([
+              dateAdapter(2024, 1, 1, 9, 0, 0, { timezone: null }).toISOString(),
+              dateAdapter(2024, 1, 1, 10, 0, 0, { timezone: null }).toISOString(),
+              dateAdapter(2024, 1, 1, 11, 0, 0, { timezone: null }).toISOString(),
+              dateAdapter(2024, 1, 1, 13, 0, 0, { timezone: null }).toISOString(),
+              dateAdapter(2024, 1, 2, 9, 0, 0, { timezone: null }).toISOString(),
+            ]);
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalTimeOfDay);
+          });
+
+          const icalSolarEvent = [
+            'BEGIN:VEVENT',
+            'DTSTART:20240621T034300Z',
+            'RRULE:FREQ=DAILY;X-BYSOLAREVENT=SUNRISE,SUNSET+30;X-SOLARLOCATION=51.4769,-',
+            ' 0.0005',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('X-BYSOLAREVENT', () => {
+            const parsed = VEvent.fromICal(icalSolarEvent)[0] as VEvent;
+
+            expect(parsed.rrules[0].options.bySolarEvent).toEqual(['SUNRISE', ['SUNSET', 30]]);
+            expect(parsed.rrules[0].options.solarLocation).toEqual({
+              latitude: 51.4769,
+              longitude: -0.0005,
+            });
+            expect(
+              parsed
+                .occurrences({ take: 3 })
+                .toArray()
+                .map(date => date.toISOString()),
+            ).toEqual([
+              dateAdapter(2024, 6, 21, 3, 43, 0, { timezone: 'UTC' }).toISOString(),
+              dateAdapter(2024, 6, 21, 20, 51, 0, { timezone: 'UTC' }).toISOString(),
+              dateAdapter(2024, 6, 22, 3, 43, 0, { timezone: 'UTC' }).toISOString(),
+            ]);
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalSolarEvent);
+          });
+
+          const icalLunarPhase = [
+            'BEGIN:VEVENT',
+            'DTSTART:20240325T070100Z',
+            'RRULE:FREQ=MONTHLY;X-BYLUNARPHASE=FULL_MOON;X-LUNARPHASETIME=EXACT',
+            'END:VEVENT',
+          ]
+            .join('\n')
+            .concat('\n');
+
+          it('X-BYLUNARPHASE', () => {
+            const parsed = VEvent.fromICal(icalLunarPhase)[0] as VEvent;
+
+            expect(parsed.rrules[0].options.byLunarPhase).toEqual(['FULL_MOON']);
+            expect(parsed.rrules[0].options.lunarPhaseTime).toBe('EXACT');
+            expect(
+              parsed
+                .occurrences({ take: 2 })
+                .toArray()
+                .map(date => date.toISOString()),
+            ).toEqual([
+              dateAdapter(2024, 3, 25, 7, 1, 0, { timezone: 'UTC' }).toISOString(),
+              dateAdapter(2024, 4, 23, 23, 50, 0, { timezone: 'UTC' }).toISOString(),
+            ]);
+
+            const serialized = parsed.toICal();
+
+            expect(serialized).toBe(icalLunarPhase);
+          });
+
           const icalNewYork = [
             'BEGIN:VEVENT',
             'DTSTART;TZID=America/New_York:20101010T000000',
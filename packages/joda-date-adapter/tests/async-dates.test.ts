@@ -0,0 +1,5 @@
+import '@js-joda/timezone';
+import '@rschedule/joda-date-adapter/setup';
+import tests from '../../core/src/generators/async-dates-test-setup';
+
+tests();
@@ -0,0 +1,5 @@
+import '@js-joda/timezone';
+import '@rschedule/joda-date-adapter/setup';
+import tests from '../../text-tools/tests/text-tools-test-setup';
+
+tests();
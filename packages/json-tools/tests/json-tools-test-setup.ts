@@ -586,6 +586,121 @@ export default function jsonToolsTests() {
             });
           });
 
+          test('rruleJSON w/ rscale', () => {
+            const json = {
+              ...rruleJSON3,
+              config: {
+                ...rruleJSON3.config,
+                frequency: 'YEARLY' as const,
+                byMonthOfYear: ['5L' as const],
+                byDayOfMonth: [8],
+                skip: 'FORWARD' as const,
+                rscale: 'HEBREW' as const,
+              },
+            };
+
+            const rrule = OccurrenceGenerator.fromJSON(json) as Rule;
+            expect(rrule).toBeInstanceOf(Rule);
+            expect(rrule.options.rscale).toBe('HEBREW');
+            expect(rrule.options.byMonthOfYear).toEqual(['5L']);
+            expect(rrule.toJSON()).toEqual(json);
+          });
+
+          test('rruleJSON w/ byEaster', () => {
+            const json = {
+              ...rruleJSON3,
+              config: {
+                ...rruleJSON3.config,
+                frequency: 'YEARLY' as const,
+                byEaster: [-2, 1],
+                easterCalendar: 'ORTHODOX' as const,
+              },
+            };
+
+            const rrule = OccurrenceGenerator.fromJSON(json) as Rule;
+            expect(rrule).toBeInstanceOf(Rule);
+            expect(rrule.options.byEaster).toEqual([-2, 1]);
+            expect(rrule.options.easterCalendar).toBe('ORTHODOX');
+            expect(rrule.toJSON()).toEqual(json);
+          });
+
+          test('rruleJSON w/ byFiscalPeriod', () => {
+            const json = {
+              ...rruleJSON3,
+              config: {
+                ...rruleJSON3.config,
+                frequency: 'YEARLY' as const,
+                byFiscalPeriod: [7 as const],
+                byDayOfFiscalPeriod: [-1],
+                fiscalCalendar: {
+                  pattern: '4-4-5' as const,
+                  yearEnd: 'LAST' as const,
+                  yearEndMonth: 12 as const,
+                  yearEndWeekday: 'SA' as const,
+                },
+              },
+            };
+
+            const rrule = OccurrenceGenerator.fromJSON(json) as Rule;
+            expect(rrule).toBeInstanceOf(Rule);
+            expect(rrule.options.byFiscalPeriod).toEqual([7]);
+            expect(rrule.options.fiscalCalendar).toEqual(json.config.fiscalCalendar);
+            expect(rrule.toJSON()).toEqual(json);
+          });
+
+          test('rruleJSON w/ byLunarPhase', () => {
+            const json = {
+              ...rruleJSON3,
+              config: {
+                ...rruleJSON3.config,
+                frequency: 'DAILY' as const,
+                byLunarPhase: ['FULL_MOON' as const],
+                lunarPhaseTime: 'EXACT' as const,
+              },
+            };
+
+            const rrule = OccurrenceGenerator.fromJSON(json) as Rule;
+            expect(rrule).toBeInstanceOf(Rule);
+            expect(rrule.options.byLunarPhase).toEqual(['FULL_MOON']);
+            expect(rrule.options.lunarPhaseTime).toBe('EXACT');
+            expect(rrule.toJSON()).toEqual(json);
+          });
+
+          test('rruleJSON w/ byTimeOfDay', () => {
+            const json = {
+              ...rruleJSON3,
+              config: {
+                ...rruleJSON3.config,
+                frequency: 'MINUTELY' as const,
+                interval: 15,
+                byTimeOfDay: [['09:00', '17:30'] as [string, string]],
+              },
+            };
+
+            const rrule = OccurrenceGenerator.fromJSON(json) as Rule;
+            expect(rrule).toBeInstanceOf(Rule);
+            expect(rrule.options.byTimeOfDay).toEqual([['09:00', '17:30']]);
+            expect(rrule.toJSON()).toEqual(json);
+          });
+
+          test('rruleJSON w/ bySolarEvent', () => {
+            const json = {
+              ...rruleJSON3,
+              config: {
+                ...rruleJSON3.config,
+                frequency: 'DAILY' as const,
+                bySolarEvent: ['SUNRISE' as const, ['SUNSET', 30] as ['SUNSET', number]],
+                solarLocation: { latitude: 51.4769, longitude: -0.0005 },
+              },
+            };
+
+            const rrule = OccurrenceGenerator.fromJSON(json) as Rule;
+            expect(rrule).toBeInstanceOf(Rule);
+            expect(rrule.options.bySolarEvent).toEqual(['SUNRISE', ['SUNSET', 30]]);
+            expect(rrule.options.solarLocation).toEqual(json.config.solarLocation);
+            expect(rrule.toJSON()).toEqual(json);
+          });
+
           test('rdatesJSON', () => {
             expect(rdates.toJSON()).toEqual(rdatesJSON);
           });
@@ -655,6 +770,55 @@ export default function jsonToolsTests() {
             expect(rrule.toJSON({ data: true })).toEqual(rruleJSON4Data);
           });
 
+          test('rruleJSON w/ bySetPosition', () => {
+            const json = {
+              ...rruleJSON2,
+              config: {
+                ...rruleJSON2.config,
+                byDayOfWeek: ['MO', 'TU', 'WE', 'TH', 'FR'],
+                bySetPosition: [-1],
+              },
+            };
+
+            const rrule = OccurrenceGenerator.fromJSON(json) as Rule;
+            expect(rrule).toBeInstanceOf(Rule);
+            expect(rrule.options.bySetPosition).toEqual([-1]);
+            expect(rrule.toJSON()).toEqual(json);
+          });
+
+          test('rruleJSON w/ byWeekOfYear', () => {
+            const json = {
+              ...rruleJSON3,
+              config: {
+                ...rruleJSON3.config,
+                frequency: 'YEARLY' as const,
+                byWeekOfYear: [1, -1],
+              },
+            };
+
+            const rrule = OccurrenceGenerator.fromJSON(json) as Rule;
+            expect(rrule).toBeInstanceOf(Rule);
+            expect(rrule.options.byWeekOfYear).toEqual([1, -1]);
+            expect(rrule.toJSON()).toEqual(json);
+          });
+
+          test('rruleJSON w/ skip', () => {
+            const json = {
+              ...rruleJSON3,
+              config: {
+                ...rruleJSON3.config,
+                frequency: 'MONTHLY' as const,
+                byDayOfMonth: [31],
+                skip: 'FORWARD' as const,
+              },
+            };
+
+            const rrule = OccurrenceGenerator.fromJSON(json) as Rule;
+            expect(rrule).toBeInstanceOf(Rule);
+            expect(rrule.options.skip).toBe('FORWARD');
+            expect(rrule.toJSON()).toEqual(json);
+          });
+
           test('rdatesJSON', () => {
             const rdates = OccurrenceGenerator.fromJSON(rdatesJSON) as Dates;
             expect(rdates instanceof Dates).toBeTruthy();
@@ -0,0 +1,4 @@
+import '@rschedule/luxon-date-adapter/setup';
+import tests from '../../core/src/generators/async-dates-test-setup';
+
+tests();
@@ -0,0 +1,4 @@
+import '@rschedule/moment-date-adapter/setup';
+import tests from '../../core/src/generators/diff-occurrences-test-setup';
+
+tests();
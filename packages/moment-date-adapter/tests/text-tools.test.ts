@@ -0,0 +1,4 @@
+import '@rschedule/moment-date-adapter/setup';
+import tests from '../../text-tools/tests/text-tools-test-setup';
+
+tests();
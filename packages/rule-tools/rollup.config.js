@@ -14,6 +14,9 @@ export default [
       '@rschedule/core/generators',
       '@rschedule/core/rules/ByDayOfMonth',
       '@rschedule/core/rules/ByDayOfWeek',
+      '@rschedule/core/rules/ByHourOfDay',
+      '@rschedule/core/rules/ByMinuteOfHour',
+      '@rschedule/core/rules/ByMonthOfYear',
     ],
     plugins: [
       typescript({
@@ -32,6 +35,9 @@ export default [
         '@rschedule/core/generators': 'rScheduleGenerators',
         '@rschedule/core/rules/ByDayOfMonth': 'rScheduleRules',
         '@rschedule/core/rules/ByDayOfWeek': 'rScheduleRules',
+        '@rschedule/core/rules/ByHourOfDay': 'rScheduleRules',
+        '@rschedule/core/rules/ByMinuteOfHour': 'rScheduleRules',
+        '@rschedule/core/rules/ByMonthOfYear': 'rScheduleRules',
       },
     },
     external: [
@@ -39,6 +45,9 @@ export default [
       '@rschedule/core/generators',
       '@rschedule/core/rules/ByDayOfMonth',
       '@rschedule/core/rules/ByDayOfWeek',
+      '@rschedule/core/rules/ByHourOfDay',
+      '@rschedule/core/rules/ByMinuteOfHour',
+      '@rschedule/core/rules/ByMonthOfYear',
     ],
     plugins: [typescript()],
   },
@@ -1,2 +1,4 @@
+export * from './infer-rule';
+export * from './parse-rule-text';
 export * from './rule';
 export * from './schedule';
@@ -0,0 +1,349 @@
+import {
+  ArgumentError,
+  DateAdapter,
+  DateInput,
+  dateInputToDateAdapter,
+  DateTime,
+  IRuleOptions,
+  RuleOption,
+} from '@rschedule/core';
+import { Rule, Schedule } from '@rschedule/core/generators';
+
+import '@rschedule/core/rules/ByDayOfMonth';
+import '@rschedule/core/rules/ByDayOfWeek';
+import '@rschedule/core/rules/ByHourOfDay';
+import '@rschedule/core/rules/ByMinuteOfHour';
+import '@rschedule/core/rules/ByMonthOfYear';
+
+export interface IInferRuleArgs {
+  /** The timezone of the suggested schedule. Defaults to the timezone of the first date. */
+  timezone?: string | null;
+  /**
+   * The maximum number of rdates + exdates the suggested schedule may contain.
+   * Defaults to a quarter of the (unique) provided dates.
+   */
+  maxExceptions?: number;
+}
+
+export interface IInferredRule {
+  /** The simplest rule options matching the provided dates or `null` if none were found */
+  rule: IRuleOptions | null;
+  /** The provided dates which aren't matched by `rule` */
+  rdates: DateAdapter[];
+  /** The occurrences of `rule` which aren't one of the provided dates */
+  exdates: DateAdapter[];
+  /**
+   * A number between `0` and `1`. The fraction of the provided dates and the occurrences of
+   * `rule` (together) which are both a provided date and an occurrence of `rule` (i.e. their
+   * Jaccard index), not counting the first two matched dates. Any two dates are matched by
+   * some rule, so those dates don't show that `rule` fits.
+   */
+  confidence: number;
+  /** A schedule containing `rule`, `rdates` and `exdates` */
+  schedule: Schedule;
+}
+
+interface IRuleCandidateResult {
+  rule: IRuleOptions;
+  rdates: DateAdapter[];
+  exdates: DateAdapter[];
+  complexity: number;
+}
+
+type DayOptions = Pick<
+  IRuleOptions,
+  'frequency' | 'byDayOfMonth' | 'byDayOfWeek' | 'byMonthOfYear'
+>;
+
+type TimeOptions = Pick<IRuleOptions, 'byHourOfDay' | 'byMinuteOfHour'>;
+
+/**
+ * Searches the ICAL rule space for the simplest rule matching the provided dates.
+ * The rule starts on the first date and ends on the last date. Each rule option value
+ * and each rdate or exdate counts as one value of the suggested schedule, and the rule
+ * whose schedule has the fewest values is chosen (of those, the rule which requires
+ * the fewest rdates and exdates). This way, a rule isn't given extra rule option values
+ * to avoid fewer exceptions (e.g. weekly mondays with one week missing are a `WEEKLY`
+ * rule with an exdate rather than a `MONTHLY` rule on the 1st, 2nd and 4th mondays).
+ *
+ * Dates which the rule doesn't match are returned as `rdates` and occurrences of the
+ * rule which aren't one of the provided dates are returned as `exdates`. Rules
+ * requiring more than `maxExceptions` rdates + exdates are ignored.
+ *
+ * _Note: the suggested rule is built using `Rule.recurrenceRules`, which must include
+ * the `ICAL_RULES`._
+ */
+export function inferRule(
+  dates: ReadonlyArray<DateInput>,
+  args: IInferRuleArgs = {},
+): IInferredRule {
+  const adapters = normalizeDates(dates, args.timezone);
+
+  if (adapters.length === 0) {
+    throw new ArgumentError('inferRule() must be provided at least one date');
+  }
+
+  const timezone = args.timezone !== undefined ? args.timezone : adapters[0].timezone;
+
+  const maxExceptions =
+    args.maxExceptions !== undefined ? args.maxExceptions : Math.floor(adapters.length / 4);
+
+  let best: IRuleCandidateResult | undefined;
+
+  if (adapters.length > 1) {
+    for (const options of buildCandidates(adapters)) {
+      const result = testCandidate(options, adapters, timezone, maxExceptions);
+
+      if (
+        result &&
+        (!best ||
+          cost(result) < cost(best) ||
+          (cost(result) === cost(best) && exceptionCount(result) < exceptionCount(best)))
+      ) {
+        best = result;
+      }
+    }
+  }
+
+  if (!best) {
+    return {
+      rule: null,
+      rdates: adapters,
+      exdates: [],
+      confidence: 0,
+      schedule: new Schedule({ timezone, rdates: adapters }),
+    };
+  }
+
+  // the first two matched dates only determine the rule's start and interval
+  const matched = adapters.length - best.rdates.length - 2;
+  const total = adapters.length + best.exdates.length - 2;
+
+  return {
+    rule: best.rule,
+    rdates: best.rdates,
+    exdates: best.exdates,
+    confidence: matched > 0 ? matched / total : 0,
+    schedule: new Schedule({
+      timezone,
+      rrules: [best.rule],
+      rdates: best.rdates,
+      exdates: best.exdates,
+    }),
+  };
+}
+
+/** Converts the dates to DateAdapters in the provided timezone, sorted and deduped */
+function normalizeDates(dates: ReadonlyArray<DateInput>, timezone?: string | null) {
+  const times = new Set<number>();
+
+  return dates
+    .map(date => {
+      const adapter = dateInputToDateAdapter(date);
+      return timezone !== undefined ? adapter.set('timezone', timezone) : adapter;
+    })
+    .sort((a, b) => a.valueOf() - b.valueOf())
+    .filter(adapter => {
+      if (times.has(adapter.valueOf())) return false;
+      times.add(adapter.valueOf());
+      return true;
+    });
+}
+
+function exceptionCount(result: IRuleCandidateResult) {
+  return result.rdates.length + result.exdates.length;
+}
+
+/** The number of rule option values, rdates and exdates of the candidate's schedule */
+function cost(result: IRuleCandidateResult) {
+  return result.complexity + exceptionCount(result);
+}
+
+function testCandidate(
+  options: IRuleOptions,
+  adapters: DateAdapter[],
+  timezone: string | null,
+  maxExceptions: number,
+): IRuleCandidateResult | undefined {
+  const rule = new Rule(options, { timezone });
+
+  const occurrences = rule.occurrences({ take: adapters.length + maxExceptions + 1 }).toArray();
+
+  if (occurrences.length > adapters.length + maxExceptions) return;
+
+  const times = new Set(adapters.map(adapter => adapter.valueOf()));
+  const occurrenceTimes = new Set(occurrences.map(occurrence => occurrence.valueOf()));
+
+  const result = {
+    rule: rule.canonicalOptions(),
+    rdates: adapters.filter(adapter => !occurrenceTimes.has(adapter.valueOf())),
+    exdates: occurrences.filter(occurrence => !times.has(occurrence.valueOf())),
+    complexity: 0,
+  };
+
+  if (exceptionCount(result) > maxExceptions || result.rdates.length === adapters.length) {
+    return;
+  }
+
+  result.complexity = Object.values(result.rule).reduce(
+    (sum: number, value) => sum + (Array.isArray(value) ? value.length : 1),
+    0,
+  );
+
+  return result;
+}
+
+/** Builds the rule options which might match the provided (sorted) dates */
+function buildCandidates(adapters: DateAdapter[]): IRuleOptions[] {
+  const datetimes = adapters.map(adapter => adapter.toDateTime());
+  const first = datetimes[0];
+
+  const base = { start: adapters[0], end: adapters[adapters.length - 1] };
+
+  const candidates: IRuleOptions[] = [];
+
+  const days = unique(datetimes.map(date => date.get('day')));
+  const months = unique(datetimes.map(date => date.get('month')));
+  const weekdays = unique(datetimes.map(date => date.get('weekday')));
+
+  const nthWeekdays = uniqueJSON(
+    datetimes.map(
+      date => [date.get('weekday'), Math.ceil(date.get('day') / 7)] as RuleOption.ByDayOfWeek,
+    ),
+  );
+
+  const lastWeekdays = uniqueJSON(
+    datetimes.map(date => [date.get('weekday'), -1] as RuleOption.ByDayOfWeek),
+  );
+
+  // options without `by*` values match the dates using the values implied by `start`
+  const patterns: Array<{ diffs: number[]; options: DayOptions[] }> = [
+    {
+      diffs: datetimes.map(date => dayDiff(first, date)),
+      options: [{ frequency: 'DAILY' }],
+    },
+    {
+      diffs: datetimes.map(date => weekDiff(first, date)),
+      options: [{ frequency: 'WEEKLY' }, { frequency: 'WEEKLY', byDayOfWeek: weekdays }],
+    },
+    {
+      diffs: datetimes.map(date => monthDiff(first, date)),
+      options: [
+        { frequency: 'MONTHLY' },
+        { frequency: 'MONTHLY', byDayOfMonth: days },
+        { frequency: 'MONTHLY', byDayOfWeek: nthWeekdays },
+        { frequency: 'MONTHLY', byDayOfWeek: lastWeekdays },
+      ],
+    },
+    {
+      diffs: datetimes.map(date => date.get('year') - first.get('year')),
+      options: [
+        { frequency: 'YEARLY' },
+        { frequency: 'YEARLY', byMonthOfYear: months, byDayOfMonth: days },
+      ],
+    },
+  ];
+
+  const timeOptions = buildTimeOptions(datetimes);
+
+  patterns.forEach(pattern => {
+    intervals(pattern.diffs).forEach(interval => {
+      pattern.options.forEach(options => {
+        timeOptions.forEach(time => {
+          candidates.push({ ...base, ...time, ...options, interval });
+        });
+      });
+    });
+  });
+
+  const minutes = datetimes.map(
+    date => (date.valueOf() - first.valueOf()) / DateAdapter.MILLISECONDS_IN_MINUTE,
+  );
+
+  if (minutes.every(Number.isInteger)) {
+    const interval = greatestCommonDivisor(minutes);
+
+    if (interval > 0 && interval % 60 === 0) {
+      candidates.push({ ...base, frequency: 'HOURLY', interval: interval / 60 });
+    } else if (interval > 0) {
+      candidates.push({ ...base, frequency: 'MINUTELY', interval });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Returns the time options daily (or longer) candidates may use. Options without
+ * `byHourOfDay` and `byMinuteOfHour` use the time of day of `start`.
+ */
+function buildTimeOptions(datetimes: DateTime[]): TimeOptions[] {
+  const first = datetimes[0];
+
+  if (
+    datetimes.some(
+      date =>
+        date.get('second') !== first.get('second') ||
+        date.get('millisecond') !== first.get('millisecond'),
+    )
+  ) {
+    return [{}];
+  }
+
+  const options: TimeOptions = {};
+
+  if (datetimes.some(date => date.get('hour') !== first.get('hour'))) {
+    options.byHourOfDay = unique(datetimes.map(date => date.get('hour')));
+  }
+
+  if (datetimes.some(date => date.get('minute') !== first.get('minute'))) {
+    options.byMinuteOfHour = unique(datetimes.map(date => date.get('minute')));
+  }
+
+  return Object.keys(options).length === 0 ? [{}] : [{}, options];
+}
+
+/**
+ * Returns the greatest common divisor of the differences and `1`, which
+ * are the intervals a rule matching all the differences might have.
+ */
+function intervals(diffs: number[]) {
+  return unique([greatestCommonDivisor(diffs), 1].filter(interval => interval > 0));
+}
+
+function greatestCommonDivisor(numbers: number[]) {
+  return numbers.reduce((a, b) => {
+    while (b !== 0) {
+      [a, b] = [b, a % b];
+    }
+
+    return a;
+  }, 0);
+}
+
+function dayDiff(a: DateTime, b: DateTime) {
+  return Math.round(
+    (b.granularity('day').valueOf() - a.granularity('day').valueOf()) /
+      DateAdapter.MILLISECONDS_IN_DAY,
+  );
+}
+
+function weekDiff(a: DateTime, b: DateTime) {
+  return Math.round(
+    (b.granularity('week', { weekStart: 'MO' }).valueOf() -
+      a.granularity('week', { weekStart: 'MO' }).valueOf()) /
+      DateAdapter.MILLISECONDS_IN_WEEK,
+  );
+}
+
+function monthDiff(a: DateTime, b: DateTime) {
+  return (b.get('year') - a.get('year')) * 12 + b.get('month') - a.get('month');
+}
+
+function unique<T extends number | string>(values: T[]): T[] {
+  return Array.from(new Set(values)).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+function uniqueJSON<T>(values: T[]): T[] {
+  return unique(values.map(value => JSON.stringify(value))).map(json => JSON.parse(json));
+}
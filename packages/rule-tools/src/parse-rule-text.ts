@@ -0,0 +1,972 @@
+import {
+  DateAdapter,
+  DateAdapterBase,
+  DateInput,
+  dateInputToDateAdapter,
+  DateTime,
+  IRuleOptions,
+  RuleOption,
+} from '@rschedule/core';
+
+export interface IParsedRuleText {
+  /**
+   * The rule options which could be parsed from the text. `frequency` is missing if the
+   * text doesn't say how often the rule repeats. `start` is always present.
+   */
+  options: Partial<IRuleOptions>;
+  /** The words which couldn't be parsed, in order (an empty string if every word was parsed) */
+  remainder: string;
+  /** `true` if every word was parsed and `options` contains a `frequency` */
+  complete: boolean;
+}
+
+interface IParsedDate {
+  /** the start of the day / week / month / year the text refers to */
+  start: DateTime;
+  /** the end of the day / week / month / year the text refers to */
+  end: DateTime;
+}
+
+interface IParserState {
+  words: string[];
+  reference: DateTime;
+  options: Partial<IRuleOptions>;
+  /** `true` while the frequency is only implied (e.g. by "the last friday") */
+  impliedFrequency?: boolean;
+  start?: DateTime;
+  times?: IParsedTime[];
+  timeRange?: IParsedTimeRange;
+}
+
+interface IParsedTime {
+  hour: number;
+  minute: number;
+  /** the indices of the words the time was parsed from */
+  words: number[];
+}
+
+interface IParsedTimeRange {
+  /** the hour and minute of the start of the range */
+  from: [number, number];
+  /** the hour and minute of the end of the range */
+  to: [number, number];
+  /** the indices of the words the time range was parsed from */
+  words: number[];
+}
+
+/** A matcher returns the number of words it parsed (`0` if it didn't match) */
+type Matcher = (state: IParserState, i: number) => number;
+
+const WEEKDAY_NAMES: Array<[string, DateAdapter.Weekday]> = [
+  ['sunday', 'SU'],
+  ['monday', 'MO'],
+  ['tuesday', 'TU'],
+  ['wednesday', 'WE'],
+  ['thursday', 'TH'],
+  ['friday', 'FR'],
+  ['saturday', 'SA'],
+];
+
+const WEEKDAYS: DateAdapter.Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+const WEEKEND: DateAdapter.Weekday[] = ['SA', 'SU'];
+
+const MONTH_NAMES = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const UNITS: { [word: string]: RuleOption.Frequency } = {
+  minute: 'MINUTELY',
+  hour: 'HOURLY',
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  quarter: 'QUARTERLY',
+  year: 'YEARLY',
+};
+
+const ADVERBS: { [word: string]: [RuleOption.Frequency, number] } = {
+  hourly: ['HOURLY', 1],
+  daily: ['DAILY', 1],
+  weekly: ['WEEKLY', 1],
+  biweekly: ['WEEKLY', 2],
+  fortnightly: ['WEEKLY', 2],
+  monthly: ['MONTHLY', 1],
+  quarterly: ['QUARTERLY', 1],
+  yearly: ['YEARLY', 1],
+  annually: ['YEARLY', 1],
+};
+
+const NUMBERS: { [word: string]: number } = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+const ORDINALS: { [word: string]: number } = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  last: -1,
+};
+
+/** Words which are ignored when none of the matchers use them */
+const FILLER_WORDS = ['and', 'at', 'of', 'on', 'the'];
+
+/**
+ * Parses common English recurrence phrases (e.g. "every other Tuesday at 3pm starting
+ * next week" or "the last Friday of each month until December") into rule options.
+ * Relative dates ("tomorrow", "next week", "until December") are resolved against the
+ * `reference` date, in the `reference` date's timezone.
+ *
+ * Words which can't be parsed are returned as the `remainder`, so that the options which
+ * _could_ be parsed can be used while asking the user to clarify the rest.
+ *
+ * ```ts
+ * parseRuleText('the last friday of each month until december', new Date(2019, 9, 16));
+ * // {
+ * //   options: {
+ * //     frequency: 'MONTHLY',
+ * //     byDayOfWeek: [['FR', -1]],
+ * //     start: new Date(2019, 9, 16),
+ * //     end: new Date(2019, 11, 31, 23, 59, 59, 999),
+ * //   },
+ * //   remainder: '',
+ * //   complete: true,
+ * // }
+ * ```
+ *
+ * _Note: `start` defaults to the day of the `reference` date. When a single time of day is
+ * given it is used as the time of `start`. When multiple times are given, `byHourOfDay`
+ * (and, if needed, `byMinuteOfHour`) are added and `start` uses the first time. Because
+ * rules combine every `byHourOfDay` with every `byMinuteOfHour`, times which don't form a
+ * full grid of hours and minutes (e.g. "9:30am and 5pm") can't all be represented. The
+ * times which can't be represented are returned as part of the `remainder`. A range of times
+ * (e.g. "every hour from 9am to 5pm") adds a `byHourOfDay` for each hour of the range,
+ * including the last one, and can only be used with `HOURLY` rules._
+ */
+export function parseRuleText(text: string, reference: DateInput): IParsedRuleText {
+  const original = text.split(/[\s,]+/).filter(word => word.length > 0);
+
+  const state: IParserState = {
+    words: original.map(word => word.toLowerCase()),
+    reference: dateInputToDateAdapter(reference).toDateTime(),
+    options: {},
+  };
+
+  // the indices of the words which couldn't be parsed
+  const unparsed: number[] = [];
+
+  let i = 0;
+
+  while (i < state.words.length) {
+    let length = 0;
+
+    for (const matcher of MATCHERS) {
+      length = matcher(state, i);
+      if (length > 0) break;
+    }
+
+    if (length === 0) {
+      if (!FILLER_WORDS.includes(state.words[i])) {
+        unparsed.push(i);
+      }
+
+      length = 1;
+    }
+
+    i += length;
+  }
+
+  const options = buildOptions(state, unparsed);
+  const remainder = unparsed
+    .sort((a, b) => a - b)
+    .map(index => original[index])
+    .join(' ');
+
+  return {
+    options,
+    remainder,
+    complete: remainder === '' && options.frequency !== undefined,
+  };
+}
+
+/**
+ * Builds the rule options out of the parser state. The indices of the words of any
+ * times which can't be represented by the rule options are added to `unparsed`.
+ */
+function buildOptions(state: IParserState, unparsed: number[]) {
+  const options = { ...state.options };
+
+  let start = state.start || state.reference.granularity('day');
+
+  if (state.times) {
+    const times = selectTimeGrid(state.times);
+    const hours = unique(times.map(time => time.hour));
+    const minutes = unique(times.map(time => time.minute));
+
+    state.times.filter(time => !times.includes(time)).forEach(time => unparsed.push(...time.words));
+
+    start = start.set('hour', times[0].hour).set('minute', times[0].minute);
+
+    if (times.length > 1) {
+      options.byHourOfDay = hours as RuleOption.ByHourOfDay[];
+
+      if (minutes.length > 1) {
+        options.byMinuteOfHour = minutes as RuleOption.ByMinuteOfHour[];
+      }
+    }
+  }
+
+  if (state.timeRange && options.frequency !== 'HOURLY') {
+    unparsed.push(...state.timeRange.words);
+  } else if (state.timeRange) {
+    const [fromHour, fromMinute] = state.timeRange.from;
+    const [toHour, toMinute] = state.timeRange.to;
+    const interval = options.interval || 1;
+    const hours: number[] = [];
+
+    for (let hour = fromHour; hour * 60 + fromMinute <= toHour * 60 + toMinute; hour += interval) {
+      hours.push(hour);
+    }
+
+    start = start.set('hour', fromHour).set('minute', fromMinute);
+
+    options.byHourOfDay = hours as RuleOption.ByHourOfDay[];
+
+    // an hourly interval would select different hours each day (unless it divides a day)
+    if (interval !== 1) {
+      options.frequency = 'DAILY';
+      delete options.interval;
+    }
+  }
+
+  options.start = DateAdapterBase.adapter.fromDateTime(start);
+
+  return options;
+}
+
+/**
+ * Rules combine every `byHourOfDay` with every `byMinuteOfHour`, so multiple times can only
+ * be represented if they form a full grid of hours and minutes. Returns every time if they
+ * do. Otherwise returns the first time along with each following time which keeps the
+ * selected times a full grid.
+ */
+function selectTimeGrid(times: IParsedTime[]) {
+  if (isTimeGrid(times)) return times;
+
+  return times.reduce(
+    (selected, time) => (isTimeGrid([...selected, time]) ? [...selected, time] : selected),
+    [] as IParsedTime[],
+  );
+}
+
+function isTimeGrid(times: IParsedTime[]) {
+  const hours = unique(times.map(time => time.hour));
+  const minutes = unique(times.map(time => time.minute));
+
+  return hours.length * minutes.length === unique(times.map(t => t.hour * 60 + t.minute)).length;
+}
+
+/*
+ * MATCHERS
+ *
+ * The matchers are tried in order for each word. More specific phrases
+ * (e.g. "the last friday") must come before less specific phrases (e.g. "the last").
+ */
+
+/** "daily", "biweekly", "annually", etc */
+const matchAdverb: Matcher = (state, i) => {
+  const frequency = ADVERBS[state.words[i]];
+
+  if (!frequency || !setFrequency(state, frequency[0], frequency[1])) return 0;
+
+  return 1;
+};
+
+/**
+ * "every day", "every other week", "each 3 months", "every weekday", "every tuesday and
+ * thursday", "every march 5th", etc
+ */
+const matchEvery: Matcher = (state, i) => {
+  if (!['every', 'each'].includes(state.words[i])) return 0;
+
+  let j = i + 1;
+  let interval = 1;
+
+  const number = parseNumber(state.words[j]) || parseOrdinal(state.words[j]);
+
+  if (state.words[j] === 'other') {
+    interval = 2;
+    j++;
+  } else if (number !== undefined && number > 0) {
+    interval = number;
+    j++;
+  }
+
+  const unit = parseUnit(state.words[j]);
+
+  if (unit) {
+    return setFrequency(state, unit, interval) ? j + 1 - i : 0;
+  }
+
+  if (['weekday', 'weekdays', 'weekend', 'weekends'].includes(state.words[j])) {
+    if (!setFrequency(state, 'WEEKLY', interval)) return 0;
+
+    addDaysOfWeek(state, state.words[j].startsWith('weekday') ? WEEKDAYS : WEEKEND);
+
+    return j + 1 - i;
+  }
+
+  const weekdays = parseList(state, j, parseWeekday);
+
+  if (weekdays) {
+    if (!setFrequency(state, 'WEEKLY', interval)) return 0;
+
+    addDaysOfWeek(state, weekdays.values);
+
+    return weekdays.next - i;
+  }
+
+  const monthDay = parseMonthDay(state, j);
+
+  if (monthDay && interval === 1) {
+    if (!setFrequency(state, 'YEARLY', 1)) return 0;
+
+    state.options.byMonthOfYear = [monthDay.month as RuleOption.ByMonthOfYear];
+    state.options.byDayOfMonth = [monthDay.day];
+
+    return monthDay.next - i;
+  }
+
+  return 0;
+};
+
+/** "the last friday", "on the first and third monday", "the 2nd tuesday", etc */
+const matchNthWeekday: Matcher = (state, i) => {
+  let j = skip(state, i, ['on', 'the']);
+
+  const ordinals = parseList(state, j, parseOrdinalWord);
+
+  if (!ordinals) return 0;
+
+  j = ordinals.next;
+
+  const weekday = parseWeekday(state, j);
+
+  if (!weekday) return 0;
+
+  setDefaultFrequency(state, 'MONTHLY');
+
+  addDaysOfWeek(state, ordinals.values.map(nth => [weekday.value, nth] as RuleOption.ByDayOfWeek));
+
+  return weekday.next - i;
+};
+
+/** "on the 15th", "the 1st and 15th", "the last day", etc */
+const matchDayOfMonth: Matcher = (state, i) => {
+  let j = skip(state, i, ['on', 'the']);
+
+  const days = parseList(state, j, parseOrdinalWord);
+
+  if (!days || days.values.some(day => day > 31 || day < -31)) return 0;
+
+  j = days.next;
+
+  if (['day', 'days'].includes(state.words[j])) {
+    j++;
+  } else if (j === i || state.words[j - 1] === 'last') {
+    // a bare "last" isn't a day of the month, nor is an ordinal without "on" or "the"
+    return 0;
+  }
+
+  setDefaultFrequency(state, 'MONTHLY');
+
+  state.options.byDayOfMonth = unique([
+    ...(state.options.byDayOfMonth || []),
+    ...(days.values as RuleOption.ByDayOfMonth[]),
+  ]);
+
+  return j - i;
+};
+
+/** "of every other month", "of each year", "of the month", "of june", etc */
+const matchOfPeriod: Matcher = (state, i) => {
+  if (state.words[i] !== 'of') return 0;
+
+  if (['every', 'each'].includes(state.words[i + 1])) {
+    const length = matchEvery(state, i + 1);
+    return length > 0 ? length + 1 : 0;
+  }
+
+  if (state.words[i + 1] === 'the') {
+    const unit = parseUnit(state.words[i + 2]);
+
+    if (!unit || !['MONTHLY', 'YEARLY'].includes(unit) || !setFrequency(state, unit, 1)) {
+      return 0;
+    }
+
+    return 3;
+  }
+
+  const months = parseList(state, i + 1, parseMonth);
+
+  if (!months || !setFrequency(state, 'YEARLY', 1)) return 0;
+
+  addMonthsOfYear(state, months.values);
+
+  return months.next - i;
+};
+
+/** "in january", "in june and july", etc */
+const matchInMonths: Matcher = (state, i) => {
+  if (state.words[i] !== 'in') return 0;
+
+  const months = parseList(state, i + 1, parseMonth);
+
+  // "in june 2027" is a date, not a month of the year
+  if (!months || parseYear(state.words[months.next]) !== undefined) return 0;
+
+  addMonthsOfYear(state, months.values);
+
+  return months.next - i;
+};
+
+/** "on july 4", "july 4th", "the 4th of july", etc */
+const matchMonthDay: Matcher = (state, i) => {
+  const monthDay = parseMonthDay(state, skip(state, i, ['on']));
+
+  // "july 4 2027" is a date, not a day of the year
+  if (!monthDay || parseYear(state.words[monthDay.next]) !== undefined) return 0;
+
+  // rules combine every `byMonthOfYear` with every `byDayOfMonth`, so only one day of the
+  // year can be represented
+  if (state.options.byMonthOfYear || state.options.byDayOfMonth) return 0;
+
+  if (!setFrequency(state, 'YEARLY', state.options.interval || 1)) return 0;
+
+  state.options.byMonthOfYear = [monthDay.month as RuleOption.ByMonthOfYear];
+  state.options.byDayOfMonth = [monthDay.day];
+
+  return monthDay.next - i;
+};
+
+/** "on tuesdays", "mondays and fridays", "on tuesday", "weekends", etc */
+const matchWeekdays: Matcher = (state, i) => {
+  const j = skip(state, i, ['on']);
+
+  if (['weekdays', 'weekends'].includes(state.words[j])) {
+    setDefaultFrequency(state, 'WEEKLY');
+    addDaysOfWeek(state, state.words[j] === 'weekdays' ? WEEKDAYS : WEEKEND);
+    return j + 1 - i;
+  }
+
+  const weekdays = parseList(state, j, parseWeekday);
+
+  if (!weekdays) return 0;
+
+  // a singular weekday is only a recurrence when preceded by "on" (e.g. "weekly on tuesday")
+  if (j === i && !state.words[weekdays.next - 1].endsWith('days')) return 0;
+
+  setDefaultFrequency(state, 'WEEKLY');
+
+  addDaysOfWeek(state, weekdays.values);
+
+  return weekdays.next - i;
+};
+
+/** "at 3pm", "at 9:30 am and 5pm", "at noon", "15:00", etc */
+const matchTimes: Matcher = (state, i) => {
+  const j = skip(state, i, ['at']);
+
+  const times = parseList(state, j, (s, k) => {
+    const result = parseTime(s, k, j > i);
+
+    if (!result) return;
+
+    const [hour, minute] = result.value;
+    const words = Array.from({ length: result.next - k }, (_, index) => k + index);
+
+    return { value: { hour, minute, words }, next: result.next };
+  });
+
+  if (!times || state.times || state.timeRange) return 0;
+
+  state.times = times.values;
+
+  return times.next - i;
+};
+
+/** "from 9am to 5pm", "between 9:30 and 17:30", etc */
+const matchTimeRange: Matcher = (state, i) => {
+  if (!['from', 'between'].includes(state.words[i])) return 0;
+
+  const from = parseTime(state, i + 1, true);
+
+  if (!from || !['to', 'until', 'till', 'and'].includes(state.words[from.next])) return 0;
+
+  const to = parseTime(state, from.next + 1, true);
+
+  if (!to || state.times || state.timeRange) return 0;
+
+  if (to.value[0] * 60 + to.value[1] <= from.value[0] * 60 + from.value[1]) return 0;
+
+  state.timeRange = {
+    from: from.value,
+    to: to.value,
+    words: Array.from({ length: to.next - i }, (_, index) => i + index),
+  };
+
+  return to.next - i;
+};
+
+/** "starting next week", "beginning on march 5th", "from tomorrow", etc */
+const matchStart: Matcher = (state, i) => {
+  if (!['starting', 'beginning', 'from', 'starts', 'begins'].includes(state.words[i])) return 0;
+
+  const date = parseDate(state, skip(state, i + 1, ['on', 'in']));
+
+  if (!date || state.start) return 0;
+
+  state.start = date.value.start;
+
+  return date.next - i;
+};
+
+/** "until december", "through next friday", "ending on june 5 2027", etc */
+const matchEnd: Matcher = (state, i) => {
+  if (!['until', 'till', 'through', 'ending', 'ends'].includes(state.words[i])) return 0;
+
+  const date = parseDate(state, skip(state, i + 1, ['on', 'in']));
+
+  if (!date || state.options.end || state.options.count !== undefined) return 0;
+
+  state.options.end = DateAdapterBase.adapter.fromDateTime(date.value.end);
+
+  return date.next - i;
+};
+
+/** "10 times", "for 5 occurrences", "once", "twice", etc */
+const matchCount: Matcher = (state, i) => {
+  if (state.options.end || state.options.count !== undefined) return 0;
+
+  if (state.words[i] === 'once' || state.words[i] === 'twice') {
+    state.options.count = state.words[i] === 'once' ? 1 : 2;
+    return 1;
+  }
+
+  const j = skip(state, i, ['for']);
+
+  const count = parseNumber(state.words[j]);
+
+  if (count === undefined || !['times', 'occurrences'].includes(state.words[j + 1])) return 0;
+
+  state.options.count = count;
+
+  return j + 2 - i;
+};
+
+const MATCHERS: Matcher[] = [
+  matchAdverb,
+  matchEvery,
+  matchNthWeekday,
+  matchDayOfMonth,
+  matchOfPeriod,
+  matchInMonths,
+  matchMonthDay,
+  matchWeekdays,
+  matchTimeRange,
+  matchTimes,
+  matchStart,
+  matchEnd,
+  matchCount,
+];
+
+/*
+ * OPTION HELPERS
+ */
+
+/**
+ * Returns `false` if a different frequency or interval has already been parsed.
+ * A frequency which was only implied is replaced.
+ */
+function setFrequency(state: IParserState, frequency: RuleOption.Frequency, interval: number) {
+  const options = state.options;
+
+  if (options.frequency && options.frequency !== frequency && !state.impliedFrequency) {
+    return false;
+  }
+
+  if (options.interval && options.interval !== interval) return false;
+
+  options.frequency = frequency;
+  state.impliedFrequency = false;
+
+  if (interval !== 1) {
+    options.interval = interval;
+  }
+
+  return true;
+}
+
+function setDefaultFrequency(state: IParserState, frequency: RuleOption.Frequency) {
+  if (!state.options.frequency) {
+    state.options.frequency = frequency;
+    state.impliedFrequency = true;
+  }
+}
+
+function addDaysOfWeek(state: IParserState, weekdays: RuleOption.ByDayOfWeek[]) {
+  const existing = state.options.byDayOfWeek || [];
+
+  state.options.byDayOfWeek = [
+    ...existing,
+    ...weekdays.filter(
+      weekday => !existing.some(day => JSON.stringify(day) === JSON.stringify(weekday)),
+    ),
+  ];
+}
+
+function addMonthsOfYear(state: IParserState, months: number[]) {
+  state.options.byMonthOfYear = unique([
+    ...((state.options.byMonthOfYear || []) as number[]),
+    ...months,
+  ]) as RuleOption.ByMonthOfYear[];
+}
+
+/*
+ * WORD PARSERS
+ *
+ * Parsers return the parsed value and the index of the word following it.
+ */
+
+interface IParseResult<T> {
+  value: T;
+  next: number;
+}
+
+interface IParseListResult<T> {
+  values: T[];
+  next: number;
+}
+
+type Parser<T> = (state: IParserState, i: number) => IParseResult<T> | undefined;
+
+/** Parses a list of values such as "monday, wednesday and friday" */
+function parseList<T>(
+  state: IParserState,
+  i: number,
+  parser: Parser<T>,
+): IParseListResult<T> | undefined {
+  const first = parser(state, i);
+
+  if (!first) return;
+
+  const values = [first.value];
+  let next = first.next;
+
+  while (next < state.words.length) {
+    const j = skip(state, next, ['and', '&', 'or']);
+    const result = parser(state, j);
+
+    if (!result) break;
+
+    values.push(result.value);
+    next = result.next;
+  }
+
+  return { values, next };
+}
+
+/** Returns the index of the first word, starting at `i`, which isn't one of `words` */
+function skip(state: IParserState, i: number, words: string[]) {
+  while (i < state.words.length && words.includes(state.words[i])) {
+    i++;
+  }
+
+  return i;
+}
+
+function parseNumber(word: string | undefined) {
+  if (word === undefined) return;
+  if (/^\d+$/.test(word)) return parseInt(word, 10);
+  return NUMBERS[word];
+}
+
+function parseOrdinal(word: string | undefined) {
+  if (word === undefined) return;
+
+  const match = word.match(/^(\d+)(st|nd|rd|th)$/);
+
+  if (match) return parseInt(match[1], 10);
+
+  return ORDINALS[word];
+}
+
+/** Parses ordinals such as "3rd", "last" or "second to last" */
+const parseOrdinalWord: Parser<number> = (state, i) => {
+  const ordinal = parseOrdinal(state.words[i]);
+
+  if (ordinal === undefined || ordinal === 0) return;
+
+  if (ordinal > 0 && state.words[i + 1] === 'to' && state.words[i + 2] === 'last') {
+    return { value: -ordinal, next: i + 3 };
+  }
+
+  return { value: ordinal, next: i + 1 };
+};
+
+function parseUnit(word: string | undefined) {
+  if (word === undefined) return;
+  return UNITS[word.replace(/s$/, '')];
+}
+
+function parseYear(word: string | undefined) {
+  if (word === undefined || !/^\d{4}$/.test(word)) return;
+  return parseInt(word, 10);
+}
+
+/** Parses weekdays such as "tuesday", "tuesdays", "tue" or "tues" */
+const parseWeekday: Parser<DateAdapter.Weekday> = (state, i) => {
+  const word = state.words[i];
+
+  if (word === undefined || word.length < 3) return;
+
+  const weekday = WEEKDAY_NAMES.find(
+    ([name]) => word === name || word === `${name}s` || name.startsWith(word.replace(/\.$/, '')),
+  );
+
+  return weekday && { value: weekday[1], next: i + 1 };
+};
+
+/** Parses months such as "june" or "jun" */
+const parseMonth: Parser<number> = (state, i) => {
+  const word = state.words[i];
+
+  if (word === undefined || word.length < 3) return;
+
+  const index = MONTH_NAMES.findIndex(name => name.startsWith(word.replace(/\.$/, '')));
+
+  if (index === -1) return;
+
+  return { value: index + 1, next: i + 1 };
+};
+
+/** Parses a day of the year such as "march 5th" or "5 march" */
+function parseMonthDay(state: IParserState, i: number) {
+  const month = parseMonth(state, i);
+
+  const j = month ? skip(state, month.next, ['the']) : skip(state, i, ['the']);
+  const day = parseNumber(state.words[j]) || parseOrdinal(state.words[j]);
+
+  if (day === undefined || day < 1 || day > 31) return;
+
+  if (month) {
+    return { month: month.value, day: day as RuleOption.ByDayOfMonth, next: j + 1 };
+  }
+
+  const dayMonth = parseMonth(state, skip(state, j + 1, ['of']));
+
+  if (!dayMonth) return;
+
+  return { month: dayMonth.value, day: day as RuleOption.ByDayOfMonth, next: dayMonth.next };
+}
+
+/**
+ * Parses times such as "3pm", "3 pm", "9:30am", "15:00", "noon" or "midnight". Times
+ * without "am", "pm" or minutes (e.g. "3") are only parsed when `prefixed` with "at".
+ */
+function parseTime(
+  state: IParserState,
+  i: number,
+  prefixed: boolean,
+): IParseResult<[number, number]> | undefined {
+  const word = state.words[i];
+
+  if (word === 'noon') return { value: [12, 0], next: i + 1 };
+  if (word === 'midnight') return { value: [0, 0], next: i + 1 };
+
+  const match = word !== undefined && word.match(/^(\d{1,2})(?::(\d\d))?(am|pm|a\.m\.|p\.m\.)?$/);
+
+  if (!match) return;
+
+  let next = i + 1;
+  let meridiem = match[3];
+
+  if (!meridiem && ['am', 'pm', 'a.m.', 'p.m.'].includes(state.words[next])) {
+    meridiem = state.words[next];
+    next++;
+  }
+
+  if (!meridiem && match[2] === undefined && !prefixed) return;
+
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] === undefined ? 0 : parseInt(match[2], 10);
+
+  if (minute > 59) return;
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return;
+    hour = (hour % 12) + (meridiem.startsWith('p') ? 12 : 0);
+  } else if (hour > 23) {
+    return;
+  }
+
+  return { value: [hour, minute], next };
+}
+
+/**
+ * Parses dates such as "today", "tomorrow", "next week", "next friday", "in 3 days",
+ * "march 5th", "5 march 2027", "december", "june 2027" or "2027-06-05"
+ */
+const parseDate: Parser<IParsedDate> = (state, i) => {
+  const today = state.reference.granularity('day');
+  const word = state.words[i];
+
+  if (word === undefined) return;
+
+  if (word === 'today' || word === 'tomorrow') {
+    const day = word === 'today' ? today : today.add(1, 'day');
+    return { value: { start: day, end: day.endGranularity('day') }, next: i + 1 };
+  }
+
+  if (word === 'next' || word === 'this') {
+    const unit = state.words[i + 1];
+
+    if (['week', 'month', 'year'].includes(unit)) {
+      const granularity = unit as 'week' | 'month' | 'year';
+
+      const start = state.reference
+        .granularity(granularity, { weekStart: 'MO' })
+        .add(word === 'next' ? 1 : 0, granularity);
+
+      return {
+        value: { start, end: start.endGranularity(granularity, { weekStart: 'MO' }) },
+        next: i + 2,
+      };
+    }
+
+    const nextDay = parseWeekday(state, i + 1);
+
+    if (!nextDay) return;
+
+    const day = nextWeekday(today, nextDay.value);
+
+    return { value: { start: day, end: day.endGranularity('day') }, next: nextDay.next };
+  }
+
+  const weekday = parseWeekday(state, i);
+
+  if (weekday) {
+    const day = nextWeekday(today, weekday.value);
+
+    return { value: { start: day, end: day.endGranularity('day') }, next: weekday.next };
+  }
+
+  if (word === 'in') {
+    const amount = parseNumber(state.words[i + 1]);
+    const unit = state.words[i + 2] && state.words[i + 2].replace(/s$/, '');
+
+    if (amount === undefined || !['day', 'week', 'month', 'year'].includes(unit)) return;
+
+    const day = today.add(amount, unit as 'day' | 'week' | 'month' | 'year');
+
+    return { value: { start: day, end: day.endGranularity('day') }, next: i + 3 };
+  }
+
+  const iso = word.match(/^(\d{4})-(\d\d)-(\d\d)$/);
+
+  if (iso) {
+    const day = buildDay(today, +iso[1], +iso[2], +iso[3]);
+
+    return day && { value: { start: day, end: day.endGranularity('day') }, next: i + 1 };
+  }
+
+  const monthDay = parseMonthDay(state, i);
+
+  if (monthDay) {
+    const year = parseYear(state.words[monthDay.next]);
+
+    let day = buildDay(today, year || today.get('year'), monthDay.month, monthDay.day);
+
+    if (!day) return;
+
+    if (year === undefined && day.isBefore(today)) {
+      day = buildDay(today, today.get('year') + 1, monthDay.month, monthDay.day);
+      if (!day) return;
+    }
+
+    return {
+      value: { start: day, end: day.endGranularity('day') },
+      next: year === undefined ? monthDay.next : monthDay.next + 1,
+    };
+  }
+
+  const month = parseMonth(state, i);
+
+  if (month) {
+    const year = parseYear(state.words[month.next]);
+
+    let start = buildDay(today, year || today.get('year'), month.value, 1)!;
+
+    if (year === undefined && start.endGranularity('month').isBefore(today)) {
+      start = buildDay(today, today.get('year') + 1, month.value, 1)!;
+    }
+
+    return {
+      value: { start, end: start.endGranularity('month') },
+      next: year === undefined ? month.next : month.next + 1,
+    };
+  }
+
+  return;
+};
+
+/** Returns the first day after `today` which falls on `weekday` */
+function nextWeekday(today: DateTime, weekday: DateAdapter.Weekday) {
+  let day = today.add(1, 'day');
+
+  while (day.get('weekday') !== weekday) {
+    day = day.add(1, 'day');
+  }
+
+  return day;
+}
+
+/** Returns `undefined` if the day doesn't exist (e.g. february 30th) */
+function buildDay(today: DateTime, year: number, month: number, day: number) {
+  const date = today
+    .granularity('year')
+    .set('year', year)
+    .set('month', month)
+    .set('day', day);
+
+  if (date.get('month') !== month || date.get('day') !== day) return;
+
+  return date;
+}
+
+function unique<T extends number>(values: T[]): T[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
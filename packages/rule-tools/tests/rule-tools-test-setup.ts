@@ -1,13 +1,15 @@
 import { DateAdapter, DateAdapterBase, IRuleOptions } from '@rschedule/core';
 
-import { context, TIMEZONES, dateAdapterFn, test } from '../../../tests/utilities';
+import { context, TIMEZONES, dateAdapterFn, test, toISOStrings } from '../../../tests/utilities';
 
 import {
   addSchedulePattern,
   buildRecurrencePattern,
   cleanScheduleEXDates,
   endScheduleRecurrencePattern,
+  inferRule,
   isRecurrencePattern,
+  parseRuleText,
   Pattern,
   RecurrencePattern,
   removeSchedulePattern,
@@ -36,9 +38,9 @@ export default function ruleToolsTests() {
           describe('isRecurrencePattern()', () => {
             it(name, () => {
               expectations.forEach(pair => {
-                expect(
-                  isRecurrencePattern({pattern: pair[0], date, rule: optionsFn(date)}),
-                ).toBe(pair[1]);
+                expect(isRecurrencePattern({ pattern: pair[0], date, rule: optionsFn(date) })).toBe(
+                  pair[1],
+                );
               });
             });
           });
@@ -54,9 +56,7 @@ export default function ruleToolsTests() {
             context(date, date => {
               describe('buildRecurrencePattern()', () => {
                 test('every [WEEKDAY]', (pattern: RecurrencePattern) => {
-                  expect(
-                    buildRecurrencePattern(pattern, date),
-                  ).toEqual({
+                  expect(buildRecurrencePattern(pattern, date)).toEqual({
                     start: date,
                     frequency: 'WEEKLY',
                     byDayOfWeek: [date.toDateTime().get('weekday')],
@@ -64,9 +64,7 @@ export default function ruleToolsTests() {
                 });
 
                 test('the [MONTH_WEEKNO] [WEEKDAY] of every month', (pattern: RecurrencePattern) => {
-                  expect(
-                    buildRecurrencePattern(pattern, date),
-                  ).toEqual({
+                  expect(buildRecurrencePattern(pattern, date)).toEqual({
                     start: date,
                     frequency: 'MONTHLY',
                     byDayOfWeek: [
@@ -79,9 +77,7 @@ export default function ruleToolsTests() {
                 });
 
                 test('the [MONTH_DAYNO] of every month', (pattern: RecurrencePattern) => {
-                  expect(
-                    buildRecurrencePattern(pattern, date),
-                  ).toEqual({
+                  expect(buildRecurrencePattern(pattern, date)).toEqual({
                     start: date,
                     frequency: 'MONTHLY',
                     byDayOfMonth: [date.toDateTime().get('day')],
@@ -89,9 +85,7 @@ export default function ruleToolsTests() {
                 });
 
                 test('the last [WEEKDAY] of every month', (pattern: RecurrencePattern) => {
-                  expect(
-                    buildRecurrencePattern(pattern, date),
-                  ).toEqual({
+                  expect(buildRecurrencePattern(pattern, date)).toEqual({
                     start: date,
                     frequency: 'MONTHLY',
                     byDayOfWeek: [[date.toDateTime().get('weekday'), -1]],
@@ -129,9 +123,7 @@ export default function ruleToolsTests() {
           });
 
           describe('isRecurrencePattern()', () => {
-            function weeklyTH(
-              date: DateAdapter,
-            ): IRuleOptions {
+            function weeklyTH(date: DateAdapter): IRuleOptions {
               return {
                 start: date,
                 frequency: 'WEEKLY',
@@ -139,9 +131,7 @@ export default function ruleToolsTests() {
               };
             }
 
-            function weeklyMO(
-              date: DateAdapter,
-            ): IRuleOptions {
+            function weeklyMO(date: DateAdapter): IRuleOptions {
               return {
                 start: date,
                 frequency: 'WEEKLY',
@@ -149,9 +139,7 @@ export default function ruleToolsTests() {
               };
             }
 
-            function dailyTH(
-              date: DateAdapter,
-            ): IRuleOptions {
+            function dailyTH(date: DateAdapter): IRuleOptions {
               return {
                 start: date,
                 frequency: 'DAILY',
@@ -159,9 +147,7 @@ export default function ruleToolsTests() {
               };
             }
 
-            function monthly2ndTH(
-              date: DateAdapter,
-            ): IRuleOptions {
+            function monthly2ndTH(date: DateAdapter): IRuleOptions {
               return {
                 start: date,
                 frequency: 'MONTHLY',
@@ -169,9 +155,7 @@ export default function ruleToolsTests() {
               };
             }
 
-            function monthlyLastWE(
-              date: DateAdapter,
-            ): IRuleOptions {
+            function monthlyLastWE(date: DateAdapter): IRuleOptions {
               return {
                 start: date,
                 frequency: 'MONTHLY',
@@ -179,9 +163,7 @@ export default function ruleToolsTests() {
               };
             }
 
-            function monthly14th(
-              date: DateAdapter,
-            ): IRuleOptions {
+            function monthly14th(date: DateAdapter): IRuleOptions {
               return {
                 start: date,
                 frequency: 'MONTHLY',
@@ -368,8 +350,7 @@ export default function ruleToolsTests() {
               exdates: [date, dateTime.add(1, 'day')],
             });
 
-            scheduleEmpty = new Schedule({
-            });
+            scheduleEmpty = new Schedule({});
           });
 
           describe('addSchedulePattern()', () => {
@@ -524,7 +505,11 @@ export default function ruleToolsTests() {
               const end = dateTime.add(1, 'week');
 
               it('scheduleWEEKDAY', () => {
-                scheduleWEEKDAY = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleWEEKDAY});
+                scheduleWEEKDAY = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleWEEKDAY,
+                });
 
                 expect(scheduleWEEKDAY.rrules.length).toBe(1);
                 expect(scheduleWEEKDAY.rrules[0].options).toEqual({
@@ -536,7 +521,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleCOMBINED', () => {
-                scheduleCOMBINED = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleCOMBINED});
+                scheduleCOMBINED = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleCOMBINED,
+                });
 
                 expect(scheduleCOMBINED.rrules.length).toBe(4);
                 expect(scheduleCOMBINED.rrules.map(rule => rule.options)).toEqual([
@@ -564,7 +553,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleEmpty', () => {
-                scheduleEmpty = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleEmpty});
+                scheduleEmpty = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleEmpty,
+                });
 
                 expect(scheduleEmpty.rrules.length).toBe(0);
               });
@@ -574,7 +567,11 @@ export default function ruleToolsTests() {
               const end = dateTime.set('month', 11).set('day', 14);
 
               it('scheduleWEEKDAY', () => {
-                scheduleWEEKDAY = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleWEEKDAY});
+                scheduleWEEKDAY = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleWEEKDAY,
+                });
 
                 expect(scheduleWEEKDAY.rrules.length).toBe(1);
                 expect(scheduleWEEKDAY.rrules[0].options).toEqual({
@@ -585,7 +582,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleCOMBINED', () => {
-                scheduleCOMBINED = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleCOMBINED});
+                scheduleCOMBINED = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleCOMBINED,
+                });
 
                 expect(scheduleCOMBINED.rrules.length).toBe(4);
                 expect(scheduleCOMBINED.rrules.map(rule => rule.options)).toEqual([
@@ -614,7 +615,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleEmpty', () => {
-                scheduleEmpty = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleEmpty});
+                scheduleEmpty = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleEmpty,
+                });
 
                 expect(scheduleEmpty.rrules.length).toBe(0);
               });
@@ -624,7 +629,11 @@ export default function ruleToolsTests() {
               const end = dateTime.set('day', 14);
 
               it('scheduleWEEKDAY', () => {
-                scheduleWEEKDAY = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleWEEKDAY});
+                scheduleWEEKDAY = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleWEEKDAY,
+                });
 
                 expect(scheduleWEEKDAY.rrules.length).toBe(1);
                 expect(scheduleWEEKDAY.rrules[0].options).toEqual({
@@ -635,7 +644,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleCOMBINED', () => {
-                scheduleCOMBINED = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleCOMBINED});
+                scheduleCOMBINED = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleCOMBINED,
+                });
 
                 expect(scheduleCOMBINED.rrules.length).toBe(4);
                 expect(scheduleCOMBINED.rrules.map(rule => rule.options)).toEqual([
@@ -665,7 +678,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleEmpty', () => {
-                scheduleEmpty = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleEmpty});
+                scheduleEmpty = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleEmpty,
+                });
 
                 expect(scheduleEmpty.rrules.length).toBe(0);
               });
@@ -675,7 +692,11 @@ export default function ruleToolsTests() {
               const end = dateTime.set('day', 30);
 
               it('scheduleWEEKDAY', () => {
-                scheduleWEEKDAY = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleWEEKDAY});
+                scheduleWEEKDAY = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleWEEKDAY,
+                });
 
                 expect(scheduleWEEKDAY.rrules.length).toBe(1);
                 expect(scheduleWEEKDAY.rrules[0].options).toEqual({
@@ -686,7 +707,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleCOMBINED', () => {
-                scheduleCOMBINED = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleCOMBINED});
+                scheduleCOMBINED = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleCOMBINED,
+                });
 
                 expect(scheduleCOMBINED.rrules.length).toBe(4);
                 expect(scheduleCOMBINED.rrules.map(rule => rule.options)).toEqual([
@@ -715,7 +740,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleEmpty', () => {
-                scheduleEmpty = endScheduleRecurrencePattern({pattern, date: end, schedule: scheduleEmpty});
+                scheduleEmpty = endScheduleRecurrencePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleEmpty,
+                });
 
                 expect(scheduleEmpty.rrules.length).toBe(0);
               });
@@ -728,11 +757,16 @@ export default function ruleToolsTests() {
 
               it('scheduleWEEKDAY', () => {
                 expect(
-                  removeSchedulePattern({pattern, date: end, schedule: scheduleWEEKDAY}).rrules.length,
+                  removeSchedulePattern({ pattern, date: end, schedule: scheduleWEEKDAY }).rrules
+                    .length,
                 ).toBe(0);
 
                 expect(
-                  removeSchedulePattern({pattern, date: end.subtract(2, 'week'), schedule: scheduleWEEKDAY}).rrules[0].options,
+                  removeSchedulePattern({
+                    pattern,
+                    date: end.subtract(2, 'week'),
+                    schedule: scheduleWEEKDAY,
+                  }).rrules[0].options,
                 ).toEqual({
                   start: date,
                   frequency: 'WEEKLY',
@@ -741,7 +775,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleCOMBINED', () => {
-                scheduleCOMBINED = removeSchedulePattern({pattern, date: end, schedule: scheduleCOMBINED});
+                scheduleCOMBINED = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleCOMBINED,
+                });
 
                 expect(scheduleCOMBINED.rrules.length).toBe(4);
                 expect(scheduleCOMBINED.rrules.map(rule => rule.options)).toEqual([
@@ -769,7 +807,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleEmpty', () => {
-                scheduleEmpty = removeSchedulePattern({pattern, date: end, schedule: scheduleEmpty});
+                scheduleEmpty = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleEmpty,
+                });
 
                 expect(scheduleEmpty.rrules.length).toBe(0);
               });
@@ -779,7 +821,11 @@ export default function ruleToolsTests() {
               const end = dateTime.set('month', 11).set('day', 14);
 
               it('scheduleWEEKDAY', () => {
-                scheduleWEEKDAY = removeSchedulePattern({pattern, date: end, schedule: scheduleWEEKDAY});
+                scheduleWEEKDAY = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleWEEKDAY,
+                });
 
                 expect(scheduleWEEKDAY.rrules.length).toBe(1);
                 expect(scheduleWEEKDAY.rrules[0].options).toEqual({
@@ -790,7 +836,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleCOMBINED', () => {
-                scheduleCOMBINED = removeSchedulePattern({pattern, date: end, schedule: scheduleCOMBINED});
+                scheduleCOMBINED = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleCOMBINED,
+                });
 
                 expect(scheduleCOMBINED.rrules.length).toBe(3);
                 expect(scheduleCOMBINED.rrules.map(rule => rule.options)).toEqual([
@@ -813,7 +863,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleEmpty', () => {
-                scheduleEmpty = removeSchedulePattern({pattern, date: end, schedule: scheduleEmpty});
+                scheduleEmpty = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleEmpty,
+                });
 
                 expect(scheduleEmpty.rrules.length).toBe(0);
               });
@@ -823,7 +877,11 @@ export default function ruleToolsTests() {
               const end = dateTime.set('day', 14);
 
               it('scheduleWEEKDAY', () => {
-                scheduleWEEKDAY = removeSchedulePattern({pattern, date: end, schedule: scheduleWEEKDAY});
+                scheduleWEEKDAY = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleWEEKDAY,
+                });
 
                 expect(scheduleWEEKDAY.rrules.length).toBe(1);
                 expect(scheduleWEEKDAY.rrules[0].options).toEqual({
@@ -834,7 +892,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleCOMBINED', () => {
-                scheduleCOMBINED = removeSchedulePattern({pattern, date: end, schedule: scheduleCOMBINED});
+                scheduleCOMBINED = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleCOMBINED,
+                });
 
                 expect(scheduleCOMBINED.rrules.length).toBe(2);
                 expect(scheduleCOMBINED.rrules.map(rule => rule.options)).toEqual([
@@ -852,7 +914,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleEmpty', () => {
-                scheduleEmpty = removeSchedulePattern({pattern, date: end, schedule: scheduleEmpty});
+                scheduleEmpty = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleEmpty,
+                });
 
                 expect(scheduleEmpty.rrules.length).toBe(0);
               });
@@ -862,7 +928,11 @@ export default function ruleToolsTests() {
               const end = dateTime.set('day', 30);
 
               it('scheduleWEEKDAY', () => {
-                scheduleWEEKDAY = removeSchedulePattern({pattern, date: end, schedule: scheduleWEEKDAY});
+                scheduleWEEKDAY = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleWEEKDAY,
+                });
 
                 expect(scheduleWEEKDAY.rrules.length).toBe(1);
                 expect(scheduleWEEKDAY.rrules[0].options).toEqual({
@@ -873,7 +943,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleCOMBINED', () => {
-                scheduleCOMBINED = removeSchedulePattern({pattern, date: end, schedule: scheduleCOMBINED});
+                scheduleCOMBINED = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleCOMBINED,
+                });
 
                 expect(scheduleCOMBINED.rrules.length).toBe(3);
                 expect(scheduleCOMBINED.rrules.map(rule => rule.options)).toEqual([
@@ -896,7 +970,11 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleEmpty', () => {
-                scheduleEmpty = removeSchedulePattern({pattern, date: end, schedule: scheduleEmpty});
+                scheduleEmpty = removeSchedulePattern({
+                  pattern,
+                  date: end,
+                  schedule: scheduleEmpty,
+                });
 
                 expect(scheduleEmpty.rrules.length).toBe(0);
               });
@@ -906,42 +984,46 @@ export default function ruleToolsTests() {
           describe('scheduleHasPattern()', () => {
             context('every [WEEKDAY]', (pattern: Pattern) => {
               it('scheduleWEEKDAY', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleWEEKDAY}),
-                ).toBe(true);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleWEEKDAY })).toBe(true);
 
                 expect(
-                  scheduleHasPattern({pattern, date: dateTime.add(1, 'day'), schedule: scheduleWEEKDAY}),
+                  scheduleHasPattern({
+                    pattern,
+                    date: dateTime.add(1, 'day'),
+                    schedule: scheduleWEEKDAY,
+                  }),
                 ).toBe(false);
               });
 
               it('scheduleCOMBINED', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleCOMBINED}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleCOMBINED })).toBe(
+                  false,
+                );
               });
 
               it('scheduleEmpty', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleEmpty}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleEmpty })).toBe(false);
               });
             });
 
             context('the [MONTH_WEEKNO] [WEEKDAY] of every month', (pattern: Pattern) => {
               it('scheduleWEEKDAY', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleWEEKDAY}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleWEEKDAY })).toBe(
+                  false,
+                );
               });
 
               it('scheduleCOMBINED', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleCOMBINED}),
-                ).toBe(true);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleCOMBINED })).toBe(
+                  true,
+                );
 
                 expect(
-                  scheduleHasPattern({pattern, date: dateTime.add(1, 'month').set('day', 14), schedule: scheduleCOMBINED}),
+                  scheduleHasPattern({
+                    pattern,
+                    date: dateTime.add(1, 'month').set('day', 14),
+                    schedule: scheduleCOMBINED,
+                  }),
                 ).toBe(true);
 
                 expect(
@@ -954,77 +1036,77 @@ export default function ruleToolsTests() {
               });
 
               it('scheduleEmpty', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleEmpty}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleEmpty })).toBe(false);
               });
             });
 
             context('the [MONTH_DAYNO] of every month', (pattern: Pattern) => {
               it('scheduleWEEKDAY', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleWEEKDAY}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleWEEKDAY })).toBe(
+                  false,
+                );
               });
 
               it('scheduleCOMBINED', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleCOMBINED}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleCOMBINED })).toBe(
+                  false,
+                );
 
                 expect(
-                  scheduleHasPattern({pattern, date: dateTime.set('day', 14), schedule: scheduleCOMBINED}),
+                  scheduleHasPattern({
+                    pattern,
+                    date: dateTime.set('day', 14),
+                    schedule: scheduleCOMBINED,
+                  }),
                 ).toBe(true);
               });
 
               it('scheduleEmpty', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleEmpty}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleEmpty })).toBe(false);
               });
             });
 
             context('the last [WEEKDAY] of every month', (pattern: Pattern) => {
               it('scheduleWEEKDAY', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleWEEKDAY}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleWEEKDAY })).toBe(
+                  false,
+                );
               });
 
               it('scheduleCOMBINED', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleCOMBINED}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleCOMBINED })).toBe(
+                  false,
+                );
 
                 expect(
-                  scheduleHasPattern({pattern, date: dateTime.set('day', 30), schedule: scheduleCOMBINED}),
+                  scheduleHasPattern({
+                    pattern,
+                    date: dateTime.set('day', 30),
+                    schedule: scheduleCOMBINED,
+                  }),
                 ).toBe(true);
               });
 
               it('scheduleEmpty', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleEmpty}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleEmpty })).toBe(false);
               });
             });
 
             context('date', (pattern: Pattern) => {
               it('scheduleWEEKDAY', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleWEEKDAY}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleWEEKDAY })).toBe(
+                  false,
+                );
               });
 
               it('scheduleCOMBINED', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleCOMBINED}),
-                ).toBe(true);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleCOMBINED })).toBe(
+                  true,
+                );
               });
 
               it('scheduleEmpty', () => {
-                expect(
-                  scheduleHasPattern({pattern, date, schedule: scheduleEmpty}),
-                ).toBe(false);
+                expect(scheduleHasPattern({ pattern, date, schedule: scheduleEmpty })).toBe(false);
               });
             });
           });
@@ -1035,7 +1117,305 @@ export default function ruleToolsTests() {
             expect(scheduleCOMBINED.exdates.adapters[0].toISOString()).toBe(date.toISOString());
           });
         });
+
+        describe('inferRule()', () => {
+          it('infers a rule matching all the dates', () => {
+            const dates = [
+              dateAdapter(2019, 10, 7, 9),
+              dateAdapter(2019, 10, 9, 9),
+              dateAdapter(2019, 10, 14, 9),
+              dateAdapter(2019, 10, 16, 9),
+              dateAdapter(2019, 10, 21, 9),
+              dateAdapter(2019, 10, 23, 9),
+            ];
+
+            const result = inferRule(dates.slice().reverse());
+
+            expect(result.rule).toEqual({
+              start: dates[0],
+              end: dates[5],
+              frequency: 'WEEKLY',
+              byDayOfWeek: ['MO', 'WE'],
+            });
+            expect(result.rdates).toEqual([]);
+            expect(result.exdates).toEqual([]);
+            expect(result.confidence).toBe(1);
+            expect(toISOStrings(result.schedule)).toEqual(toISOStrings(dates));
+          });
+
+          it('reports leftover dates as rdates and exdates', () => {
+            const dates = [
+              dateAdapter(2019, 1, 15, 12),
+              dateAdapter(2019, 2, 15, 12),
+              dateAdapter(2019, 3, 15, 12),
+              dateAdapter(2019, 4, 16, 12),
+              dateAdapter(2019, 5, 15, 12),
+              dateAdapter(2019, 6, 15, 12),
+              dateAdapter(2019, 7, 15, 12),
+              dateAdapter(2019, 8, 15, 12),
+            ];
+
+            const result = inferRule(dates);
+
+            expect(result.rule).toEqual({
+              start: dates[0],
+              end: dates[7],
+              frequency: 'MONTHLY',
+            });
+            expect(toISOStrings(result.rdates)).toEqual(toISOStrings([dates[3]]));
+            expect(toISOStrings(result.exdates)).toEqual(
+              toISOStrings([dateAdapter(2019, 4, 15, 12)]),
+            );
+            expect(result.confidence).toBeCloseTo(5 / 7);
+            expect(toISOStrings(result.schedule)).toEqual(toISOStrings(dates));
+          });
+
+          it('prefers exceptions over extra rule option values', () => {
+            // mondays, except the third one
+            const dates = [
+              dateAdapter(2019, 1, 7, 9),
+              dateAdapter(2019, 1, 14, 9),
+              dateAdapter(2019, 1, 28, 9),
+              dateAdapter(2019, 2, 4, 9),
+            ];
+
+            const result = inferRule(dates);
+
+            expect(result.rule).toEqual({
+              start: dates[0],
+              end: dates[3],
+              frequency: 'WEEKLY',
+            });
+            expect(result.rdates).toEqual([]);
+            expect(toISOStrings(result.exdates)).toEqual(
+              toISOStrings([dateAdapter(2019, 1, 21, 9)]),
+            );
+            expect(result.confidence).toBeCloseTo(2 / 3);
+            expect(toISOStrings(result.schedule)).toEqual(toISOStrings(dates));
+          });
+
+          it('returns no rule when none match', () => {
+            const dates = [
+              dateAdapter(2019, 1, 1),
+              dateAdapter(2019, 1, 2),
+              dateAdapter(2019, 1, 5),
+              dateAdapter(2019, 3, 20),
+            ];
+
+            const result = inferRule(dates, { maxExceptions: 0 });
+
+            expect(result.rule).toBe(null);
+            expect(result.rdates).toEqual(dates);
+            expect(result.exdates).toEqual([]);
+            expect(result.confidence).toBe(0);
+            expect(toISOStrings(result.schedule)).toEqual(toISOStrings(dates));
+          });
+
+          it('throws when no dates are provided', () => {
+            expect(() => inferRule([])).toThrowError();
+          });
+        });
+
+        describe('parseRuleText()', () => {
+          // a wednesday
+          const reference = dateAdapter(2019, 10, 16, 11, 30);
+
+          function parse(text: string) {
+            const { options, ...result } = parseRuleText(text, reference);
+
+            return {
+              ...result,
+              options: {
+                ...options,
+                start: options.start && (options.start as DateAdapter).toISOString(),
+                end: options.end && (options.end as DateAdapter).toISOString(),
+              },
+            };
+          }
+
+          it('parses weekdays, intervals, times and relative start dates', () => {
+            expect(parse('every other Tuesday at 3pm starting next week')).toEqual({
+              options: {
+                frequency: 'WEEKLY',
+                interval: 2,
+                byDayOfWeek: ['TU'],
+                start: dateAdapter(2019, 10, 21, 15).toISOString(),
+                end: undefined,
+              },
+              remainder: '',
+              complete: true,
+            });
+          });
+
+          it('parses nth weekdays of the month and relative end dates', () => {
+            expect(parse('the last Friday of each month until December')).toEqual({
+              options: {
+                frequency: 'MONTHLY',
+                byDayOfWeek: [['FR', -1]],
+                start: dateAdapter(2019, 10, 16).toISOString(),
+                end: dateAdapter(2019, 12, 31, 23, 59, 59, 999).toISOString(),
+              },
+              remainder: '',
+              complete: true,
+            });
+
+            expect(parse('monthly on the first and second to last monday').options).toEqual({
+              frequency: 'MONTHLY',
+              byDayOfWeek: [['MO', 1], ['MO', -2]],
+              start: dateAdapter(2019, 10, 16).toISOString(),
+              end: undefined,
+            });
+          });
+
+          it('parses days of the month, months and counts', () => {
+            expect(parse('on the 1st and 15th of every other month for 10 times').options).toEqual({
+              frequency: 'MONTHLY',
+              interval: 2,
+              byDayOfMonth: [1, 15],
+              count: 10,
+              start: dateAdapter(2019, 10, 16).toISOString(),
+              end: undefined,
+            });
+
+            expect(parse('every day in june and july').options).toEqual({
+              frequency: 'DAILY',
+              byMonthOfYear: [6, 7],
+              start: dateAdapter(2019, 10, 16).toISOString(),
+              end: undefined,
+            });
+
+            expect(parse('every march 5th from 2021-01-01').options).toEqual({
+              frequency: 'YEARLY',
+              byMonthOfYear: [3],
+              byDayOfMonth: [5],
+              start: dateAdapter(2021, 1, 1).toISOString(),
+              end: undefined,
+            });
+          });
+
+          it('parses days of the year', () => {
+            expect(parse('every year on July 4')).toEqual({
+              options: {
+                frequency: 'YEARLY',
+                byMonthOfYear: [7],
+                byDayOfMonth: [4],
+                start: dateAdapter(2019, 10, 16).toISOString(),
+                end: undefined,
+              },
+              remainder: '',
+              complete: true,
+            });
+
+            expect(parse('on dec 25th every other year at 9am').options).toEqual({
+              frequency: 'YEARLY',
+              interval: 2,
+              byMonthOfYear: [12],
+              byDayOfMonth: [25],
+              start: dateAdapter(2019, 10, 16, 9).toISOString(),
+              end: undefined,
+            });
+          });
+
+          it('parses time ranges', () => {
+            expect(parse('every hour from 9am to 5pm')).toEqual({
+              options: {
+                frequency: 'HOURLY',
+                byHourOfDay: [9, 10, 11, 12, 13, 14, 15, 16, 17],
+                start: dateAdapter(2019, 10, 16, 9).toISOString(),
+                end: undefined,
+              },
+              remainder: '',
+              complete: true,
+            });
+
+            expect(parse('every 3 hours between 9:30am and 5pm on weekdays').options).toEqual({
+              frequency: 'DAILY',
+              byHourOfDay: [9, 12, 15],
+              byDayOfWeek: ['MO', 'TU', 'WE', 'TH', 'FR'],
+              start: dateAdapter(2019, 10, 16, 9, 30).toISOString(),
+              end: undefined,
+            });
+
+            expect(parse('every day from 9am to 5pm')).toEqual({
+              options: {
+                frequency: 'DAILY',
+                start: dateAdapter(2019, 10, 16).toISOString(),
+                end: undefined,
+              },
+              remainder: 'from 9am to 5pm',
+              complete: false,
+            });
+          });
+
+          it('parses multiple times', () => {
+            expect(parse('every day at 9am and 5pm').options).toEqual({
+              frequency: 'DAILY',
+              byHourOfDay: [9, 17],
+              start: dateAdapter(2019, 10, 16, 9).toISOString(),
+              end: undefined,
+            });
+
+            expect(parse('weekdays at 9am, 9:30am, 5pm and 5:30pm until march 1 2020')).toEqual({
+              options: {
+                frequency: 'WEEKLY',
+                byDayOfWeek: ['MO', 'TU', 'WE', 'TH', 'FR'],
+                byHourOfDay: [9, 17],
+                byMinuteOfHour: [0, 30],
+                start: dateAdapter(2019, 10, 16, 9).toISOString(),
+                end: dateAdapter(2020, 3, 1, 23, 59, 59, 999).toISOString(),
+              },
+              remainder: '',
+              complete: true,
+            });
+          });
+
+          it("returns times which don't form a grid of hours and minutes as the remainder", () => {
+            expect(parse('weekdays at 9:30am and 5pm until march 1 2020')).toEqual({
+              options: {
+                frequency: 'WEEKLY',
+                byDayOfWeek: ['MO', 'TU', 'WE', 'TH', 'FR'],
+                start: dateAdapter(2019, 10, 16, 9, 30).toISOString(),
+                end: dateAdapter(2020, 3, 1, 23, 59, 59, 999).toISOString(),
+              },
+              remainder: '5pm',
+              complete: false,
+            });
+
+            expect(parse('every day at 9:30 am, 10:30 am and 5 pm')).toEqual({
+              options: {
+                frequency: 'DAILY',
+                byHourOfDay: [9, 10],
+                start: dateAdapter(2019, 10, 16, 9, 30).toISOString(),
+                end: undefined,
+              },
+              remainder: '5 pm',
+              complete: false,
+            });
+          });
+
+          it('returns partial matches with the unparsed remainder', () => {
+            expect(parse('every Tuesday after lunch, at noon')).toEqual({
+              options: {
+                frequency: 'WEEKLY',
+                byDayOfWeek: ['TU'],
+                start: dateAdapter(2019, 10, 16, 12).toISOString(),
+                end: undefined,
+              },
+              remainder: 'after lunch',
+              complete: false,
+            });
+
+            expect(parse('at 3pm tomorrow')).toEqual({
+              options: {
+                start: dateAdapter(2019, 10, 16, 15).toISOString(),
+                end: undefined,
+              },
+              remainder: 'tomorrow',
+              complete: false,
+            });
+          });
+        });
       });
     });
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,34 @@
+// rollup.config.js
+import typescript from 'rollup-plugin-typescript2';
+
+export default [
+  {
+    input: './src/index.ts',
+    output: {
+      file: './build/es2015/main.js',
+      name: 'rScheduleTextTools',
+      format: 'esm',
+    },
+    external: ['@rschedule/core', '@rschedule/core/generators', '@rschedule/core/rules/ICAL_RULES'],
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.module.json',
+      }),
+    ],
+  },
+  {
+    input: './src/index.ts',
+    output: {
+      file: './build/umd/main.js',
+      name: 'rScheduleTextTools',
+      format: 'umd',
+      globals: {
+        '@rschedule/core': 'rSchedule',
+        '@rschedule/core/generators': 'rScheduleGenerators',
+        '@rschedule/core/rules/ICAL_RULES': 'rScheduleRules',
+      },
+    },
+    external: ['@rschedule/core', '@rschedule/core/generators', '@rschedule/core/rules/ICAL_RULES'],
+    plugins: [typescript()],
+  },
+];
@@ -0,0 +1,359 @@
+import { DateAdapter, RuleOption } from '@rschedule/core';
+
+import '@rschedule/core/rules/ICAL_RULES';
+
+/**
+ * A locale bundle used by `toText()` to describe rSchedule objects. Each rule
+ * option has its own phrase function which receives the (raw) rule option values.
+ * Phrase functions are called as methods of the locale, so a locale can be
+ * extended with the spread operator, e.g. `{ ...ENGLISH_LOCALE, weekdays: {...} }`.
+ */
+export interface ITextLocale {
+  /** The names of the weekdays */
+  weekdays: { [W in DateAdapter.Weekday]: string };
+  /** The names of the months, starting with January */
+  months: string[];
+  /** Returns the ordinal of a (possibly negative) number (e.g. `"2nd"` or `"2nd to last"`) */
+  ordinal(n: number): string;
+  /** Joins a list of phrases (e.g. `"Monday, Tuesday and Friday"`) */
+  list(items: string[], conjunction: 'and' | 'or'): string;
+  /** Formats a date, such as the `end` of a rule or an rdate */
+  formatDate(date: DateAdapter): string;
+  /** Formats a time of day */
+  formatTime(hour: number, minute: number, second: number): string;
+
+  frequency(frequency: RuleOption.Frequency, interval: number): string;
+  byWeekOfYear(weeks: RuleOption.ByWeekOfYear[]): string;
+  byQuarterOfYear(quarters: RuleOption.ByQuarterOfYear[]): string;
+  byMonthOfYear(months: RuleOption.ByMonthOfYear[], rscale?: RuleOption.RScale): string;
+  byFiscalPeriod(periods: RuleOption.ByFiscalPeriod[]): string;
+  byDayOfYear(days: RuleOption.ByDayOfYear[]): string;
+  byDayOfFiscalPeriod(days: RuleOption.ByDayOfFiscalPeriod[]): string;
+  byDayOfMonth(days: RuleOption.ByDayOfMonth[]): string;
+  byDayOfWeek(days: RuleOption.ByDayOfWeek[]): string;
+  byEaster(offsets: RuleOption.ByEaster[], calendar?: RuleOption.EasterCalendar): string;
+  byLunarPhase(phases: RuleOption.ByLunarPhase[], time?: RuleOption.LunarPhaseTime): string;
+  bySolarEvent(events: RuleOption.BySolarEvent[], location?: RuleOption.SolarLocation): string;
+  byTimeOfDay(windows: RuleOption.ByTimeOfDay[]): string;
+  /** Describes the times produced by `byHourOfDay` (in combination with the other time options) */
+  times(times: Array<[number, number, number]>): string;
+  byMinuteOfHour(minutes: RuleOption.ByMinuteOfHour[]): string;
+  bySecondOfMinute(seconds: RuleOption.BySecondOfMinute[]): string;
+  byMillisecondOfSecond(milliseconds: RuleOption.ByMillisecondOfSecond[]): string;
+  bySetPosition(positions: RuleOption.BySetPosition[], frequency: RuleOption.Frequency): string;
+  duration(milliseconds: number): string;
+  count(count: number): string;
+  end(end: DateAdapter): string;
+  weekStart(weekday: RuleOption.WeekStart): string;
+  fiscalYearStart(month: RuleOption.FiscalYearStart): string;
+  fiscalCalendar(calendar: RuleOption.FiscalCalendar): string;
+  skip(skip: RuleOption.Skip): string;
+  rscale(rscale: RuleOption.RScale): string;
+
+  /** Combines the phrases describing a rule */
+  rule(phrases: string[]): string;
+  /** Combines the (already described) parts of a schedule */
+  schedule(parts: {
+    rrules: string[];
+    exrules: string[];
+    rdates: string[];
+    exdates: string[];
+  }): string;
+  /** Turns a rule or schedule description into a sentence (e.g. capitalizes it) */
+  sentence(text: string): string;
+}
+
+const FREQUENCY_UNITS: { [F in RuleOption.Frequency]: string } = {
+  YEARLY: 'year',
+  QUARTERLY: 'quarter',
+  MONTHLY: 'month',
+  WEEKLY: 'week',
+  DAILY: 'day',
+  HOURLY: 'hour',
+  MINUTELY: 'minute',
+  SECONDLY: 'second',
+  MILLISECONDLY: 'millisecond',
+};
+
+const LUNAR_PHASE_NAMES: { [P in RuleOption.LunarPhase]: string } = {
+  NEW_MOON: 'new moon',
+  FIRST_QUARTER: 'first quarter moon',
+  FULL_MOON: 'full moon',
+  LAST_QUARTER: 'last quarter moon',
+};
+
+const SOLAR_EVENT_NAMES: { [E in RuleOption.SolarEvent]: string } = {
+  SUNRISE: 'sunrise',
+  SUNSET: 'sunset',
+  SOLAR_NOON: 'solar noon',
+  CIVIL_DAWN: 'civil dawn',
+  CIVIL_DUSK: 'civil dusk',
+};
+
+const RSCALE_NAMES: { [R in RuleOption.RScale]: string } = {
+  GREGORIAN: 'Gregorian',
+  HEBREW: 'Hebrew',
+  'ISLAMIC-CIVIL': 'Islamic civil',
+  CHINESE: 'Chinese',
+};
+
+const DURATION_UNITS: Array<[number, string]> = [
+  [DateAdapter.MILLISECONDS_IN_DAY, 'day'],
+  [DateAdapter.MILLISECONDS_IN_HOUR, 'hour'],
+  [DateAdapter.MILLISECONDS_IN_MINUTE, 'minute'],
+  [DateAdapter.MILLISECONDS_IN_SECOND, 'second'],
+  [1, 'millisecond'],
+];
+
+function plural(count: number, unit: string) {
+  return count === 1 ? `1 ${unit}` : `${count} ${unit}s`;
+}
+
+function pad(n: number) {
+  return n < 10 ? `0${n}` : `${n}`;
+}
+
+export const ENGLISH_LOCALE: ITextLocale = {
+  weekdays: {
+    MO: 'Monday',
+    TU: 'Tuesday',
+    WE: 'Wednesday',
+    TH: 'Thursday',
+    FR: 'Friday',
+    SA: 'Saturday',
+    SU: 'Sunday',
+  },
+  months: [
+    'January',
+    'February',
+    'March',
+    'April',
+    'May',
+    'June',
+    'July',
+    'August',
+    'September',
+    'October',
+    'November',
+    'December',
+  ],
+  ordinal(n) {
+    if (n === -1) return 'last';
+    if (n < 0) return `${this.ordinal(-n)} to last`;
+
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+
+    return `${n}${suffix}`;
+  },
+  list(items, conjunction) {
+    if (items.length <= 1) return items.join('');
+
+    return `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`;
+  },
+  formatDate(date) {
+    const datetime = date.toDateTime();
+
+    const text = `${this.months[datetime.get('month') - 1].slice(0, 3)} ${datetime.get(
+      'day',
+    )}, ${datetime.get('year')}`;
+
+    const hour = datetime.get('hour');
+    const minute = datetime.get('minute');
+    const second = datetime.get('second');
+
+    if (hour === 0 && minute === 0 && second === 0) return text;
+
+    return `${text} at ${this.formatTime(hour, minute, second)}`;
+  },
+  formatTime(hour, minute, second) {
+    const time = `${hour % 12 || 12}:${pad(minute)}${second ? `:${pad(second)}` : ''}`;
+
+    return `${time} ${hour < 12 ? 'AM' : 'PM'}`;
+  },
+  frequency(frequency, interval) {
+    const unit = FREQUENCY_UNITS[frequency];
+
+    return interval === 1 ? `every ${unit}` : `every ${plural(interval, unit)}`;
+  },
+  byWeekOfYear(weeks) {
+    return `in the ${this.list(weeks.map(week => this.ordinal(week)), 'and')} week of the year`;
+  },
+  byQuarterOfYear(quarters) {
+    return `in the ${this.list(quarters.map(quarter => this.ordinal(quarter)), 'and')} quarter`;
+  },
+  byMonthOfYear(months, rscale) {
+    const names = months.map(month => {
+      const leap = typeof month === 'string';
+      const index = typeof month === 'string' ? parseInt(month, 10) : month;
+
+      if (rscale && rscale !== 'GREGORIAN') {
+        return `the ${leap ? 'leap ' : ''}${this.ordinal(index)} month`;
+      }
+
+      return `${leap ? 'leap ' : ''}${this.months[index - 1]}`;
+    });
+
+    return `in ${this.list(names, 'and')}`;
+  },
+  byFiscalPeriod(periods) {
+    return `in the ${this.list(periods.map(period => this.ordinal(period)), 'and')} fiscal period`;
+  },
+  byDayOfYear(days) {
+    return `on the ${this.list(days.map(day => this.ordinal(day)), 'and')} day of the year`;
+  },
+  byDayOfFiscalPeriod(days) {
+    return `on the ${this.list(
+      days.map(day => this.ordinal(day)),
+      'and',
+    )} day of the fiscal period`;
+  },
+  byDayOfMonth(days) {
+    return `on the ${this.list(days.map(day => this.ordinal(day)), 'and')} day of the month`;
+  },
+  byDayOfWeek(days) {
+    const names = days.map(day =>
+      Array.isArray(day)
+        ? `the ${this.ordinal(day[1])} ${this.weekdays[day[0]]}`
+        : this.weekdays[day],
+    );
+
+    return `on ${this.list(names, 'and')}`;
+  },
+  byEaster(offsets, calendar) {
+    const easter = calendar === 'ORTHODOX' ? 'Orthodox Easter Sunday' : 'Easter Sunday';
+
+    const names = offsets.map(offset =>
+      offset === 0
+        ? easter
+        : `${plural(Math.abs(offset), 'day')} ${offset < 0 ? 'before' : 'after'} ${easter}`,
+    );
+
+    return `on ${this.list(names, 'and')}`;
+  },
+  byLunarPhase(phases, time) {
+    const names = this.list(phases.map(phase => LUNAR_PHASE_NAMES[phase]), 'and');
+
+    return time === 'EXACT' ? `at the moment of the ${names}` : `on the day of the ${names}`;
+  },
+  bySolarEvent(events, location) {
+    const names = events.map(event => {
+      if (!Array.isArray(event) || event[1] === 0) {
+        return SOLAR_EVENT_NAMES[Array.isArray(event) ? event[0] : event];
+      }
+
+      const [name, offset] = event;
+
+      return `${plural(Math.abs(offset), 'minute')} ${offset < 0 ? 'before' : 'after'} ${
+        SOLAR_EVENT_NAMES[name]
+      }`;
+    });
+
+    const text = `at ${this.list(names, 'and')}`;
+
+    if (!location) return text;
+
+    return `${text} (at latitude ${location.latitude}, longitude ${location.longitude})`;
+  },
+  byTimeOfDay(windows) {
+    const format = (time: string) => {
+      const [hour, minute, second] = time.split(':').map(part => parseInt(part, 10));
+      return this.formatTime(hour, minute, second || 0);
+    };
+
+    return `between ${this.list(
+      windows.map(([start, end]) => `${format(start)} and ${format(end)}`),
+      'or',
+    )}`;
+  },
+  times(times) {
+    return `at ${this.list(times.map(time => this.formatTime(...time)), 'and')}`;
+  },
+  byMinuteOfHour(minutes) {
+    return `at ${this.list(minutes.map(String), 'and')} minutes past the hour`;
+  },
+  bySecondOfMinute(seconds) {
+    return `at ${this.list(seconds.map(String), 'and')} seconds past the minute`;
+  },
+  byMillisecondOfSecond(milliseconds) {
+    return `at ${this.list(milliseconds.map(String), 'and')} milliseconds past the second`;
+  },
+  bySetPosition(positions, frequency) {
+    return `but only the ${this.list(
+      positions.map(position => this.ordinal(position)),
+      'and',
+    )} occurrence of each ${FREQUENCY_UNITS[frequency]}`;
+  },
+  duration(milliseconds) {
+    let remainder = milliseconds;
+
+    const parts = DURATION_UNITS.map(([length, unit]) => {
+      const count = Math.floor(remainder / length);
+      remainder -= count * length;
+      return count === 0 ? '' : plural(count, unit);
+    }).filter(part => !!part);
+
+    return `lasting ${this.list(parts, 'and')}`;
+  },
+  count(count) {
+    return count === 1 ? 'once' : `${count} times`;
+  },
+  end(end) {
+    return `until ${this.formatDate(end)}`;
+  },
+  weekStart(weekday) {
+    return `with weeks starting on ${this.weekdays[weekday]}`;
+  },
+  fiscalYearStart(month) {
+    return `with the fiscal year starting in ${this.months[month - 1]}`;
+  },
+  fiscalCalendar(calendar) {
+    const weekday = this.weekdays[calendar.yearEndWeekday];
+    const month = this.months[calendar.yearEndMonth - 1];
+
+    const yearEnd =
+      calendar.yearEnd === 'LAST'
+        ? `the last ${weekday} of ${month}`
+        : `the ${weekday} nearest the end of ${month}`;
+
+    return `using a ${calendar.pattern} fiscal calendar whose year ends on ${yearEnd}`;
+  },
+  skip(skip) {
+    switch (skip) {
+      case 'BACKWARD':
+        return "moving days which don't exist to the previous day";
+      case 'FORWARD':
+        return "moving days which don't exist to the next day";
+      default:
+        return "skipping days which don't exist";
+    }
+  },
+  rscale(rscale) {
+    return `using the ${RSCALE_NAMES[rscale]} calendar`;
+  },
+  rule(phrases) {
+    return phrases.join(' ');
+  },
+  schedule(parts) {
+    const included = parts.rrules.slice();
+    const excluded = parts.exrules.slice();
+
+    if (parts.rdates.length > 0) {
+      included.push(`on ${this.list(parts.rdates, 'and')}`);
+    }
+
+    if (parts.exdates.length > 0) {
+      excluded.push(`on ${this.list(parts.exdates, 'and')}`);
+    }
+
+    if (included.length === 0) return 'never';
+
+    const text = this.list(included, 'and');
+
+    if (excluded.length === 0) return text;
+
+    return `${text} except ${this.list(excluded, 'or')}`;
+  },
+  sentence(text) {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+};
@@ -0,0 +1,184 @@
+import { DateAdapter, dateInputToDateAdapter, IRuleOptions } from '@rschedule/core';
+import { RuleBase, ScheduleBase } from '@rschedule/core/generators';
+
+import { ENGLISH_LOCALE, ITextLocale } from './locale';
+
+export interface IToTextOptions {
+  /** The locale bundle used to describe the object. Defaults to `ENGLISH_LOCALE`. */
+  locale?: ITextLocale;
+  /** Overrides the locale's `formatDate()` function */
+  formatDate?: (date: DateAdapter) => string;
+}
+
+/**
+ * Describes a rule (e.g. a `Rule` or `RRule`), rule options object or schedule
+ * (e.g. a `Schedule` or `VEvent`) in natural language.
+ *
+ * ```ts
+ * toText(
+ *   new Rule({
+ *     start: new Date(2027, 0, 4),
+ *     end: new Date(2027, 5, 5),
+ *     frequency: 'WEEKLY',
+ *     interval: 2,
+ *     byDayOfWeek: ['MO', 'WE'],
+ *   }),
+ * ); // "Every 2 weeks on Monday and Wednesday until Jun 5, 2027"
+ * ```
+ */
+export function toText(
+  object: RuleBase<any, any> | ScheduleBase | IRuleOptions,
+  options: IToTextOptions = {},
+): string {
+  const locale: ITextLocale = options.formatDate
+    ? { ...(options.locale || ENGLISH_LOCALE), formatDate: options.formatDate }
+    : options.locale || ENGLISH_LOCALE;
+
+  if (object instanceof ScheduleBase) {
+    return locale.sentence(
+      locale.schedule({
+        rrules: object.rrules.map(rule => ruleText(rule.options, locale)),
+        exrules: object.exrules.map(rule => ruleText(rule.options, locale)),
+        rdates: object.rdates.adapters.map(date => locale.formatDate(date)),
+        exdates: object.exdates.adapters.map(date => locale.formatDate(date)),
+      }),
+    );
+  }
+
+  return locale.sentence(
+    ruleText(object instanceof RuleBase ? object.options : (object as IRuleOptions), locale),
+  );
+}
+
+function ruleText(options: IRuleOptions, locale: ITextLocale) {
+  const phrases = [locale.frequency(options.frequency, options.interval || 1)];
+
+  if (options.byWeekOfYear) {
+    phrases.push(locale.byWeekOfYear(options.byWeekOfYear));
+  }
+
+  if (options.byQuarterOfYear) {
+    phrases.push(locale.byQuarterOfYear(options.byQuarterOfYear));
+  }
+
+  if (options.byMonthOfYear) {
+    phrases.push(locale.byMonthOfYear(options.byMonthOfYear, options.rscale));
+  }
+
+  if (options.byFiscalPeriod) {
+    phrases.push(locale.byFiscalPeriod(options.byFiscalPeriod));
+  }
+
+  if (options.byDayOfYear) {
+    phrases.push(locale.byDayOfYear(options.byDayOfYear));
+  }
+
+  if (options.byDayOfFiscalPeriod) {
+    phrases.push(locale.byDayOfFiscalPeriod(options.byDayOfFiscalPeriod));
+  }
+
+  if (options.byDayOfMonth) {
+    phrases.push(locale.byDayOfMonth(options.byDayOfMonth));
+  }
+
+  if (options.byDayOfWeek) {
+    phrases.push(locale.byDayOfWeek(options.byDayOfWeek));
+  }
+
+  if (options.byEaster) {
+    phrases.push(locale.byEaster(options.byEaster, options.easterCalendar));
+  }
+
+  if (options.byLunarPhase) {
+    phrases.push(locale.byLunarPhase(options.byLunarPhase, options.lunarPhaseTime));
+  }
+
+  if (options.bySolarEvent) {
+    phrases.push(locale.bySolarEvent(options.bySolarEvent, options.solarLocation));
+  }
+
+  if (options.byTimeOfDay) {
+    phrases.push(locale.byTimeOfDay(options.byTimeOfDay));
+  }
+
+  phrases.push(...timePhrases(options, locale));
+
+  if (options.bySetPosition) {
+    phrases.push(locale.bySetPosition(options.bySetPosition, options.frequency));
+  }
+
+  if (options.duration) {
+    phrases.push(locale.duration(options.duration));
+  }
+
+  if (options.count !== undefined) {
+    phrases.push(locale.count(options.count));
+  }
+
+  if (options.end) {
+    phrases.push(locale.end(dateInputToDateAdapter(options.end)));
+  }
+
+  if (options.weekStart) {
+    phrases.push(locale.weekStart(options.weekStart));
+  }
+
+  if (options.fiscalYearStart) {
+    phrases.push(locale.fiscalYearStart(options.fiscalYearStart));
+  }
+
+  if (options.fiscalCalendar) {
+    phrases.push(locale.fiscalCalendar(options.fiscalCalendar));
+  }
+
+  if (options.skip) {
+    phrases.push(locale.skip(options.skip));
+  }
+
+  if (options.rscale) {
+    phrases.push(locale.rscale(options.rscale));
+  }
+
+  return locale.rule(phrases);
+}
+
+/**
+ * When `byHourOfDay` is present, the time options are described as a list of times
+ * (using the time of `start` for any missing minute or second options).
+ * Otherwise each time option is described on its own.
+ */
+function timePhrases(options: IRuleOptions, locale: ITextLocale) {
+  const phrases: string[] = [];
+
+  if (options.byHourOfDay) {
+    const start = dateInputToDateAdapter(options.start).toDateTime();
+    const minutes = options.byMinuteOfHour || [start.get('minute')];
+    const seconds = options.bySecondOfMinute || [start.get('second')];
+
+    const times: Array<[number, number, number]> = [];
+
+    options.byHourOfDay.forEach(hour => {
+      minutes.forEach(minute => {
+        seconds.forEach(second => {
+          times.push([hour, minute, second]);
+        });
+      });
+    });
+
+    phrases.push(locale.times(times));
+  } else {
+    if (options.byMinuteOfHour) {
+      phrases.push(locale.byMinuteOfHour(options.byMinuteOfHour));
+    }
+
+    if (options.bySecondOfMinute) {
+      phrases.push(locale.bySecondOfMinute(options.bySecondOfMinute));
+    }
+  }
+
+  if (options.byMillisecondOfSecond) {
+    phrases.push(locale.byMillisecondOfSecond(options.byMillisecondOfSecond));
+  }
+
+  return phrases;
+}
@@ -0,0 +1,11 @@
+import { build } from '@local-tasks/utils';
+
+console.log('building packages/text-tools');
+
+build({
+  rollupCommands: ['yarn rollup -c'],
+  declarationPath: './build/es2015/packages/text-tools/src',
+}).catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,190 @@
+import { DateAdapterBase } from '@rschedule/core';
+
+import { context, dateAdapterFn, TIMEZONES } from '../../../tests/utilities';
+
+import { ENGLISH_LOCALE, toText } from '@rschedule/text-tools';
+
+import { Rule, Schedule } from '@rschedule/core/generators';
+
+export default function textToolsTests() {
+  context(DateAdapterBase.adapter.name, () => {
+    const zones = !DateAdapterBase.adapter.hasTimezoneSupport ? [null, 'UTC'] : TIMEZONES;
+
+    zones.forEach(zone => {
+      // function to create new dateAdapter instances
+      const dateAdapter = dateAdapterFn(zone);
+
+      context(zone, timezone => {
+        describe('toText()', () => {
+          describe('Rule', () => {
+            it('frequency, interval, byDayOfWeek and end', () => {
+              expect(
+                toText(
+                  new Rule({
+                    start: dateAdapter(2027, 1, 4),
+                    end: dateAdapter(2027, 6, 5),
+                    frequency: 'WEEKLY',
+                    interval: 2,
+                    byDayOfWeek: ['MO', 'WE'],
+                  }),
+                ),
+              ).toBe('Every 2 weeks on Monday and Wednesday until Jun 5, 2027');
+            });
+
+            it('nth weekdays and count', () => {
+              expect(
+                toText({
+                  start: dateAdapter(2019, 1, 1),
+                  frequency: 'MONTHLY',
+                  byDayOfWeek: [['TU', 2], ['FR', -1]],
+                  count: 10,
+                }),
+              ).toBe('Every month on the 2nd Tuesday and the last Friday 10 times');
+            });
+
+            it('byMonthOfYear and byDayOfMonth', () => {
+              expect(
+                toText({
+                  start: dateAdapter(2019, 1, 1),
+                  frequency: 'YEARLY',
+                  byMonthOfYear: [1, 3],
+                  byDayOfMonth: [1, -1],
+                }),
+              ).toBe('Every year in January and March on the 1st and last day of the month');
+            });
+
+            it('byHourOfDay and byMinuteOfHour', () => {
+              expect(
+                toText({
+                  start: dateAdapter(2019, 1, 1, 9, 30),
+                  frequency: 'DAILY',
+                  byHourOfDay: [9, 17],
+                }),
+              ).toBe('Every day at 9:30 AM and 5:30 PM');
+
+              expect(
+                toText({
+                  start: dateAdapter(2019, 1, 1),
+                  frequency: 'HOURLY',
+                  byMinuteOfHour: [0, 30],
+                }),
+              ).toBe('Every hour at 0 and 30 minutes past the hour');
+            });
+
+            it('byTimeOfDay', () => {
+              expect(
+                toText({
+                  start: dateAdapter(2019, 1, 1, 9),
+                  frequency: 'HOURLY',
+                  byTimeOfDay: [['09:00', '12:00'], ['13:00', '17:30']],
+                }),
+              ).toBe('Every hour between 9:00 AM and 12:00 PM or 1:00 PM and 5:30 PM');
+            });
+
+            it('byEaster', () => {
+              expect(
+                toText({
+                  start: dateAdapter(2019, 1, 1),
+                  frequency: 'YEARLY',
+                  byEaster: [-2, 0],
+                  easterCalendar: 'ORTHODOX',
+                }),
+              ).toBe(
+                'Every year on 2 days before Orthodox Easter Sunday and Orthodox Easter Sunday',
+              );
+            });
+
+            it('bySolarEvent and byLunarPhase', () => {
+              expect(
+                toText({
+                  start: dateAdapter(2019, 1, 1),
+                  frequency: 'DAILY',
+                  bySolarEvent: ['SUNRISE', ['SUNSET', 30]],
+                  solarLocation: { latitude: 51.4769, longitude: -0.0005 },
+                }),
+              ).toBe(
+                'Every day at sunrise and 30 minutes after sunset ' +
+                  '(at latitude 51.4769, longitude -0.0005)',
+              );
+
+              expect(
+                toText({
+                  start: dateAdapter(2019, 1, 1),
+                  frequency: 'MONTHLY',
+                  byLunarPhase: ['FULL_MOON'],
+                }),
+              ).toBe('Every month on the day of the full moon');
+            });
+
+            it('bySetPosition, duration and skip', () => {
+              expect(
+                toText({
+                  start: dateAdapter(2019, 1, 1, 9),
+                  frequency: 'MONTHLY',
+                  byDayOfMonth: [31],
+                  bySetPosition: [-1],
+                  duration: 90 * 60 * 1000,
+                  skip: 'BACKWARD',
+                }),
+              ).toBe(
+                'Every month on the 31st day of the month but only the last occurrence of ' +
+                  'each month lasting 1 hour and 30 minutes moving days which ' +
+                  "don't exist to the previous day",
+              );
+            });
+          });
+
+          describe('Schedule', () => {
+            it('rrules, exrules, rdates and exdates', () => {
+              expect(
+                toText(
+                  new Schedule({
+                    timezone,
+                    rrules: [{ start: dateAdapter(2020, 1, 6, 9), frequency: 'WEEKLY', count: 4 }],
+                    exrules: [
+                      {
+                        start: dateAdapter(2020, 1, 6, 9),
+                        frequency: 'MONTHLY',
+                        byDayOfWeek: [['MO', 2]],
+                      },
+                    ],
+                    rdates: [dateAdapter(2020, 1, 1, 9)],
+                    exdates: [dateAdapter(2020, 1, 20, 9)],
+                  }),
+                ),
+              ).toBe(
+                'Every week 4 times and on Jan 1, 2020 at 9:00 AM except every month on ' +
+                  'the 2nd Monday or on Jan 20, 2020 at 9:00 AM',
+              );
+            });
+
+            it('empty', () => {
+              expect(toText(new Schedule())).toBe('Never');
+            });
+          });
+
+          it('custom locale and date formatting', () => {
+            expect(
+              toText(
+                new Rule({
+                  start: dateAdapter(2019, 1, 1),
+                  end: dateAdapter(2019, 6, 5),
+                  frequency: 'WEEKLY',
+                  byDayOfWeek: ['MO'],
+                }),
+                {
+                  locale: {
+                    ...ENGLISH_LOCALE,
+                    weekdays: { ...ENGLISH_LOCALE.weekdays, MO: 'Mon' },
+                  },
+                  formatDate: date =>
+                    `${date.toDateTime().get('month')}/${date.toDateTime().get('day')}`,
+                },
+              ),
+            ).toBe('Every week on Mon until 6/5');
+          });
+        });
+      });
+    });
+  });
+}